@@ -0,0 +1,119 @@
+const fs = require('fs');
+const path = require('path');
+const chalk = require('chalk');
+
+const STATE_COLORS = {
+  applied: chalk.green,
+  pending: chalk.yellow,
+  changed: chalk.red,
+  missing: chalk.red,
+};
+
+function loadStellar() {
+  try {
+    return {
+      ...require('../../dist/server/database'),
+      ...require('../../dist/server/migrations'),
+    };
+  } catch {
+    throw new Error('StellarJS is not built. Run `npm run build` first.');
+  }
+}
+
+// TypeScript migrations need ts-node in the project
+function registerTypeScript(directory) {
+  const hasTypeScript =
+    fs.existsSync(directory) && fs.readdirSync(directory).some((file) => file.endsWith('.ts'));
+  if (!hasTypeScript) return;
+
+  try {
+    require(require.resolve('ts-node/register', { paths: [process.cwd()] }));
+  } catch {
+    throw new Error('TypeScript migrations need ts-node. Run `npm install --save-dev ts-node`.');
+  }
+}
+
+async function createMigration(name, options) {
+  if (!name) {
+    throw new Error('Usage: stellar migrate create <name>');
+  }
+
+  const { createMigrationFile } = loadStellar();
+  const directory = path.resolve(process.cwd(), options.dir);
+  const filePath = createMigrationFile(directory, name, options.ts ? 'ts' : 'js');
+  console.log(chalk.green(`\n✨ Created ${path.relative(process.cwd(), filePath)}\n`));
+}
+
+async function runMigrations(action, options) {
+  const uri = options.uri || process.env.MONGODB_URI || process.env.MONGO_URI;
+  if (!uri) {
+    throw new Error('No database URI. Pass --uri or set MONGODB_URI.');
+  }
+
+  const directory = path.resolve(process.cwd(), options.dir);
+  registerTypeScript(directory);
+
+  const { DatabaseManager, MigrationRunner } = loadStellar();
+  const db = new DatabaseManager({ uri, retry: { maxRetries: 0 } });
+  await db.connect();
+
+  try {
+    const runner = new MigrationRunner({ db, directory });
+
+    if (action === 'status') {
+      const statuses = await runner.status();
+      if (statuses.length === 0) {
+        console.log(chalk.yellow('\nNo migrations found\n'));
+        return;
+      }
+
+      console.log('');
+      statuses.forEach((status) => {
+        const color = STATE_COLORS[status.state];
+        const appliedAt = status.appliedAt ? chalk.gray(` ${status.appliedAt.toISOString()}`) : '';
+        console.log(`  ${color(status.state.padEnd(8))} ${status.id}_${status.name}${appliedAt}`);
+      });
+      console.log('');
+      return;
+    }
+
+    const dryRun = Boolean(options.dryRun);
+    const ids =
+      action === 'up'
+        ? await runner.up({ to: options.to, dryRun })
+        : await runner.down({
+            to: options.to,
+            steps: options.steps ? parseInt(options.steps, 10) : undefined,
+            dryRun,
+          });
+
+    if (ids.length === 0) {
+      console.log(chalk.yellow(`\nNothing to ${action === 'up' ? 'apply' : 'revert'}\n`));
+      return;
+    }
+
+    const verb = action === 'up' ? 'Applied' : 'Reverted';
+    console.log(chalk.green(`\n✨ ${dryRun ? `Would have ${verb.toLowerCase()}` : verb}:`));
+    ids.forEach((id) => console.log(chalk.cyan(`  ${id}`)));
+    console.log('');
+  } finally {
+    await db.disconnect();
+  }
+}
+
+async function migrate(action, name, options) {
+  switch (action) {
+    case 'create':
+      return createMigration(name, options);
+    case 'up':
+    case 'down':
+    case 'status':
+      return runMigrations(action, options);
+    default:
+      throw new Error(`Unknown migrate command: ${action}. Use create, up, down or status.`);
+  }
+}
+
+module.exports = {
+  migrate,
+};
@@ -95,6 +95,26 @@ program
     }
   });
 
+// Database migrations
+program
+  .command('migrate <action> [name]')
+  .description('Manage database migrations (create, up, down, status)')
+  .option('-d, --dir <path>', 'Migrations directory', 'migrations')
+  .option('--uri <uri>', 'MongoDB URI (default: $MONGODB_URI)')
+  .option('--to <id>', 'Migrate up to, or down to, this migration id')
+  .option('--steps <count>', 'Number of migrations to revert with down', '1')
+  .option('--dry-run', 'Show what would run without running it', false)
+  .option('--ts', 'Create a TypeScript migration', false)
+  .action(async (action, name, options) => {
+    try {
+      const { migrate } = require('./commands/migrate');
+      await migrate(action, name, options);
+    } catch (error) {
+      console.error(chalk.red('\nError running migrations:'), error.message);
+      process.exit(1);
+    }
+  });
+
 // Deploy
 program
   .command('deploy <server-type>')
@@ -1,30 +1,19 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
+import {
+  useService,
+  usePaginatedService,
+  useServiceMutation,
+  serviceQueryKey,
+  paginationInput,
+} from '@rahmanazhar/stellar-js';
+import { Todo, Stats, TodoFilter, TodoInput } from './todoService';
 import './App.css';
 
-interface Todo {
-  id: string;
-  title: string;
-  description: string;
-  completed: boolean;
-  createdAt: string;
-  updatedAt: string;
-}
-
-interface Stats {
-  total: number;
-  completed: number;
-  incomplete: number;
-  completionRate: number;
-}
-
-const API_URL = 'http://localhost:3001/api';
+const PAGE_SIZE = 20;
 
 function App() {
-  const [todos, setTodos] = useState<Todo[]>([]);
-  const [stats, setStats] = useState<Stats | null>(null);
-  const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [filter, setFilter] = useState<'all' | 'active' | 'completed'>('all');
+  const [filter, setFilter] = useState<TodoFilter>('all');
 
   // Form state
   const [newTitle, setNewTitle] = useState('');
@@ -33,187 +22,110 @@ function App() {
   const [editTitle, setEditTitle] = useState('');
   const [editDescription, setEditDescription] = useState('');
 
-  // Fetch todos
-  const fetchTodos = async () => {
-    setLoading(true);
-    setError(null);
-    try {
-      const url =
-        filter === 'all'
-          ? `${API_URL}/todos`
-          : `${API_URL}/todos?completed=${filter === 'completed'}`;
-
-      const response = await fetch(url);
-      const data = await response.json();
+  // Pages are cached per filter and refetched whenever a mutation invalidates them
+  const query = filter === 'all' ? undefined : { completed: filter === 'completed' };
+  const todosQuery = usePaginatedService<Todo>('todos', 'list', { limit: PAGE_SIZE, query });
+  const statsQuery = useService<Stats>('todos', 'stats', { immediate: true });
+  const todos = todosQuery.data;
+  const stats = statsQuery.data;
+  const loading = todosQuery.loading && !todosQuery.pagination;
+
+  // Cache key of the page on screen, for the optimistic updates below
+  const listKey = serviceQueryKey('todos', 'list', [
+    paginationInput(query, { page: todosQuery.page, limit: PAGE_SIZE }),
+  ]);
+  const invalidates = [serviceQueryKey('todos')];
+  const onError = (err: Error) => setError(err.message);
 
-      if (data.success) {
-        setTodos(data.data);
-      } else {
-        setError(data.error || 'Failed to fetch todos');
-      }
-    } catch (err) {
-      setError('Failed to connect to server');
-      console.error('Error fetching todos:', err);
-    } finally {
-      setLoading(false);
-    }
+  // Start editing
+  const startEdit = (todo: Todo) => {
+    setEditingId(todo.id);
+    setEditTitle(todo.title);
+    setEditDescription(todo.description);
   };
 
-  // Fetch stats
-  const fetchStats = async () => {
-    try {
-      const response = await fetch(`${API_URL}/todos/stats`);
-      const data = await response.json();
-      if (data.success) {
-        setStats(data.data);
-      }
-    } catch (err) {
-      console.error('Error fetching stats:', err);
-    }
+  // Cancel editing
+  const cancelEdit = () => {
+    setEditingId(null);
+    setEditTitle('');
+    setEditDescription('');
   };
 
+  const createTodo = useServiceMutation<Todo, TodoInput>('todos', 'create', {
+    invalidates,
+    onError,
+    onSuccess: () => {
+      setNewTitle('');
+      setNewDescription('');
+    },
+  });
+
+  const updateTodo = useServiceMutation<Todo, TodoInput & { id: string }>('todos', 'update', {
+    invalidates,
+    onError,
+    onSuccess: cancelEdit,
+  });
+
+  // Toggling and deleting update the list immediately and roll back if the request fails
+  const toggleTodo = useServiceMutation<Todo, string>('todos', 'toggle', {
+    optimistic: [
+      {
+        queryKey: listKey,
+        update: (current: Todo[] = [], id) =>
+          current.map((todo) => (todo.id === id ? { ...todo, completed: !todo.completed } : todo)),
+      },
+    ],
+    invalidates,
+    onError,
+  });
+
+  const deleteTodo = useServiceMutation<void, string>('todos', 'remove', {
+    optimistic: [
+      {
+        queryKey: listKey,
+        update: (current: Todo[] = [], id) => current.filter((todo) => todo.id !== id),
+      },
+    ],
+    invalidates,
+    onError,
+  });
+
+  const deleteCompleted = useServiceMutation<void, void>('todos', 'removeCompleted', {
+    invalidates,
+    onError,
+  });
+
   // Create todo
-  const handleCreate = async (e: React.FormEvent) => {
+  const handleCreate = (e: React.FormEvent) => {
     e.preventDefault();
     if (!newTitle.trim()) return;
 
-    try {
-      const response = await fetch(`${API_URL}/todos`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          title: newTitle,
-          description: newDescription,
-        }),
-      });
-
-      const data = await response.json();
-      if (data.success) {
-        setNewTitle('');
-        setNewDescription('');
-        fetchTodos();
-        fetchStats();
-      } else {
-        setError(data.error || 'Failed to create todo');
-      }
-    } catch (err) {
-      setError('Failed to create todo');
-      console.error('Error creating todo:', err);
-    }
+    createTodo.mutate({ title: newTitle, description: newDescription });
   };
 
   // Update todo
-  const handleUpdate = async (id: string) => {
+  const handleUpdate = (id: string) => {
     if (!editTitle.trim()) return;
 
-    try {
-      const response = await fetch(`${API_URL}/todos/${id}`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          title: editTitle,
-          description: editDescription,
-        }),
-      });
-
-      const data = await response.json();
-      if (data.success) {
-        setEditingId(null);
-        setEditTitle('');
-        setEditDescription('');
-        fetchTodos();
-      } else {
-        setError(data.error || 'Failed to update todo');
-      }
-    } catch (err) {
-      setError('Failed to update todo');
-      console.error('Error updating todo:', err);
-    }
+    updateTodo.mutate({ id, title: editTitle, description: editDescription });
   };
 
   // Toggle todo
-  const handleToggle = async (id: string) => {
-    try {
-      const response = await fetch(`${API_URL}/todos/${id}/toggle`, {
-        method: 'PATCH',
-      });
-
-      const data = await response.json();
-      if (data.success) {
-        fetchTodos();
-        fetchStats();
-      } else {
-        setError(data.error || 'Failed to toggle todo');
-      }
-    } catch (err) {
-      setError('Failed to toggle todo');
-      console.error('Error toggling todo:', err);
-    }
-  };
+  const handleToggle = (id: string) => toggleTodo.mutate(id);
 
   // Delete todo
-  const handleDelete = async (id: string) => {
+  const handleDelete = (id: string) => {
     if (!window.confirm('Are you sure you want to delete this todo?')) return;
-
-    try {
-      const response = await fetch(`${API_URL}/todos/${id}`, {
-        method: 'DELETE',
-      });
-
-      const data = await response.json();
-      if (data.success) {
-        fetchTodos();
-        fetchStats();
-      } else {
-        setError(data.error || 'Failed to delete todo');
-      }
-    } catch (err) {
-      setError('Failed to delete todo');
-      console.error('Error deleting todo:', err);
-    }
+    deleteTodo.mutate(id);
   };
 
   // Delete completed
-  const handleDeleteCompleted = async () => {
+  const handleDeleteCompleted = () => {
     if (!window.confirm('Delete all completed todos?')) return;
-
-    try {
-      const response = await fetch(`${API_URL}/todos`, {
-        method: 'DELETE',
-      });
-
-      const data = await response.json();
-      if (data.success) {
-        fetchTodos();
-        fetchStats();
-      } else {
-        setError(data.error || 'Failed to delete completed todos');
-      }
-    } catch (err) {
-      setError('Failed to delete completed todos');
-      console.error('Error deleting completed todos:', err);
-    }
+    deleteCompleted.mutate();
   };
 
-  // Start editing
-  const startEdit = (todo: Todo) => {
-    setEditingId(todo.id);
-    setEditTitle(todo.title);
-    setEditDescription(todo.description);
-  };
-
-  // Cancel editing
-  const cancelEdit = () => {
-    setEditingId(null);
-    setEditTitle('');
-    setEditDescription('');
-  };
-
-  // Load data on mount and filter change
-  useEffect(() => {
-    fetchTodos();
-    fetchStats();
-  }, [filter]);
+  const errorMessage = error || todosQuery.error?.message;
 
   return (
     <div className="app">
@@ -222,9 +134,9 @@ function App() {
         <p>Todo Application with Full CRUD Operations</p>
       </header>
 
-      {error && (
+      {errorMessage && (
         <div className="error-banner">
-          {error}
+          {errorMessage}
           <button onClick={() => setError(null)}>✕</button>
         </div>
       )}
@@ -355,6 +267,21 @@ function App() {
           ))
         )}
       </div>
+
+      {/* Pagination */}
+      {(todosQuery.hasPreviousPage || todosQuery.hasNextPage) && (
+        <div className="filters">
+          <button onClick={todosQuery.previousPage} disabled={!todosQuery.hasPreviousPage}>
+            Previous
+          </button>
+          <span>
+            Page {todosQuery.page} of {todosQuery.pagination?.totalPages}
+          </span>
+          <button onClick={todosQuery.nextPage} disabled={!todosQuery.hasNextPage}>
+            Next
+          </button>
+        </div>
+      )}
     </div>
   );
 }
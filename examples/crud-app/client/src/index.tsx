@@ -1,11 +1,22 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
+import { StellarProvider, AppConfig } from '@rahmanazhar/stellar-js';
 import App from './App';
+import { API_URL, todoService } from './todoService';
+
+const config: AppConfig = {
+  apiUrl: API_URL,
+  auth: { jwtSecret: '' },
+  services: { todos: todoService },
+  query: { staleTime: 5000 },
+};
 
 const root = ReactDOM.createRoot(document.getElementById('root') as HTMLElement);
 
 root.render(
   <React.StrictMode>
-    <App />
+    <StellarProvider config={config}>
+      <App />
+    </StellarProvider>
   </React.StrictMode>
 );
@@ -0,0 +1,67 @@
+import type { ServiceResponse } from '@rahmanazhar/stellar-js';
+
+export interface Todo {
+  id: string;
+  title: string;
+  description: string;
+  completed: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Stats {
+  total: number;
+  completed: number;
+  incomplete: number;
+  completionRate: number;
+}
+
+export type TodoFilter = 'all' | 'active' | 'completed';
+
+export interface TodoInput {
+  title: string;
+  description: string;
+}
+
+export const API_URL = 'http://localhost:3001/api';
+
+const request = async <T>(path: string, init?: RequestInit): Promise<ServiceResponse<T>> => {
+  const response = await fetch(`${API_URL}${path}`, {
+    headers: { 'Content-Type': 'application/json' },
+    ...init,
+  });
+  const body = await response.json();
+
+  if (!body.success) {
+    throw new Error(body.error || `Request failed with status ${response.status}`);
+  }
+
+  return { data: body.data, status: response.status, pagination: body.pagination };
+};
+
+// `{ completed: true, page: 2 }` -> `?completed=true&page=2`, skipping unset values
+const toQueryString = (query: Record<string, unknown> = {}) => {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined) params.set(key, String(value));
+  });
+  const search = params.toString();
+  return search ? `?${search}` : '';
+};
+
+/**
+ * Todo API, registered as the "todos" service in StellarProvider
+ */
+export const todoService = {
+  // Called by usePaginatedService with `{ query: { ...filters, page, limit } }`
+  list: ({ query }: { query?: Record<string, unknown> } = {}) =>
+    request<Todo[]>(`/todos${toQueryString(query)}`),
+  stats: () => request<Stats>('/todos/stats'),
+  create: (input: TodoInput) =>
+    request<Todo>('/todos', { method: 'POST', body: JSON.stringify(input) }),
+  update: ({ id, ...input }: TodoInput & { id: string }) =>
+    request<Todo>(`/todos/${id}`, { method: 'PUT', body: JSON.stringify(input) }),
+  toggle: (id: string) => request<Todo>(`/todos/${id}/toggle`, { method: 'PATCH' }),
+  remove: (id: string) => request<void>(`/todos/${id}`, { method: 'DELETE' }),
+  removeCompleted: () => request<void>('/todos', { method: 'DELETE' }),
+};
@@ -1,4 +1,5 @@
 import { Request, Response } from 'express';
+import { paginate, parsePagination, sendPaginated, ValidationError } from '@rahmanazhar/stellar-js';
 
 export interface Todo {
   id: string;
@@ -58,11 +59,12 @@ export class TodoService {
   }
 
   /**
-   * GET /todos - Get all todos
+   * GET /todos - Get a page of todos (`?page=&limit=`)
    */
   async getAllTodos(req: Request, res: Response): Promise<void> {
     try {
       const { completed } = req.query;
+      const pageParams = parsePagination(req.query, { defaultLimit: 50 });
       let todos = Array.from(this.todos.values());
 
       // Filter by completed status if provided
@@ -74,12 +76,15 @@ export class TodoService {
       // Sort by creation date (newest first)
       todos.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
 
-      res.json({
-        success: true,
-        data: todos,
-        count: todos.length,
-      });
+      sendPaginated(req, res, paginate(todos, pageParams));
     } catch (error) {
+      if (error instanceof ValidationError) {
+        res.status(400).json({
+          success: false,
+          error: error.message,
+        });
+        return;
+      }
       res.status(500).json({
         success: false,
         error: 'Failed to fetch todos',
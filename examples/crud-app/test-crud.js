@@ -95,8 +95,8 @@ async function runTests() {
     assert(status === 200, `Expected status 200, got ${status}`);
     assert(data.success === true, 'Should return success');
     assert(Array.isArray(data.data), 'Should return array of todos');
-    assert(data.count >= 0, 'Should return count');
-    log(`  Found ${data.count} todos`, 'blue');
+    assert(data.pagination.total >= 0, 'Should return pagination');
+    log(`  Found ${data.pagination.total} todos`, 'blue');
   });
 
   // Test 3: Get Stats
@@ -165,7 +165,7 @@ async function runTests() {
     assert(Array.isArray(data.data), 'Should return array');
     const allCompleted = data.data.every((todo) => todo.completed === true);
     assert(allCompleted, 'All todos should be completed');
-    log(`  Found ${data.count} completed todos`, 'blue');
+    log(`  Found ${data.pagination.total} completed todos`, 'blue');
   });
 
   // Test 9: Filter Active Todos
@@ -175,7 +175,7 @@ async function runTests() {
     assert(data.success === true, 'Should return success');
     const allIncomplete = data.data.every((todo) => todo.completed === false);
     assert(allIncomplete, 'All todos should be incomplete');
-    log(`  Found ${data.count} active todos`, 'blue');
+    log(`  Found ${data.pagination.total} active todos`, 'blue');
   });
 
   // Test 10: Delete Todo
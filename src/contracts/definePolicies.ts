@@ -0,0 +1,143 @@
+/**
+ * Permission policies shared by server and client.
+ *
+ * Roles map to permissions and may inherit the permissions of other roles.
+ * A permission is an action name such as `todo:update`; `todo:*` grants every
+ * `todo:` action and `*` grants everything. A permission may carry a
+ * condition on the user and the resource acted upon, e.g. to let owners
+ * update their own todos only.
+ *
+ * The server enforces the policies with `authService.authorize()`; the client
+ * uses the same object to show or hide UI with `useCan()` and `<Can>`.
+ *
+ * @example
+ * ```typescript
+ * export const policies = definePolicies({
+ *   roles: {
+ *     user: {
+ *       permissions: [
+ *         'todo:read',
+ *         'todo:create',
+ *         { action: 'todo:update', when: (user, todo: Todo) => todo.ownerId === user.id },
+ *       ],
+ *     },
+ *     admin: { inherits: ['user'], permissions: ['todo:*'] },
+ *   },
+ * });
+ *
+ * policies.can(user, 'todo:update', todo);
+ * ```
+ */
+
+/**
+ * User a permission is checked for; access token claims and AuthUser fit
+ */
+export interface PolicyUser {
+  id: string;
+  roles?: string[];
+}
+
+/**
+ * Permission granted only when `when` holds for the user and the resource
+ */
+export interface ConditionalPermission<TResource = unknown> {
+  action: string;
+  when(user: PolicyUser, resource: TResource): boolean;
+}
+
+export type Permission = string | ConditionalPermission;
+
+/**
+ * Permissions of a role, plus roles whose permissions it inherits
+ */
+export interface RoleDefinition {
+  permissions?: Permission[];
+  inherits?: string[];
+}
+
+export interface PolicyDefinition {
+  roles: Record<string, RoleDefinition>;
+}
+
+/**
+ * Policies returned by definePolicies
+ */
+export interface PolicySet {
+  readonly definition: PolicyDefinition;
+
+  /**
+   * Whether the user may perform `action`, on `resource` when given.
+   * Conditional permissions only apply when a resource is given.
+   */
+  can(user: PolicyUser | null | undefined, action: string, resource?: unknown): boolean;
+
+  /**
+   * Every permission the user's roles grant, inherited ones included
+   */
+  permissionsOf(user: PolicyUser | null | undefined): Permission[];
+}
+
+const matchesAction = (granted: string, action: string): boolean =>
+  granted === '*' ||
+  granted === action ||
+  (granted.endsWith(':*') && action.startsWith(granted.slice(0, -1)));
+
+/**
+ * Define permission policies. Throws when a role inherits an unknown role or
+ * inherits from itself.
+ */
+export function definePolicies(definition: PolicyDefinition): PolicySet {
+  const { roles } = definition;
+
+  // Permissions per role, inherited ones included
+  const resolved = new Map<string, Permission[]>();
+  const resolve = (role: string, path: string[]): Permission[] => {
+    const cached = resolved.get(role);
+    if (cached) {
+      return cached;
+    }
+    if (path.includes(role)) {
+      throw new Error(`Role "${role}" inherits from itself: ${[...path, role].join(' -> ')}`);
+    }
+
+    const { permissions = [], inherits = [] } = roles[role];
+    const all = [
+      ...permissions,
+      ...inherits.flatMap((parent) => {
+        if (!roles[parent]) {
+          throw new Error(`Role "${role}" inherits unknown role "${parent}"`);
+        }
+        return resolve(parent, [...path, role]);
+      }),
+    ];
+
+    resolved.set(role, all);
+    return all;
+  };
+  Object.keys(roles).forEach((role) => resolve(role, []));
+
+  const permissionsOf = (user: PolicyUser | null | undefined): Permission[] =>
+    (user?.roles || []).flatMap((role) => resolved.get(role) || []);
+
+  return {
+    definition,
+    permissionsOf,
+    can(user, action, resource) {
+      if (!user) {
+        return false;
+      }
+
+      return permissionsOf(user).some((permission) => {
+        if (typeof permission === 'string') {
+          return matchesAction(permission, action);
+        }
+        return (
+          matchesAction(permission.action, action) &&
+          resource !== undefined &&
+          resource !== null &&
+          permission.when(user, resource)
+        );
+      });
+    },
+  };
+}
@@ -0,0 +1,140 @@
+import type { Schema } from 'joi';
+
+/**
+ * Contract-first service definitions shared by server and client.
+ *
+ * A contract declares every route of a service once - its params, query,
+ * body and response - so the server can derive typed, validated handlers
+ * and the client a typed HTTP client from the same object.
+ *
+ * @example
+ * ```typescript
+ * export const todoContract = defineService({
+ *   name: 'todos',
+ *   routes: {
+ *     list: { method: 'GET', path: '/', response: typed<Todo[]>() },
+ *     create: {
+ *       method: 'POST',
+ *       path: '/',
+ *       body: typed<{ title: string }>(Joi.object({ title: Joi.string().required() })),
+ *       response: typed<Todo>(),
+ *     },
+ *   },
+ * });
+ * ```
+ */
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * A Joi schema (optional) tagged with the TypeScript type it describes
+ */
+export interface TypedSchema<T> {
+  schema?: Schema;
+  readonly __type?: T;
+}
+
+/**
+ * Declare the type of a route part, optionally validated by a Joi schema
+ */
+export function typed<T>(schema?: Schema): TypedSchema<T> {
+  return { schema };
+}
+
+/**
+ * Route declaration within a service contract
+ */
+export interface RouteContract {
+  method: HttpMethod;
+  path: string;
+  description?: string;
+  params?: TypedSchema<unknown>;
+  query?: TypedSchema<unknown>;
+  body?: TypedSchema<unknown>;
+  response?: TypedSchema<unknown>;
+}
+
+/**
+ * Service contract: a service name and its named routes
+ */
+export interface ServiceContract<
+  TRoutes extends Record<string, RouteContract> = Record<string, RouteContract>
+> {
+  name: string;
+  routes: TRoutes;
+}
+
+/**
+ * Define a service contract
+ */
+export function defineService<TRoutes extends Record<string, RouteContract>>(
+  contract: ServiceContract<TRoutes>
+): ServiceContract<TRoutes> {
+  Object.entries(contract.routes).forEach(([name, route]) => {
+    if (!route.path.startsWith('/')) {
+      throw new Error(`Route "${name}" of service "${contract.name}" must start with "/"`);
+    }
+  });
+
+  return contract;
+}
+
+// Parts whose fields are all optional may be omitted by the caller
+type InputPart<K extends string, TRoute, TKey extends keyof RouteContract> = TRoute extends {
+  [key in TKey]: TypedSchema<infer T>;
+}
+  ? Record<string, never> extends T
+    ? { [key in K]?: T }
+    : { [key in K]: T }
+  : { [key in K]?: undefined };
+
+/**
+ * Path parameters declared by a route
+ */
+export type RouteParams<TRoute> = TRoute extends { params: TypedSchema<infer T> }
+  ? T
+  : Record<string, string>;
+
+/**
+ * Query parameters declared by a route
+ */
+export type RouteQuery<TRoute> = TRoute extends { query: TypedSchema<infer T> }
+  ? T
+  : Record<string, unknown>;
+
+/**
+ * Request body declared by a route
+ */
+export type RouteBody<TRoute> = TRoute extends { body: TypedSchema<infer T> } ? T : unknown;
+
+/**
+ * Response data declared by a route
+ */
+export type RouteResponse<TRoute> = TRoute extends { response: TypedSchema<infer T> } ? T : unknown;
+
+/**
+ * Input a client passes when calling a route
+ */
+export type RouteInput<TRoute> = InputPart<'params', TRoute, 'params'> &
+  InputPart<'query', TRoute, 'query'> &
+  InputPart<'body', TRoute, 'body'>;
+
+/**
+ * Routes of a contract
+ */
+export type ContractRoutes<TContract> = TContract extends ServiceContract<infer TRoutes>
+  ? TRoutes
+  : never;
+
+/**
+ * Fill `:param` placeholders of a route path
+ */
+export function buildRoutePath(path: string, params: Record<string, unknown> = {}): string {
+  return path.replace(/:([A-Za-z0-9_]+)/g, (match, name: string) => {
+    const value = params[name];
+    if (value === undefined || value === null) {
+      throw new Error(`Missing path parameter "${name}" for route ${path}`);
+    }
+    return encodeURIComponent(String(value));
+  });
+}
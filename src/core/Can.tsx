@@ -0,0 +1,62 @@
+import React, { useCallback } from 'react';
+import { useStellar } from './StellarProvider';
+import { PolicyUser } from '../contracts/definePolicies';
+import { useAuthUser } from '../hooks/useService';
+
+/**
+ * Check permissions against the policies passed to StellarProvider. Checks
+ * are made for the user signed in with useAuth (token or cookie session)
+ * unless another user is given, and follow sign in and sign out.
+ *
+ * @example
+ * ```tsx
+ * const can = useCan();
+ * return can('todo:update', todo) ? <EditButton /> : null;
+ * ```
+ */
+export function useCan(user?: PolicyUser | null) {
+  const { policies } = useStellar();
+  const signedIn = useAuthUser();
+
+  if (!policies) {
+    throw new Error('useCan requires the policies prop of StellarProvider');
+  }
+
+  const subject = user === undefined ? signedIn : user;
+
+  return useCallback(
+    (action: string, resource?: unknown): boolean => policies.can(subject, action, resource),
+    [policies, subject]
+  );
+}
+
+interface CanProps {
+  action: string;
+  resource?: unknown;
+
+  /**
+   * Check for this user instead of the signed-in one
+   */
+  user?: PolicyUser | null;
+
+  /**
+   * Rendered when the permission is missing
+   */
+  fallback?: React.ReactNode;
+  children: React.ReactNode;
+}
+
+/**
+ * Render children only when the user may perform `action`
+ *
+ * @example
+ * ```tsx
+ * <Can action="todo:delete" resource={todo} fallback={<span>Read only</span>}>
+ *   <DeleteButton />
+ * </Can>
+ * ```
+ */
+export const Can: React.FC<CanProps> = ({ action, resource, user, fallback = null, children }) => {
+  const can = useCan(user);
+  return <>{can(action, resource) ? children : fallback}</>;
+};
@@ -1,8 +1,14 @@
-import React, { createContext, useContext } from 'react';
+import React, { createContext, useContext, useState } from 'react';
 import { AppConfig } from '../types';
+import { QueryCache, DehydratedQueryState } from '../utils/query-cache';
+import type { PolicySet } from '../contracts/definePolicies';
+import { withCsrfHeader } from '../utils/csrf';
 
 interface StellarContextType {
   config: AppConfig;
+  queryCache: QueryCache;
+  policies?: PolicySet;
+  fetch: typeof fetch;
 }
 
 const StellarContext = createContext<StellarContextType | undefined>(undefined);
@@ -15,11 +21,69 @@ export const useStellar = () => {
   return context;
 };
 
+/**
+ * Access the query cache shared by useService calls
+ */
+export const useQueryCache = (): QueryCache => useStellar().queryCache;
+
+/**
+ * fetch for requests made outside useService. State-changing requests carry
+ * the CSRF header, as cookie sessions require.
+ */
+export const useStellarFetch = (): typeof fetch => useStellar().fetch;
+
 interface StellarProviderProps {
   config: AppConfig;
   children: React.ReactNode;
+
+  /**
+   * Query cache to use, e.g. one prefetched during server rendering.
+   * Default: a new cache configured from `config.query`
+   */
+  queryCache?: QueryCache;
+
+  /**
+   * Cache contents produced by `queryCache.dehydrate()` on the server
+   */
+  dehydratedState?: DehydratedQueryState;
+
+  /**
+   * Permission policies checked by useCan and <Can>; pass the object the
+   * server authorizes with
+   */
+  policies?: PolicySet;
+
+  /**
+   * fetch implementation behind useStellarFetch
+   * Default: global fetch
+   */
+  fetch?: typeof fetch;
 }
 
-export const StellarProvider: React.FC<StellarProviderProps> = ({ config, children }) => {
-  return <StellarContext.Provider value={{ config }}>{children}</StellarContext.Provider>;
+export const StellarProvider: React.FC<StellarProviderProps> = ({
+  config,
+  children,
+  queryCache,
+  dehydratedState,
+  policies,
+  fetch: fetchImpl,
+}) => {
+  const [cache] = useState(() => {
+    const instance = queryCache || new QueryCache(config.query);
+    if (dehydratedState) {
+      instance.hydrate(dehydratedState);
+    }
+    return instance;
+  });
+
+  const [csrfFetch] = useState(
+    () => (input: RequestInfo | URL, init?: RequestInit) =>
+      (fetchImpl || fetch)(input, withCsrfHeader(init))
+  );
+
+  return (
+    <StellarContext.Provider value={{ config, queryCache: cache, policies, fetch: csrfFetch }}>
+      {children}
+    </StellarContext.Provider>
+  );
 };
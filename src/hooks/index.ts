@@ -1,42 +1,91 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
+import { LatestCall, isAbortError, raceAbort, withTimeout } from '../utils/abort';
 
 /**
- * useAsync hook for handling async operations
+ * Options for useAsync
  */
-export function useAsync<T>(asyncFunction: (...args: any[]) => Promise<T>, immediate = false) {
+export interface UseAsyncOptions {
+  /**
+   * Reject calls that take longer than this (ms) with a TimeoutError
+   * Default: no timeout
+   */
+  timeout?: number;
+
+  /**
+   * Pass an AbortSignal as the last argument of the async function. It is
+   * aborted when the call is superseded, cancelled, times out or the
+   * component unmounts.
+   * Default: false
+   */
+  abortable?: boolean;
+}
+
+/**
+ * useAsync hook for handling async operations. Only the latest call updates
+ * the state; earlier calls still in flight reject with an AbortError.
+ */
+export function useAsync<T>(
+  asyncFunction: (...args: any[]) => Promise<T>,
+  immediate = false,
+  options: UseAsyncOptions = {}
+) {
   const [status, setStatus] = useState<'idle' | 'pending' | 'success' | 'error'>('idle');
   const [data, setData] = useState<T | null>(null);
   const [error, setError] = useState<Error | null>(null);
+  const latestCall = useRef(new LatestCall()).current;
+  const { timeout, abortable } = options;
 
   const execute = useCallback(
     async (...args: any[]) => {
+      const controller = latestCall.start();
       setStatus('pending');
       setData(null);
       setError(null);
 
       try {
-        const response = await asyncFunction(...args);
+        const response = await withTimeout(
+          raceAbort(
+            asyncFunction(...(abortable ? [...args, controller.signal] : args)),
+            controller.signal
+          ),
+          timeout,
+          () => controller.abort()
+        );
         setData(response);
         setStatus('success');
         return response;
       } catch (error) {
+        // A newer call (or cancel) owns the state now
+        if (!latestCall.isLatest(controller)) {
+          throw error;
+        }
+
         const err = error instanceof Error ? error : new Error(String(error));
         setError(err);
         setStatus('error');
         throw err;
       }
     },
-    [asyncFunction]
+    [asyncFunction, latestCall, timeout, abortable]
   );
 
+  const cancel = useCallback(() => {
+    latestCall.cancel();
+    setStatus((current) => (current === 'pending' ? 'idle' : current));
+  }, [latestCall]);
+
   useEffect(() => {
     if (immediate) {
-      execute();
+      // Failures are reported through the hook state
+      execute().catch(() => undefined);
     }
   }, [execute, immediate]);
 
+  useEffect(() => () => latestCall.cancel(), [latestCall]);
+
   return {
     execute,
+    cancel,
     status,
     data,
     error,
@@ -156,38 +205,73 @@ export function useSessionStorage<T>(
 }
 
 /**
- * useFetch hook for making HTTP requests
+ * Options for useFetch
  */
-export function useFetch<T>(url: string, options?: RequestInit) {
+export interface UseFetchOptions extends RequestInit {
+  /**
+   * Abort requests that take longer than this (ms)
+   * Default: no timeout
+   */
+  timeout?: number;
+}
+
+/**
+ * useFetch hook for making HTTP requests. A new request aborts the previous
+ * one, and the request in flight is aborted on unmount.
+ */
+export function useFetch<T>(url: string, options?: UseFetchOptions) {
   const [data, setData] = useState<T | null>(null);
   const [error, setError] = useState<Error | null>(null);
   const [loading, setLoading] = useState<boolean>(false);
+  const latestCall = useRef(new LatestCall()).current;
 
   const fetchData = useCallback(async () => {
+    const { timeout, signal, ...init } = options || {};
+    const controller = latestCall.start();
+    if (signal?.aborted) {
+      controller.abort();
+    }
+    signal?.addEventListener('abort', () => controller.abort(), { once: true });
+
     setLoading(true);
     setError(null);
 
     try {
-      const response = await fetch(url, options);
+      const request = fetch(url, { ...init, signal: controller.signal }).then((response) => {
+        if (!response.ok) {
+          throw new Error(`HTTP error! status: ${response.status}`);
+        }
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
+        return response.json();
+      });
+      const result = await withTimeout(request, timeout, () => controller.abort());
 
-      const result = await response.json();
-      setData(result);
+      if (latestCall.isLatest(controller)) {
+        setData(result);
+      }
     } catch (error) {
-      setError(error instanceof Error ? error : new Error(String(error)));
+      if (latestCall.isLatest(controller) && !isAbortError(error)) {
+        setError(error instanceof Error ? error : new Error(String(error)));
+      }
     } finally {
-      setLoading(false);
+      if (latestCall.isLatest(controller)) {
+        setLoading(false);
+      }
     }
-  }, [url, options]);
+  }, [url, options, latestCall]);
+
+  const cancel = useCallback(() => {
+    latestCall.cancel();
+    setLoading(false);
+  }, [latestCall]);
 
   useEffect(() => {
     fetchData();
   }, [fetchData]);
 
-  return { data, error, loading, refetch: fetchData };
+  useEffect(() => () => latestCall.cancel(), [latestCall]);
+
+  return { data, error, loading, refetch: fetchData, cancel };
 }
 
 /**
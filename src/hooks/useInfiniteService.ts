@@ -0,0 +1,246 @@
+import { useState, useCallback, useMemo, useEffect, useRef } from 'react';
+import { useStellar } from '../core/StellarProvider';
+import { PageInfo, ServiceResponse } from '../types';
+import { ServiceContract, ContractRoutes, RouteResponse } from '../contracts/defineService';
+import { QueryState, hashQueryKey } from '../utils/query-cache';
+import { isAbortError, raceAbort, withTimeout } from '../utils/abort';
+import { callService, serviceQueryKey, UseServiceOptions } from './useService';
+import { PageItem, paginationInput } from './usePaginatedService';
+
+/**
+ * Options for useInfiniteService
+ */
+export interface UseInfiniteServiceOptions
+  extends Omit<UseServiceOptions, 'args' | 'cache' | 'initialData' | 'onSuccess' | 'onError'> {
+  /**
+   * Page size. Default: the server's default
+   */
+  limit?: number;
+
+  /**
+   * Other query parameters, e.g. filters. Changing them starts a new list.
+   */
+  query?: Record<string, unknown>;
+}
+
+/**
+ * Cached pages of an infinite query
+ */
+export interface InfiniteData<T> {
+  pages: ServiceResponse<T[]>[];
+}
+
+export interface UseInfiniteServiceResult<T> {
+  /**
+   * Items of all loaded pages
+   */
+  data: T[];
+  pages: T[][];
+
+  /**
+   * Position of the last loaded page
+   */
+  pagination: PageInfo | null;
+  hasNextPage: boolean;
+  fetchNextPage: () => Promise<void>;
+  isFetchingNextPage: boolean;
+  loading: boolean;
+  error: Error | null;
+
+  /**
+   * Reload the list from the first page
+   */
+  refetch: () => Promise<void>;
+  cancel: () => void;
+}
+
+/**
+ * Query parameters of the page after `pagination`: the cursor when the server
+ * uses cursors, otherwise the next page number
+ */
+export const nextPageParams = (pagination: PageInfo): Record<string, unknown> =>
+  pagination.nextCursor ? { cursor: pagination.nextCursor } : { page: (pagination.page ?? 1) + 1 };
+
+/**
+ * Load a paginated route page by page into one growing list, e.g. for
+ * infinite scrolling
+ */
+export function useInfiniteService<
+  TContract extends ServiceContract,
+  K extends keyof ContractRoutes<TContract> & string
+>(
+  contract: TContract,
+  method: K,
+  options?: UseInfiniteServiceOptions
+): UseInfiniteServiceResult<PageItem<RouteResponse<ContractRoutes<TContract>[K]>>>;
+/**
+ * Load a paginated service method page by page into one growing list
+ */
+export function useInfiniteService<T = unknown>(
+  serviceName: string,
+  method: string,
+  options?: UseInfiniteServiceOptions
+): UseInfiniteServiceResult<T>;
+export function useInfiniteService<T>(
+  service: string | ServiceContract,
+  method: string,
+  options: UseInfiniteServiceOptions = {}
+): UseInfiniteServiceResult<T> {
+  const { config, queryCache } = useStellar();
+  const { limit, query, immediate = true, timeout } = options;
+  const staleTime = options.staleTime ?? config.query?.staleTime;
+  const refetchOnWindowFocus =
+    options.refetchOnWindowFocus ?? config.query?.refetchOnWindowFocus ?? true;
+  const refetchOnReconnect = options.refetchOnReconnect ?? config.query?.refetchOnReconnect ?? true;
+
+  const keyHash = hashQueryKey([query, limit]);
+  const queryKey = useMemo(
+    () => serviceQueryKey(service, method, [{ infinite: true, query, limit }]),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [typeof service === 'string' ? service : service.name, method, keyHash]
+  );
+
+  const [state, setState] = useState(() => queryCache.getState<InfiniteData<T>>(queryKey));
+  const [isFetchingNextPage, setIsFetchingNextPage] = useState(false);
+
+  const requestPage = (params: Record<string, unknown>, signal: AbortSignal) => {
+    const controller = new AbortController();
+    signal.addEventListener('abort', () => controller.abort(), { once: true });
+
+    return withTimeout(
+      raceAbort(
+        callService<T[]>(
+          config,
+          service,
+          method,
+          [paginationInput(query, { ...params, limit })],
+          controller.signal
+        ),
+        signal
+      ),
+      timeout,
+      () => controller.abort()
+    );
+  };
+  const requestRef = useRef(requestPage);
+  requestRef.current = requestPage;
+
+  // Load the first page, then as many of the following pages as were loaded
+  // before, each from the refreshed page before it
+  const loadPages = useCallback(
+    (force: boolean, keepPages: boolean) =>
+      queryCache.fetch<InfiniteData<T>>(
+        queryKey,
+        async (signal) => {
+          const loaded = keepPages ? queryCache.getData<InfiniteData<T>>(queryKey)?.pages : [];
+          const pages = [await requestRef.current({}, signal)];
+
+          while (pages.length < (loaded?.length ?? 0)) {
+            const last = pages[pages.length - 1].pagination;
+            if (!last?.hasNextPage) break;
+            pages.push(await requestRef.current(nextPageParams(last), signal));
+          }
+          return { pages };
+        },
+        { force, staleTime }
+      ),
+    [queryCache, queryKey, staleTime]
+  );
+
+  // Failures are reported through the hook state
+  const revalidate = useCallback(() => {
+    loadPages(false, true).catch(() => undefined);
+  }, [loadPages]);
+
+  const refetch = useCallback(async () => {
+    await loadPages(true, false).catch((error) => {
+      if (!isAbortError(error)) throw error;
+    });
+  }, [loadPages]);
+
+  const fetchNextPage = useCallback(async () => {
+    const current = queryCache.getData<InfiniteData<T>>(queryKey);
+    const last = current?.pages[current.pages.length - 1]?.pagination;
+    if (!current || !last?.hasNextPage) {
+      return;
+    }
+
+    setIsFetchingNextPage(true);
+    await queryCache
+      .fetch<InfiniteData<T>>(
+        queryKey,
+        async (signal) => ({
+          pages: [...current.pages, await requestRef.current(nextPageParams(last), signal)],
+        }),
+        { force: true }
+      )
+      // Failures are reported through `error`; cancelled loads are not errors
+      .catch(() => undefined)
+      .finally(() => setIsFetchingNextPage(false));
+  }, [queryCache, queryKey]);
+
+  const immediateRef = useRef(immediate);
+  immediateRef.current = immediate;
+
+  useEffect(() => {
+    const sync = () => {
+      const next = queryCache.getState<InfiniteData<T>>(queryKey);
+      setState(next);
+
+      if (next.isInvalidated && !next.isFetching && immediateRef.current) {
+        revalidate();
+      }
+    };
+
+    sync();
+    const unsubscribe = queryCache.subscribe(queryKey, sync);
+
+    return () => {
+      unsubscribe();
+      if (queryCache.getObserverCount(queryKey) === 0) {
+        queryCache.cancel(queryKey, { exact: true });
+      }
+    };
+  }, [queryCache, queryKey, revalidate]);
+
+  useEffect(() => {
+    if (immediate) {
+      revalidate();
+    }
+  }, [immediate, revalidate]);
+
+  useEffect(() => {
+    if (!immediate || typeof window === 'undefined') {
+      return;
+    }
+
+    if (refetchOnWindowFocus) window.addEventListener('focus', revalidate);
+    if (refetchOnReconnect) window.addEventListener('online', revalidate);
+
+    return () => {
+      window.removeEventListener('focus', revalidate);
+      window.removeEventListener('online', revalidate);
+    };
+  }, [immediate, refetchOnWindowFocus, refetchOnReconnect, revalidate]);
+
+  const pages = (state.data?.pages ?? []).map((page) => page.data ?? []);
+  const pagination = lastPagination(state);
+
+  return {
+    data: pages.flat(),
+    pages,
+    pagination,
+    hasNextPage: pagination?.hasNextPage ?? false,
+    fetchNextPage,
+    isFetchingNextPage,
+    loading: state.isFetching,
+    error: state.error,
+    refetch,
+    cancel: useCallback(() => queryCache.cancel(queryKey, { exact: true }), [queryCache, queryKey]),
+  };
+}
+
+const lastPagination = <T>(state: QueryState<InfiniteData<T>>): PageInfo | null => {
+  const pages = state.data?.pages ?? [];
+  return pages[pages.length - 1]?.pagination ?? null;
+};
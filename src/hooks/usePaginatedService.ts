@@ -0,0 +1,150 @@
+import { useState, useCallback, useRef } from 'react';
+import { useQueryCache } from '../core/StellarProvider';
+import { PageInfo, ServiceResponse } from '../types';
+import { ServiceContract, ContractRoutes, RouteResponse } from '../contracts/defineService';
+import { hashQueryKey } from '../utils/query-cache';
+import { useService, serviceQueryKey, UseServiceOptions } from './useService';
+
+/**
+ * Item type of a paginated response
+ */
+export type PageItem<T> = T extends (infer U)[] ? U : T;
+
+/**
+ * Options for usePaginatedService
+ */
+export interface UsePaginatedServiceOptions
+  extends Omit<UseServiceOptions, 'args' | 'cache' | 'initialData'> {
+  /**
+   * Page shown first
+   * Default: 1
+   */
+  page?: number;
+
+  /**
+   * Page size. Default: the server's default
+   */
+  limit?: number;
+
+  /**
+   * Other query parameters, e.g. filters. Changing them goes back to page 1.
+   */
+  query?: Record<string, unknown>;
+
+  /**
+   * Keep showing the current page while the next one loads
+   * Default: true
+   */
+  keepPreviousData?: boolean;
+}
+
+export interface UsePaginatedServiceResult<T> {
+  data: T[];
+  pagination: PageInfo | null;
+  page: number;
+  setPage: (page: number) => void;
+  nextPage: () => void;
+  previousPage: () => void;
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+
+  /**
+   * Whether `data` belongs to a previous page while the current one loads
+   */
+  isPreviousData: boolean;
+  loading: boolean;
+  error: Error | null;
+  refetch: () => Promise<ServiceResponse<T[]>>;
+  cancel: () => void;
+}
+
+/**
+ * Input sent for a page: the method receives `{ query: { ...query, page, limit } }`
+ */
+export const paginationInput = (
+  query: Record<string, unknown> = {},
+  params: Record<string, unknown> = {}
+) => ({ query: { ...query, ...params } });
+
+/**
+ * Page through a route that responds with the `{ data, pagination }` envelope
+ * produced by `sendPaginated`
+ */
+export function usePaginatedService<
+  TContract extends ServiceContract,
+  K extends keyof ContractRoutes<TContract> & string
+>(
+  contract: TContract,
+  method: K,
+  options?: UsePaginatedServiceOptions
+): UsePaginatedServiceResult<PageItem<RouteResponse<ContractRoutes<TContract>[K]>>>;
+/**
+ * Page through a service method that responds with the `{ data, pagination }` envelope
+ */
+export function usePaginatedService<T = unknown>(
+  serviceName: string,
+  method: string,
+  options?: UsePaginatedServiceOptions
+): UsePaginatedServiceResult<T>;
+export function usePaginatedService<T>(
+  service: string | ServiceContract,
+  method: string,
+  options: UsePaginatedServiceOptions = {}
+): UsePaginatedServiceResult<T> {
+  const {
+    page: initialPage = 1,
+    limit,
+    query,
+    keepPreviousData = true,
+    immediate = true,
+    ...serviceOptions
+  } = options;
+  const queryCache = useQueryCache();
+
+  // The page belongs to the filters it was chosen for; new filters start at page 1
+  const queryHash = hashQueryKey([query]);
+  const [selected, setSelected] = useState({ page: initialPage, queryHash });
+  const page = selected.queryHash === queryHash ? selected.page : 1;
+
+  const args = [paginationInput(query, { page, limit })];
+  const result = useService<T[]>(service as string, method, {
+    ...serviceOptions,
+    immediate,
+    args,
+    // The page shown is read from the cache, also for lazy queries
+    cache: true,
+  });
+
+  const response = queryCache.getState<ServiceResponse<T[]>>(
+    serviceQueryKey(service, method, args)
+  ).data;
+  const previous = useRef<ServiceResponse<T[]>>();
+  if (response) {
+    previous.current = response;
+  }
+  const shown = response ?? (keepPreviousData ? previous.current : undefined);
+  const pagination = shown?.pagination ?? null;
+
+  const setPage = useCallback(
+    (next: number) => setSelected({ page: Math.max(1, next), queryHash }),
+    [queryHash]
+  );
+  const hasNextPage = pagination?.hasNextPage ?? false;
+  const hasPreviousPage = page > 1;
+
+  return {
+    data: shown?.data ?? [],
+    pagination,
+    page,
+    setPage,
+    nextPage: () => hasNextPage && setPage(page + 1),
+    previousPage: () => hasPreviousPage && setPage(page - 1),
+    hasNextPage,
+    hasPreviousPage,
+    isPreviousData: !response && Boolean(shown),
+    loading: result.loading,
+    error: result.error,
+    refetch: result.refetch,
+    cancel: result.cancel,
+  };
+}
@@ -1,11 +1,72 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useMemo, useEffect, useRef } from 'react';
 import { useStellar } from '../core/StellarProvider';
-import { ServiceResponse } from '../types';
+import { AppConfig, AuthTokens, AuthUser, ServiceResponse, SessionLogin } from '../types';
+import { ServiceContract, ContractRoutes, RouteResponse } from '../contracts/defineService';
+import {
+  createServiceClient,
+  ServiceClientArgs,
+  ServiceRequestInput,
+} from '../utils/service-client';
+import { loadRemoteServices, RemoteService } from '../utils/remote-services';
+import { QueryKey, QueryState, hashQueryKey } from '../utils/query-cache';
+import { LatestCall, isAbortError, raceAbort, withTimeout } from '../utils/abort';
+import {
+  clearAuthTokens,
+  getStoredRefreshToken,
+  getStoredToken,
+  getStoredUser,
+  getTokenExpiry,
+  storeAuthTokens,
+  storeSessionUser,
+  subscribeAuthTokens,
+} from '../utils/auth-tokens';
 
-interface UseServiceOptions {
+export interface UseServiceOptions {
   immediate?: boolean;
   onSuccess?: (data: any) => void;
   onError?: (error: Error) => void;
+
+  /**
+   * Arguments used for immediate calls, refetches and the cache key
+   * Default: []
+   */
+  args?: unknown[];
+
+  /**
+   * Share results through the query cache. Imperative calls (e.g. writes)
+   * are not cached unless this is set.
+   * Default: the value of `immediate`
+   */
+  cache?: boolean;
+
+  /**
+   * Time a cached result stays fresh (ms)
+   * Default: AppConfig.query.staleTime, or 0
+   */
+  staleTime?: number;
+
+  /**
+   * Revalidate when the window regains focus (immediate queries only)
+   * Default: AppConfig.query.refetchOnWindowFocus, or true
+   */
+  refetchOnWindowFocus?: boolean;
+
+  /**
+   * Revalidate when the browser comes back online (immediate queries only)
+   * Default: AppConfig.query.refetchOnReconnect, or true
+   */
+  refetchOnReconnect?: boolean;
+
+  /**
+   * Data to seed the cache with when it has nothing for this query yet
+   */
+  initialData?: unknown;
+
+  /**
+   * Abort a call that takes longer than this (ms); it rejects with a TimeoutError
+   * Default: no timeout
+   */
+  timeout?: number;
 }
 
 interface UseServiceState<T> {
@@ -14,81 +75,502 @@ interface UseServiceState<T> {
   loading: boolean;
 }
 
+const emptyState = { data: null, error: null, loading: false };
+
+/**
+ * Cache key of a service call. Pass fewer parts to build a prefix for
+ * `queryCache.invalidate()`.
+ */
+export const serviceQueryKey = (
+  service: string | ServiceContract,
+  method?: string,
+  args: unknown[] = []
+): QueryKey => {
+  const name = typeof service === 'string' ? service : service.name;
+  return method === undefined ? [name] : [name, method, ...args];
+};
+
+/**
+ * Look a service up in the server's route manifest unless remote services are disabled
+ */
+const loadRemoteService = async (
+  config: AppConfig,
+  serviceName: string
+): Promise<RemoteService | undefined> => {
+  if (config.remoteServices?.enabled === false) {
+    return undefined;
+  }
+
+  const services = await loadRemoteServices({
+    baseUrl: config.apiUrl,
+    manifestPath: config.remoteServices?.manifestPath,
+  });
+  return services[serviceName];
+};
+
+/**
+ * Invoke a service method: a contract route, a service from AppConfig.services,
+ * or a remote service from the server's route manifest. A response with an
+ * `error` rejects with that message, whatever kind of service returned it.
+ * The signal aborts contract and remote requests; local services receive only
+ * their own arguments.
+ */
+export const callService = async <T>(
+  config: AppConfig,
+  service: string | ServiceContract,
+  method: string,
+  args: unknown[],
+  signal?: AbortSignal
+): Promise<ServiceResponse<T>> => {
+  let result: ServiceResponse<T>;
+
+  if (typeof service !== 'string') {
+    const client = createServiceClient(service, { baseUrl: config.apiUrl }) as Record<
+      string,
+      (...args: unknown[]) => Promise<ServiceResponse<T>>
+    >;
+
+    if (typeof client[method] !== 'function') {
+      throw new Error(`Route "${method}" not found in contract "${service.name}"`);
+    }
+
+    result = await client[method](args[0], { signal });
+  } else {
+    const local = config.services?.[service];
+    const remote = local ? undefined : await loadRemoteService(config, service);
+    const target = local || remote;
+    if (!target) {
+      throw new Error(`Service "${service}" not found`);
+    }
+
+    if (typeof target[method] !== 'function') {
+      throw new Error(`Method "${method}" not found in service "${service}"`);
+    }
+
+    result = remote
+      ? await remote[method](args[0] as ServiceRequestInput, { signal })
+      : await target[method](...args);
+  }
+
+  // A response carrying an error is a failure, not data to cache
+  if (result.error) {
+    throw new Error(result.error);
+  }
+
+  return result;
+};
+
+interface UseServiceResult<T, TArgs extends unknown[]> extends UseServiceState<T> {
+  execute: (...args: TArgs) => Promise<ServiceResponse<T>>;
+  refetch: () => Promise<ServiceResponse<T>>;
+
+  /**
+   * Abort the call in flight; the hook keeps its previous data
+   */
+  cancel: () => void;
+  reset: () => void;
+}
+
+/**
+ * Call a route of a typed service contract. Input and response types are
+ * checked against the contract.
+ */
+export function useService<
+  TContract extends ServiceContract,
+  K extends keyof ContractRoutes<TContract> & string
+>(
+  contract: TContract,
+  method: K,
+  options?: UseServiceOptions
+): UseServiceResult<
+  RouteResponse<ContractRoutes<TContract>[K]>,
+  ServiceClientArgs<ContractRoutes<TContract>[K]>
+>;
+/**
+ * Call a method of a service registered in AppConfig.services
+ */
 export function useService<T = any>(
   serviceName: string,
   method: string,
+  options?: UseServiceOptions
+): UseServiceResult<T, unknown[]>;
+export function useService<T>(
+  serviceName: string | ServiceContract,
+  method: string,
   options: UseServiceOptions = {}
-) {
-  const { config } = useStellar();
-  const [state, setState] = useState<UseServiceState<T>>({
-    data: null,
-    error: null,
-    loading: false,
+): UseServiceResult<T, unknown[]> {
+  const { config, queryCache } = useStellar();
+  const serviceKey = typeof serviceName === 'string' ? serviceName : serviceName.name;
+  const cacheEnabled = options.cache ?? options.immediate === true;
+  const staleTime = options.staleTime ?? config.query?.staleTime;
+  const refetchOnWindowFocus =
+    options.refetchOnWindowFocus ?? config.query?.refetchOnWindowFocus ?? true;
+  const refetchOnReconnect = options.refetchOnReconnect ?? config.query?.refetchOnReconnect ?? true;
+
+  // Arguments of the last call; they select the cache entry this hook reflects
+  const [args, setArgs] = useState<unknown[]>(options.args || []);
+  const optionArgsHash = hashQueryKey(options.args || []);
+  useEffect(() => {
+    setArgs(options.args || []);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [optionArgsHash]);
+
+  const keyHash = hashQueryKey(serviceQueryKey(serviceKey, method, args));
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const queryKey = useMemo(() => serviceQueryKey(serviceKey, method, args), [keyHash]);
+
+  const [state, setState] = useState<UseServiceState<T>>(() => {
+    if (!cacheEnabled) {
+      return emptyState;
+    }
+    if (options.initialData !== undefined && queryCache.getState(queryKey).status === 'idle') {
+      queryCache.setData<ServiceResponse<unknown>>(queryKey, {
+        data: options.initialData,
+        status: 200,
+      });
+    }
+    return toState(queryCache.getState<ServiceResponse<T>>(queryKey));
   });
 
-  const execute = useCallback(
-    async (...args: any[]): Promise<ServiceResponse<T>> => {
-      try {
-        setState((prev) => ({ ...prev, loading: true, error: null }));
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
 
-        const service = config.services[serviceName];
-        if (!service) {
-          throw new Error(`Service "${serviceName}" not found`);
-        }
+  const call = (callArgs: unknown[], signal: AbortSignal) => {
+    const controller = new AbortController();
+    signal.addEventListener('abort', () => controller.abort(), { once: true });
 
-        if (typeof service[method] !== 'function') {
-          throw new Error(`Method "${method}" not found in service "${serviceName}"`);
-        }
+    return withTimeout(
+      raceAbort(callService<T>(config, serviceName, method, callArgs, controller.signal), signal),
+      optionsRef.current.timeout,
+      () => controller.abort()
+    );
+  };
+  const callRef = useRef(call);
+  callRef.current = call;
+
+  // Uncached calls: only the most recent one may update the state
+  const latestCall = useRef(new LatestCall()).current;
+
+  const execute = useCallback(
+    async (...callArgs: unknown[]): Promise<ServiceResponse<T>> => {
+      const { onSuccess, onError } = optionsRef.current;
+      const controller = cacheEnabled ? null : latestCall.start();
 
-        const result = await service[method](...args);
+      try {
+        let result: ServiceResponse<T>;
 
-        setState((prev) => ({ ...prev, data: result.data, loading: false }));
+        if (controller) {
+          setState((prev) => ({ ...prev, loading: true, error: null }));
+          result = await callRef.current(callArgs, controller.signal);
+          setState((prev) => ({ ...prev, data: result.data ?? null, loading: false }));
+        } else {
+          setArgs(callArgs);
+          result = await queryCache.fetch(
+            serviceQueryKey(serviceKey, method, callArgs),
+            (signal) => callRef.current(callArgs, signal),
+            { force: true }
+          );
+        }
 
-        options.onSuccess?.(result.data);
+        onSuccess?.(result.data);
 
         return result;
       } catch (error) {
+        // Superseded and cancelled calls leave the state to the call that replaced them
+        if (isAbortError(error) || (controller && !latestCall.isLatest(controller))) {
+          throw error;
+        }
+
         const errorObj = error instanceof Error ? error : new Error(String(error));
-        setState((prev) => ({ ...prev, error: errorObj, loading: false }));
+        if (controller) {
+          setState((prev) => ({ ...prev, error: errorObj, loading: false }));
+        }
 
-        options.onError?.(errorObj);
+        onError?.(errorObj);
 
         throw errorObj;
       }
     },
-    [serviceName, method, config.services, options]
+    [cacheEnabled, queryCache, serviceKey, method, latestCall]
   );
 
-  // Handle immediate execution if specified
-  useState(() => {
+  // Background revalidation: serves cached data and only fetches when stale
+  const revalidate = useCallback(() => {
+    const callArgs = queryKey.slice(2);
+    const request = cacheEnabled
+      ? queryCache.fetch(queryKey, (signal) => callRef.current(callArgs, signal), { staleTime })
+      : execute(...callArgs);
+
+    // Failures are reported through the hook state
+    request.catch(() => undefined);
+  }, [cacheEnabled, queryCache, queryKey, staleTime, execute]);
+
+  const immediateRef = useRef(options.immediate);
+  immediateRef.current = options.immediate;
+
+  // Mirror the cache entry and refetch mounted queries when it is invalidated
+  useEffect(() => {
+    if (!cacheEnabled) {
+      return;
+    }
+
+    const sync = () => {
+      const query = queryCache.getState<ServiceResponse<T>>(queryKey);
+      setState(toState(query));
+
+      if (query.isInvalidated && !query.isFetching && immediateRef.current) {
+        revalidate();
+      }
+    };
+
+    sync();
+    const unsubscribe = queryCache.subscribe(queryKey, sync);
+
+    return () => {
+      unsubscribe();
+      // Nobody is waiting for this query any more (unmount or new arguments)
+      if (queryCache.getObserverCount(queryKey) === 0) {
+        queryCache.cancel(queryKey, { exact: true });
+      }
+    };
+  }, [cacheEnabled, queryCache, queryKey, revalidate]);
+
+  useEffect(() => () => latestCall.cancel(), [latestCall]);
+
+  useEffect(() => {
     if (options.immediate) {
-      execute();
+      revalidate();
     }
-  });
+  }, [options.immediate, revalidate]);
+
+  useEffect(() => {
+    if (!options.immediate || typeof window === 'undefined') {
+      return;
+    }
+
+    if (refetchOnWindowFocus) window.addEventListener('focus', revalidate);
+    if (refetchOnReconnect) window.addEventListener('online', revalidate);
+
+    return () => {
+      window.removeEventListener('focus', revalidate);
+      window.removeEventListener('online', revalidate);
+    };
+  }, [options.immediate, refetchOnWindowFocus, refetchOnReconnect, revalidate]);
+
+  const refetch = useCallback(() => execute(...queryKey.slice(2)), [execute, queryKey]);
+
+  const cancel = useCallback(() => {
+    if (cacheEnabled) {
+      queryCache.cancel(queryKey, { exact: true });
+    } else {
+      latestCall.cancel();
+      setState((prev) => ({ ...prev, loading: false }));
+    }
+  }, [cacheEnabled, queryCache, queryKey, latestCall]);
 
   return {
     ...state,
     execute,
+    refetch,
+    cancel,
     // Reset state
     reset: useCallback(() => {
-      setState({
-        data: null,
-        error: null,
-        loading: false,
-      });
+      setState(emptyState);
     }, []),
   };
 }
 
-// Example usage of auth service hook
+const toState = <T>(query: QueryState<ServiceResponse<T>>): UseServiceState<T> => ({
+  data: query.data?.data ?? null,
+  error: query.error,
+  loading: query.isFetching,
+});
+
+// Renew access tokens this long before they expire (ms)
+const REFRESH_MARGIN = 30 * 1000;
+
+// One refresh per refresh token, shared by every mounted useAuth: a second
+// request with the same token would look like reuse and end the session
+let pendingRefresh: { refreshToken: string; promise: Promise<string> } | null = null;
+
+/**
+ * User signed in through useAuth, from the access token or the cookie
+ * session. Follows sign in and sign out in this tab.
+ */
+export function useAuthUser(): AuthUser | null {
+  const [user, setUser] = useState(getStoredUser);
+
+  useEffect(() => subscribeAuthTokens(() => setUser(getStoredUser())), []);
+
+  return user;
+}
+
+/**
+ * Sign in against the 'auth' service. Tokens are kept in localStorage and the
+ * access token is renewed with the refresh token shortly before it expires.
+ */
 export function useAuth() {
-  const login = useService('auth', 'login');
-  const register = useService('auth', 'register');
+  // Credentials must never end up in the query cache
+  const login = useService<AuthTokens>('auth', 'login', { cache: false });
+  const register = useService<AuthTokens>('auth', 'register', { cache: false });
+  const refreshCall = useService<AuthTokens>('auth', 'refresh', { cache: false });
+  const mfaCall = useService<AuthTokens>('auth', 'mfaVerify', { cache: false });
+  const logoutCall = useService('auth', 'logout', { cache: false });
+  const logoutAllCall = useService('auth', 'logoutAll', { cache: false });
+  const oidcAuthorizeCall = useService<{ authorizationUrl: string }>('auth', 'oidcAuthorize', {
+    cache: false,
+  });
+  const oidcCallbackCall = useService<AuthTokens>('auth', 'oidcCallback', { cache: false });
+  const [token, setToken] = useState<string | null>(getStoredToken);
+  const user = useAuthUser();
+
+  const store = useCallback((result: ServiceResponse<AuthTokens>) => {
+    const session = result.data as Partial<SessionLogin & { user: AuthUser }> | null;
+    if (result.data?.token) {
+      storeAuthTokens(result.data);
+      setToken(result.data.token);
+    } else if (session?.csrfToken && session.user) {
+      // Cookie sessions keep the session in its cookie; only the user is stored
+      storeSessionUser(session.user);
+    }
+    return result;
+  }, []);
+
+  const loginExecute = login.execute;
+  const registerExecute = register.execute;
+  const refreshExecute = refreshCall.execute;
+  const logoutExecute = logoutCall.execute;
+  const logoutAllExecute = logoutAllCall.execute;
+  const mfaExecute = mfaCall.execute;
+  const oidcAuthorizeExecute = oidcAuthorizeCall.execute;
+  const oidcCallbackExecute = oidcCallbackCall.execute;
+
+  /**
+   * Exchange the stored refresh token for new tokens. Resolves with the new
+   * access token, or null when the session could not be renewed.
+   */
+  const refresh = useCallback(async (): Promise<string | null> => {
+    const refreshToken = getStoredRefreshToken();
+    if (!refreshToken) {
+      return null;
+    }
+
+    if (pendingRefresh?.refreshToken !== refreshToken) {
+      const promise = refreshExecute({ body: { refreshToken } }).then((result) => {
+        // Local services answer failures with `{ error }` instead of throwing
+        if (result.error || !result.data?.token) {
+          throw new Error(result.error || 'Refresh returned no token');
+        }
+        store(result);
+        return result.data.token;
+      });
+      const entry = { refreshToken, promise };
+      pendingRefresh = entry;
+      promise
+        .finally(() => {
+          if (pendingRefresh === entry) pendingRefresh = null;
+        })
+        .catch(() => undefined);
+    }
+
+    try {
+      const next = await pendingRefresh.promise;
+      setToken(next);
+      return next;
+    } catch (error) {
+      if (!isAbortError(error)) {
+        clearAuthTokens();
+        setToken(null);
+      }
+      return null;
+    }
+  }, [refreshExecute, store]);
+
+  /**
+   * Revoke the session on the server, or every session with `everywhere`.
+   * Local tokens are cleared even when the server cannot be reached.
+   */
+  const logout = useCallback(
+    async ({ everywhere = false }: { everywhere?: boolean } = {}) => {
+      try {
+        await (everywhere ? logoutAllExecute() : logoutExecute());
+      } catch {
+        // The tokens expire on their own
+      } finally {
+        clearAuthTokens();
+        setToken(null);
+      }
+    },
+    [logoutExecute, logoutAllExecute]
+  );
+
+  useEffect(() => {
+    const expiresAt = token ? getTokenExpiry(token) : null;
+    if (!expiresAt || !getStoredRefreshToken()) {
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      // Another tab or hook may have renewed the token already
+      const current = getStoredToken();
+      if (current !== token) {
+        setToken(current);
+        return;
+      }
+      refresh();
+    }, Math.max(0, expiresAt - Date.now() - REFRESH_MARGIN));
+
+    return () => clearTimeout(timer);
+  }, [token, refresh]);
 
   return {
-    login: login.execute,
-    register: register.execute,
-    isLoading: login.loading || register.loading,
-    error: login.error || register.error,
+    login: useCallback(
+      async (...args: unknown[]) => store(await loginExecute(...args)),
+      [loginExecute, store]
+    ),
+    register: useCallback(
+      async (...args: unknown[]) => store(await registerExecute(...args)),
+      [registerExecute, store]
+    ),
+    /**
+     * Finish a login that answered `mfaRequired`, with a TOTP or recovery code
+     */
+    verifyMfa: useCallback(
+      async (input: { mfaToken: string; code?: string; recoveryCode?: string }) =>
+        store(await mfaExecute({ body: input })),
+      [mfaExecute, store]
+    ),
+    /**
+     * Send the browser to the login page of an identity provider configured
+     * on the server
+     */
+    loginWithProvider: useCallback(
+      async (provider: string) => {
+        const result = await oidcAuthorizeExecute({ params: { provider } });
+        if (result.data?.authorizationUrl) {
+          window.location.assign(result.data.authorizationUrl);
+        }
+      },
+      [oidcAuthorizeExecute]
+    ),
+    /**
+     * Finish a provider login on the redirect page, with the `code` and
+     * `state` from its query string. May answer `mfaRequired` like login.
+     */
+    completeProviderLogin: useCallback(
+      async (provider: string, input: { code: string; state: string }) =>
+        store(await oidcCallbackExecute({ params: { provider }, body: input })),
+      [oidcCallbackExecute, store]
+    ),
+    refresh,
+    logout,
+    token,
+    /**
+     * User the access token or cookie session belongs to, for adapting the UI
+     */
+    user,
+    isAuthenticated: token !== null || user !== null,
+    isLoading: login.loading || register.loading || mfaCall.loading || oidcCallbackCall.loading,
+    error: login.error || register.error || mfaCall.error || oidcCallbackCall.error,
   };
 }
@@ -0,0 +1,201 @@
+import { useState, useCallback, useRef } from 'react';
+import { useStellar } from '../core/StellarProvider';
+import { ServiceResponse } from '../types';
+import {
+  ServiceContract,
+  ContractRoutes,
+  RouteInput,
+  RouteResponse,
+} from '../contracts/defineService';
+import { QueryKey, QueryState } from '../utils/query-cache';
+import { callService } from './useService';
+
+/**
+ * Optimistic change to the cached data of a query
+ */
+export interface OptimisticUpdate<TVariables, TQueryData = any> {
+  queryKey: QueryKey;
+  update: (current: TQueryData | undefined, variables: TVariables) => TQueryData;
+}
+
+/**
+ * Options for useServiceMutation
+ */
+export interface UseServiceMutationOptions<TData, TVariables, TContext = unknown> {
+  /**
+   * Cached queries updated before the request is sent and restored if it fails.
+   * Their fetches in flight are cancelled first.
+   */
+  optimistic?: OptimisticUpdate<TVariables>[];
+
+  /**
+   * Query key prefixes invalidated after a successful mutation
+   */
+  invalidates?: QueryKey[];
+
+  /**
+   * Runs before the request. The returned context is passed to the other callbacks.
+   */
+  onMutate?: (variables: TVariables) => TContext | Promise<TContext>;
+  onSuccess?: (
+    data: TData | undefined,
+    variables: TVariables,
+    context: TContext | undefined
+  ) => void | Promise<void>;
+  onError?: (
+    error: Error,
+    variables: TVariables,
+    context: TContext | undefined
+  ) => void | Promise<void>;
+  onSettled?: (
+    data: TData | undefined,
+    error: Error | null,
+    variables: TVariables,
+    context: TContext | undefined
+  ) => void | Promise<void>;
+}
+
+interface UseServiceMutationState<TData, TVariables> {
+  data: TData | null;
+  error: Error | null;
+  loading: boolean;
+  variables: TVariables | undefined;
+}
+
+interface UseServiceMutationResult<TData, TVariables>
+  extends UseServiceMutationState<TData, TVariables> {
+  /**
+   * Run the mutation; failures are reported through `error` and `onError`
+   */
+  mutate: (variables: TVariables) => void;
+
+  /**
+   * Run the mutation and return the response; rejects on failure
+   */
+  mutateAsync: (variables: TVariables) => Promise<ServiceResponse<TData>>;
+  reset: () => void;
+}
+
+const initialState = { data: null, error: null, loading: false, variables: undefined };
+
+/**
+ * Run a mutation against a typed service contract route
+ */
+export function useServiceMutation<
+  TContract extends ServiceContract,
+  K extends keyof ContractRoutes<TContract> & string,
+  TContext = unknown
+>(
+  contract: TContract,
+  method: K,
+  options?: UseServiceMutationOptions<
+    RouteResponse<ContractRoutes<TContract>[K]>,
+    RouteInput<ContractRoutes<TContract>[K]>,
+    TContext
+  >
+): UseServiceMutationResult<
+  RouteResponse<ContractRoutes<TContract>[K]>,
+  RouteInput<ContractRoutes<TContract>[K]>
+>;
+/**
+ * Run a mutation against a service method. The variables are passed as its argument.
+ */
+export function useServiceMutation<TData = unknown, TVariables = void, TContext = unknown>(
+  serviceName: string,
+  method: string,
+  options?: UseServiceMutationOptions<TData, TVariables, TContext>
+): UseServiceMutationResult<TData, TVariables>;
+export function useServiceMutation<TData, TVariables, TContext>(
+  service: string | ServiceContract,
+  method: string,
+  options: UseServiceMutationOptions<TData, TVariables, TContext> = {}
+): UseServiceMutationResult<TData, TVariables> {
+  const { config, queryCache } = useStellar();
+  const [state, setState] = useState<UseServiceMutationState<TData, TVariables>>(initialState);
+
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const mutateAsync = useCallback(
+    async (variables: TVariables): Promise<ServiceResponse<TData>> => {
+      const {
+        optimistic = [],
+        invalidates = [],
+        onMutate,
+        onSuccess,
+        onError,
+        onSettled,
+      } = optionsRef.current;
+      let context: TContext | undefined;
+      let snapshots: { queryKey: QueryKey; state: QueryState<ServiceResponse<unknown>> }[] = [];
+
+      setState({ data: null, error: null, loading: true, variables });
+
+      let result: ServiceResponse<TData>;
+
+      try {
+        // Refetches in flight would overwrite the optimistic data when they land
+        await Promise.all(
+          optimistic.map(({ queryKey }) => queryCache.cancel(queryKey, { exact: true }))
+        );
+
+        // Snapshot, then apply optimistic updates so the UI changes immediately
+        snapshots = optimistic.map(({ queryKey }) => ({
+          queryKey,
+          state: queryCache.getState<ServiceResponse<unknown>>(queryKey),
+        }));
+        optimistic.forEach(({ queryKey, update }) => {
+          queryCache.setData<ServiceResponse<unknown>>(queryKey, (current) => ({
+            status: current?.status ?? 200,
+            ...current,
+            data: update(current?.data, variables),
+          }));
+        });
+
+        context = await onMutate?.(variables);
+
+        result = await callService<TData>(config, service, method, [variables]);
+      } catch (error) {
+        const errorObj = error instanceof Error ? error : new Error(String(error));
+
+        snapshots.forEach(({ queryKey, state: snapshot }) =>
+          queryCache.restore(queryKey, snapshot)
+        );
+
+        setState({ data: null, error: errorObj, loading: false, variables });
+        await onError?.(errorObj, variables, context);
+        await onSettled?.(undefined, errorObj, variables, context);
+
+        throw errorObj;
+      }
+
+      setState({ data: result.data ?? null, error: null, loading: false, variables });
+
+      // Refetch the server's version of anything touched
+      [...invalidates, ...optimistic.map(({ queryKey }) => queryKey)].forEach((prefix) =>
+        queryCache.invalidate(prefix)
+      );
+
+      await onSuccess?.(result.data, variables, context);
+      await onSettled?.(result.data, null, variables, context);
+
+      return result;
+    },
+    [config, queryCache, service, method]
+  );
+
+  const mutate = useCallback(
+    (variables: TVariables) => {
+      // Errors are already surfaced through state and onError
+      mutateAsync(variables).catch(() => undefined);
+    },
+    [mutateAsync]
+  );
+
+  return {
+    ...state,
+    mutate,
+    mutateAsync,
+    reset: useCallback(() => setState(initialState), []),
+  };
+}
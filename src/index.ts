@@ -1,6 +1,12 @@
 // Core
 export { StellarApp } from './core/StellarApp';
-export { StellarProvider, useStellar } from './core/StellarProvider';
+export {
+  StellarProvider,
+  useStellar,
+  useQueryCache,
+  useStellarFetch,
+} from './core/StellarProvider';
+export { Can, useCan } from './core/Can';
 
 // Server
 export { StellarServer, createServer } from './server/StellarServer';
@@ -9,11 +15,161 @@ export {
   createDatabaseManager,
   initDatabase,
   getDatabase,
+  getDatabases,
   closeDatabase,
+  closeAllDatabases,
+  databasePlugin,
+  DEFAULT_DATABASE,
+} from './server/database';
+export type {
+  DatabaseConfig,
+  DatabaseState,
+  DatabaseEvents,
+  DatabaseMetrics,
+  CursorPaginateOptions,
 } from './server/database';
+export {
+  parsePagination,
+  parseCursorPagination,
+  paginate,
+  buildLinkHeader,
+  sendPaginated,
+  encodeCursor,
+  decodeCursor,
+} from './server/pagination';
+export type { PaginationOptions, PageParams, CursorParams } from './server/pagination';
+export {
+  Transaction,
+  getCurrentTransaction,
+  getTransactionSession,
+  afterCommit,
+} from './server/transactions';
+export type { WithTransactionOptions } from './server/transactions';
+export { defineModel } from './server/models';
+export type { Entity, EntityInput, ModelDefinition, StellarModel } from './server/models';
+export {
+  InMemoryRepository,
+  MongooseRepository,
+  createInMemoryRepository,
+  createMongooseRepository,
+} from './server/repository';
+export type { Repository, FindOptions, MongooseRepositoryOptions } from './server/repository';
+export { createCrudService } from './server/crud';
+export type { CrudOperation, CrudHooks, CrudHookContext, CrudServiceOptions } from './server/crud';
+export {
+  MigrationRunner,
+  createMigrationRunner,
+  InMemoryMigrationStore,
+  MongooseMigrationStore,
+  loadMigrations,
+  createMigrationFile,
+} from './server/migrations';
+export type {
+  Migration,
+  MigrationContext,
+  MigrationRecord,
+  MigrationState,
+  MigrationStatus,
+  MigrationStore,
+  MigrationRunnerOptions,
+  MongooseMigrationStoreOptions,
+  MigrateUpOptions,
+  MigrateDownOptions,
+} from './server/migrations';
 export { ApiDocGenerator, createApiDocGenerator } from './server/docs';
 export * from './server/middleware';
 
+export { ShutdownManager, createShutdownManager } from './server/shutdown';
+export type { ShutdownState, ShutdownHook } from './server/shutdown';
+
+export {
+  HealthRegistry,
+  createHealthRegistry,
+  databaseHealthCheck,
+  phpBackendHealthCheck,
+  healthPlugin,
+} from './server/health';
+export type {
+  HealthCheck,
+  HealthCheckResult,
+  HealthCheckReport,
+  HealthReport,
+  HealthStatus,
+} from './server/health';
+
+export { jwksPlugin, JwksVerifier, createJwksVerifier } from './server/jwks';
+export type { JwksSource, JwksPluginOptions, JwksVerifierOptions } from './server/jwks';
+
+// Contracts
+export { defineService, typed, buildRoutePath } from './contracts/defineService';
+export type {
+  HttpMethod,
+  TypedSchema,
+  RouteContract,
+  ServiceContract,
+  RouteParams,
+  RouteQuery,
+  RouteBody,
+  RouteResponse,
+  RouteInput,
+  ContractRoutes,
+} from './contracts/defineService';
+export { definePolicies } from './contracts/definePolicies';
+export type {
+  PolicyUser,
+  Permission,
+  ConditionalPermission,
+  RoleDefinition,
+  PolicyDefinition,
+  PolicySet,
+} from './contracts/definePolicies';
+export { implementService } from './server/contracts';
+export type {
+  ContractHandler,
+  ContractHandlerContext,
+  ServiceImplementation,
+  ImplementServiceOptions,
+} from './server/contracts';
+export { createServiceClient, sendServiceRequest } from './utils/service-client';
+export type {
+  ServiceClient,
+  ServiceClientMethod,
+  ServiceClientOptions,
+  ServiceClientArgs,
+  ServiceRequestInput,
+  ServiceRequestOptions,
+} from './utils/service-client';
+
+// Remote services
+export {
+  manifestPlugin,
+  buildServiceManifest,
+  resolveRouteNames,
+  deriveRouteName,
+} from './server/manifest';
+export {
+  fetchServiceManifest,
+  createRemoteService,
+  createRemoteServices,
+  loadRemoteServices,
+  clearRemoteServicesCache,
+} from './utils/remote-services';
+export type {
+  RemoteService,
+  RemoteServiceMethod,
+  RemoteServicesClientOptions,
+} from './utils/remote-services';
+
+// Plugins
+export { PluginManager, createPlugin } from './server/plugins';
+export type {
+  StellarPlugin,
+  PluginContext,
+  PluginHooks,
+  PluginHookName,
+  RegisteredPlugin,
+} from './server/plugins';
+
 // Security
 export {
   createCorsMiddleware,
@@ -23,6 +179,7 @@ export {
   createValidatedCors,
   corsPresets,
   toExpressCorsOptions,
+  corsPlugin,
 } from './server/cors';
 export type { CorsOptions } from './server/cors';
 
@@ -36,8 +193,11 @@ export {
   ipBlacklist,
   limitRequestSize,
   securityProfiles,
+  securityPlugin,
 } from './server/security';
 export type { SecurityConfig, RateLimitConfig, HppConfig, ApiKeyConfig } from './server/security';
+export { createCsrfMiddleware } from './server/csrf';
+export { parseCookies, signCookie, unsignCookie } from './utils/cookies';
 
 // Validation
 export {
@@ -60,6 +220,7 @@ export {
   AuditEventType,
   AuditSeverity,
   InMemoryAuditStorage,
+  auditPlugin,
 } from './server/audit';
 export type {
   AuditEvent,
@@ -70,13 +231,195 @@ export type {
 } from './server/audit';
 
 // Hooks
-export { useService, useAuth } from './hooks/useService';
+export { useService, useAuth, useAuthUser, serviceQueryKey } from './hooks/useService';
+export { useServiceMutation } from './hooks/useServiceMutation';
+export type { UseServiceMutationOptions, OptimisticUpdate } from './hooks/useServiceMutation';
+export { usePaginatedService, paginationInput } from './hooks/usePaginatedService';
+export type {
+  UsePaginatedServiceOptions,
+  UsePaginatedServiceResult,
+  PageItem,
+} from './hooks/usePaginatedService';
+export { useInfiniteService, nextPageParams } from './hooks/useInfiniteService';
+export type {
+  UseInfiniteServiceOptions,
+  UseInfiniteServiceResult,
+  InfiniteData,
+} from './hooks/useInfiniteService';
 export * from './hooks';
 
 // Services
 export { AuthService, createAuthService, createAuthMiddleware } from './services/auth/AuthService';
+export type { AuthServiceOptions } from './services/auth/AuthService';
+export {
+  InMemoryUserStore,
+  createInMemoryUserStore,
+  normalizeEmail,
+  toPublicUser,
+} from './services/auth/UserStore';
+export type {
+  UserStore,
+  StoredUser,
+  UserStatus,
+  UserMfa,
+  UserIdentity,
+  CreateUserInput,
+  UserUpdate,
+} from './services/auth/UserStore';
+export { MongooseUserStore, createMongooseUserStore } from './services/auth/MongooseUserStore';
+export type { MongooseUserStoreOptions } from './services/auth/MongooseUserStore';
+export { OidcClient, createOidcClient } from './services/auth/OidcClient';
+export type {
+  OidcClientConfig,
+  OidcDiscoveryDocument,
+  OidcAuthorizationRequest,
+  OidcIdTokenClaims,
+  OidcTokenSet,
+} from './services/auth/OidcClient';
+export {
+  InMemoryOidcStateStore,
+  createInMemoryOidcStateStore,
+} from './services/auth/OidcStateStore';
+export type { OidcStateStore, OidcLoginState } from './services/auth/OidcStateStore';
+export { KeyManager } from './services/auth/KeyManager';
+export {
+  InMemorySigningKeyStore,
+  createInMemorySigningKeyStore,
+  generateSigningKey,
+} from './services/auth/SigningKeyStore';
+export type { SigningKey, SigningKeyStore } from './services/auth/SigningKeyStore';
+export {
+  MongooseSigningKeyStore,
+  createMongooseSigningKeyStore,
+} from './services/auth/MongooseSigningKeyStore';
+export type { MongooseSigningKeyStoreOptions } from './services/auth/MongooseSigningKeyStore';
+export { signJwt, verifyJwt, decodeJwtHeader, toPublicJwk, getJwkAlgorithm } from './utils/jwt';
+export type { JwtKey, JsonWebKey, JsonWebKeySet } from './utils/jwt';
+export {
+  InMemoryRefreshTokenStore,
+  createInMemoryRefreshTokenStore,
+} from './services/auth/RefreshTokenStore';
+export type {
+  RefreshTokenStore,
+  RefreshTokenRecord,
+  SessionDevice,
+} from './services/auth/RefreshTokenStore';
+export {
+  InMemoryTokenRevocationStore,
+  createInMemoryTokenRevocationStore,
+} from './services/auth/TokenRevocationStore';
+export type { TokenRevocationStore, RevocationCheck } from './services/auth/TokenRevocationStore';
+export {
+  InMemoryLoginAttemptStore,
+  createInMemoryLoginAttemptStore,
+} from './services/auth/LoginAttemptStore';
+export type {
+  LoginAttemptStore,
+  LoginAttempts,
+  AttemptCounter,
+  AttemptChange,
+} from './services/auth/LoginAttemptStore';
+export { LoginProtection } from './services/auth/LoginProtection';
+export type { LoginClient } from './services/auth/LoginProtection';
+export { ApiKeyService, createApiKeyService, hasScope } from './services/auth/ApiKeyService';
+export type {
+  ApiKeyServiceOptions,
+  CreateApiKeyInput,
+  CreatedApiKey,
+} from './services/auth/ApiKeyService';
+export {
+  InMemoryApiKeyStore,
+  createInMemoryApiKeyStore,
+  toApiKeyInfo,
+} from './services/auth/ApiKeyStore';
+export type {
+  ApiKeyStore,
+  ApiKeyRecord,
+  ApiKeyInfo,
+  ApiKeyRateLimit,
+} from './services/auth/ApiKeyStore';
+export {
+  MongooseApiKeyStore,
+  createMongooseApiKeyStore,
+} from './services/auth/MongooseApiKeyStore';
+export type { MongooseApiKeyStoreOptions } from './services/auth/MongooseApiKeyStore';
+export { InMemorySessionStore, createInMemorySessionStore } from './services/auth/SessionStore';
+export type { SessionStore, SessionRecord } from './services/auth/SessionStore';
+export {
+  MongooseSessionStore,
+  createMongooseSessionStore,
+} from './services/auth/MongooseSessionStore';
+export type { MongooseSessionStoreOptions } from './services/auth/MongooseSessionStore';
+export {
+  MongooseTokenRevocationStore,
+  createMongooseTokenRevocationStore,
+} from './services/auth/MongooseTokenRevocationStore';
+export type { MongooseTokenRevocationStoreOptions } from './services/auth/MongooseTokenRevocationStore';
+export {
+  ConsoleMailer,
+  FileMailer,
+  createConsoleMailer,
+  createFileMailer,
+} from './services/mail/Mailer';
+export type { Mailer, MailMessage } from './services/mail/Mailer';
 export { UserService, createUserService } from './services/user/UserService';
 
+// Query cache
+export { QueryCache, createQueryCache, hashQueryKey } from './utils/query-cache';
+export type {
+  QueryKey,
+  QueryState,
+  QueryStatus,
+  QueryCacheOptions,
+  QueryFetchOptions,
+  DehydratedQueryState,
+} from './utils/query-cache';
+
+// Cancellation
+export {
+  TimeoutError,
+  LatestCall,
+  createAbortError,
+  isAbortError,
+  withTimeout,
+} from './utils/abort';
+
+// TOTP
+export {
+  generateTOTPSecret,
+  generateTOTP,
+  generateHOTP,
+  verifyTOTP,
+  getTOTPStep,
+  buildOtpAuthUri,
+  base32Encode,
+  base32Decode,
+} from './utils/totp';
+export type { TOTPOptions, VerifyTOTPOptions } from './utils/totp';
+
+// Client auth tokens
+export {
+  AUTH_TOKEN_KEY,
+  REFRESH_TOKEN_KEY,
+  SESSION_USER_KEY,
+  getStoredToken,
+  getStoredRefreshToken,
+  getStoredUser,
+  storeAuthTokens,
+  storeSessionUser,
+  clearAuthTokens,
+  getTokenExpiry,
+  getTokenUser,
+  subscribeAuthTokens,
+} from './utils/auth-tokens';
+export {
+  CSRF_COOKIE_NAME,
+  CSRF_HEADER_NAME,
+  CSRF_SAFE_METHODS,
+  getCsrfToken,
+  withCsrfHeader,
+} from './utils/csrf';
+
 // Utils
 export * from './utils/helpers';
 export * from './utils/constants';
@@ -124,9 +467,29 @@ export type {
   ServiceConfig,
   Route,
   ServiceResponse,
+  PageInfo,
+  PaginatedResult,
   AuthUser,
+  AuthTokens,
+  AccessTokenClaims,
+  AuthSession,
+  MfaChallenge,
+  LockoutOptions,
+  SigningAlgorithm,
+  SigningKeysOptions,
+  SessionCookieOptions,
+  SessionLogin,
   SecurityOptions,
+  CsrfOptions,
   RateLimitOptions,
   ApiKeyOptions,
   AuditOptions,
+  ShutdownOptions,
+  HealthOptions,
+  ManifestOptions,
+  RemoteServicesOptions,
+  QueryOptions,
+  ServiceManifest,
+  ServiceManifestEntry,
+  RouteManifestEntry,
 } from './types';
@@ -1,9 +1,13 @@
 import express, { Express, Request, Response, NextFunction } from 'express';
-import { ServerConfig, ServiceConfig, Route } from '../types';
-import { createCorsMiddleware, developmentCors } from './cors';
-import { createSecurityMiddleware, securityProfiles } from './security';
-import { requestLogger, errorHandler, requestId } from './middleware';
-import { initializeAuditLogger, auditMiddleware } from './audit';
+import { ServerConfig, ServiceConfig, ServiceManifest, Route } from '../types';
+import { corsPlugin } from './cors';
+import { securityPlugin, SecurityConfig } from './security';
+import { errorHandler, requestIdPlugin, bodyParserPlugin, requestLoggerPlugin } from './middleware';
+import { auditPlugin } from './audit';
+import { PluginManager, StellarPlugin, RegisteredPlugin } from './plugins';
+import { ShutdownManager, ShutdownHook } from './shutdown';
+import { HealthRegistry, HealthCheck, HealthReport, healthPlugin } from './health';
+import { manifestPlugin, buildServiceManifest, resolveRouteNames } from './manifest';
 import { createLogger } from '../utils/helpers';
 
 const logger = createLogger('StellarServer');
@@ -13,11 +17,33 @@ export class StellarServer {
   private services: Map<string, any>;
   private middlewares: ((req: Request, res: Response, next: NextFunction) => void)[];
   private server: any;
+  private plugins: PluginManager;
+  private shutdown: ShutdownManager;
+  private health: HealthRegistry;
+  private errorHandlersAdded = false;
 
   constructor(private config: ServerConfig) {
     this.app = express();
     this.services = new Map();
     this.middlewares = [];
+    this.plugins = new PluginManager(this, config);
+    this.shutdown = new ShutdownManager(config.shutdown);
+
+    // Registered first so plugin onClose hooks run after all other shutdown hooks
+    this.shutdown.addHook('plugins', () => this.plugins.runHook('onClose'));
+
+    this.health = new HealthRegistry(config.health);
+    this.health.register({
+      name: 'shutdown',
+      cacheTtl: 0,
+      check: () => ({
+        healthy: !this.shutdown.isDraining(),
+        message: this.shutdown.isDraining()
+          ? 'Server is draining connections'
+          : 'Accepting traffic',
+      }),
+    });
+
     this.setupMiddleware();
   }
 
@@ -27,39 +53,71 @@ export class StellarServer {
       this.app.set('trust proxy', this.config.trustProxy);
     }
 
-    // Request ID for tracking
-    this.app.use(requestId);
+    // In-flight request tracking for graceful shutdown
+    this.app.use(this.shutdown.middleware());
 
-    // CORS configuration
-    const corsMiddleware = this.config.cors
-      ? createCorsMiddleware(this.config.cors)
-      : developmentCors;
-    this.app.use(corsMiddleware);
+    // Built-in plugins, in the order their middleware must run
+    this.register(requestIdPlugin);
 
-    // Security middleware stack
-    const environment = process.env.NODE_ENV || 'development';
-    const securityMiddlewares = this.config.security
-      ? createSecurityMiddleware(this.config.security as any)
-      : environment === 'production'
-      ? securityProfiles.maximum()
-      : securityProfiles.development();
+    // Health endpoints sit ahead of CORS, security and audit so probes are never throttled
+    if (this.config.health?.enabled !== false) {
+      this.register(healthPlugin, { ...this.config.health, registry: this.health });
+    }
 
-    securityMiddlewares.forEach((middleware) => this.app.use(middleware));
-    logger.info('Security middleware enabled');
+    this.register(corsPlugin, this.config.cors);
 
-    // Body parsing with size limits
-    this.app.use(express.json({ limit: '10mb' }));
-    this.app.use(express.urlencoded({ extended: true, limit: '10mb' }));
+    const environment = process.env.NODE_ENV || 'development';
+    this.register(
+      securityPlugin,
+      this.config.security
+        ? (this.config.security as SecurityConfig)
+        : { profile: environment === 'production' ? 'maximum' : 'development' }
+    );
+    logger.info('Security middleware enabled');
 
-    // Request logging
-    this.app.use(requestLogger);
+    this.register(bodyParserPlugin, { limit: '10mb' });
+    this.register(requestLoggerPlugin);
 
-    // Audit logging
     if (this.config.audit?.enabled !== false) {
-      initializeAuditLogger(undefined, true);
-      this.app.use(auditMiddleware(this.config.audit || {}));
+      this.register(auditPlugin, this.config.audit || {});
       logger.info('Audit logging enabled');
     }
+
+    // The manifest lists every route, so production servers publish it only on request
+    if (this.config.manifest?.enabled ?? environment !== 'production') {
+      this.register(manifestPlugin, {
+        ...this.config.manifest,
+        getServices: () => Array.from(this.services.values()),
+      });
+    }
+
+    // Request decorators and onRequest/onResponse hooks
+    this.app.use(this.plugins.requestHandler());
+  }
+
+  /**
+   * Register a plugin. Plugins are applied in registration order and their
+   * dependencies must already be registered. Await the result for async plugins.
+   */
+  public register<TOptions>(
+    plugin: StellarPlugin<TOptions>,
+    options: TOptions = {} as TOptions
+  ): Promise<void> {
+    return this.plugins.register(plugin, options);
+  }
+
+  /**
+   * Check whether a plugin is registered
+   */
+  public hasPlugin(name: string): boolean {
+    return this.plugins.has(name);
+  }
+
+  /**
+   * List registered plugins in registration order
+   */
+  public getPlugins(): RegisteredPlugin[] {
+    return this.plugins.list();
   }
 
   public use(middleware: (req: Request, res: Response, next: NextFunction) => void): void {
@@ -74,6 +132,9 @@ export class StellarServer {
       throw new Error(`Service with name ${name} is already registered`);
     }
 
+    // Fails early on route names that would collide in the manifest
+    resolveRouteNames(routes);
+
     // Register all routes for the service
     routes.forEach((route: Route) => {
       const path = `/api/${name}${route.path}`;
@@ -94,16 +155,25 @@ export class StellarServer {
   public async start(): Promise<void> {
     const { port = 3000 } = this.config;
 
-    // Add error handler last
-    this.app.use(errorHandler);
+    // Wait for async plugins before running init hooks
+    await this.plugins.ready();
+    await this.plugins.runHook('onInit');
 
-    return new Promise((resolve, reject) => {
+    // Add error handlers last, once: a restarted server keeps them
+    if (!this.errorHandlersAdded) {
+      this.app.use(this.plugins.errorHandler());
+      this.app.use(errorHandler);
+      this.errorHandlersAdded = true;
+    }
+
+    await new Promise<void>((resolve, reject) => {
       try {
         this.server = this.app.listen(port, () => {
           logger.info(`🚀 StellarJS Server running on port ${port}`);
           logger.info(`Environment: ${process.env.NODE_ENV || 'development'}`);
           logger.info(`Security: Enabled`);
           logger.info(`CORS: Configured`);
+          this.shutdown.attach(this.server);
           resolve();
         });
 
@@ -120,6 +190,8 @@ export class StellarServer {
         reject(error);
       }
     });
+
+    await this.plugins.runHook('onReady', { port });
   }
 
   public getApp(): Express {
@@ -130,33 +202,59 @@ export class StellarServer {
     return this.services.get(name);
   }
 
+  /**
+   * Route manifest of registered services, as served to remote clients
+   */
+  public getManifest(): ServiceManifest {
+    return buildServiceManifest(Array.from(this.services.values()));
+  }
+
+  /**
+   * Register a hook to run during shutdown (close database, flush queues...).
+   * Hooks run in reverse registration order after in-flight requests drain.
+   */
+  public onShutdown(name: string, hook: ShutdownHook): void {
+    this.shutdown.addHook(name, hook);
+  }
+
+  /**
+   * Gracefully stop the server: stop accepting connections, drain in-flight
+   * requests, run shutdown hooks and close remaining sockets
+   */
   public async stop(): Promise<void> {
-    if (this.server) {
-      return new Promise((resolve, reject) => {
-        this.server.close((err: any) => {
-          if (err) {
-            logger.error('Error stopping server:', err);
-            reject(err);
-          } else {
-            logger.info('Server stopped successfully');
-            resolve();
-          }
-        });
-      });
+    if (!this.server) {
+      return;
     }
-    return Promise.resolve();
+
+    await this.shutdown.shutdown();
+    this.server = null;
+    logger.info('Server stopped successfully');
+  }
+
+  /**
+   * Register a named health check used by the readiness endpoint
+   */
+  public addHealthCheck(check: HealthCheck): void {
+    this.health.register(check);
+  }
+
+  /**
+   * Run all health checks and build a detailed report
+   */
+  public async checkHealth(): Promise<HealthReport> {
+    return this.health.run();
   }
 
   /**
    * Get server health status
    */
   public getHealth(): {
-    status: 'healthy' | 'unhealthy';
+    status: 'healthy' | 'unhealthy' | 'draining';
     uptime: number;
     services: number;
   } {
     return {
-      status: 'healthy',
+      status: this.shutdown.isDraining() ? 'draining' : 'healthy',
       uptime: process.uptime(),
       services: this.services.size,
     };
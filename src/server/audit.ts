@@ -1,5 +1,8 @@
 import { Request, Response, NextFunction } from 'express';
 import { createLogger } from '../utils/helpers';
+import { AuditOptions } from '../types';
+import { createPlugin } from './plugins';
+import { getCurrentTransaction } from './transactions';
 
 const logger = createLogger('AuditLog');
 
@@ -106,6 +109,7 @@ export interface AuditResource {
 export interface AuditStorage {
   save(event: AuditEvent): Promise<void>;
   query(filters: AuditQueryFilters): Promise<AuditEvent[]>;
+  flush?(): Promise<void>;
 }
 
 /**
@@ -211,7 +215,9 @@ export class AuditLogger {
   }
 
   /**
-   * Log an audit event
+   * Log an audit event. Inside a database transaction, successful events
+   * are saved once it commits and dropped if it aborts; failures are saved
+   * at once, since the attempt happened either way.
    */
   async log(event: Partial<AuditEvent>): Promise<void> {
     if (!this.enabled) return;
@@ -233,6 +239,15 @@ export class AuditLogger {
       requestId: event.requestId,
     };
 
+    const transaction = getCurrentTransaction();
+    if (transaction && fullEvent.result === 'success') {
+      transaction.afterCommit(() => this.write(fullEvent));
+      return;
+    }
+    await this.write(fullEvent);
+  }
+
+  private async write(fullEvent: AuditEvent): Promise<void> {
     try {
       await this.storage.save(fullEvent);
 
@@ -261,6 +276,13 @@ export class AuditLogger {
     return this.storage.query(filters);
   }
 
+  /**
+   * Flush buffered events to storage (called on shutdown)
+   */
+  async flush(): Promise<void> {
+    await this.storage.flush?.();
+  }
+
   /**
    * Format log message for console output
    */
@@ -473,6 +495,20 @@ const sanitizeSensitiveFields = (
   return sanitized;
 };
 
+/**
+ * Built-in plugin: request auditing
+ */
+export const auditPlugin = createPlugin<AuditOptions & { storage?: AuditStorage }>({
+  name: 'stellar-audit',
+  dependencies: ['stellar-body-parser'],
+  register: (context, options) => {
+    const { storage, ...auditOptions } = options;
+    const auditLogger = initializeAuditLogger(storage, true);
+    context.use(auditMiddleware(auditOptions));
+    context.addHook('onClose', () => auditLogger.flush());
+  },
+});
+
 /**
  * Export storage implementations
  */
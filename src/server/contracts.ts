@@ -0,0 +1,169 @@
+import { Request, Response, RequestHandler } from 'express';
+import { AuthUser, Route, ServiceConfig } from '../types';
+import {
+  ServiceContract,
+  RouteContract,
+  ContractRoutes,
+  RouteParams,
+  RouteQuery,
+  RouteBody,
+  RouteResponse,
+} from '../contracts/defineService';
+import { validate } from './validation';
+import { formatErrorResponse, StellarError } from '../utils/errors';
+import { HTTP_STATUS } from '../utils/constants';
+import { createLogger } from '../utils/helpers';
+
+const logger = createLogger('Contracts');
+
+/**
+ * Validated input handed to a contract route handler
+ */
+export interface ContractHandlerContext<TRoute> {
+  params: RouteParams<TRoute>;
+  query: RouteQuery<TRoute>;
+  body: RouteBody<TRoute>;
+  user?: AuthUser;
+  req: Request;
+  res: Response;
+}
+
+/**
+ * Handler for a contract route. The returned value is sent as `data`.
+ */
+export type ContractHandler<TRoute> = (
+  context: ContractHandlerContext<TRoute>
+) => RouteResponse<TRoute> | Promise<RouteResponse<TRoute>>;
+
+/**
+ * Handlers for every route of a contract
+ */
+export type ServiceImplementation<TContract extends ServiceContract> = {
+  [K in keyof ContractRoutes<TContract>]: ContractHandler<ContractRoutes<TContract>[K]>;
+};
+
+/**
+ * Options for implementing a contract
+ */
+export interface ImplementServiceOptions<TContract extends ServiceContract> {
+  /**
+   * Middleware applied to every route (e.g. authentication)
+   */
+  middleware?: RequestHandler[];
+
+  /**
+   * Middleware applied to individual routes
+   */
+  routeMiddleware?: Partial<Record<keyof ContractRoutes<TContract>, RequestHandler[]>>;
+}
+
+/**
+ * Build a ServiceConfig from a contract and its handlers. Params, query and
+ * body are validated against the contract's schemas before the handler runs,
+ * and the handler's return value is sent as `{ success: true, data }`. A
+ * return value that does not match the response schema is a server error.
+ */
+export function implementService<TContract extends ServiceContract>(
+  contract: TContract,
+  handlers: ServiceImplementation<TContract>,
+  options: ImplementServiceOptions<TContract> = {}
+): ServiceConfig {
+  const routes: Route[] = Object.entries(contract.routes).map(([name, route]) => {
+    const handler = handlers[name as keyof ServiceImplementation<TContract>] as
+      | ContractHandler<RouteContract>
+      | undefined;
+
+    if (typeof handler !== 'function') {
+      throw new Error(`Missing handler for route "${name}" of service "${contract.name}"`);
+    }
+
+    return {
+      name,
+      path: route.path,
+      method: route.method,
+      middleware: [
+        ...(options.middleware || []),
+        ...(options.routeMiddleware?.[name as keyof ContractRoutes<TContract>] || []),
+        ...createValidators(route),
+      ],
+      handler: createRouteHandler(contract.name, name, route, handler),
+    };
+  });
+
+  return { name: contract.name, routes };
+}
+
+/**
+ * Validation middleware for the schemas a route declares
+ */
+const createValidators = (route: RouteContract): RequestHandler[] => {
+  const validators: RequestHandler[] = [];
+
+  if (route.params?.schema) {
+    validators.push(validate(route.params.schema, 'params'));
+  }
+  if (route.query?.schema) {
+    validators.push(validate(route.query.schema, 'query'));
+  }
+  if (route.body?.schema) {
+    validators.push(validate(route.body.schema, 'body'));
+  }
+
+  return validators;
+};
+
+/**
+ * Validate a handler's return value against the route's response schema.
+ * Undeclared fields are stripped so they cannot leak to clients.
+ */
+const checkResponse = (route: RouteContract, data: unknown): unknown => {
+  if (!route.response?.schema) {
+    return data;
+  }
+
+  const { error, value } = route.response.schema.validate(data, { stripUnknown: true });
+  if (error) {
+    throw new Error(`Response does not match the contract: ${error.message}`);
+  }
+  return value;
+};
+
+/**
+ * Wrap a contract handler into an Express route handler
+ */
+const createRouteHandler = (
+  serviceName: string,
+  routeName: string,
+  route: RouteContract,
+  handler: ContractHandler<RouteContract>
+) => {
+  return async (req: Request, res: Response): Promise<void> => {
+    try {
+      const data = await handler({
+        params: req.params,
+        query: req.query,
+        body: req.body,
+        user: (req as Request & { user?: AuthUser }).user,
+        req,
+        res,
+      });
+
+      if (!res.headersSent) {
+        const status = route.method === 'POST' ? HTTP_STATUS.CREATED : HTTP_STATUS.OK;
+        res.status(status).json({ success: true, data: checkResponse(route, data) });
+      }
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      const statusCode =
+        err instanceof StellarError ? err.statusCode : HTTP_STATUS.INTERNAL_SERVER_ERROR;
+
+      if (statusCode >= HTTP_STATUS.INTERNAL_SERVER_ERROR) {
+        logger.error(`${serviceName}.${routeName} failed:`, err);
+      }
+
+      if (!res.headersSent) {
+        res.status(statusCode).json(formatErrorResponse(err));
+      }
+    }
+  };
+};
@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import { CorsOptions as ExpressCorsOptions } from 'cors';
+import { createPlugin } from './plugins';
 
 export interface CorsOptions {
   /**
@@ -291,3 +292,13 @@ export const toExpressCorsOptions = (options: CorsOptions): ExpressCorsOptions =
     preflightContinue: config.preflightContinue,
   };
 };
+
+/**
+ * Built-in plugin: CORS handling
+ */
+export const corsPlugin = createPlugin<CorsOptions>({
+  name: 'stellar-cors',
+  register: (context, options) => {
+    context.use(createCorsMiddleware(options));
+  },
+});
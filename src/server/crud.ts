@@ -0,0 +1,382 @@
+import { Request, RequestHandler } from 'express';
+import Joi from 'joi';
+import { AuthUser, ServiceConfig } from '../types';
+import { defineService, RouteContract, typed } from '../contracts/defineService';
+import { implementService, ServiceImplementation } from './contracts';
+import { Entity, EntityInput, StellarModel } from './models';
+import { InMemoryRepository, Repository } from './repository';
+import type { DatabaseManager } from './database';
+import { AuditEventType, getAuditLogger } from './audit';
+import { parsePagination, PaginationOptions, sendPaginated } from './pagination';
+import { NotFoundError } from '../utils/errors';
+
+/**
+ * Operations a CRUD service can expose, and their routes:
+ * - list: GET /
+ * - get: GET /:id
+ * - create: POST /
+ * - update: PUT /:id
+ * - patch: PATCH /:id
+ * - delete: DELETE /:id
+ * - bulkCreate: POST /bulk (an array of inputs)
+ * - bulkDelete: DELETE /bulk (`{ ids }`)
+ */
+export type CrudOperation =
+  | 'list'
+  | 'get'
+  | 'create'
+  | 'update'
+  | 'patch'
+  | 'delete'
+  | 'bulkCreate'
+  | 'bulkDelete';
+
+/**
+ * Passed to every CRUD hook
+ */
+export interface CrudHookContext {
+  user?: AuthUser;
+  req: Request;
+}
+
+/**
+ * Hooks around CRUD writes. Before-hooks may return changed input and
+ * throw a StellarError to reject the request.
+ */
+export interface CrudHooks<T extends Entity> {
+  beforeCreate?: (
+    input: EntityInput<T>,
+    context: CrudHookContext
+  ) => EntityInput<T> | void | Promise<EntityInput<T> | void>;
+  afterCreate?: (entity: T, context: CrudHookContext) => void | Promise<void>;
+
+  /**
+   * Runs for update and patch; `changes` holds the fields being written
+   */
+  beforeUpdate?: (
+    changes: Partial<EntityInput<T>>,
+    existing: T,
+    context: CrudHookContext
+  ) => Partial<EntityInput<T>> | void | Promise<Partial<EntityInput<T>> | void>;
+  afterUpdate?: (entity: T, previous: T, context: CrudHookContext) => void | Promise<void>;
+  beforeDelete?: (entity: T, context: CrudHookContext) => void | Promise<void>;
+  afterDelete?: (entity: T, context: CrudHookContext) => void | Promise<void>;
+}
+
+/**
+ * Options for createCrudService()
+ */
+export interface CrudServiceOptions<T extends Entity> {
+  /**
+   * Service name, and so the base path `/api/<name>`
+   * Default: the model's collection
+   */
+  name?: string;
+
+  /**
+   * Default: an InMemoryRepository
+   */
+  repository?: Repository<T>;
+
+  /**
+   * Default: every operation
+   */
+  operations?: CrudOperation[];
+
+  /**
+   * Middleware applied to every route (e.g. authentication)
+   */
+  middleware?: RequestHandler[];
+
+  /**
+   * Middleware applied to individual operations (e.g. authorization)
+   */
+  routeMiddleware?: Partial<Record<CrudOperation, RequestHandler[]>>;
+  hooks?: CrudHooks<T>;
+  pagination?: PaginationOptions;
+
+  /**
+   * Most items one bulk request may create or delete
+   * Default: 100
+   */
+  maxBulkSize?: number;
+
+  /**
+   * Log DATA_CREATED, DATA_UPDATED and DATA_DELETED audit events
+   * Default: true
+   */
+  audit?: boolean;
+
+  /**
+   * Run each write, with its hooks, in a transaction on this database. The
+   * audit events of a write are saved once it commits.
+   */
+  transactions?: DatabaseManager;
+}
+
+const CRUD_OPERATIONS: CrudOperation[] = [
+  'list',
+  // Before '/:id' so that '/bulk' is not taken for an id
+  'bulkCreate',
+  'bulkDelete',
+  'get',
+  'create',
+  'update',
+  'patch',
+  'delete',
+];
+
+const idParams = typed<{ id: string }>(Joi.object({ id: Joi.string().required() }));
+
+/**
+ * Routes of each operation, validated against the model's schemas
+ */
+const crudRoutes = <T extends Entity>(
+  model: StellarModel<T>,
+  maxBulkSize: number
+): Record<CrudOperation, RouteContract> => {
+  const fields = model.fields as Record<string, Joi.Schema>;
+  const filters = Object.fromEntries(
+    model.filterable.map((field) => [field, fields[field].optional()])
+  );
+  const sortValues = model.sortable.flatMap((field) => [field, `-${field}`]);
+
+  return {
+    list: {
+      method: 'GET',
+      path: '/',
+      description: `List ${model.collection}. Filter by field (e.g. ?${
+        model.filterable[0] || 'field'
+      }=), sort with ?sort=field or ?sort=-field, page with ?page=&limit=.`,
+      query: typed(
+        Joi.object({
+          ...filters,
+          sort: Joi.string().valid(...sortValues),
+          page: Joi.any(),
+          limit: Joi.any(),
+        }).prefs({ noDefaults: true })
+      ),
+    },
+    get: { method: 'GET', path: '/:id', params: idParams },
+    create: { method: 'POST', path: '/', body: typed(model.schemas.input) },
+    update: { method: 'PUT', path: '/:id', params: idParams, body: typed(model.schemas.input) },
+    patch: { method: 'PATCH', path: '/:id', params: idParams, body: typed(model.schemas.patch) },
+    delete: { method: 'DELETE', path: '/:id', params: idParams },
+    bulkCreate: {
+      method: 'POST',
+      path: '/bulk',
+      body: typed(Joi.array().items(model.schemas.input).min(1).max(maxBulkSize)),
+    },
+    bulkDelete: {
+      method: 'DELETE',
+      path: '/bulk',
+      body: typed(
+        Joi.object({
+          ids: Joi.array().items(Joi.string()).min(1).max(maxBulkSize).required(),
+        })
+      ),
+    },
+  };
+};
+
+/**
+ * Build a complete CRUD service for a model: list with filtering, sorting
+ * and pagination, get, create, update, patch, delete and bulk create and
+ * delete. Bodies are validated against the model, writes run the hooks and
+ * are audited.
+ *
+ * @example
+ * ```typescript
+ * server.registerService(
+ *   createCrudService(TodoModel, {
+ *     repository: createMongooseRepository(TodoModel, getDatabase()),
+ *     middleware: [auth.authenticateToken],
+ *     routeMiddleware: { bulkDelete: [auth.authorize('todos:manage')] },
+ *     hooks: {
+ *       beforeCreate: (input, { user }) => ({ ...input, ownerId: user?.id }),
+ *     },
+ *   })
+ * );
+ * ```
+ */
+export function createCrudService<T extends Entity>(
+  model: StellarModel<T>,
+  options: CrudServiceOptions<T> = {}
+): ServiceConfig {
+  const repository = options.repository || new InMemoryRepository<T>();
+  const hooks = options.hooks || {};
+  const operations = new Set(options.operations || CRUD_OPERATIONS);
+  const routes = crudRoutes(model, options.maxBulkSize || 100);
+
+  const transactional = <R>(work: () => Promise<R>): Promise<R> =>
+    options.transactions ? options.transactions.withTransaction(work) : work();
+
+  const audit = async (
+    type: AuditEventType,
+    action: string,
+    entity: T,
+    context: CrudHookContext,
+    metadata?: Record<string, unknown>
+  ) => {
+    if (options.audit === false) {
+      return;
+    }
+
+    const { user, req } = context;
+    await getAuditLogger().log({
+      type,
+      actor: user
+        ? { id: user.id, type: 'user', identifier: user.email, roles: user.roles }
+        : { type: 'anonymous', identifier: req.ip || 'unknown' },
+      resource: { type: model.name, id: entity.id },
+      action: `${action} ${model.name}`,
+      result: 'success',
+      metadata,
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+    });
+  };
+
+  const findOrFail = async (id: string): Promise<T> => {
+    const entity = await repository.findById(id);
+    if (!entity) {
+      throw new NotFoundError(`${model.name} not found`);
+    }
+    return entity;
+  };
+
+  const create = async (inputs: EntityInput<T>[], context: CrudHookContext): Promise<T[]> => {
+    const prepared: EntityInput<T>[] = [];
+    for (const input of inputs) {
+      prepared.push((await hooks.beforeCreate?.(input, context)) || input);
+    }
+
+    const entities = await repository.createMany(prepared);
+    for (const entity of entities) {
+      await hooks.afterCreate?.(entity, context);
+      await audit(AuditEventType.DATA_CREATED, 'create', entity, context);
+    }
+    return entities;
+  };
+
+  const write = async (
+    id: string,
+    changes: Partial<EntityInput<T>>,
+    replace: boolean,
+    context: CrudHookContext
+  ): Promise<T> => {
+    const existing = await findOrFail(id);
+    const final = (await hooks.beforeUpdate?.(changes, existing, context)) || changes;
+    const entity = replace
+      ? await repository.update(id, final as EntityInput<T>)
+      : await repository.patch(id, final);
+
+    if (!entity) {
+      throw new NotFoundError(`${model.name} not found`);
+    }
+
+    await hooks.afterUpdate?.(entity, existing, context);
+    await audit(AuditEventType.DATA_UPDATED, 'update', entity, context, {
+      fields: Object.keys(final),
+    });
+    return entity;
+  };
+
+  const remove = async (entity: T, context: CrudHookContext): Promise<boolean> => {
+    await hooks.beforeDelete?.(entity, context);
+    if (!(await repository.delete(entity.id))) {
+      return false;
+    }
+
+    await hooks.afterDelete?.(entity, context);
+    await audit(AuditEventType.DATA_DELETED, 'delete', entity, context);
+    return true;
+  };
+
+  const handlers: ServiceImplementation<{
+    name: string;
+    routes: Record<CrudOperation, RouteContract>;
+  }> = {
+    list: async ({ query, req, res }) => {
+      const { sort, page: _page, limit: _limit, ...filter } = query as Record<string, unknown>;
+      const { page, limit, offset } = parsePagination(req.query, options.pagination);
+      const field = typeof sort === 'string' ? sort.replace(/^-/, '') : undefined;
+
+      const [data, total] = await Promise.all([
+        repository.find({
+          filter: filter as Partial<T>,
+          sort: field
+            ? {
+                field: field as keyof T & string,
+                order: String(sort).startsWith('-') ? 'desc' : 'asc',
+              }
+            : undefined,
+          offset,
+          limit,
+        }),
+        repository.count(filter as Partial<T>),
+      ]);
+
+      const totalPages = Math.ceil(total / limit);
+      sendPaginated(req, res, {
+        data,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages,
+          hasNextPage: page < totalPages,
+          hasPreviousPage: page > 1,
+        },
+      });
+    },
+    get: ({ params }) => findOrFail((params as { id: string }).id),
+    create: async ({ body, user, req }) => {
+      const [entity] = await transactional(() => create([body as EntityInput<T>], { user, req }));
+      return entity;
+    },
+    update: ({ params, body, user, req }) =>
+      transactional(() =>
+        write((params as { id: string }).id, body as EntityInput<T>, true, { user, req })
+      ),
+    patch: ({ params, body, user, req }) =>
+      transactional(() =>
+        write((params as { id: string }).id, body as Partial<EntityInput<T>>, false, { user, req })
+      ),
+    delete: async ({ params, user, req, res }) => {
+      await transactional(async () =>
+        remove(await findOrFail((params as { id: string }).id), { user, req })
+      );
+      res.status(204).end();
+    },
+    bulkCreate: ({ body, user, req }) =>
+      transactional(() => create(body as EntityInput<T>[], { user, req })),
+    bulkDelete: ({ body, user, req }) =>
+      transactional(async () => {
+        let deleted = 0;
+        for (const id of (body as { ids: string[] }).ids) {
+          const entity = await repository.findById(id);
+          if (entity && (await remove(entity, { user, req }))) {
+            deleted += 1;
+          }
+        }
+        return { deleted };
+      }),
+  };
+
+  const selected = CRUD_OPERATIONS.filter((operation) => operations.has(operation));
+  const contract = defineService({
+    name: options.name || model.collection,
+    routes: Object.fromEntries(
+      selected.map((operation) => [operation, routes[operation]])
+    ) as Record<CrudOperation, RouteContract>,
+  });
+
+  return implementService(
+    contract,
+    Object.fromEntries(
+      selected.map((operation) => [operation, handlers[operation]])
+    ) as typeof handlers,
+    { middleware: options.middleware, routeMiddleware: options.routeMiddleware }
+  );
+}
@@ -0,0 +1,59 @@
+import { Request, Response, NextFunction } from 'express';
+import { CsrfOptions } from '../types';
+import { parseCookies } from '../utils/cookies';
+import { CSRF_COOKIE_NAME, CSRF_HEADER_NAME, CSRF_SAFE_METHODS } from '../utils/csrf';
+import { createLogger } from '../utils/helpers';
+import { generateCSRFToken, verifyCSRFToken } from '../utils/security';
+
+const logger = createLogger('CSRF');
+
+/**
+ * Double-submit CSRF middleware. Every response without a CSRF cookie sets
+ * one; state-changing requests that carry cookies must send its value in the
+ * X-CSRF-Token header, which other sites cannot read or set.
+ *
+ * Requests without cookies or with an Authorization header are not checked:
+ * browsers never attach those credentials to forged requests on their own.
+ */
+export const createCsrfMiddleware = (options: CsrfOptions = {}) => {
+  const cookieOptions = {
+    httpOnly: false,
+    secure: options.secure ?? process.env.NODE_ENV === 'production',
+    sameSite: options.sameSite || 'lax',
+    path: '/',
+  };
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const cookies = parseCookies(req.headers.cookie);
+    const token = cookies[CSRF_COOKIE_NAME];
+    if (!token) {
+      res.cookie(CSRF_COOKIE_NAME, generateCSRFToken(), cookieOptions);
+    }
+
+    const excluded = options.excludePaths?.some((path) =>
+      typeof path === 'string' ? req.path === path : path.test(req.path)
+    );
+    if (
+      CSRF_SAFE_METHODS.includes(req.method) ||
+      excluded ||
+      !req.headers.cookie ||
+      req.headers.authorization
+    ) {
+      next();
+      return;
+    }
+
+    if (!verifyCSRFToken(req.get(CSRF_HEADER_NAME) || '', token || '')) {
+      logger.warn(`Rejected ${req.method} ${req.path} without a valid CSRF token from ${req.ip}`);
+      res.status(403).json({
+        error: {
+          message: 'Invalid CSRF token',
+          code: 'INVALID_CSRF_TOKEN',
+        },
+      });
+      return;
+    }
+
+    next();
+  };
+};
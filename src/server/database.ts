@@ -1,80 +1,226 @@
-import mongoose, { Connection, ConnectOptions } from 'mongoose';
-import { createLogger } from '../utils/helpers';
+import { RequestHandler } from 'express';
+import mongoose, { Connection, ConnectOptions, FilterQuery, Model, Schema } from 'mongoose';
+import { PaginatedResult } from '../types';
+import { ServiceUnavailableError, ValidationError } from '../utils/errors';
+import { createLogger, retry } from '../utils/helpers';
+import { decodeCursor, encodeCursor } from './pagination';
+import { createPlugin } from './plugins';
+import { databaseHealthCheck } from './health';
+import { runInTransaction, Transaction, WithTransactionOptions } from './transactions';
 
 const logger = createLogger('Database');
 
+/**
+ * Name of the database used when none is given
+ */
+export const DEFAULT_DATABASE = 'default';
+
 /**
  * Database configuration
  */
 export interface DatabaseConfig {
+  /**
+   * Name the database is registered under, for getDatabase(name)
+   * Default: 'default'
+   */
+  name?: string;
   uri: string;
   options?: ConnectOptions;
   autoConnect?: boolean;
+
+  /**
+   * Servers that answer read queries made through readModel() and
+   * getReadConnection(), e.g. replica set secondaries or an analytics copy.
+   * Reads go to the primary while no replica is connected.
+   */
+  readReplicas?: (string | { uri: string; options?: ConnectOptions })[];
+
+  /**
+   * Retries of the initial connect, with exponential backoff. Once
+   * connected, the driver reconnects by itself and the manager reports it.
+   * Default: { maxRetries: 5, initialDelay: 1000, maxDelay: 30000 }
+   */
+  retry?: {
+    maxRetries?: number;
+    initialDelay?: number;
+    maxDelay?: number;
+    backoffMultiplier?: number;
+  };
+
+  /**
+   * Disconnect and exit the process on SIGINT/SIGTERM. For scripts and
+   * workers without a StellarServer: a server handles these signals itself,
+   * so close the database from a shutdown hook or with databasePlugin.
+   * Default: false
+   */
+  handleSignals?: boolean;
 }
 
 /**
- * Database connection manager
+ * Connection state of a DatabaseManager
  */
-export class DatabaseManager {
-  private connection: Connection | null = null;
-  private isConnecting = false;
+export type DatabaseState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting' | 'failed';
 
-  constructor(private config: DatabaseConfig) {}
+/**
+ * Events of a DatabaseManager and their payloads
+ */
+export interface DatabaseEvents {
+  /**
+   * An initial connect attempt started; `attempt` counts from 1
+   */
+  connecting: { attempt: number };
 
   /**
-   * Connect to the database
+   * The primary connection is up. `downtimeMs` is the length of the outage
+   * it ends, 0 for the first connect.
    */
-  async connect(): Promise<Connection> {
-    if (this.connection?.readyState === 1) {
-      logger.info('Database already connected');
-      return this.connection;
-    }
+  connected: { downtimeMs: number };
 
-    if (this.isConnecting) {
-      logger.info('Connection already in progress, waiting...');
-      return this.waitForConnection();
-    }
+  /**
+   * The primary connection dropped and the driver is reconnecting
+   */
+  reconnecting: { since: Date };
 
-    this.isConnecting = true;
+  /**
+   * The initial connect gave up after its retries
+   */
+  failed: { error: Error };
+}
 
-    try {
-      logger.info('Connecting to database...');
+/**
+ * Connection figures of a DatabaseManager
+ */
+export interface DatabaseMetrics {
+  state: DatabaseState;
+  connectAttempts: number;
+  reconnects: number;
 
-      const options: ConnectOptions = {
-        ...this.config.options,
-      };
+  /**
+   * Time spent reconnecting since the first connect (ms), the current
+   * outage included
+   */
+  downtimeMs: number;
+  disconnectedSince: Date | null;
+  lastConnectedAt: Date | null;
+}
 
-      await mongoose.connect(this.config.uri, options);
-      this.connection = mongoose.connection;
+/**
+ * Options for cursor-based pagination of a collection
+ */
+export interface CursorPaginateOptions<T> {
+  filter?: FilterQuery<T>;
 
-      this.setupEventHandlers();
+  /**
+   * Cursor returned as `pagination.nextCursor` by the previous page
+   */
+  cursor?: string;
+
+  /**
+   * Default: 20
+   */
+  limit?: number;
+
+  /**
+   * Field to order by; `_id` breaks ties
+   * Default: '_id'
+   */
+  sortField?: string;
+
+  /**
+   * Default: 'asc'
+   */
+  sortOrder?: 'asc' | 'desc';
+}
+
+interface CursorPosition {
+  value: unknown;
+  id: unknown;
+}
 
-      logger.success('Database connected successfully');
-      this.isConnecting = false;
+/**
+ * Read the position of a cursor. Cursors come from clients, so only plain
+ * values are accepted: an object such as `{ $ne: null }` would otherwise end
+ * up in the query as an operator. Dates are encoded as ISO strings.
+ */
+const decodeCursorPosition = (cursor: string): CursorPosition => {
+  const position = decodeCursor<Partial<CursorPosition> | null>(cursor);
+  const isPlain = (value: unknown) =>
+    value === null || ['string', 'number', 'boolean'].includes(typeof value);
+
+  if (
+    !position ||
+    typeof position !== 'object' ||
+    !isPlain(position.id) ||
+    (position.value !== undefined && !isPlain(position.value))
+  ) {
+    throw new ValidationError('Invalid cursor', [{ field: 'cursor', message: 'is invalid' }]);
+  }
+  return { value: position.value, id: position.id };
+};
 
+/**
+ * Connection to one database, with its own models. Each manager opens its
+ * own connections, so several databases can be used side by side.
+ */
+export class DatabaseManager {
+  readonly name: string;
+  private connection: Connection | null = null;
+  private replicas: Connection[] = [];
+  private nextReplica = 0;
+  private connecting: Promise<Connection> | null = null;
+  private state: DatabaseState = 'disconnected';
+  private listeners = new Map<keyof DatabaseEvents, Set<(payload: never) => void>>();
+  private connectAttempts = 0;
+  private reconnects = 0;
+  private downtimeMs = 0;
+  private disconnectedSince: Date | null = null;
+  private lastConnectedAt: Date | null = null;
+  private signalHandler: (() => void) | null = null;
+
+  constructor(private config: DatabaseConfig) {
+    this.name = config.name || DEFAULT_DATABASE;
+  }
+
+  /**
+   * Connect to the database and its read replicas. Replicas that cannot be
+   * reached are skipped; their reads go to the primary.
+   */
+  async connect(): Promise<Connection> {
+    if (this.connection?.readyState === 1) {
+      logger.info(`Database "${this.name}" already connected`);
       return this.connection;
-    } catch (error) {
-      this.isConnecting = false;
-      logger.error('Failed to connect to database:', error);
-      throw error;
     }
+
+    // Concurrent callers share one attempt
+    if (!this.connecting) {
+      this.connecting = this.openConnections().finally(() => {
+        this.connecting = null;
+      });
+    }
+    return this.connecting;
   }
 
   /**
-   * Disconnect from the database
+   * Disconnect from the database and its read replicas
    */
   async disconnect(): Promise<void> {
     if (!this.connection) {
-      logger.warn('No database connection to close');
+      logger.warn(`No connection to database "${this.name}" to close`);
       return;
     }
 
+    // Set first so the close is not reported as an outage
+    this.state = 'disconnected';
+    this.disconnectedSince = null;
+    this.removeSignalHandlers();
+
     try {
-      await mongoose.disconnect();
+      await Promise.all([this.connection, ...this.replicas].map((conn) => conn.close()));
       this.connection = null;
-      logger.info('Database disconnected successfully');
+      this.replicas = [];
+      logger.info(`Database "${this.name}" disconnected successfully`);
     } catch (error) {
-      logger.error('Failed to disconnect from database:', error);
+      logger.error(`Failed to disconnect from database "${this.name}":`, error);
       throw error;
     }
   }
@@ -86,6 +232,107 @@ export class DatabaseManager {
     return this.connection;
   }
 
+  getState(): DatabaseState {
+    return this.state;
+  }
+
+  getMetrics(): DatabaseMetrics {
+    const outage = this.disconnectedSince ? Date.now() - this.disconnectedSince.getTime() : 0;
+    return {
+      state: this.state,
+      connectAttempts: this.connectAttempts,
+      reconnects: this.reconnects,
+      downtimeMs: this.downtimeMs + outage,
+      disconnectedSince: this.disconnectedSince,
+      lastConnectedAt: this.lastConnectedAt,
+    };
+  }
+
+  /**
+   * Call `listener` on each `event`. Returns a function that unsubscribes.
+   */
+  on<K extends keyof DatabaseEvents>(
+    event: K,
+    listener: (payload: DatabaseEvents[K]) => void
+  ): () => void {
+    const listeners = this.listeners.get(event) || new Set();
+    listeners.add(listener);
+    this.listeners.set(event, listeners);
+
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Middleware answering 503 while the database is not connected, instead
+   * of letting queries wait in mongoose's buffer until they time out
+   */
+  requireConnection(): RequestHandler {
+    return (_req, _res, next) => {
+      if (this.isConnected()) {
+        next();
+        return;
+      }
+      next(new ServiceUnavailableError(`Database "${this.name}" is unavailable`));
+    };
+  }
+
+  /**
+   * Connection for read queries: the connected replicas in turn, or the
+   * primary when none is connected
+   */
+  getReadConnection(): Connection | null {
+    const connected = this.replicas.filter((replica) => replica.readyState === 1);
+    if (connected.length === 0) {
+      return this.connection;
+    }
+
+    this.nextReplica = (this.nextReplica + 1) % connected.length;
+    return connected[this.nextReplica];
+  }
+
+  /**
+   * Model on this database's primary connection, compiled from `schema` the
+   * first time. Models of other databases are unaffected.
+   */
+  model<T>(name: string, schema: Schema<T>): Model<T> {
+    return this.modelOn(this.connection, name, schema);
+  }
+
+  /**
+   * Like model(), on the connection getReadConnection() picks. Use it for
+   * queries that tolerate replication lag.
+   */
+  readModel<T>(name: string, schema: Schema<T>): Model<T> {
+    return this.modelOn(this.getReadConnection(), name, schema);
+  }
+
+  /**
+   * Run `work` in a transaction on the primary. Repositories of this
+   * database join it by themselves, audit events and afterCommit() effects
+   * wait for the commit, and transient errors run `work` again. Needs a
+   * replica set or sharded cluster.
+   *
+   * @example
+   * ```typescript
+   * await db.withTransaction(async (tx) => {
+   *   const order = await orders.create(input);
+   *   await stock.patch(input.productId, { reserved: true });
+   *   tx.afterCommit(() => mailer.send(orderConfirmation(order)));
+   * });
+   * ```
+   */
+  async withTransaction<T>(
+    work: (transaction: Transaction) => Promise<T>,
+    options?: WithTransactionOptions
+  ): Promise<T> {
+    if (!this.connection) {
+      throw new Error(`Database "${this.name}" not connected. Call connect() first.`);
+    }
+    return runInTransaction(this, this.connection, work, options);
+  }
+
   /**
    * Check if connected
    */
@@ -94,67 +341,239 @@ export class DatabaseManager {
   }
 
   /**
-   * Wait for connection to be established
+   * Fetch a page of documents after a cursor. Unlike skip/limit, pages stay
+   * stable while documents are inserted and cost the same at any depth.
    */
-  private waitForConnection(): Promise<Connection> {
-    return new Promise((resolve, reject) => {
-      const checkInterval = setInterval(() => {
-        if (this.connection?.readyState === 1) {
-          clearInterval(checkInterval);
-          resolve(this.connection);
-        } else if (!this.isConnecting) {
-          clearInterval(checkInterval);
-          reject(new Error('Connection failed'));
-        }
-      }, 100);
+  async paginate<T>(
+    model: Model<T>,
+    options: CursorPaginateOptions<T> = {}
+  ): Promise<PaginatedResult<T>> {
+    const { filter = {}, cursor, limit = 20, sortField = '_id', sortOrder = 'asc' } = options;
+    const operator = sortOrder === 'asc' ? '$gt' : '$lt';
+    const direction = sortOrder === 'asc' ? 1 : -1;
+
+    const conditions: FilterQuery<T>[] = [filter];
+    if (cursor) {
+      const { value, id } = decodeCursorPosition(cursor);
+      conditions.push(
+        (sortField === '_id'
+          ? { _id: { [operator]: id } }
+          : {
+              $or: [
+                { [sortField]: { [operator]: value } },
+                { [sortField]: value, _id: { [operator]: id } },
+              ],
+            }) as FilterQuery<T>
+      );
+    }
 
-      // Timeout after 30 seconds
-      setTimeout(() => {
-        clearInterval(checkInterval);
-        reject(new Error('Connection timeout'));
-      }, 30000);
-    });
+    const sort: Record<string, 1 | -1> = { [sortField]: direction, _id: direction };
+    const documents = (await model
+      .find(conditions.length > 1 ? ({ $and: conditions } as FilterQuery<T>) : filter)
+      .sort(sort)
+      .limit(limit + 1)
+      .lean()) as unknown as Record<string, unknown>[];
+
+    const hasNextPage = documents.length > limit;
+    const data = documents.slice(0, limit);
+    const last = data[data.length - 1];
+
+    return {
+      data: data as unknown as T[],
+      pagination: {
+        limit,
+        hasNextPage,
+        hasPreviousPage: Boolean(cursor),
+        nextCursor:
+          hasNextPage && last ? encodeCursor({ value: last[sortField], id: last._id }) : null,
+      },
+    };
+  }
+
+  private async openConnections(): Promise<Connection> {
+    let attempt = 0;
+
+    try {
+      const connection = await retry(
+        async () => {
+          attempt += 1;
+          this.connectAttempts += 1;
+          this.state = 'connecting';
+          this.emit('connecting', { attempt });
+          logger.info(`Connecting to database "${this.name}" (attempt ${attempt})...`);
+
+          const pending = mongoose.createConnection(this.config.uri, { ...this.config.options });
+          try {
+            return await pending.asPromise();
+          } catch (error) {
+            await pending.close().catch(() => undefined);
+            throw error;
+          }
+        },
+        { maxRetries: 5, initialDelay: 1000, maxDelay: 30000, ...this.config.retry }
+      );
+      this.setupEventHandlers(connection, this.name);
+      this.superviseConnection(connection);
+      this.connection = connection;
+
+      const replicas = await Promise.all(
+        (this.config.readReplicas || []).map((replica, index) =>
+          this.openReplica(typeof replica === 'string' ? { uri: replica } : replica, index)
+        )
+      );
+      this.replicas = replicas.filter((replica): replica is Connection => replica !== null);
+
+      this.state = 'connected';
+      this.lastConnectedAt = new Date();
+      if (this.config.handleSignals) {
+        this.listenForSignals();
+      }
+      this.emit('connected', { downtimeMs: 0 });
+      logger.success(`Database "${this.name}" connected successfully`);
+      return connection;
+    } catch (error) {
+      this.state = 'failed';
+      this.emit('failed', { error: error instanceof Error ? error : new Error(String(error)) });
+      logger.error(
+        `Failed to connect to database "${this.name}" after ${attempt} attempts:`,
+        error
+      );
+      throw error;
+    }
   }
 
   /**
-   * Setup event handlers for connection
+   * Track outages of the primary connection while the driver reconnects
    */
-  private setupEventHandlers(): void {
-    if (!this.connection) return;
+  private superviseConnection(connection: Connection): void {
+    connection.on('disconnected', () => {
+      if (this.state !== 'connected') return;
 
-    this.connection.on('connected', () => {
-      logger.info('Mongoose connected to database');
+      this.state = 'reconnecting';
+      this.disconnectedSince = new Date();
+      this.emit('reconnecting', { since: this.disconnectedSince });
     });
 
-    this.connection.on('error', (err) => {
-      logger.error('Mongoose connection error:', err);
+    const reconnected = () => {
+      if (this.state !== 'reconnecting' || !this.disconnectedSince) return;
+
+      const downtimeMs = Date.now() - this.disconnectedSince.getTime();
+      this.downtimeMs += downtimeMs;
+      this.reconnects += 1;
+      this.disconnectedSince = null;
+      this.state = 'connected';
+      this.lastConnectedAt = new Date();
+      logger.info(`Database "${this.name}" reconnected after ${downtimeMs}ms`);
+      this.emit('connected', { downtimeMs });
+    };
+    connection.on('connected', reconnected);
+    connection.on('reconnected', reconnected);
+  }
+
+  private emit<K extends keyof DatabaseEvents>(event: K, payload: DatabaseEvents[K]): void {
+    this.listeners.get(event)?.forEach((listener) => {
+      try {
+        (listener as (payload: DatabaseEvents[K]) => void)(payload);
+      } catch (error) {
+        logger.error(`Database "${this.name}" ${event} listener failed:`, error);
+      }
     });
+  }
+
+  private async openReplica(
+    replica: { uri: string; options?: ConnectOptions },
+    index: number
+  ): Promise<Connection | null> {
+    const label = `${this.name} replica ${index + 1}`;
+    try {
+      const connection = await mongoose
+        .createConnection(replica.uri, { ...this.config.options, ...replica.options })
+        .asPromise();
+      this.setupEventHandlers(connection, label);
+      return connection;
+    } catch (error) {
+      logger.error(`Failed to connect to database "${label}"; reading from the primary:`, error);
+      return null;
+    }
+  }
+
+  private modelOn<T>(connection: Connection | null, name: string, schema: Schema<T>): Model<T> {
+    if (!connection) {
+      throw new Error(`Database "${this.name}" not connected. Call connect() first.`);
+    }
+
+    return (connection.models[name] as Model<T> | undefined) || connection.model<T>(name, schema);
+  }
 
-    this.connection.on('disconnected', () => {
-      logger.warn('Mongoose disconnected from database');
+  /**
+   * Disconnect and exit on SIGINT/SIGTERM (`handleSignals`)
+   */
+  private listenForSignals(): void {
+    if (this.signalHandler) return;
+
+    this.signalHandler = () => {
+      this.disconnect().then(
+        () => process.exit(0),
+        () => process.exit(1)
+      );
+    };
+    process.on('SIGINT', this.signalHandler);
+    process.on('SIGTERM', this.signalHandler);
+  }
+
+  private removeSignalHandlers(): void {
+    if (!this.signalHandler) return;
+
+    process.removeListener('SIGINT', this.signalHandler);
+    process.removeListener('SIGTERM', this.signalHandler);
+    this.signalHandler = null;
+  }
+
+  /**
+   * Setup event handlers for a connection.
+   * Process signals are left to the server's shutdown manager, e.g.
+   * `server.onShutdown('database', () => db.disconnect())`, unless
+   * `handleSignals` is set.
+   */
+  private setupEventHandlers(connection: Connection, label: string): void {
+    connection.on('connected', () => {
+      logger.info(`Mongoose connected to database "${label}"`);
     });
 
-    // Handle process termination
-    process.on('SIGINT', async () => {
-      await this.disconnect();
-      process.exit(0);
+    connection.on('error', (err) => {
+      logger.error(`Mongoose connection error on "${label}":`, err);
     });
 
-    process.on('SIGTERM', async () => {
-      await this.disconnect();
-      process.exit(0);
+    connection.on('disconnected', () => {
+      logger.warn(`Mongoose disconnected from database "${label}"`);
     });
   }
 
   /**
-   * Health check for database connection
+   * Health check for database connection; `details` carries getMetrics()
    */
-  async healthCheck(): Promise<{ healthy: boolean; message: string }> {
+  async healthCheck(): Promise<{
+    healthy: boolean;
+    message: string;
+    details: Record<string, unknown>;
+  }> {
+    const details = { ...this.getMetrics() };
+
     try {
+      if (this.state === 'reconnecting' && this.disconnectedSince) {
+        const seconds = Math.round((Date.now() - this.disconnectedSince.getTime()) / 1000);
+        return {
+          healthy: false,
+          message: `Database reconnecting for ${seconds}s`,
+          details,
+        };
+      }
+
       if (!this.isConnected()) {
         return {
           healthy: false,
           message: 'Database not connected',
+          details,
         };
       }
 
@@ -164,6 +583,7 @@ export class DatabaseManager {
       return {
         healthy: true,
         message: 'Database connection healthy',
+        details,
       };
     } catch (error) {
       return {
@@ -171,6 +591,7 @@ export class DatabaseManager {
         message: `Database health check failed: ${
           error instanceof Error ? error.message : 'Unknown error'
         }`,
+        details,
       };
     }
   }
@@ -184,41 +605,98 @@ export const createDatabaseManager = (config: DatabaseConfig): DatabaseManager =
 };
 
 /**
- * Global database manager instance
+ * Database managers by name
  */
-let globalDbManager: DatabaseManager | null = null;
+const databases = new Map<string, DatabaseManager>();
 
 /**
- * Initialize the global database manager
+ * Create and register the database manager for `config.name`, connecting
+ * it unless `autoConnect` is false. Returns the registered manager when the
+ * name is already taken. A manager whose connect fails is not registered.
  */
 export const initDatabase = async (config: DatabaseConfig): Promise<DatabaseManager> => {
-  if (!globalDbManager) {
-    globalDbManager = new DatabaseManager(config);
+  const name = config.name || DEFAULT_DATABASE;
+  let manager = databases.get(name);
+
+  if (!manager) {
+    manager = new DatabaseManager(config);
+    databases.set(name, manager);
 
     if (config.autoConnect !== false) {
-      await globalDbManager.connect();
+      try {
+        await manager.connect();
+      } catch (error) {
+        // Leave the name free so the next call connects again
+        databases.delete(name);
+        throw error;
+      }
     }
   }
 
-  return globalDbManager;
+  return manager;
 };
 
 /**
- * Get the global database manager
+ * Get a registered database manager
  */
-export const getDatabase = (): DatabaseManager => {
-  if (!globalDbManager) {
-    throw new Error('Database not initialized. Call initDatabase first.');
+export const getDatabase = (name = DEFAULT_DATABASE): DatabaseManager => {
+  const manager = databases.get(name);
+  if (!manager) {
+    throw new Error(`Database "${name}" not initialized. Call initDatabase first.`);
   }
-  return globalDbManager;
+  return manager;
 };
 
 /**
- * Close the global database connection
+ * Every registered database manager
+ */
+export const getDatabases = (): DatabaseManager[] => Array.from(databases.values());
+
+/**
+ * Close a registered database and remove it from the registry
  */
-export const closeDatabase = async (): Promise<void> => {
-  if (globalDbManager) {
-    await globalDbManager.disconnect();
-    globalDbManager = null;
+export const closeDatabase = async (name = DEFAULT_DATABASE): Promise<void> => {
+  const manager = databases.get(name);
+  if (manager) {
+    databases.delete(name);
+    await manager.disconnect();
   }
 };
+
+/**
+ * Close every registered database
+ */
+export const closeAllDatabases = async (): Promise<void> => {
+  await Promise.all(Array.from(databases.keys(), (name) => closeDatabase(name)));
+};
+
+/**
+ * Built-in plugin: registers databases, connects them before the server
+ * starts, adds a readiness check per database and closes them on shutdown
+ *
+ * @example
+ * ```typescript
+ * server.register(databasePlugin, {
+ *   databases: [
+ *     { uri: process.env.MONGO_URI! },
+ *     { name: 'analytics', uri: process.env.ANALYTICS_URI!, readReplicas: [process.env.ANALYTICS_REPLICA_URI!] },
+ *   ],
+ * });
+ * ```
+ */
+export const databasePlugin = createPlugin<{ databases: DatabaseConfig[] }>({
+  name: 'stellar-database',
+  register: async (context, options) => {
+    const managers = await Promise.all(
+      options.databases.map((config) => initDatabase({ ...config, autoConnect: false }))
+    );
+
+    managers.forEach((db) => context.server.addHealthCheck(databaseHealthCheck(db)));
+    context.addHook('onInit', async () => {
+      await Promise.all(managers.map((db) => db.connect()));
+    });
+    context.addHook('onClose', async () => {
+      await Promise.all(managers.map((db) => closeDatabase(db.name)));
+    });
+  },
+});
@@ -0,0 +1,299 @@
+import { Request, Response } from 'express';
+import type { DatabaseManager } from './database';
+import type { StellarPhpClient } from '../utils/php-client';
+import { HealthOptions } from '../types';
+import { createLogger, formatError } from '../utils/helpers';
+import { HTTP_STATUS } from '../utils/constants';
+import { createPlugin } from './plugins';
+
+const logger = createLogger('Health');
+
+/**
+ * Result returned by a health check
+ */
+export interface HealthCheckResult {
+  healthy: boolean;
+  message?: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Named health check definition
+ */
+export interface HealthCheck {
+  name: string;
+
+  /**
+   * Run the check. Returning `false` or throwing marks it as failed.
+   */
+  check: () => HealthCheckResult | boolean | Promise<HealthCheckResult | boolean>;
+
+  /**
+   * Critical checks make the server unhealthy when they fail,
+   * non-critical ones only degrade it
+   * Default: true
+   */
+  critical?: boolean;
+
+  /**
+   * Max time the check may take (ms)
+   */
+  timeout?: number;
+
+  /**
+   * How long a result is reused before the check runs again (ms)
+   */
+  cacheTtl?: number;
+}
+
+/**
+ * Overall health status
+ */
+export type HealthStatus = 'healthy' | 'degraded' | 'unhealthy';
+
+/**
+ * Outcome of a single check
+ */
+export interface HealthCheckReport {
+  name: string;
+  status: 'pass' | 'fail';
+  critical: boolean;
+  message?: string;
+  details?: Record<string, unknown>;
+  duration: number;
+  checkedAt: string;
+  cached: boolean;
+}
+
+/**
+ * Aggregated health report
+ */
+export interface HealthReport {
+  status: HealthStatus;
+  timestamp: string;
+  uptime: number;
+  checks: HealthCheckReport[];
+}
+
+/**
+ * Registry of named health checks with timeouts and cached results
+ */
+export class HealthRegistry {
+  private checks: Map<string, HealthCheck> = new Map();
+  private cache: Map<string, { report: HealthCheckReport; expiresAt: number }> = new Map();
+  private inFlight: Map<string, Promise<HealthCheckReport>> = new Map();
+  private defaultTimeout: number;
+  private defaultCacheTtl: number;
+
+  constructor(options: { timeout?: number; cacheTtl?: number } = {}) {
+    this.defaultTimeout = options.timeout ?? 5000;
+    this.defaultCacheTtl = options.cacheTtl ?? 2000;
+  }
+
+  /**
+   * Register a health check
+   */
+  register(check: HealthCheck): void {
+    if (this.checks.has(check.name)) {
+      throw new Error(`Health check "${check.name}" is already registered`);
+    }
+    this.checks.set(check.name, check);
+  }
+
+  /**
+   * Remove a health check
+   */
+  unregister(name: string): boolean {
+    this.cache.delete(name);
+    return this.checks.delete(name);
+  }
+
+  /**
+   * Names of registered checks
+   */
+  getCheckNames(): string[] {
+    return Array.from(this.checks.keys());
+  }
+
+  /**
+   * Run all checks (reusing cached results) and aggregate the outcome
+   */
+  async run(): Promise<HealthReport> {
+    const checks = await Promise.all(
+      Array.from(this.checks.values()).map((check) => this.runCheck(check))
+    );
+
+    let status: HealthStatus = 'healthy';
+    for (const check of checks) {
+      if (check.status === 'fail') {
+        if (check.critical) {
+          status = 'unhealthy';
+          break;
+        }
+        status = 'degraded';
+      }
+    }
+
+    return {
+      status,
+      timestamp: new Date().toISOString(),
+      uptime: process.uptime(),
+      checks,
+    };
+  }
+
+  /**
+   * Run a single check, honouring its cache and timeout
+   */
+  private runCheck(check: HealthCheck): Promise<HealthCheckReport> {
+    const cached = this.cache.get(check.name);
+    if (cached && cached.expiresAt > Date.now()) {
+      return Promise.resolve({ ...cached.report, cached: true });
+    }
+
+    // Share a running check between concurrent probes
+    const running = this.inFlight.get(check.name);
+    if (running) {
+      return running;
+    }
+
+    const promise = this.executeCheck(check).finally(() => this.inFlight.delete(check.name));
+    this.inFlight.set(check.name, promise);
+    return promise;
+  }
+
+  private async executeCheck(check: HealthCheck): Promise<HealthCheckReport> {
+    const timeout = check.timeout ?? this.defaultTimeout;
+    const cacheTtl = check.cacheTtl ?? this.defaultCacheTtl;
+    const critical = check.critical !== false;
+    const start = Date.now();
+    let timer: NodeJS.Timeout | undefined;
+    let result: HealthCheckResult;
+
+    try {
+      const outcome = await Promise.race([
+        Promise.resolve().then(check.check),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => reject(new Error(`Timed out after ${timeout}ms`)), timeout);
+        }),
+      ]);
+      result = typeof outcome === 'boolean' ? { healthy: outcome } : outcome;
+    } catch (error) {
+      result = { healthy: false, message: formatError(error) };
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (!result.healthy) {
+      logger.warn(
+        `Health check "${check.name}" failed${result.message ? `: ${result.message}` : ''}`
+      );
+    }
+
+    const report: HealthCheckReport = {
+      name: check.name,
+      status: result.healthy ? 'pass' : 'fail',
+      critical,
+      message: result.message,
+      details: result.details,
+      duration: Date.now() - start,
+      checkedAt: new Date().toISOString(),
+      cached: false,
+    };
+
+    if (cacheTtl > 0) {
+      this.cache.set(check.name, { report, expiresAt: Date.now() + cacheTtl });
+    }
+
+    return report;
+  }
+}
+
+/**
+ * Create a health registry instance
+ */
+export const createHealthRegistry = (options?: {
+  timeout?: number;
+  cacheTtl?: number;
+}): HealthRegistry => {
+  return new HealthRegistry(options);
+};
+
+/**
+ * Health check backed by DatabaseManager.healthCheck(), named 'database'
+ * for the default database and 'database:<name>' for the others
+ */
+export const databaseHealthCheck = (
+  db: DatabaseManager,
+  options: Partial<Omit<HealthCheck, 'check'>> = {}
+): HealthCheck => ({
+  name: db.name === 'default' ? 'database' : `database:${db.name}`,
+  ...options,
+  check: () => db.healthCheck(),
+});
+
+/**
+ * Health check backed by StellarPhpClient.healthCheck()
+ */
+export const phpBackendHealthCheck = (
+  client: Pick<StellarPhpClient, 'healthCheck'>,
+  options: Partial<Omit<HealthCheck, 'check'>> = {}
+): HealthCheck => ({
+  name: 'php-backend',
+  ...options,
+  check: async () => {
+    const response = await client.healthCheck();
+    const healthy = !(response && response.status === 'error');
+
+    return {
+      healthy,
+      message: healthy ? 'PHP backend reachable' : response.message,
+    };
+  },
+});
+
+/**
+ * Built-in plugin: liveness and readiness endpoints, and the detailed report
+ * when `detailed` is set
+ */
+export const healthPlugin = createPlugin<HealthOptions & { registry: HealthRegistry }>({
+  name: 'stellar-health',
+  register: (context, options) => {
+    const { registry } = options;
+    const basePath = options.path || '/health';
+
+    const statusCode = (status: HealthStatus) =>
+      status === 'unhealthy' ? HTTP_STATUS.SERVICE_UNAVAILABLE : HTTP_STATUS.OK;
+
+    // Liveness only reports that the process is responsive
+    context.app.get(`${basePath}/live`, (req: Request, res: Response) => {
+      res.json({
+        status: 'alive',
+        uptime: process.uptime(),
+        timestamp: new Date().toISOString(),
+      });
+    });
+
+    context.app.get(`${basePath}/ready`, async (req: Request, res: Response) => {
+      const report = await registry.run();
+      const checks: Record<string, 'pass' | 'fail'> = {};
+      report.checks.forEach((check) => {
+        checks[check.name] = check.status;
+      });
+
+      res.status(statusCode(report.status)).json({ status: report.status, checks });
+    });
+
+    // Probes only need liveness and readiness; the full report is opt-in
+    if (options.detailed) {
+      context.app.get(
+        basePath,
+        ...(options.middleware || []),
+        async (req: Request, res: Response) => {
+          const report = await registry.run();
+          res.status(statusCode(report.status)).json(report);
+        }
+      );
+    }
+  },
+});
@@ -0,0 +1,216 @@
+import crypto from 'crypto';
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { JsonWebTokenError, JwtPayload, VerifyOptions } from 'jsonwebtoken';
+import { SigningAlgorithm } from '../types';
+import { createPlugin } from './plugins';
+import { ServiceUnavailableError } from '../utils/errors';
+import {
+  JsonWebKey,
+  JsonWebKeySet,
+  decodeJwtHeader,
+  getJwkAlgorithm,
+  verifyJwt,
+} from '../utils/jwt';
+
+/**
+ * Anything that publishes public keys, e.g. an AuthService with signingKeys
+ */
+export interface JwksSource {
+  getJwks(): Promise<JsonWebKeySet>;
+}
+
+export interface JwksPluginOptions {
+  source: JwksSource;
+
+  /**
+   * Default: '/.well-known/jwks.json'
+   */
+  path?: string;
+
+  /**
+   * Cache-Control max-age of the response (seconds)
+   * Default: 300
+   */
+  maxAge?: number;
+}
+
+/**
+ * Serves the public keys of a JwksSource for services that verify tokens
+ *
+ * @example
+ * ```typescript
+ * server.register(jwksPlugin, { source: authService });
+ * ```
+ */
+export const jwksPlugin = createPlugin<JwksPluginOptions>({
+  name: 'stellar-jwks',
+  register: (context, options) => {
+    const path = options.path || '/.well-known/jwks.json';
+
+    context.app.get(path, async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const jwks = await options.source.getJwks();
+        res.set('Cache-Control', `public, max-age=${options.maxAge ?? 300}`);
+        res.json(jwks);
+      } catch (error) {
+        next(error);
+      }
+    });
+  },
+});
+
+export interface JwksVerifierOptions {
+  /**
+   * URL of the issuing service's JWKS, e.g.
+   * 'https://auth.example.com/.well-known/jwks.json'
+   */
+  jwksUri: string;
+
+  /**
+   * Required `iss` claim
+   */
+  issuer?: string;
+
+  /**
+   * Required `aud` claim; one of the values must match
+   */
+  audience?: string | string[];
+
+  /**
+   * Default: ['RS256', 'ES256', 'EdDSA']
+   */
+  algorithms?: SigningAlgorithm[];
+
+  /**
+   * How long fetched keys are used before fetching them again (ms)
+   * Default: 10 minutes
+   */
+  cacheTtl?: number;
+
+  /**
+   * Minimum time between fetches caused by unknown key ids (ms)
+   * Default: 30 seconds
+   */
+  cooldown?: number;
+
+  /**
+   * Allowed clock skew (seconds)
+   * Default: 0
+   */
+  clockTolerance?: number;
+
+  /**
+   * Default: the global fetch
+   */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Verifies access tokens in services that do not issue them, with public
+ * keys fetched from the issuer's JWKS. Keys are cached; an unknown key id
+ * fetches them again, so the issuer can rotate keys at any time.
+ *
+ * Revoked tokens stay valid here until they expire; keep access tokens short.
+ */
+export class JwksVerifier {
+  private keys: JsonWebKey[] = [];
+  private fetchedAt = 0;
+  private pending: Promise<void> | null = null;
+
+  constructor(private options: JwksVerifierOptions) {}
+
+  /**
+   * Verify a token and return its claims. Throws jsonwebtoken's errors for
+   * invalid tokens and a ServiceUnavailableError when the keys cannot be fetched.
+   */
+  async verify(token: string): Promise<JwtPayload> {
+    const { kid, alg } = decodeJwtHeader(token);
+    const jwk = await this.getKey(kid);
+    const algorithm = jwk && getJwkAlgorithm(jwk);
+    const algorithms = this.options.algorithms || ['RS256', 'ES256', 'EdDSA'];
+
+    if (!jwk || !algorithm || algorithm !== alg || !algorithms.includes(algorithm)) {
+      throw new JsonWebTokenError('unknown signing key');
+    }
+
+    return verifyJwt(
+      token,
+      { algorithm, key: crypto.createPublicKey({ key: jwk, format: 'jwk' }) },
+      {
+        issuer: this.options.issuer,
+        audience: this.options.audience as VerifyOptions['audience'],
+        clockTolerance: this.options.clockTolerance,
+      }
+    );
+  }
+
+  /**
+   * Middleware like AuthService.authenticateToken: verifies the bearer token
+   * and sets `req.user` to its claims
+   */
+  middleware(): RequestHandler {
+    return async (req: Request, res: Response, next: NextFunction) => {
+      const token = req.headers['authorization']?.split(' ')[1];
+      if (!token) {
+        res.status(401).json({ error: 'Authentication token required' });
+        return;
+      }
+
+      try {
+        Object.assign(req, { user: await this.verify(token) });
+      } catch (error) {
+        if (error instanceof JsonWebTokenError) {
+          res.status(403).json({ error: 'Invalid token' });
+          return;
+        }
+        next(error);
+        return;
+      }
+      next();
+    };
+  }
+
+  private async getKey(kid?: string): Promise<JsonWebKey | undefined> {
+    const find = () => this.keys.find((key) => key.kid === kid);
+    const age = Date.now() - this.fetchedAt;
+
+    if (age > (this.options.cacheTtl ?? 10 * 60 * 1000)) {
+      await this.refresh();
+    } else if (!find() && age > (this.options.cooldown ?? 30 * 1000)) {
+      await this.refresh();
+    }
+    return find();
+  }
+
+  // Concurrent requests share one fetch
+  private refresh(): Promise<void> {
+    if (!this.pending) {
+      this.pending = this.fetchKeys().finally(() => {
+        this.pending = null;
+      });
+    }
+    return this.pending;
+  }
+
+  private async fetchKeys(): Promise<void> {
+    const request = this.options.fetch || globalThis.fetch;
+    let response: Awaited<ReturnType<typeof fetch>>;
+    try {
+      response = await request(this.options.jwksUri);
+    } catch {
+      throw new ServiceUnavailableError('Signing keys could not be fetched');
+    }
+    if (!response.ok) {
+      throw new ServiceUnavailableError(`Fetching signing keys failed with ${response.status}`);
+    }
+
+    this.keys = ((await response.json()) as JsonWebKeySet).keys || [];
+    this.fetchedAt = Date.now();
+  }
+}
+
+/**
+ * Create a verifier for tokens signed by another service
+ */
+export const createJwksVerifier = (options: JwksVerifierOptions): JwksVerifier =>
+  new JwksVerifier(options);
@@ -0,0 +1,104 @@
+import { Request, Response } from 'express';
+import {
+  ManifestOptions,
+  Route,
+  RouteManifestEntry,
+  ServiceConfig,
+  ServiceManifest,
+} from '../types';
+import { createPlugin } from './plugins';
+
+const capitalize = (value: string): string => value.charAt(0).toUpperCase() + value.slice(1);
+
+const camelCase = (value: string): string =>
+  value
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((part, index) => (index === 0 ? part.toLowerCase() : capitalize(part.toLowerCase())))
+    .join('');
+
+/**
+ * Derive a method name from a route path:
+ * `/login` -> `login`, `/users/:id` -> `usersById`, `/` -> `get`
+ */
+export const deriveRouteName = (route: Pick<Route, 'method' | 'path'>): string => {
+  const name = route.path
+    .split('/')
+    .filter(Boolean)
+    .map((segment, index) => {
+      if (segment.startsWith(':')) {
+        return `By${capitalize(camelCase(segment.slice(1)))}`;
+      }
+      const part = camelCase(segment);
+      return index === 0 ? part : capitalize(part);
+    })
+    .join('');
+
+  if (!name) {
+    return route.method.toLowerCase();
+  }
+  return name.startsWith('By') ? `${route.method.toLowerCase()}${name}` : name;
+};
+
+/**
+ * Resolve method names for a service's routes. Derived names shared by
+ * several routes are prefixed with the HTTP method (`getUsers`, `postUsers`).
+ */
+export const resolveRouteNames = (routes: Route[]): RouteManifestEntry[] => {
+  const derived = routes.map((route) => route.name || deriveRouteName(route));
+  const counts = new Map<string, number>();
+  derived.forEach((name) => counts.set(name, (counts.get(name) || 0) + 1));
+
+  const entries = routes.map((route, index) => {
+    const base = derived[index];
+    const name =
+      !route.name && (counts.get(base) || 0) > 1 && base !== route.method.toLowerCase()
+        ? `${route.method.toLowerCase()}${capitalize(base)}`
+        : base;
+
+    return { name, method: route.method, path: route.path };
+  });
+
+  const seen = new Set<string>();
+  entries.forEach((entry) => {
+    if (seen.has(entry.name)) {
+      throw new Error(`Duplicate route name "${entry.name}"; set an explicit route name`);
+    }
+    seen.add(entry.name);
+  });
+
+  return entries;
+};
+
+/**
+ * Build the route manifest for registered services
+ */
+export const buildServiceManifest = (services: ServiceConfig[]): ServiceManifest => {
+  const manifest: ServiceManifest = { services: {} };
+
+  services.forEach((service) => {
+    manifest.services[service.name] = {
+      name: service.name,
+      basePath: `/api/${service.name}`,
+      routes: resolveRouteNames(service.routes),
+    };
+  });
+
+  return manifest;
+};
+
+/**
+ * Built-in plugin: serves the route manifest consumed by remote service clients
+ */
+export const manifestPlugin = createPlugin<
+  ManifestOptions & { getServices: () => ServiceConfig[] }
+>({
+  name: 'stellar-manifest',
+  register: (context, options) => {
+    const path = options.path || '/api/_manifest';
+
+    context.app.get(path, (req: Request, res: Response) => {
+      res.json(buildServiceManifest(options.getServices()));
+    });
+  },
+});
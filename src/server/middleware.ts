@@ -1,6 +1,7 @@
-import { Request, Response, NextFunction } from 'express';
+import express, { Request, Response, NextFunction } from 'express';
 import { createLogger, formatError } from '../utils/helpers';
 import { HTTP_STATUS, ERROR_MESSAGES } from '../utils/constants';
+import { createPlugin } from './plugins';
 
 const logger = createLogger('Middleware');
 
@@ -207,3 +208,35 @@ export const formatResponse = (req: Request, res: Response, next: NextFunction):
 
   next();
 };
+
+/**
+ * Built-in plugin: request ID tracking
+ */
+export const requestIdPlugin = createPlugin({
+  name: 'stellar-request-id',
+  register: (context) => {
+    context.use(requestId);
+  },
+});
+
+/**
+ * Built-in plugin: JSON and URL-encoded body parsing
+ */
+export const bodyParserPlugin = createPlugin<{ limit?: string }>({
+  name: 'stellar-body-parser',
+  register: (context, options) => {
+    const limit = options.limit || '10mb';
+    context.use(express.json({ limit }));
+    context.use(express.urlencoded({ extended: true, limit }));
+  },
+});
+
+/**
+ * Built-in plugin: request logging
+ */
+export const requestLoggerPlugin = createPlugin({
+  name: 'stellar-request-logger',
+  register: (context) => {
+    context.use(requestLogger);
+  },
+});
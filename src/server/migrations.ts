@@ -0,0 +1,573 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Connection, Model, Schema } from 'mongoose';
+import type { DatabaseManager } from './database';
+import { ConflictError } from '../utils/errors';
+import { createLogger } from '../utils/helpers';
+import { generateRandomString, hashSHA256 } from '../utils/security';
+
+const logger = createLogger('Migrations');
+
+/**
+ * File names of migrations: a UTC timestamp, then a name
+ */
+const MIGRATION_FILE = /^(\d{14})_([\w-]+)\.(js|cjs|ts)$/;
+
+/**
+ * Passed to a migration's up() and down()
+ */
+export interface MigrationContext {
+  connection: Connection;
+  db: DatabaseManager;
+}
+
+/**
+ * A schema or index change, applied by up() and reverted by down()
+ */
+export interface Migration {
+  /**
+   * Timestamp the migrations are ordered by, e.g. '20260101120000'
+   */
+  id: string;
+  name: string;
+  up: (context: MigrationContext) => Promise<void>;
+  down?: (context: MigrationContext) => Promise<void>;
+
+  /**
+   * Fingerprint of the migration's source. Applied migrations must keep it.
+   * Default: hash of the source of up() and down()
+   */
+  checksum?: string;
+}
+
+/**
+ * Ledger entry of an applied migration
+ */
+export interface MigrationRecord {
+  id: string;
+  name: string;
+  checksum: string;
+  appliedAt: Date;
+  durationMs: number;
+}
+
+/**
+ * - pending: not applied yet
+ * - applied: applied, source unchanged
+ * - changed: applied, but its source changed since
+ * - missing: in the ledger, but no longer among the migrations
+ */
+export type MigrationState = 'pending' | 'applied' | 'changed' | 'missing';
+
+export interface MigrationStatus {
+  id: string;
+  name: string;
+  state: MigrationState;
+  appliedAt?: Date;
+}
+
+/**
+ * Ledger of applied migrations and the lock that keeps instances from
+ * migrating at the same time
+ */
+export interface MigrationStore {
+  /**
+   * Applied migrations, oldest first
+   */
+  list(): Promise<MigrationRecord[]>;
+  add(record: MigrationRecord): Promise<void>;
+  remove(id: string): Promise<void>;
+
+  /**
+   * Take the lock for `owner` until `expiresAt`, unless someone else holds
+   * it. Returns whether the lock was taken.
+   */
+  acquireLock(owner: string, expiresAt: Date): Promise<boolean>;
+  releaseLock(owner: string): Promise<void>;
+}
+
+/**
+ * In-memory migration store (for development and tests)
+ */
+export class InMemoryMigrationStore implements MigrationStore {
+  private records: Map<string, MigrationRecord> = new Map();
+  private lock: { owner: string; expiresAt: Date } | null = null;
+
+  async list(): Promise<MigrationRecord[]> {
+    return Array.from(this.records.values())
+      .sort((a, b) => a.id.localeCompare(b.id))
+      .map((record) => ({ ...record }));
+  }
+
+  async add(record: MigrationRecord): Promise<void> {
+    this.records.set(record.id, { ...record });
+  }
+
+  async remove(id: string): Promise<void> {
+    this.records.delete(id);
+  }
+
+  async acquireLock(owner: string, expiresAt: Date): Promise<boolean> {
+    if (this.lock && this.lock.owner !== owner && this.lock.expiresAt > new Date()) {
+      return false;
+    }
+
+    this.lock = { owner, expiresAt };
+    return true;
+  }
+
+  async releaseLock(owner: string): Promise<void> {
+    if (this.lock?.owner === owner) {
+      this.lock = null;
+    }
+  }
+}
+
+/**
+ * Options for the Mongoose migration store
+ */
+export interface MongooseMigrationStoreOptions {
+  /**
+   * Default: 'migrations'
+   */
+  collection?: string;
+
+  /**
+   * Default: 'migrations_lock'
+   */
+  lockCollection?: string;
+}
+
+interface MigrationLock {
+  _id: string;
+  owner: string;
+  expiresAt: Date;
+}
+
+const LOCK_ID = 'migrations';
+
+/**
+ * Migration store backed by two MongoDB collections on the
+ * DatabaseManager's connection
+ */
+export class MongooseMigrationStore implements MigrationStore {
+  private collection: string;
+  private lockCollection: string;
+
+  constructor(private db: DatabaseManager, options: MongooseMigrationStoreOptions = {}) {
+    this.collection = options.collection || 'migrations';
+    this.lockCollection = options.lockCollection || 'migrations_lock';
+  }
+
+  /**
+   * Ledger model registered on the current connection
+   */
+  getModel(): Model<MigrationRecord> {
+    return this.model<MigrationRecord>(
+      'Migration',
+      new Schema<MigrationRecord>(
+        {
+          id: { type: String, required: true, unique: true },
+          name: { type: String, required: true },
+          checksum: { type: String, required: true },
+          appliedAt: { type: Date, required: true },
+          durationMs: { type: Number, required: true },
+        },
+        // `id` is a stored field here, not mongoose's virtual
+        { collection: this.collection, versionKey: false, id: false }
+      )
+    );
+  }
+
+  async list(): Promise<MigrationRecord[]> {
+    return this.getModel().find({}, { _id: 0 }).sort({ id: 1 }).lean<MigrationRecord[]>().exec();
+  }
+
+  async add(record: MigrationRecord): Promise<void> {
+    await this.getModel().replaceOne({ id: record.id }, record, { upsert: true });
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.getModel().deleteOne({ id });
+  }
+
+  async acquireLock(owner: string, expiresAt: Date): Promise<boolean> {
+    try {
+      // Matches only a free or expired lock; otherwise the upsert collides
+      // with the held lock's _id
+      await this.lockModel().updateOne(
+        { _id: LOCK_ID, $or: [{ owner }, { expiresAt: { $lt: new Date() } }] },
+        { owner, expiresAt },
+        { upsert: true }
+      );
+      return true;
+    } catch (error) {
+      if ((error as { code?: number }).code === 11000) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async releaseLock(owner: string): Promise<void> {
+    await this.lockModel().deleteOne({ _id: LOCK_ID, owner });
+  }
+
+  private lockModel(): Model<MigrationLock> {
+    return this.model<MigrationLock>(
+      'MigrationLock',
+      new Schema<MigrationLock>(
+        {
+          _id: { type: String },
+          owner: { type: String, required: true },
+          expiresAt: { type: Date, required: true },
+        },
+        { collection: this.lockCollection, versionKey: false }
+      )
+    );
+  }
+
+  private model<T>(name: string, schema: Schema<T>): Model<T> {
+    if (!this.db.getConnection()) {
+      throw new Error('Database not connected. Call connect() before using the migration store.');
+    }
+    return this.db.model<T>(name, schema);
+  }
+}
+
+/**
+ * Options for MigrationRunner
+ */
+export interface MigrationRunnerOptions {
+  db: DatabaseManager;
+
+  /**
+   * Default: a MongooseMigrationStore on `db`
+   */
+  store?: MigrationStore;
+
+  /**
+   * Directory of migration files, as written by createMigrationFile()
+   */
+  directory?: string;
+
+  /**
+   * Migrations defined in code, run together with those of `directory`
+   */
+  migrations?: Migration[];
+
+  /**
+   * How long a run may hold the lock before other instances may take it
+   * over (ms)
+   * Default: 10 minutes
+   */
+  lockTtl?: number;
+}
+
+/**
+ * Options for MigrationRunner.up()
+ */
+export interface MigrateUpOptions {
+  /**
+   * Apply migrations up to and including this id
+   */
+  to?: string;
+
+  /**
+   * Report what would run without running it
+   */
+  dryRun?: boolean;
+}
+
+/**
+ * Options for MigrationRunner.down()
+ */
+export interface MigrateDownOptions {
+  /**
+   * Number of migrations to revert, newest first
+   * Default: 1
+   */
+  steps?: number;
+
+  /**
+   * Revert every migration after this id instead
+   */
+  to?: string;
+
+  /**
+   * Report what would run without running it
+   */
+  dryRun?: boolean;
+}
+
+/**
+ * Checksum of a migration defined in code
+ */
+const migrationChecksum = (migration: Migration): string =>
+  migration.checksum ||
+  hashSHA256(`${migration.up.toString()}\n${migration.down?.toString() || ''}`);
+
+/**
+ * Load the migrations of a directory. Each file exports `up` and
+ * optionally `down`; its checksum is the hash of the file.
+ */
+export const loadMigrations = (directory: string): Migration[] => {
+  if (!fs.existsSync(directory)) {
+    return [];
+  }
+
+  return fs
+    .readdirSync(directory)
+    .filter((file) => MIGRATION_FILE.test(file))
+    .sort()
+    .map((file) => {
+      const [, id, name] = MIGRATION_FILE.exec(file) || [];
+      const filePath = path.resolve(directory, file);
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const module = require(filePath);
+
+      if (typeof module.up !== 'function') {
+        throw new Error(`Migration ${file} does not export an up() function`);
+      }
+
+      return {
+        id,
+        name,
+        up: module.up,
+        down: module.down,
+        checksum: hashSHA256(fs.readFileSync(filePath, 'utf8')),
+      };
+    });
+};
+
+/**
+ * Write an empty migration named after the current UTC time. Returns its
+ * path.
+ */
+export const createMigrationFile = (
+  directory: string,
+  name: string,
+  extension: 'js' | 'ts' = 'js'
+): string => {
+  const slug = name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+  if (!slug) {
+    throw new Error('A migration needs a name');
+  }
+
+  const id = new Date().toISOString().replace(/[-:T]/g, '').slice(0, 14);
+  const filePath = path.join(directory, `${id}_${slug}.${extension}`);
+
+  const body =
+    extension === 'ts'
+      ? `import type { MigrationContext } from '@rahmanazhar/stellar-js';
+
+export const up = async ({ connection }: MigrationContext): Promise<void> => {
+  // e.g. await connection.collection('users').createIndex({ email: 1 }, { unique: true });
+};
+
+export const down = async ({ connection }: MigrationContext): Promise<void> => {
+  // e.g. await connection.collection('users').dropIndex('email_1');
+};
+`
+      : `/** @param {import('@rahmanazhar/stellar-js').MigrationContext} context */
+exports.up = async ({ connection }) => {
+  // e.g. await connection.collection('users').createIndex({ email: 1 }, { unique: true });
+};
+
+/** @param {import('@rahmanazhar/stellar-js').MigrationContext} context */
+exports.down = async ({ connection }) => {
+  // e.g. await connection.collection('users').dropIndex('email_1');
+};
+`;
+
+  fs.mkdirSync(directory, { recursive: true });
+  fs.writeFileSync(filePath, body, { flag: 'wx' });
+  return filePath;
+};
+
+/**
+ * Applies and reverts migrations, recording them in a ledger. Runs hold a
+ * lock, so only one instance migrates at a time.
+ */
+export class MigrationRunner {
+  private store: MigrationStore;
+  private lockTtl: number;
+
+  constructor(private options: MigrationRunnerOptions) {
+    this.store = options.store || new MongooseMigrationStore(options.db);
+    this.lockTtl = options.lockTtl || 10 * 60 * 1000;
+  }
+
+  /**
+   * Every known and applied migration, oldest first
+   */
+  async status(): Promise<MigrationStatus[]> {
+    const migrations = this.getMigrations();
+    const applied = new Map((await this.store.list()).map((record) => [record.id, record]));
+
+    const statuses: MigrationStatus[] = migrations.map((migration) => {
+      const record = applied.get(migration.id);
+      if (!record) {
+        return { id: migration.id, name: migration.name, state: 'pending' };
+      }
+
+      return {
+        id: migration.id,
+        name: migration.name,
+        state: record.checksum === migrationChecksum(migration) ? 'applied' : 'changed',
+        appliedAt: record.appliedAt,
+      };
+    });
+
+    const known = new Set(migrations.map((migration) => migration.id));
+    applied.forEach((record) => {
+      if (!known.has(record.id)) {
+        statuses.push({
+          id: record.id,
+          name: record.name,
+          state: 'missing',
+          appliedAt: record.appliedAt,
+        });
+      }
+    });
+
+    return statuses.sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  /**
+   * Apply pending migrations in order. Returns the ids applied, or that
+   * would be in a dry run. Refuses to run while an applied migration has
+   * changed.
+   */
+  async up(options: MigrateUpOptions = {}): Promise<string[]> {
+    return this.run(
+      options.dryRun,
+      async () => {
+        const statuses = await this.status();
+        const changed = statuses.filter((status) => status.state === 'changed');
+        if (changed.length > 0) {
+          throw new ConflictError(
+            `Applied migrations have changed since they ran: ${changed
+              .map((status) => status.id)
+              .join(', ')}`
+          );
+        }
+
+        const pending = new Set(
+          statuses.filter((status) => status.state === 'pending').map((status) => status.id)
+        );
+        return this.getMigrations().filter(
+          (migration) =>
+            pending.has(migration.id) && (options.to === undefined || migration.id <= options.to)
+        );
+      },
+      async (migration, context) => {
+        const startedAt = Date.now();
+        await migration.up(context);
+        await this.store.add({
+          id: migration.id,
+          name: migration.name,
+          checksum: migrationChecksum(migration),
+          appliedAt: new Date(),
+          durationMs: Date.now() - startedAt,
+        });
+      }
+    );
+  }
+
+  /**
+   * Revert applied migrations, newest first. Returns the ids reverted, or
+   * that would be in a dry run.
+   */
+  async down(options: MigrateDownOptions = {}): Promise<string[]> {
+    return this.run(
+      options.dryRun,
+      async () => {
+        const migrations = new Map(
+          this.getMigrations().map((migration) => [migration.id, migration])
+        );
+        const applied = (await this.store.list()).reverse();
+        const selected =
+          options.to === undefined
+            ? applied.slice(0, options.steps ?? 1)
+            : applied.filter((record) => record.id > (options.to as string));
+
+        return selected.map((record) => {
+          const migration = migrations.get(record.id);
+          if (!migration) {
+            throw new Error(`Migration ${record.id}_${record.name} is applied but cannot be found`);
+          }
+          if (!migration.down) {
+            throw new Error(`Migration ${record.id}_${record.name} has no down() function`);
+          }
+          return migration;
+        });
+      },
+      async (migration, context) => {
+        await migration.down?.(context);
+        await this.store.remove(migration.id);
+      }
+    );
+  }
+
+  /**
+   * Code-defined and file migrations, ordered by id
+   */
+  private getMigrations(): Migration[] {
+    const migrations = [
+      ...(this.options.migrations || []),
+      ...(this.options.directory ? loadMigrations(this.options.directory) : []),
+    ].sort((a, b) => a.id.localeCompare(b.id));
+
+    migrations.forEach((migration, index) => {
+      if (index > 0 && migrations[index - 1].id === migration.id) {
+        throw new Error(`Two migrations share the id ${migration.id}`);
+      }
+    });
+    return migrations;
+  }
+
+  private async run(
+    dryRun: boolean | undefined,
+    select: () => Promise<Migration[]>,
+    apply: (migration: Migration, context: MigrationContext) => Promise<void>
+  ): Promise<string[]> {
+    if (dryRun) {
+      return (await select()).map((migration) => migration.id);
+    }
+
+    const owner = `${os.hostname()}:${process.pid}:${generateRandomString(4)}`;
+    if (!(await this.store.acquireLock(owner, new Date(Date.now() + this.lockTtl)))) {
+      throw new ConflictError('Another instance is running migrations');
+    }
+
+    try {
+      const migrations = await select();
+      const connection = this.options.db.getConnection();
+      if (migrations.length > 0 && !connection) {
+        throw new Error('Database not connected. Call connect() before running migrations.');
+      }
+
+      const done: string[] = [];
+      for (const migration of migrations) {
+        logger.info(`Running migration ${migration.id}_${migration.name}...`);
+        await apply(migration, { connection: connection as Connection, db: this.options.db });
+        done.push(migration.id);
+      }
+      return done;
+    } finally {
+      await this.store.releaseLock(owner);
+    }
+  }
+}
+
+/**
+ * Create a migration runner
+ */
+export const createMigrationRunner = (options: MigrationRunnerOptions): MigrationRunner =>
+  new MigrationRunner(options);
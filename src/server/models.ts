@@ -0,0 +1,115 @@
+import Joi from 'joi';
+
+/**
+ * Fields every stored model has. `id` is generated on create and the
+ * timestamps are maintained by the repository.
+ */
+export interface Entity {
+  id: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Fields a client provides for a model: everything but id and timestamps
+ */
+export type EntityInput<T extends Entity> = Omit<T, keyof Entity>;
+
+/**
+ * Model declaration passed to defineModel()
+ */
+export interface ModelDefinition<T extends Entity> {
+  /**
+   * Singular name, e.g. 'Todo'. Used in messages, audit events and as the
+   * Mongoose model name.
+   */
+  name: string;
+
+  /**
+   * Joi schema of each input field. Required fields must be sent on create
+   * and update; patch accepts any subset.
+   */
+  fields: { [K in keyof EntityInput<T>]-?: Joi.Schema };
+
+  /**
+   * Default: the lowercased name with an 's', e.g. 'todos'
+   */
+  collection?: string;
+
+  /**
+   * Fields list requests may filter on by equality, e.g. `?completed=true`
+   * Default: every field
+   */
+  filterable?: (keyof EntityInput<T> & string)[];
+
+  /**
+   * Fields list requests may sort on, e.g. `?sort=-createdAt`
+   * Default: every field and the timestamps
+   */
+  sortable?: (keyof T & string)[];
+}
+
+/**
+ * A model returned by defineModel(), with defaults filled in and its
+ * validation schemas built
+ */
+export interface StellarModel<T extends Entity>
+  extends Required<Omit<ModelDefinition<T>, 'fields'>> {
+  fields: ModelDefinition<T>['fields'];
+  schemas: {
+    /**
+     * Body of create and update (a full replacement)
+     */
+    input: Joi.ObjectSchema;
+
+    /**
+     * Body of patch: any non-empty subset of the fields, defaults not
+     * applied
+     */
+    patch: Joi.ObjectSchema;
+  };
+}
+
+/**
+ * Define a model for repositories and createCrudService()
+ *
+ * @example
+ * ```typescript
+ * interface Todo extends Entity {
+ *   title: string;
+ *   completed: boolean;
+ * }
+ *
+ * export const TodoModel = defineModel<Todo>({
+ *   name: 'Todo',
+ *   fields: {
+ *     title: Joi.string().trim().min(1).required(),
+ *     completed: Joi.boolean().default(false),
+ *   },
+ * });
+ * ```
+ */
+export function defineModel<T extends Entity>(definition: ModelDefinition<T>): StellarModel<T> {
+  if (!/^[A-Za-z][\w]*$/.test(definition.name)) {
+    throw new Error(`Invalid model name "${definition.name}"`);
+  }
+
+  const fields = Object.keys(definition.fields) as (keyof EntityInput<T> & string)[];
+  const schemaFields = definition.fields as Record<string, Joi.Schema>;
+  const input = Joi.object(schemaFields);
+
+  return {
+    ...definition,
+    collection: definition.collection || `${definition.name.toLowerCase()}s`,
+    filterable: definition.filterable || fields,
+    sortable: definition.sortable || [...fields, 'createdAt', 'updatedAt'],
+    schemas: {
+      input,
+      // Defaults would overwrite fields the patch leaves out
+      patch: input
+        .fork(fields, (schema) => schema.optional())
+        .min(1)
+        .prefs({ noDefaults: true }),
+    },
+  };
+}
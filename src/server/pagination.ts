@@ -0,0 +1,177 @@
+import { Request, Response } from 'express';
+import { PageInfo, PaginatedResult } from '../types';
+import { ValidationError } from '../utils/errors';
+
+/**
+ * Limits applied when parsing pagination parameters
+ */
+export interface PaginationOptions {
+  /**
+   * Page size used when the request has no `limit`
+   * Default: 20
+   */
+  defaultLimit?: number;
+
+  /**
+   * Largest page size a client may request
+   * Default: 100
+   */
+  maxLimit?: number;
+}
+
+/**
+ * Parsed `page` / `limit` parameters
+ */
+export interface PageParams {
+  page: number;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Parsed `cursor` / `limit` parameters
+ */
+export interface CursorParams {
+  cursor?: string;
+  limit: number;
+}
+
+const parsePositiveInteger = (value: unknown, name: string): number | undefined => {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new ValidationError(`"${name}" must be a positive integer`, [
+      { field: name, message: 'must be a positive integer' },
+    ]);
+  }
+
+  return number;
+};
+
+const parseLimit = (query: Request['query'], options: PaginationOptions): number => {
+  const { defaultLimit = 20, maxLimit = 100 } = options;
+  return Math.min(parsePositiveInteger(query.limit, 'limit') ?? defaultLimit, maxLimit);
+};
+
+/**
+ * Read `page` and `limit` from a query string. Limits above `maxLimit` are
+ * capped; invalid values throw a ValidationError.
+ */
+export const parsePagination = (
+  query: Request['query'],
+  options: PaginationOptions = {}
+): PageParams => {
+  const page = parsePositiveInteger(query.page, 'page') ?? 1;
+  const limit = parseLimit(query, options);
+
+  return { page, limit, offset: (page - 1) * limit };
+};
+
+/**
+ * Read `cursor` and `limit` from a query string
+ */
+export const parseCursorPagination = (
+  query: Request['query'],
+  options: PaginationOptions = {}
+): CursorParams => {
+  const cursor = typeof query.cursor === 'string' && query.cursor ? query.cursor : undefined;
+
+  return { cursor, limit: parseLimit(query, options) };
+};
+
+/**
+ * Encode a position as an opaque cursor
+ */
+export const encodeCursor = (value: unknown): string =>
+  Buffer.from(JSON.stringify(value)).toString('base64url');
+
+/**
+ * Decode a cursor created by encodeCursor
+ */
+export const decodeCursor = <T = unknown>(cursor: string): T => {
+  try {
+    return JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new ValidationError('Invalid cursor', [{ field: 'cursor', message: 'is invalid' }]);
+  }
+};
+
+/**
+ * Slice a page out of an in-memory list
+ */
+export const paginate = <T>(items: T[], params: PageParams): PaginatedResult<T> => {
+  const { page, limit, offset } = params;
+  const totalPages = Math.ceil(items.length / limit);
+
+  return {
+    data: items.slice(offset, offset + limit),
+    pagination: {
+      page,
+      limit,
+      total: items.length,
+      totalPages,
+      hasNextPage: page < totalPages,
+      hasPreviousPage: page > 1,
+    },
+  };
+};
+
+const buildPageUrl = (req: Request, changes: Record<string, string | number | null>): string => {
+  const params = new URLSearchParams();
+
+  Object.entries(req.query).forEach(([key, value]) => {
+    if (key in changes) return;
+    (Array.isArray(value) ? value : [value]).forEach((item) => {
+      if (typeof item === 'string') {
+        params.append(key, item);
+      }
+    });
+  });
+  Object.entries(changes).forEach(([key, value]) => {
+    if (value !== null) {
+      params.set(key, String(value));
+    }
+  });
+
+  return `${req.protocol}://${req.get('host')}${req.baseUrl}${req.path}?${params}`;
+};
+
+/**
+ * Build an RFC 8288 `Link` header with first/prev/next/last links for page-based
+ * results and a next link for cursor-based results
+ */
+export const buildLinkHeader = (req: Request, pagination: PageInfo): string => {
+  const { page, limit, totalPages, hasNextPage, hasPreviousPage, nextCursor } = pagination;
+  const links: [string, string][] = [];
+
+  if (page !== undefined) {
+    const last = Math.max(totalPages ?? page, 1);
+    links.push(['first', buildPageUrl(req, { page: 1, limit })]);
+    if (hasPreviousPage) links.push(['prev', buildPageUrl(req, { page: page - 1, limit })]);
+    if (hasNextPage) links.push(['next', buildPageUrl(req, { page: page + 1, limit })]);
+    if (totalPages !== undefined) links.push(['last', buildPageUrl(req, { page: last, limit })]);
+  } else if (hasNextPage && nextCursor) {
+    links.push(['next', buildPageUrl(req, { cursor: nextCursor, limit })]);
+  }
+
+  return links.map(([rel, url]) => `<${url}>; rel="${rel}"`).join(', ');
+};
+
+/**
+ * Send a paginated result as `{ success, data, pagination }` with `Link` and
+ * `X-Total-Count` headers
+ */
+export const sendPaginated = <T>(req: Request, res: Response, result: PaginatedResult<T>): void => {
+  const link = buildLinkHeader(req, result.pagination);
+  if (link) {
+    res.setHeader('Link', link);
+  }
+  if (result.pagination.total !== undefined) {
+    res.setHeader('X-Total-Count', String(result.pagination.total));
+  }
+
+  res.json({ success: true, data: result.data, pagination: result.pagination });
+};
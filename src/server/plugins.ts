@@ -0,0 +1,317 @@
+import { Express, Request, Response, NextFunction, RequestHandler } from 'express';
+import type { StellarServer } from './StellarServer';
+import { ServerConfig, ServiceConfig } from '../types';
+import { createLogger, Logger } from '../utils/helpers';
+
+const logger = createLogger('Plugins');
+
+/**
+ * Lifecycle hooks a plugin can register
+ */
+export interface PluginHooks {
+  /**
+   * Runs once all plugins are loaded, before the server starts listening
+   */
+  onInit: () => void | Promise<void>;
+
+  /**
+   * Runs once the server is listening
+   */
+  onReady: (info: { port: number }) => void | Promise<void>;
+
+  /**
+   * Runs for every request before it reaches the routes.
+   * Sending a response from this hook ends the request.
+   */
+  onRequest: (req: Request, res: Response) => void | Promise<void>;
+
+  /**
+   * Runs after the response has been sent
+   */
+  onResponse: (req: Request, res: Response, duration: number) => void | Promise<void>;
+
+  /**
+   * Runs when a request fails, before the error handler responds
+   */
+  onError: (error: Error, req: Request, res: Response) => void | Promise<void>;
+
+  /**
+   * Runs when the server stops, in reverse registration order
+   */
+  onClose: () => void | Promise<void>;
+}
+
+export type PluginHookName = keyof PluginHooks;
+
+/**
+ * API handed to a plugin while it registers
+ */
+export interface PluginContext {
+  server: StellarServer;
+  app: Express;
+  config: ServerConfig;
+  logger: Logger;
+
+  /**
+   * Add middleware to the server
+   */
+  use(middleware: RequestHandler): void;
+
+  /**
+   * Attach a property to every incoming request
+   */
+  decorateRequest<T>(property: string, initializer: (req: Request) => T): void;
+
+  /**
+   * Register a service and mount its routes
+   */
+  registerService(serviceConfig: ServiceConfig): void;
+
+  /**
+   * Hook into a lifecycle phase
+   */
+  addHook<K extends PluginHookName>(name: K, hook: PluginHooks[K]): void;
+
+  /**
+   * Check whether another plugin has been registered
+   */
+  hasPlugin(name: string): boolean;
+}
+
+/**
+ * Plugin definition
+ */
+export interface StellarPlugin<TOptions = Record<string, unknown>> {
+  /**
+   * Unique plugin name
+   */
+  name: string;
+
+  /**
+   * Plugin version (informational)
+   */
+  version?: string;
+
+  /**
+   * Plugins that must be registered before this one
+   */
+  dependencies?: string[];
+
+  /**
+   * Called once when the plugin is registered
+   */
+  register: (context: PluginContext, options: TOptions) => void | Promise<void>;
+}
+
+/**
+ * Information about a registered plugin
+ */
+export interface RegisteredPlugin {
+  name: string;
+  version?: string;
+  dependencies: string[];
+}
+
+type HookEntry<K extends PluginHookName> = { plugin: string; hook: PluginHooks[K] };
+
+type HookRegistry = { [K in PluginHookName]: HookEntry<K>[] };
+
+/**
+ * Define a plugin with type-checked options
+ */
+export function createPlugin<TOptions = Record<string, unknown>>(
+  plugin: StellarPlugin<TOptions>
+): StellarPlugin<TOptions> {
+  return plugin;
+}
+
+/**
+ * Keeps track of registered plugins, request decorators and lifecycle hooks.
+ * Plugins load in registration order and a plugin's dependencies must be
+ * registered before it.
+ */
+export class PluginManager {
+  private plugins: Map<string, RegisteredPlugin> = new Map();
+  private decorators: Map<string, (req: Request) => unknown> = new Map();
+  private pending: Promise<void>[] = [];
+  private hooks: HookRegistry = {
+    onInit: [],
+    onReady: [],
+    onRequest: [],
+    onResponse: [],
+    onError: [],
+    onClose: [],
+  };
+
+  constructor(private server: StellarServer, private config: ServerConfig) {}
+
+  /**
+   * Register a plugin. Synchronous plugins are applied immediately; the
+   * returned promise settles once an async plugin has finished loading.
+   */
+  register<TOptions>(plugin: StellarPlugin<TOptions>, options: TOptions): Promise<void> {
+    if (!plugin || !plugin.name) {
+      throw new Error('Plugin must have a name');
+    }
+
+    if (this.plugins.has(plugin.name)) {
+      throw new Error(`Plugin "${plugin.name}" is already registered`);
+    }
+
+    const dependencies = plugin.dependencies || [];
+    const missing = dependencies.filter((dependency) => !this.plugins.has(dependency));
+
+    if (missing.length > 0) {
+      throw new Error(
+        `Plugin "${plugin.name}" depends on unregistered plugin(s): ${missing.join(', ')}`
+      );
+    }
+
+    this.plugins.set(plugin.name, {
+      name: plugin.name,
+      version: plugin.version,
+      dependencies,
+    });
+
+    let result: void | Promise<void>;
+
+    try {
+      result = plugin.register(this.createContext(plugin.name), options);
+    } catch (error) {
+      this.plugins.delete(plugin.name);
+      logger.error(`Failed to register plugin "${plugin.name}":`, error);
+      throw error;
+    }
+
+    const loading = Promise.resolve(result).then(
+      () => logger.debug(`Plugin registered: ${plugin.name}`),
+      (error) => {
+        logger.error(`Failed to register plugin "${plugin.name}":`, error);
+        throw error;
+      }
+    );
+
+    this.pending.push(loading);
+    return loading;
+  }
+
+  /**
+   * Wait for all async plugins to finish loading
+   */
+  async ready(): Promise<void> {
+    await Promise.all(this.pending);
+  }
+
+  /**
+   * Check if a plugin is registered
+   */
+  has(name: string): boolean {
+    return this.plugins.has(name);
+  }
+
+  /**
+   * List registered plugins in registration order
+   */
+  list(): RegisteredPlugin[] {
+    return Array.from(this.plugins.values());
+  }
+
+  /**
+   * Add a lifecycle hook on behalf of a plugin
+   */
+  addHook<K extends PluginHookName>(plugin: string, name: K, hook: PluginHooks[K]): void {
+    if (typeof hook !== 'function') {
+      throw new Error(`Hook "${name}" registered by plugin "${plugin}" must be a function`);
+    }
+
+    (this.hooks[name] as HookEntry<K>[]).push({ plugin, hook });
+  }
+
+  /**
+   * Run every hook registered for a phase, one after another.
+   * onClose hooks run in reverse registration order.
+   */
+  async runHook<K extends PluginHookName>(
+    name: K,
+    ...args: Parameters<PluginHooks[K]>
+  ): Promise<void> {
+    const entries = [...(this.hooks[name] as HookEntry<K>[])];
+
+    if (name === 'onClose') {
+      entries.reverse();
+    }
+
+    for (const entry of entries) {
+      await (entry.hook as (...hookArgs: Parameters<PluginHooks[K]>) => void | Promise<void>)(
+        ...args
+      );
+    }
+  }
+
+  /**
+   * Middleware that applies request decorators and runs onRequest/onResponse hooks
+   */
+  requestHandler(): RequestHandler {
+    return (req: Request, res: Response, next: NextFunction): void => {
+      this.decorators.forEach((initializer, property) => {
+        (req as unknown as Record<string, unknown>)[property] = initializer(req);
+      });
+
+      if (this.hooks.onResponse.length > 0) {
+        const start = Date.now();
+
+        res.on('finish', () => {
+          this.runHook('onResponse', req, res, Date.now() - start).catch((error) => {
+            logger.error('onResponse hook failed:', error);
+          });
+        });
+      }
+
+      if (this.hooks.onRequest.length === 0) {
+        next();
+        return;
+      }
+
+      this.runHook('onRequest', req, res).then(() => {
+        if (!res.headersSent) {
+          next();
+        }
+      }, next);
+    };
+  }
+
+  /**
+   * Error middleware that runs onError hooks before passing the error on
+   */
+  errorHandler() {
+    return (err: Error, req: Request, res: Response, next: NextFunction): void => {
+      this.runHook('onError', err, req, res)
+        .catch((hookError) => {
+          logger.error('onError hook failed:', hookError);
+        })
+        .then(() => next(err));
+    };
+  }
+
+  /**
+   * Build the context handed to a plugin's register function
+   */
+  private createContext(plugin: string): PluginContext {
+    return {
+      server: this.server,
+      app: this.server.getApp(),
+      config: this.config,
+      logger: createLogger(`Plugin:${plugin}`),
+      use: (middleware) => this.server.use(middleware),
+      decorateRequest: (property, initializer) => {
+        if (this.decorators.has(property)) {
+          throw new Error(`Request decorator "${property}" is already registered`);
+        }
+        this.decorators.set(property, initializer);
+      },
+      registerService: (serviceConfig) => this.server.registerService(serviceConfig),
+      addHook: (name, hook) => this.addHook(plugin, name, hook),
+      hasPlugin: (name) => this.has(name),
+    };
+  }
+}
@@ -0,0 +1,300 @@
+import { ClientSession, FilterQuery, Model, Schema } from 'mongoose';
+import type { DatabaseManager } from './database';
+import { Entity, EntityInput, StellarModel } from './models';
+import { getTransactionSession } from './transactions';
+import { generateUUID } from '../utils/security';
+
+/**
+ * Query of Repository.find()
+ */
+export interface FindOptions<T extends Entity> {
+  /**
+   * Fields the results must equal
+   */
+  filter?: Partial<T>;
+  sort?: { field: keyof T & string; order: 'asc' | 'desc' };
+  offset?: number;
+  limit?: number;
+}
+
+/**
+ * Storage of one model's entities
+ */
+export interface Repository<T extends Entity> {
+  find(options?: FindOptions<T>): Promise<T[]>;
+  count(filter?: Partial<T>): Promise<number>;
+  findById(id: string): Promise<T | null>;
+  create(input: EntityInput<T>): Promise<T>;
+  createMany(inputs: EntityInput<T>[]): Promise<T[]>;
+
+  /**
+   * Replace every input field. Returns null when the entity does not exist.
+   */
+  update(id: string, input: EntityInput<T>): Promise<T | null>;
+
+  /**
+   * Change only the given fields. Returns null when the entity does not
+   * exist.
+   */
+  patch(id: string, changes: Partial<EntityInput<T>>): Promise<T | null>;
+  delete(id: string): Promise<boolean>;
+
+  /**
+   * Returns the number of entities deleted
+   */
+  deleteMany(ids: string[]): Promise<number>;
+}
+
+const comparable = (value: unknown): unknown => (value instanceof Date ? value.getTime() : value);
+
+const compareValues = (a: unknown, b: unknown): number => {
+  const left = comparable(a);
+  const right = comparable(b);
+
+  if (left === right) return 0;
+  if (left === undefined || left === null) return -1;
+  if (right === undefined || right === null) return 1;
+  return (left as number | string) < (right as number | string) ? -1 : 1;
+};
+
+/**
+ * In-memory repository (for development and tests)
+ */
+export class InMemoryRepository<T extends Entity> implements Repository<T> {
+  private entities: Map<string, T> = new Map();
+
+  async find(options: FindOptions<T> = {}): Promise<T[]> {
+    const { sort, offset = 0, limit } = options;
+    const entities = this.matching(options.filter);
+
+    if (sort) {
+      const direction = sort.order === 'desc' ? -1 : 1;
+      entities.sort((a, b) => direction * compareValues(a[sort.field], b[sort.field]));
+    }
+
+    return entities
+      .slice(offset, limit === undefined ? undefined : offset + limit)
+      .map((entity) => ({ ...entity }));
+  }
+
+  async count(filter?: Partial<T>): Promise<number> {
+    return this.matching(filter).length;
+  }
+
+  async findById(id: string): Promise<T | null> {
+    const entity = this.entities.get(id);
+    return entity ? { ...entity } : null;
+  }
+
+  async create(input: EntityInput<T>): Promise<T> {
+    const now = new Date();
+    const entity = { ...input, id: generateUUID(), createdAt: now, updatedAt: now } as T;
+    this.entities.set(entity.id, entity);
+    return { ...entity };
+  }
+
+  async createMany(inputs: EntityInput<T>[]): Promise<T[]> {
+    return Promise.all(inputs.map((input) => this.create(input)));
+  }
+
+  async update(id: string, input: EntityInput<T>): Promise<T | null> {
+    const existing = this.entities.get(id);
+    if (!existing) {
+      return null;
+    }
+
+    const entity = {
+      ...input,
+      id,
+      createdAt: existing.createdAt,
+      updatedAt: new Date(),
+    } as T;
+    this.entities.set(id, entity);
+    return { ...entity };
+  }
+
+  async patch(id: string, changes: Partial<EntityInput<T>>): Promise<T | null> {
+    const existing = this.entities.get(id);
+    if (!existing) {
+      return null;
+    }
+
+    const entity = { ...existing, ...changes, updatedAt: new Date() };
+    this.entities.set(id, entity);
+    return { ...entity };
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.entities.delete(id);
+  }
+
+  async deleteMany(ids: string[]): Promise<number> {
+    return ids.filter((id) => this.entities.delete(id)).length;
+  }
+
+  private matching(filter: Partial<T> = {}): T[] {
+    const conditions = Object.entries(filter).filter(([, value]) => value !== undefined);
+    return Array.from(this.entities.values()).filter((entity) =>
+      conditions.every(([field, value]) => compareValues(entity[field as keyof T], value) === 0)
+    );
+  }
+}
+
+/**
+ * Options for the Mongoose repository
+ */
+export interface MongooseRepositoryOptions {
+  /**
+   * Run find() and count() on the database's read replicas
+   * Default: false
+   */
+  readFromReplicas?: boolean;
+}
+
+/**
+ * Repository backed by the model's collection on the DatabaseManager's
+ * connection. Fields are validated by the model's schemas before they get
+ * here, so the collection schema only declares the id and timestamps.
+ * Inside db.withTransaction() every operation joins the transaction.
+ */
+export class MongooseRepository<T extends Entity> implements Repository<T> {
+  private schema: Schema<T>;
+
+  constructor(
+    private model: StellarModel<T>,
+    private db: DatabaseManager,
+    private options: MongooseRepositoryOptions = {}
+  ) {
+    this.schema = new Schema<T>(
+      {
+        id: { type: String, required: true, unique: true },
+        createdAt: { type: Date, required: true },
+        updatedAt: { type: Date, required: true },
+      },
+      // `id` is a stored field here, not mongoose's virtual
+      { collection: model.collection, versionKey: false, id: false, strict: false }
+    );
+  }
+
+  /**
+   * Model registered on the current connection
+   */
+  getModel(): Model<T> {
+    return this.db.model<T>(this.model.name, this.schema);
+  }
+
+  async find(options: FindOptions<T> = {}): Promise<T[]> {
+    const query = this.readModel()
+      .find(this.toFilter(options.filter), { _id: 0 })
+      .skip(options.offset || 0)
+      .session(this.session());
+
+    if (options.sort) {
+      query.sort({ [options.sort.field]: options.sort.order === 'desc' ? -1 : 1, _id: 1 });
+    }
+    if (options.limit !== undefined) {
+      query.limit(options.limit);
+    }
+
+    return query.lean<T[]>().exec();
+  }
+
+  async count(filter?: Partial<T>): Promise<number> {
+    return this.readModel().countDocuments(this.toFilter(filter)).session(this.session()).exec();
+  }
+
+  async findById(id: string): Promise<T | null> {
+    return this.getModel()
+      .findOne(this.byId(id), { _id: 0 })
+      .session(this.session())
+      .lean<T>()
+      .exec();
+  }
+
+  async create(input: EntityInput<T>): Promise<T> {
+    const [entity] = await this.createMany([input]);
+    return entity;
+  }
+
+  async createMany(inputs: EntityInput<T>[]): Promise<T[]> {
+    const now = new Date();
+    const entities = inputs.map(
+      (input) => ({ ...input, id: generateUUID(), createdAt: now, updatedAt: now } as T)
+    );
+
+    await this.getModel().insertMany(entities, { session: this.session() });
+    return entities;
+  }
+
+  async update(id: string, input: EntityInput<T>): Promise<T | null> {
+    const existing = await this.findById(id);
+    if (!existing) {
+      return null;
+    }
+
+    const entity = { ...input, id, createdAt: existing.createdAt, updatedAt: new Date() } as T;
+    const result = await this.getModel().replaceOne(this.byId(id), entity, {
+      session: this.session(),
+    });
+    return result.matchedCount > 0 ? entity : null;
+  }
+
+  async patch(id: string, changes: Partial<EntityInput<T>>): Promise<T | null> {
+    return this.getModel()
+      .findOneAndUpdate(
+        this.byId(id),
+        { $set: { ...changes, updatedAt: new Date() } },
+        { new: true, projection: { _id: 0 }, session: this.session() }
+      )
+      .lean<T>()
+      .exec();
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await this.getModel().deleteOne(this.byId(id), { session: this.session() });
+    return result.deletedCount > 0;
+  }
+
+  async deleteMany(ids: string[]): Promise<number> {
+    const result = await this.getModel().deleteMany({ id: { $in: ids } } as FilterQuery<T>, {
+      session: this.session(),
+    });
+    return result.deletedCount;
+  }
+
+  // Transactions read from the primary
+  private readModel(): Model<T> {
+    return this.options.readFromReplicas && !this.session()
+      ? this.db.readModel<T>(this.model.name, this.schema)
+      : this.getModel();
+  }
+
+  private session(): ClientSession | null {
+    return getTransactionSession(this.db) || null;
+  }
+
+  private byId(id: string): FilterQuery<T> {
+    return { id } as FilterQuery<T>;
+  }
+
+  private toFilter(filter: Partial<T> = {}): FilterQuery<T> {
+    return Object.fromEntries(
+      Object.entries(filter).filter(([, value]) => value !== undefined)
+    ) as FilterQuery<T>;
+  }
+}
+
+/**
+ * Create an in-memory repository
+ */
+export const createInMemoryRepository = <T extends Entity>(): InMemoryRepository<T> =>
+  new InMemoryRepository<T>();
+
+/**
+ * Create a repository on a DatabaseManager's connection
+ */
+export const createMongooseRepository = <T extends Entity>(
+  model: StellarModel<T>,
+  db: DatabaseManager,
+  options?: MongooseRepositoryOptions
+): MongooseRepository<T> => new MongooseRepository(model, db, options);
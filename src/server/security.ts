@@ -8,6 +8,9 @@ import hpp from 'hpp';
 import xss from 'xss-clean';
 import validator from 'validator';
 import { createLogger } from '../utils/helpers';
+import { createPlugin } from './plugins';
+import { createCsrfMiddleware } from './csrf';
+import { CsrfOptions } from '../types';
 
 const logger = createLogger('Security');
 
@@ -52,10 +55,10 @@ export interface SecurityConfig {
   sanitization?: boolean;
 
   /**
-   * Enable CSRF protection
-   * Default: false (requires session middleware)
+   * Enable double-submit CSRF protection for requests that carry cookies
+   * Default: false
    */
-  csrf?: boolean;
+  csrf?: boolean | CsrfOptions;
 
   /**
    * Trusted proxies (for rate limiting behind reverse proxy)
@@ -242,6 +245,14 @@ export const createSecurityMiddleware = (config: SecurityConfig = {}) => {
     logger.info('Input sanitization enabled');
   }
 
+  // CSRF Protection
+  if (securityConfig.csrf) {
+    middlewares.push(
+      createCsrfMiddleware(typeof securityConfig.csrf === 'object' ? securityConfig.csrf : {})
+    );
+    logger.info('CSRF protection enabled');
+  }
+
   return middlewares;
 };
 
@@ -599,4 +610,20 @@ export const securityProfiles = {
     }),
 };
 
+/**
+ * Built-in plugin: security middleware stack.
+ * Pass `profile` to use one of the pre-configured security profiles.
+ */
+export const securityPlugin = createPlugin<
+  SecurityConfig & { profile?: keyof typeof securityProfiles }
+>({
+  name: 'stellar-security',
+  register: (context, options) => {
+    const { profile, ...config } = options;
+    const middlewares = profile ? securityProfiles[profile]() : createSecurityMiddleware(config);
+
+    middlewares.forEach((middleware) => context.use(middleware));
+  },
+});
+
 export { helmet, rateLimit, mongoSanitize, hpp, xss };
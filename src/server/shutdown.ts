@@ -0,0 +1,266 @@
+import { Server } from 'http';
+import { Socket } from 'net';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { ShutdownOptions } from '../types';
+import { createLogger } from '../utils/helpers';
+
+const logger = createLogger('Shutdown');
+
+/**
+ * Shutdown state of the server
+ */
+export type ShutdownState = 'running' | 'draining' | 'stopped';
+
+/**
+ * Hook run during shutdown (close database, flush audit log, stop job queues...)
+ */
+export type ShutdownHook = () => void | Promise<void>;
+
+const defaultShutdownOptions: Required<ShutdownOptions> = {
+  timeout: 30000,
+  hookTimeout: 10000,
+  handleSignals: true,
+  signals: ['SIGINT', 'SIGTERM'],
+  exitOnSignal: true,
+};
+
+/**
+ * Coordinates graceful shutdown: stop accepting connections, drain in-flight
+ * requests up to a deadline, run shutdown hooks in reverse registration order,
+ * then force-close whatever sockets remain.
+ */
+export class ShutdownManager {
+  private options: Required<ShutdownOptions>;
+  private state: ShutdownState = 'running';
+  private server: Server | null = null;
+  private sockets: Set<Socket> = new Set();
+  private activeRequests = 0;
+  private drainListeners: (() => void)[] = [];
+  private hooks: { name: string; hook: ShutdownHook }[] = [];
+  private signalHandlers: Map<NodeJS.Signals, () => void> = new Map();
+  private shutdownPromise: Promise<void> | null = null;
+
+  constructor(options: ShutdownOptions = {}) {
+    this.options = { ...defaultShutdownOptions, ...options };
+  }
+
+  /**
+   * Track connections of a listening HTTP server
+   */
+  attach(server: Server): void {
+    this.server = server;
+    this.state = 'running';
+    this.shutdownPromise = null;
+
+    server.on('connection', (socket: Socket) => {
+      this.sockets.add(socket);
+      socket.on('close', () => this.sockets.delete(socket));
+    });
+
+    if (this.options.handleSignals) {
+      this.listenForSignals();
+    }
+  }
+
+  /**
+   * Register a shutdown hook. Hooks run in reverse registration order.
+   */
+  addHook(name: string, hook: ShutdownHook): void {
+    this.hooks.push({ name, hook });
+  }
+
+  /**
+   * Middleware that counts in-flight requests and asks clients to drop
+   * keep-alive connections while draining
+   */
+  middleware(): RequestHandler {
+    return (req: Request, res: Response, next: NextFunction): void => {
+      if (this.state !== 'running') {
+        res.setHeader('Connection', 'close');
+      }
+
+      this.activeRequests++;
+
+      let done = false;
+      const complete = () => {
+        if (done) return;
+        done = true;
+        this.activeRequests--;
+
+        if (this.activeRequests === 0) {
+          this.drainListeners.splice(0).forEach((listener) => listener());
+        }
+      };
+
+      res.on('finish', complete);
+      res.on('close', complete);
+      next();
+    };
+  }
+
+  /**
+   * Current shutdown state
+   */
+  getState(): ShutdownState {
+    return this.state;
+  }
+
+  /**
+   * Check if the server is draining connections
+   */
+  isDraining(): boolean {
+    return this.state === 'draining';
+  }
+
+  /**
+   * Number of requests currently being processed
+   */
+  getActiveRequests(): number {
+    return this.activeRequests;
+  }
+
+  /**
+   * Shut down gracefully. Calling this more than once returns the same promise.
+   */
+  shutdown(): Promise<void> {
+    if (!this.shutdownPromise) {
+      this.shutdownPromise = this.runShutdown();
+    }
+    return this.shutdownPromise;
+  }
+
+  /**
+   * Install signal handlers that trigger a graceful shutdown.
+   * A second signal while draining exits immediately.
+   */
+  listenForSignals(): void {
+    this.options.signals.forEach((signal) => {
+      if (this.signalHandlers.has(signal)) return;
+
+      const handler = () => {
+        if (this.state === 'draining') {
+          logger.warn(`Received ${signal} again, forcing exit`);
+          process.exit(1);
+        }
+
+        logger.info(`Received ${signal}, shutting down gracefully`);
+        this.shutdown().then(
+          () => {
+            if (this.options.exitOnSignal) process.exit(0);
+          },
+          (error) => {
+            logger.error('Graceful shutdown failed:', error);
+            if (this.options.exitOnSignal) process.exit(1);
+          }
+        );
+      };
+
+      this.signalHandlers.set(signal, handler);
+      process.on(signal, handler);
+    });
+  }
+
+  /**
+   * Remove installed signal handlers
+   */
+  removeSignalHandlers(): void {
+    this.signalHandlers.forEach((handler, signal) => process.removeListener(signal, handler));
+    this.signalHandlers.clear();
+  }
+
+  private async runShutdown(): Promise<void> {
+    this.state = 'draining';
+    logger.info('Shutting down: no longer accepting connections');
+
+    const closed = this.closeServer();
+
+    const drained = await this.waitForRequests(this.options.timeout);
+    if (!drained) {
+      logger.warn(
+        `Shutdown deadline of ${this.options.timeout}ms reached with ${this.activeRequests} request(s) in flight`
+      );
+    }
+
+    await this.runHooks();
+
+    // Force-close idle keep-alive sockets and anything still open past the deadline
+    this.sockets.forEach((socket) => socket.destroy());
+    this.sockets.clear();
+
+    await closed;
+
+    this.removeSignalHandlers();
+    this.server = null;
+    this.state = 'stopped';
+    logger.info('Shutdown complete');
+  }
+
+  private closeServer(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve) => {
+      server.close((error) => {
+        if (error) {
+          logger.warn(`Server close reported: ${error.message}`);
+        }
+        resolve();
+      });
+    });
+  }
+
+  private waitForRequests(timeout: number): Promise<boolean> {
+    if (this.activeRequests === 0) {
+      return Promise.resolve(true);
+    }
+
+    logger.info(`Waiting for ${this.activeRequests} in-flight request(s)`);
+
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.drainListeners = this.drainListeners.filter((listener) => listener !== onDrained);
+        resolve(false);
+      }, timeout);
+      timer.unref?.();
+
+      const onDrained = () => {
+        clearTimeout(timer);
+        resolve(true);
+      };
+
+      this.drainListeners.push(onDrained);
+    });
+  }
+
+  private async runHooks(): Promise<void> {
+    for (const { name, hook } of [...this.hooks].reverse()) {
+      let timer: NodeJS.Timeout | undefined;
+
+      try {
+        await Promise.race([
+          Promise.resolve().then(hook),
+          new Promise((_, reject) => {
+            timer = setTimeout(
+              () => reject(new Error(`timed out after ${this.options.hookTimeout}ms`)),
+              this.options.hookTimeout
+            );
+          }),
+        ]);
+        logger.info(`Shutdown hook completed: ${name}`);
+      } catch (error) {
+        logger.error(`Shutdown hook "${name}" failed:`, error);
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+  }
+}
+
+/**
+ * Create a shutdown manager instance
+ */
+export const createShutdownManager = (options?: ShutdownOptions): ShutdownManager => {
+  return new ShutdownManager(options);
+};
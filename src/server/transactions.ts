@@ -0,0 +1,158 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { ClientSession, Connection, mongo } from 'mongoose';
+import type { DatabaseManager } from './database';
+import { createLogger } from '../utils/helpers';
+
+const logger = createLogger('Transactions');
+
+/**
+ * Options for DatabaseManager.withTransaction()
+ */
+export interface WithTransactionOptions {
+  /**
+   * Times the whole transaction is run again after a transient error, e.g.
+   * a write conflict or a primary election
+   * Default: 3
+   */
+  maxRetries?: number;
+
+  /**
+   * Read and write concerns of the transaction
+   */
+  transactionOptions?: mongo.TransactionOptions;
+}
+
+/**
+ * A running transaction: a unit of work whose writes commit together.
+ * Repositories of its database join it without being passed the session.
+ */
+export class Transaction {
+  private effects: (() => unknown)[] = [];
+
+  constructor(
+    readonly db: DatabaseManager,
+    readonly session: ClientSession,
+    /**
+     * 1 for the first run, higher when retried
+     */
+    readonly attempt: number
+  ) {}
+
+  /**
+   * Run `effect` once the transaction has committed, e.g. sending mail or
+   * publishing an event. Dropped when the transaction aborts or is retried.
+   */
+  afterCommit(effect: () => unknown): void {
+    this.effects.push(effect);
+  }
+
+  /**
+   * Run the deferred effects. Their errors are logged, since the
+   * transaction has committed already.
+   */
+  async runEffects(): Promise<void> {
+    for (const effect of this.effects.splice(0)) {
+      try {
+        await effect();
+      } catch (error) {
+        logger.error('After-commit effect failed:', error);
+      }
+    }
+  }
+}
+
+const transactionStorage = new AsyncLocalStorage<Transaction>();
+
+/**
+ * Transaction the current code runs in, if any
+ */
+export const getCurrentTransaction = (): Transaction | undefined => transactionStorage.getStore();
+
+/**
+ * Session of the current transaction when it belongs to `db`, for queries
+ * made outside of repositories
+ */
+export const getTransactionSession = (db: DatabaseManager): ClientSession | undefined => {
+  const transaction = getCurrentTransaction();
+  return transaction?.db === db ? transaction.session : undefined;
+};
+
+/**
+ * Run `effect` after the current transaction commits, or now outside of
+ * one
+ */
+export const afterCommit = async (effect: () => unknown): Promise<void> => {
+  const transaction = getCurrentTransaction();
+  if (transaction) {
+    transaction.afterCommit(effect);
+    return;
+  }
+  await effect();
+};
+
+const hasErrorLabel = (error: unknown, label: string): boolean => {
+  const { hasErrorLabel: check } = (error || {}) as { hasErrorLabel?: (label: string) => boolean };
+  return typeof check === 'function' && check.call(error, label);
+};
+
+/**
+ * Run `work` in a transaction on `connection`. Transient errors run it
+ * again from the start; a commit with an unknown result is retried.
+ */
+export const runInTransaction = async <T>(
+  db: DatabaseManager,
+  connection: Connection,
+  work: (transaction: Transaction) => Promise<T>,
+  options: WithTransactionOptions = {}
+): Promise<T> => {
+  // Nested calls join the outer transaction
+  const current = getCurrentTransaction();
+  if (current?.db === db) {
+    return work(current);
+  }
+
+  const { maxRetries = 3, transactionOptions } = options;
+  const session = await connection.startSession();
+
+  try {
+    for (let attempt = 1; ; attempt++) {
+      const transaction = new Transaction(db, session, attempt);
+      session.startTransaction(transactionOptions);
+
+      try {
+        const result = await transactionStorage.run(transaction, () => work(transaction));
+        await commit(session, maxRetries);
+        await transaction.runEffects();
+        return result;
+      } catch (error) {
+        if (session.inTransaction()) {
+          await session.abortTransaction().catch((abortError: unknown) => {
+            logger.warn('Failed to abort transaction:', abortError);
+          });
+        }
+
+        if (attempt <= maxRetries && hasErrorLabel(error, 'TransientTransactionError')) {
+          logger.warn(`Transient transaction error, retrying (attempt ${attempt + 1})`);
+          continue;
+        }
+        throw error;
+      }
+    }
+  } finally {
+    await session.endSession();
+  }
+};
+
+const commit = async (session: ClientSession, maxRetries: number): Promise<void> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      await session.commitTransaction();
+      return;
+    } catch (error) {
+      if (attempt < maxRetries && hasErrorLabel(error, 'UnknownTransactionCommitResult')) {
+        continue;
+      }
+      throw error;
+    }
+  }
+};
@@ -0,0 +1,478 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { AccessTokenClaims, AuthUser, ServiceConfig } from '../../types';
+import {
+  AuthenticationError,
+  AuthorizationError,
+  NotFoundError,
+  RateLimitError,
+  StellarError,
+  ValidationError,
+} from '../../utils/errors';
+import { generateSecureToken, generateUUID, hashSHA256 } from '../../utils/security';
+import { AuditActor, AuditEventType, AuditSeverity, getAuditLogger } from '../../server/audit';
+import {
+  ApiKeyInfo,
+  ApiKeyRateLimit,
+  ApiKeyRecord,
+  ApiKeyStore,
+  InMemoryApiKeyStore,
+  toApiKeyInfo,
+} from './ApiKeyStore';
+import type { AuthService } from './AuthService';
+
+const DEFAULT_ROTATION_OVERLAP = 24 * 60 * 60 * 1000;
+
+// lastUsedAt is written at most this often per key
+const TOUCH_INTERVAL = 60 * 1000;
+
+/**
+ * Options for ApiKeyService
+ */
+export interface ApiKeyServiceOptions {
+  store?: ApiKeyStore;
+
+  /**
+   * Start of every key, e.g. 'sk_live'
+   * Default: 'sk'
+   */
+  prefix?: string;
+
+  /**
+   * Header clients send the key in
+   * Default: 'X-API-Key'
+   */
+  header?: string;
+
+  /**
+   * Limit for keys created without their own
+   * Default: none
+   */
+  defaultRateLimit?: ApiKeyRateLimit;
+
+  /**
+   * How long a rotated key keeps working next to its replacement (ms)
+   * Default: 24 hours
+   */
+  rotationOverlap?: number;
+}
+
+/**
+ * Input of ApiKeyService.createKey
+ */
+export interface CreateApiKeyInput {
+  name: string;
+  scopes?: string[];
+  ownerId?: string;
+  expiresAt?: Date;
+  rateLimit?: ApiKeyRateLimit;
+}
+
+/**
+ * A new key: `key` is shown once and cannot be recovered later
+ */
+export interface CreatedApiKey {
+  key: string;
+  apiKey: ApiKeyInfo;
+}
+
+/**
+ * Issues, verifies, rotates and revokes API keys. Keys are stored hashed,
+ * so a leaked store does not leak working keys.
+ *
+ * Rate limits are counted in memory, per process.
+ */
+export class ApiKeyService {
+  private store: ApiKeyStore;
+  private prefix: string;
+  private header: string;
+  private windows: Map<string, { startedAt: number; count: number }> = new Map();
+
+  constructor(private options: ApiKeyServiceOptions = {}) {
+    this.store = options.store || new InMemoryApiKeyStore();
+    this.prefix = options.prefix || 'sk';
+    this.header = options.header || 'X-API-Key';
+  }
+
+  /**
+   * Create a key. Logs an `api.key.created` audit event.
+   */
+  async createKey(input: CreateApiKeyInput, actor?: AuthUser): Promise<CreatedApiKey> {
+    const created = await this.issueKey(input);
+
+    await this.logKeyEvent(AuditEventType.API_KEY_CREATED, 'create api key', created.apiKey, actor);
+    return created;
+  }
+
+  /**
+   * Keys of every owner, or of one, newest first
+   */
+  async listKeys(ownerId?: string): Promise<ApiKeyInfo[]> {
+    const records = await this.store.list(ownerId);
+    return records.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime()).map(toApiKeyInfo);
+  }
+
+  /**
+   * Stop accepting a key at once. Logs an `api.key.revoked` audit event.
+   */
+  async revokeKey(id: string, actor?: AuthUser): Promise<ApiKeyInfo> {
+    const record = await this.findKey(id);
+
+    if (!record.revokedAt) {
+      record.revokedAt = new Date();
+      await this.store.save(record);
+      await this.logKeyEvent(
+        AuditEventType.API_KEY_REVOKED,
+        'revoke api key',
+        toApiKeyInfo(record),
+        actor
+      );
+    }
+    return toApiKeyInfo(record);
+  }
+
+  /**
+   * Replace a key with a new one with the same settings. The old key keeps
+   * working for `overlap` (default `rotationOverlap`), so clients can switch
+   * without downtime.
+   */
+  async rotateKey(
+    id: string,
+    { overlap = this.options.rotationOverlap ?? DEFAULT_ROTATION_OVERLAP } = {},
+    actor?: AuthUser
+  ): Promise<CreatedApiKey & { previous: ApiKeyInfo }> {
+    const record = await this.findKey(id);
+    if (!this.isActive(record)) {
+      throw new ValidationError('Only active keys can be rotated');
+    }
+
+    const created = await this.issueKey(record);
+
+    const overlapEnd = new Date(Date.now() + overlap);
+    record.expiresAt =
+      record.expiresAt && record.expiresAt < overlapEnd ? record.expiresAt : overlapEnd;
+    record.rotatedToId = created.apiKey.id;
+    await this.store.save(record);
+
+    await this.logKeyEvent(
+      AuditEventType.API_KEY_CREATED,
+      'rotate api key',
+      created.apiKey,
+      actor,
+      { rotatedFromId: record.id, previousExpiresAt: record.expiresAt }
+    );
+    return { ...created, previous: toApiKeyInfo(record) };
+  }
+
+  /**
+   * Check a key and count it against its rate limit. Throws an
+   * AuthenticationError for unknown, revoked and expired keys and a
+   * RateLimitError when the key is over its limit.
+   */
+  async verifyKey(key: string, ip?: string): Promise<ApiKeyInfo> {
+    const record = await this.store.findByHash(hashSHA256(key));
+    if (!record || !this.isActive(record)) {
+      throw new AuthenticationError('Invalid API key');
+    }
+
+    this.consumeRateLimit(record);
+
+    const now = new Date();
+    if (!record.lastUsedAt || now.getTime() - record.lastUsedAt.getTime() >= TOUCH_INTERVAL) {
+      await this.store.touch(record.id, now, ip);
+      record.lastUsedAt = now;
+      record.lastUsedIp = ip;
+    }
+    return toApiKeyInfo(record);
+  }
+
+  /**
+   * Middleware that requires a valid key with every one of `scopes`. Sets
+   * `req.apiKey` to the key's ApiKeyInfo.
+   */
+  authenticate(scopes: string[] = []): RequestHandler {
+    return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      const key = req.get(this.header);
+      if (!key) {
+        res.status(401).json({ error: 'API key is required' });
+        return;
+      }
+
+      let apiKey: ApiKeyInfo;
+      try {
+        apiKey = await this.verifyKey(key, req.ip);
+      } catch (error) {
+        if (error instanceof AuthenticationError) {
+          await this.logInvalidKey(req, key);
+        }
+        sendError(res, error, 'API key validation failed');
+        return;
+      }
+
+      const missing = scopes.filter((scope) => !hasScope(apiKey.scopes, scope));
+      if (missing.length > 0) {
+        sendError(
+          res,
+          new AuthorizationError(`API key lacks scope ${missing.join(', ')}`),
+          'API key validation failed'
+        );
+        return;
+      }
+
+      Object.assign(req, { apiKey });
+      next();
+    };
+  }
+
+  /**
+   * Admin routes to create, list, rotate and revoke keys, for
+   * server.registerService(). Callers need the 'api-keys:manage' permission
+   * of `auth`'s policies; the default policies grant it to admins.
+   */
+  getServiceConfig(auth: AuthService, name = 'api-keys'): ServiceConfig {
+    const middleware = [auth.authenticateToken.bind(auth), auth.authorize('api-keys:manage')];
+
+    return {
+      name,
+      routes: [
+        { name: 'create', path: '/', method: 'POST', middleware, handler: this.create.bind(this) },
+        { name: 'list', path: '/', method: 'GET', middleware, handler: this.list.bind(this) },
+        {
+          name: 'rotate',
+          path: '/:id/rotate',
+          method: 'POST',
+          middleware,
+          handler: this.rotate.bind(this),
+        },
+        {
+          name: 'revoke',
+          path: '/:id',
+          method: 'DELETE',
+          middleware,
+          handler: this.revoke.bind(this),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Responds 201 `{ key, apiKey }`. Body: `{ name, scopes?, ownerId?,
+   * expiresAt?, rateLimit? }`
+   */
+  async create(req: Request, res: Response): Promise<void> {
+    try {
+      const input = parseCreateInput(req.body || {});
+      res.status(201).json(await this.createKey(input, getActor(req)));
+    } catch (error) {
+      sendError(res, error, 'Failed to create API key');
+    }
+  }
+
+  /**
+   * Responds `{ apiKeys }`, optionally filtered by `?ownerId=`
+   */
+  async list(req: Request, res: Response): Promise<void> {
+    try {
+      const { ownerId } = req.query;
+      res.json({
+        apiKeys: await this.listKeys(typeof ownerId === 'string' ? ownerId : undefined),
+      });
+    } catch (error) {
+      sendError(res, error, 'Failed to list API keys');
+    }
+  }
+
+  /**
+   * Responds 201 `{ key, apiKey, previous }`. Body: `{ overlap? }` in ms
+   */
+  async rotate(req: Request, res: Response): Promise<void> {
+    const { overlap } = req.body || {};
+
+    try {
+      if (overlap !== undefined && !isNonNegativeInteger(overlap)) {
+        throw new ValidationError('Overlap must be a number of milliseconds');
+      }
+      res
+        .status(201)
+        .json(
+          await this.rotateKey(
+            req.params.id,
+            overlap === undefined ? {} : { overlap },
+            getActor(req)
+          )
+        );
+    } catch (error) {
+      sendError(res, error, 'Failed to rotate API key');
+    }
+  }
+
+  /**
+   * Responds `{ apiKey }`
+   */
+  async revoke(req: Request, res: Response): Promise<void> {
+    try {
+      res.json({ apiKey: await this.revokeKey(req.params.id, getActor(req)) });
+    } catch (error) {
+      sendError(res, error, 'Failed to revoke API key');
+    }
+  }
+
+  private async issueKey(input: CreateApiKeyInput): Promise<CreatedApiKey> {
+    const key = `${this.prefix}_${generateSecureToken(32)}`;
+    const record: ApiKeyRecord = {
+      id: generateUUID(),
+      name: input.name,
+      prefix: key.slice(0, this.prefix.length + 7),
+      keyHash: hashSHA256(key),
+      scopes: input.scopes || [],
+      ownerId: input.ownerId,
+      rateLimit: input.rateLimit || this.options.defaultRateLimit,
+      createdAt: new Date(),
+      expiresAt: input.expiresAt,
+    };
+    await this.store.save(record);
+
+    return { key, apiKey: toApiKeyInfo(record) };
+  }
+
+  private async findKey(id: string): Promise<ApiKeyRecord> {
+    const record = await this.store.findById(id);
+    if (!record) {
+      throw new NotFoundError('API key not found');
+    }
+    return record;
+  }
+
+  private isActive(record: ApiKeyRecord): boolean {
+    return !record.revokedAt && (!record.expiresAt || record.expiresAt.getTime() > Date.now());
+  }
+
+  // Fixed window per key
+  private consumeRateLimit(record: ApiKeyRecord): void {
+    if (!record.rateLimit) {
+      return;
+    }
+
+    const { max, windowMs } = record.rateLimit;
+    const now = Date.now();
+    let window = this.windows.get(record.id);
+    if (!window || now - window.startedAt >= windowMs) {
+      window = { startedAt: now, count: 0 };
+      this.windows.set(record.id, window);
+    }
+
+    if (window.count >= max) {
+      const retryAfter = Math.ceil((window.startedAt + windowMs - now) / 1000);
+      throw new RateLimitError('API key rate limit exceeded', Math.max(1, retryAfter));
+    }
+    window.count += 1;
+  }
+
+  private async logKeyEvent(
+    type: AuditEventType,
+    action: string,
+    apiKey: ApiKeyInfo,
+    actor?: AuthUser,
+    metadata?: Record<string, unknown>
+  ) {
+    await getAuditLogger().log({
+      type,
+      actor: toAuditActor(actor),
+      resource: { type: 'api-key', id: apiKey.id, name: apiKey.name },
+      action,
+      result: 'success',
+      metadata: { prefix: apiKey.prefix, scopes: apiKey.scopes, ...metadata },
+    });
+  }
+
+  private async logInvalidKey(req: Request, key: string) {
+    await getAuditLogger().log({
+      type: AuditEventType.API_KEY_INVALID,
+      severity: AuditSeverity.WARNING,
+      actor: { type: 'anonymous', identifier: req.ip || 'unknown' },
+      action: 'authenticate api key',
+      result: 'failure',
+      // Enough to recognize the key without logging it
+      metadata: { prefix: key.slice(0, this.prefix.length + 7) },
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+    });
+  }
+}
+
+/**
+ * Whether `granted` scopes include `scope`, directly or through a
+ * 'resource:*' or '*' wildcard
+ */
+export const hasScope = (granted: string[], scope: string): boolean =>
+  granted.some(
+    (item) =>
+      item === '*' || item === scope || (item.endsWith(':*') && scope.startsWith(item.slice(0, -1)))
+  );
+
+// Responds `{ error }`, with Retry-After for rate limits
+const sendError = (res: Response, error: unknown, fallback: string): void => {
+  if (error instanceof RateLimitError && error.retryAfter) {
+    res.set('Retry-After', String(error.retryAfter));
+  }
+  if (error instanceof StellarError) {
+    res.status(error.statusCode).json({ error: error.message });
+    return;
+  }
+  res.status(500).json({ error: fallback });
+};
+
+const isNonNegativeInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+const parseCreateInput = (body: Record<string, unknown>): CreateApiKeyInput => {
+  const { name, scopes, ownerId, expiresAt, rateLimit } = body;
+
+  if (!name || typeof name !== 'string') {
+    throw new ValidationError('Name is required');
+  }
+  if (
+    scopes !== undefined &&
+    (!Array.isArray(scopes) || scopes.some((scope) => typeof scope !== 'string'))
+  ) {
+    throw new ValidationError('Scopes must be an array of strings');
+  }
+  if (ownerId !== undefined && typeof ownerId !== 'string') {
+    throw new ValidationError('Owner id must be a string');
+  }
+
+  const expiry = expiresAt === undefined ? undefined : new Date(String(expiresAt));
+  if (expiry && (isNaN(expiry.getTime()) || expiry.getTime() <= Date.now())) {
+    throw new ValidationError('Expiry must be a future date');
+  }
+
+  const limit = rateLimit as Partial<ApiKeyRateLimit> | undefined;
+  if (
+    limit !== undefined &&
+    (!limit || !isNonNegativeInteger(limit.max) || !isNonNegativeInteger(limit.windowMs))
+  ) {
+    throw new ValidationError('Rate limit needs a max and a windowMs');
+  }
+
+  return {
+    name,
+    scopes: scopes as string[] | undefined,
+    ownerId,
+    expiresAt: expiry,
+    rateLimit: limit as ApiKeyRateLimit | undefined,
+  };
+};
+
+// Set by authenticateToken on admin routes
+const getActor = (req: Request): AuthUser | undefined =>
+  (req as Request & { user?: AccessTokenClaims }).user;
+
+const toAuditActor = (user?: AuthUser): AuditActor =>
+  user
+    ? { id: user.id, type: 'user', identifier: user.email, roles: user.roles }
+    : { type: 'system', identifier: 'api-keys' };
+
+/**
+ * Create an API key service
+ */
+export const createApiKeyService = (options?: ApiKeyServiceOptions): ApiKeyService =>
+  new ApiKeyService(options);
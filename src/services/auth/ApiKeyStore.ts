@@ -0,0 +1,116 @@
+/**
+ * Requests one API key may make per window
+ */
+export interface ApiKeyRateLimit {
+  max: number;
+
+  /**
+   * Window length (ms)
+   */
+  windowMs: number;
+}
+
+/**
+ * Stored API key. Only the SHA-256 hash of the key is kept; `prefix` is
+ * the start of the key, shown to tell keys apart.
+ */
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  prefix: string;
+  keyHash: string;
+
+  /**
+   * Permissions of the key, e.g. 'orders:read'. 'orders:*' and '*' grant
+   * every matching scope.
+   */
+  scopes: string[];
+
+  /**
+   * User the key acts for, if any
+   */
+  ownerId?: string;
+  rateLimit?: ApiKeyRateLimit;
+  createdAt: Date;
+  expiresAt?: Date;
+  lastUsedAt?: Date;
+  lastUsedIp?: string;
+  revokedAt?: Date;
+
+  /**
+   * Key that replaced this one in a rotation
+   */
+  rotatedToId?: string;
+}
+
+/**
+ * API key as shown to administrators, without its hash
+ */
+export type ApiKeyInfo = Omit<ApiKeyRecord, 'keyHash'>;
+
+/**
+ * Persistence for API keys used by ApiKeyService
+ */
+export interface ApiKeyStore {
+  /**
+   * Insert or replace a key
+   */
+  save(record: ApiKeyRecord): Promise<void>;
+  findById(id: string): Promise<ApiKeyRecord | null>;
+  findByHash(keyHash: string): Promise<ApiKeyRecord | null>;
+
+  /**
+   * Every key, or the keys of one owner, revoked and expired ones included
+   */
+  list(ownerId?: string): Promise<ApiKeyRecord[]>;
+
+  /**
+   * Record a use of the key
+   */
+  touch(id: string, usedAt: Date, ip?: string): Promise<void>;
+}
+
+/**
+ * In-memory API key store (for development and tests)
+ */
+export class InMemoryApiKeyStore implements ApiKeyStore {
+  private records: Map<string, ApiKeyRecord> = new Map();
+
+  async save(record: ApiKeyRecord): Promise<void> {
+    this.records.set(record.id, { ...record });
+  }
+
+  async findById(id: string): Promise<ApiKeyRecord | null> {
+    const record = this.records.get(id);
+    return record ? { ...record } : null;
+  }
+
+  async findByHash(keyHash: string): Promise<ApiKeyRecord | null> {
+    const record = Array.from(this.records.values()).find((item) => item.keyHash === keyHash);
+    return record ? { ...record } : null;
+  }
+
+  async list(ownerId?: string): Promise<ApiKeyRecord[]> {
+    return Array.from(this.records.values())
+      .filter((record) => ownerId === undefined || record.ownerId === ownerId)
+      .map((record) => ({ ...record }));
+  }
+
+  async touch(id: string, usedAt: Date, ip?: string): Promise<void> {
+    const record = this.records.get(id);
+    if (record) {
+      record.lastUsedAt = usedAt;
+      record.lastUsedIp = ip;
+    }
+  }
+}
+
+/**
+ * API key without its hash
+ */
+export const toApiKeyInfo = ({ keyHash: _keyHash, ...info }: ApiKeyRecord): ApiKeyInfo => info;
+
+/**
+ * Create an in-memory API key store
+ */
+export const createInMemoryApiKeyStore = (): InMemoryApiKeyStore => new InMemoryApiKeyStore();
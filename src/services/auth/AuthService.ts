@@ -1,13 +1,581 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import bcrypt from 'bcryptjs';
-import { AuthConfig, AuthUser } from '../../types';
+import {
+  AccessTokenClaims,
+  AuthConfig,
+  AuthSession,
+  AuthTokens,
+  AuthUser,
+  MfaChallenge,
+  ServiceConfig,
+  SessionLogin,
+} from '../../types';
+import {
+  AuthenticationError,
+  AuthorizationError,
+  ConflictError,
+  NotFoundError,
+  RateLimitError,
+  ServiceUnavailableError,
+  StellarError,
+  ValidationError,
+} from '../../utils/errors';
+import {
+  checkPasswordStrength,
+  createRequestFingerprint,
+  generateCSRFToken,
+  generateSecureToken,
+  generateUUID,
+  hashSHA256,
+  verifyCSRFToken,
+} from '../../utils/security';
+import { isValidEmail } from '../../utils/validation';
+import { createLogger } from '../../utils/helpers';
+import { AuditEventType, AuditSeverity, getAuditLogger } from '../../server/audit';
+import {
+  InMemoryUserStore,
+  StoredUser,
+  UserIdentity,
+  UserMfa,
+  UserStore,
+  toPublicUser,
+} from './UserStore';
+import {
+  InMemoryRefreshTokenStore,
+  RefreshTokenRecord,
+  RefreshTokenStore,
+  SessionDevice,
+} from './RefreshTokenStore';
+import { InMemoryTokenRevocationStore, TokenRevocationStore } from './TokenRevocationStore';
+import { AccountTokenPurpose, createAccountToken, verifyAccountToken } from './account-tokens';
+import { ConsoleMailer, Mailer } from '../mail/Mailer';
+import { generateRecoveryCodes, verifyMfaCode } from './mfa';
+import { InMemoryLoginAttemptStore, LoginAttemptStore } from './LoginAttemptStore';
+import { LoginClient, LoginProtection } from './LoginProtection';
+import { buildOtpAuthUri, generateTOTPSecret, verifyTOTP } from '../../utils/totp';
+import { PolicySet, PolicyUser, definePolicies } from '../../contracts/definePolicies';
+import { OidcClient, OidcIdTokenClaims } from './OidcClient';
+import { InMemoryOidcStateStore, OidcStateStore } from './OidcStateStore';
+import { KeyManager } from './KeyManager';
+import { InMemorySigningKeyStore, SigningKeyStore } from './SigningKeyStore';
+import { JsonWebKeySet } from '../../utils/jwt';
+import { InMemorySessionStore, SessionRecord, SessionStore } from './SessionStore';
+import { parseCookies, removeSetCookie, signCookie, unsignCookie } from '../../utils/cookies';
+import { CSRF_COOKIE_NAME, CSRF_HEADER_NAME, CSRF_SAFE_METHODS } from '../../utils/csrf';
+
+const logger = createLogger('AuthService');
+
+// Compared against when the email is unknown, so both failures take as long
+const DUMMY_PASSWORD_HASH = '$2a$10$9SxBtdZjS5Q5bmIr6UkFte8Gz2AVySFVu8LuHe7lFwq7INQ86nzbi';
+
+const DEFAULT_REFRESH_TOKEN_TTL = 7 * 24 * 60 * 60 * 1000;
+const DEFAULT_PASSWORD_RESET_TTL = 60 * 60 * 1000;
+const DEFAULT_EMAIL_VERIFICATION_TTL = 24 * 60 * 60 * 1000;
+const OIDC_LOGIN_TTL = 10 * 60 * 1000;
+const OIDC_BINDING_COOKIE = 'stellar.oidc';
+const SESSION_TOUCH_INTERVAL = 60 * 1000;
+
+// Used without policies: admins may do anything, other users nothing
+const DEFAULT_POLICIES = definePolicies({ roles: { admin: { permissions: ['*'] } } });
+
+/**
+ * Stores and transports used by AuthService. Stores default to in-memory
+ * implementations and the mailer to a ConsoleMailer, except in production:
+ * there, without a mailer, password reset and email verification are
+ * turned off rather than logging their links.
+ */
+export interface AuthServiceOptions {
+  userStore?: UserStore;
+  refreshTokenStore?: RefreshTokenStore;
+  revocationStore?: TokenRevocationStore;
+  loginAttemptStore?: LoginAttemptStore;
+  mailer?: Mailer;
+
+  /**
+   * Permission policies checked by can() and authorize()
+   */
+  policies?: PolicySet;
+
+  /**
+   * External identity providers users can sign in with
+   */
+  oidcProviders?: OidcClient[];
+  oidcStateStore?: OidcStateStore;
+
+  /**
+   * Where the keys of `config.signingKeys` are kept
+   */
+  signingKeyStore?: SigningKeyStore;
+
+  /**
+   * Where cookie sessions are kept when `config.session` is set
+   */
+  sessionStore?: SessionStore;
+}
 
 export class AuthService {
-  constructor(private config: AuthConfig) {
+  private userStore: UserStore;
+  private refreshTokenStore: RefreshTokenStore;
+  private revocationStore: TokenRevocationStore;
+  private mailer: Mailer | null;
+  private loginProtection: LoginProtection | null;
+  private policies: PolicySet;
+  private oidcProviders: Map<string, OidcClient>;
+  private oidcStateStore: OidcStateStore;
+  private keyManager: KeyManager | null;
+  private sessionStore: SessionStore;
+
+  constructor(private config: AuthConfig, options: AuthServiceOptions = {}) {
     if (!config.jwtSecret) {
       throw new Error('JWT secret is required for AuthService');
     }
+
+    this.userStore = options.userStore || new InMemoryUserStore();
+    this.refreshTokenStore = options.refreshTokenStore || new InMemoryRefreshTokenStore();
+    this.revocationStore = options.revocationStore || new InMemoryTokenRevocationStore();
+    this.mailer =
+      options.mailer || (process.env.NODE_ENV === 'production' ? null : new ConsoleMailer());
+    if (!this.mailer) {
+      if (config.requireEmailVerification) {
+        throw new Error('A mailer is required for requireEmailVerification in production');
+      }
+      logger.warn('No mailer configured: password reset and email verification are disabled');
+    }
+    this.policies = options.policies || DEFAULT_POLICIES;
+    this.oidcProviders = new Map(
+      (options.oidcProviders || []).map((provider) => [provider.name, provider])
+    );
+    this.oidcStateStore = options.oidcStateStore || new InMemoryOidcStateStore();
+    this.sessionStore = options.sessionStore || new InMemorySessionStore();
+    this.keyManager = config.signingKeys
+      ? new KeyManager(
+          options.signingKeyStore || new InMemorySigningKeyStore(),
+          config.signingKeys,
+          this.accessTokenTtl() * 1000
+        )
+      : null;
+    this.loginProtection =
+      config.lockout === false
+        ? null
+        : new LoginProtection(
+            options.loginAttemptStore || new InMemoryLoginAttemptStore(),
+            this.userStore,
+            config.lockout
+          );
+  }
+
+  /**
+   * Public keys access tokens are verified with; empty unless
+   * `config.signingKeys` is set. Serve them with jwksPlugin.
+   */
+  async getJwks(): Promise<JsonWebKeySet> {
+    return this.keyManager ? this.keyManager.getJwks() : { keys: [] };
+  }
+
+  /**
+   * Signing keys of `config.signingKeys`, e.g. to rotate them on demand
+   */
+  getKeyManager(): KeyManager | null {
+    return this.keyManager;
+  }
+
+  /**
+   * Store the service reads and writes users with
+   */
+  getUserStore(): UserStore {
+    return this.userStore;
+  }
+
+  /**
+   * Routes for server.registerService(): login, registration, token refresh,
+   * logout, sessions, password reset and change, email verification, MFA and,
+   * with providers configured, OIDC login
+   */
+  getServiceConfig(name = 'auth'): ServiceConfig {
+    const authenticated = [this.authenticateToken.bind(this)];
+    const oidcRoutes: ServiceConfig['routes'] =
+      this.oidcProviders.size === 0
+        ? []
+        : [
+            {
+              name: 'oidcAuthorize',
+              path: '/oidc/:provider',
+              method: 'GET',
+              handler: this.oidcAuthorize.bind(this),
+            },
+            {
+              name: 'oidcCallback',
+              path: '/oidc/:provider/callback',
+              method: 'POST',
+              handler: this.oidcCallback.bind(this),
+            },
+          ];
+
+    return {
+      name,
+      routes: [
+        { path: '/login', method: 'POST', handler: this.login.bind(this) },
+        { path: '/register', method: 'POST', handler: this.register.bind(this) },
+        { path: '/refresh', method: 'POST', handler: this.refresh.bind(this) },
+        {
+          path: '/logout',
+          method: 'POST',
+          middleware: authenticated,
+          handler: this.logout.bind(this),
+        },
+        {
+          path: '/logout-all',
+          method: 'POST',
+          middleware: authenticated,
+          handler: this.logoutAll.bind(this),
+        },
+        {
+          path: '/sessions',
+          method: 'GET',
+          middleware: authenticated,
+          handler: this.listSessions.bind(this),
+        },
+        {
+          path: '/request-password-reset',
+          method: 'POST',
+          handler: this.requestPasswordReset.bind(this),
+        },
+        { path: '/reset-password', method: 'POST', handler: this.resetPassword.bind(this) },
+        {
+          path: '/change-password',
+          method: 'POST',
+          middleware: authenticated,
+          handler: this.changePassword.bind(this),
+        },
+        { path: '/verify-email', method: 'POST', handler: this.verifyEmail.bind(this) },
+        {
+          path: '/resend-verification',
+          method: 'POST',
+          middleware: authenticated,
+          handler: this.resendVerification.bind(this),
+        },
+        { path: '/mfa/verify', method: 'POST', handler: this.verifyMfa.bind(this) },
+        {
+          path: '/mfa/setup',
+          method: 'POST',
+          middleware: [this.authenticateMfaEnrollment.bind(this)],
+          handler: this.setupMfa.bind(this),
+        },
+        {
+          path: '/mfa/enable',
+          method: 'POST',
+          middleware: [this.authenticateMfaEnrollment.bind(this)],
+          handler: this.enableMfa.bind(this),
+        },
+        {
+          path: '/mfa/disable',
+          method: 'POST',
+          middleware: authenticated,
+          handler: this.disableMfa.bind(this),
+        },
+        {
+          path: '/mfa/recovery-codes',
+          method: 'POST',
+          middleware: authenticated,
+          handler: this.regenerateRecoveryCodes.bind(this),
+        },
+        {
+          name: 'unlockUser',
+          path: '/users/:id/unlock',
+          method: 'POST',
+          middleware: [...authenticated, this.requireRoles(['admin'])],
+          handler: this.unlockUser.bind(this),
+        },
+        ...oidcRoutes,
+      ],
+    };
+  }
+
+  /**
+   * Whether the user may perform `action`, on `resource` when given
+   */
+  public can(user: PolicyUser | null | undefined, action: string, resource?: unknown): boolean {
+    return this.policies.can(user, action, resource);
+  }
+
+  /**
+   * Throw an AuthorizationError, and log the denial, unless the user may
+   * perform `action`. Pass the request to record its client in the audit log.
+   */
+  public async assertCan(
+    user: AuthUser,
+    action: string,
+    resource?: unknown,
+    req?: Request
+  ): Promise<void> {
+    if (this.can(user, action, resource)) {
+      return;
+    }
+
+    await this.logAccessDenied(user, action, req, {
+      type: action.split(':')[0],
+      id: getResourceId(resource),
+    });
+    throw new AuthorizationError();
+  }
+
+  /**
+   * Check an email and password against the user store. Unknown emails and wrong
+   * passwords fail with the same AuthenticationError; inactive accounts fail with
+   * an AuthorizationError.
+   */
+  public async authenticate(email: string, password: string): Promise<StoredUser> {
+    const user = await this.userStore.findByEmail(email);
+    const valid = await bcrypt.compare(password, user?.passwordHash || DUMMY_PASSWORD_HASH);
+
+    if (!user || !valid) {
+      throw new AuthenticationError('Invalid email or password');
+    }
+
+    this.assertActive(user);
+    this.assertVerified(user);
+    return user;
+  }
+
+  /**
+   * Reject passwords below `minPasswordScore` with a ValidationError listing
+   * checkPasswordStrength's suggestions
+   */
+  public assertPasswordStrength(password: string): void {
+    const { score, suggestions } = checkPasswordStrength(password);
+    if (score < (this.config.minPasswordScore ?? 2)) {
+      throw new ValidationError('Password is too weak', suggestions);
+    }
+  }
+
+  /**
+   * Email a password reset link. Unknown and disabled accounts are skipped
+   * silently so the response does not reveal which emails are registered.
+   */
+  public async sendPasswordReset(email: string): Promise<void> {
+    const mailer = this.requireMailer();
+    const user = await this.userStore.findByEmail(email);
+    if (!user || user.status === 'disabled') {
+      return;
+    }
+
+    const link = this.accountLink('password-reset', user);
+    await mailer.send({
+      to: user.email,
+      subject: 'Reset your password',
+      text: `Open this link to choose a new password:\n\n${link}\n\nIf you did not ask for this, ignore this email.`,
+    });
+  }
+
+  /**
+   * Set a new password with a reset token. All sessions of the user are
+   * revoked, since whoever held them may not know the new password.
+   */
+  public async resetPasswordWithToken(token: string, password: string): Promise<StoredUser> {
+    const user = await this.verifyAccountToken('password-reset', token);
+    this.assertPasswordStrength(password);
+
+    const updated = await this.setPassword(user, password);
+    await this.revokeAllSessions(user.id);
+
+    // Receiving the email proves ownership, so it also lifts a lockout
+    if (updated.status === 'locked') {
+      return this.unlockAccount(user.id);
+    }
+    await this.loginProtection?.unlock(user.email);
+    return updated;
+  }
+
+  /**
+   * Lift a lockout: clears failed login counts and reactivates an account
+   * locked with the 'manual' unlock policy
+   */
+  public async unlockAccount(userId: string): Promise<StoredUser> {
+    const user = await this.userStore.findById(userId);
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    await this.loginProtection?.unlock(user.email);
+    if (user.status !== 'locked') {
+      return user;
+    }
+    return (await this.userStore.update(user.id, { status: 'active' })) || user;
+  }
+
+  /**
+   * Email a link that confirms the user's address
+   */
+  public async sendEmailVerification(user: StoredUser): Promise<void> {
+    const mailer = this.requireMailer();
+    const link = this.accountLink('email-verification', user);
+    await mailer.send({
+      to: user.email,
+      subject: 'Confirm your email address',
+      text: `Open this link to confirm your email address:\n\n${link}`,
+    });
+  }
+
+  /**
+   * Start an OIDC login: returns the URL to send the user to. The state,
+   * nonce and PKCE verifier are kept until the callback, with a hash of
+   * `binding`: a secret only the browser starting the login holds, e.g. in
+   * a cookie.
+   */
+  public async startOidcLogin(providerName: string, binding: string): Promise<string> {
+    const provider = this.getOidcProvider(providerName);
+    const { url, state, nonce, codeVerifier } = await provider.createAuthorizationRequest();
+
+    await this.oidcStateStore.save(state, {
+      provider: provider.name,
+      nonce,
+      codeVerifier,
+      bindingHash: hashSHA256(binding),
+      expiresAt: new Date(Date.now() + OIDC_LOGIN_TTL),
+    });
+    return url;
+  }
+
+  /**
+   * Finish an OIDC login with the `code` and `state` the provider redirected
+   * back with, and the `binding` the login was started with. Returns the
+   * local user the identity is linked to, linking or creating one on the
+   * first login.
+   */
+  public async completeOidcLogin(
+    providerName: string,
+    code: string,
+    state: string,
+    binding: string
+  ): Promise<StoredUser> {
+    const provider = this.getOidcProvider(providerName);
+    const login = await this.oidcStateStore.take(state);
+
+    // A state started in another browser would sign this one in to the
+    // account of whoever started it
+    if (!login || login.provider !== provider.name || login.bindingHash !== hashSHA256(binding)) {
+      throw new AuthenticationError('Invalid or expired login state');
+    }
+
+    const { idToken } = await provider.exchangeCode(code, login.codeVerifier);
+    const claims = await provider.verifyIdToken(idToken, login.nonce);
+    const user = await this.linkIdentity(provider.name, claims);
+
+    this.assertActive(user);
+    this.assertVerified(user);
+    return user;
+  }
+
+  /**
+   * Start a session: issue an access token and a refresh token
+   */
+  public async issueTokens(user: StoredUser, device?: SessionDevice): Promise<AuthTokens> {
+    const refreshToken = generateSecureToken(48);
+    const familyId = generateUUID();
+
+    await this.saveRefreshToken(hashSHA256(refreshToken), {
+      userId: user.id,
+      familyId,
+      sessionStartedAt: new Date(),
+      device,
+    });
+
+    return this.withAccessToken(user, refreshToken, familyId);
+  }
+
+  /**
+   * Revoke one access token and the session it belongs to
+   */
+  public async revokeSession(claims: AccessTokenClaims): Promise<void> {
+    await this.revocationStore.revoke(claims.jti, new Date(claims.exp * 1000));
+    await this.refreshTokenStore.revokeFamily(claims.sid);
+  }
+
+  /**
+   * Revoke every session of a user and every access token issued so far
+   */
+  public async revokeAllSessions(userId: string): Promise<void> {
+    const now = Date.now();
+    await this.refreshTokenStore.revokeUser(userId);
+    await this.sessionStore.deleteByUser(userId);
+    // `iat` has whole seconds: tokens issued later in this second stay valid
+    await this.revocationStore.revokeUser(
+      userId,
+      new Date(Math.floor(now / 1000) * 1000),
+      new Date(now + this.accessTokenTtl() * 1000)
+    );
+  }
+
+  /**
+   * Active sessions of a user, most recently used first
+   */
+  public async getSessions(userId: string, currentSessionId?: string): Promise<AuthSession[]> {
+    const records = await this.refreshTokenStore.findByUser(userId);
+    const cookieSessions = await this.sessionStore.findByUser(userId);
+
+    return [
+      ...records.map((record) => ({
+        id: record.familyId,
+        createdAt: record.sessionStartedAt,
+        lastUsedAt: record.createdAt,
+        expiresAt: record.expiresAt,
+        ...record.device,
+        current: record.familyId === currentSessionId,
+      })),
+      ...cookieSessions.map((session) => ({
+        id: session.id,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+        expiresAt: session.expiresAt,
+        ...session.device,
+        current: session.id === currentSessionId,
+      })),
+    ].sort((a, b) => b.lastUsedAt.getTime() - a.lastUsedAt.getTime());
+  }
+
+  /**
+   * Exchange a refresh token for new tokens. Each refresh token works once:
+   * presenting one that was already rotated revokes its whole family, since
+   * either the client or an attacker holds a stolen copy.
+   */
+  public async rotateRefreshToken(refreshToken: string): Promise<AuthTokens> {
+    const tokenHash = hashSHA256(refreshToken);
+    const record = await this.refreshTokenStore.find(tokenHash);
+
+    if (!record) {
+      throw new AuthenticationError('Invalid refresh token');
+    }
+
+    const nextToken = generateSecureToken(48);
+    const nextHash = hashSHA256(nextToken);
+
+    if (record.revokedAt || !(await this.refreshTokenStore.revoke(tokenHash, nextHash))) {
+      await this.refreshTokenStore.revokeFamily(record.familyId);
+      await getAuditLogger().log({
+        type: AuditEventType.SUSPICIOUS_ACTIVITY,
+        severity: AuditSeverity.CRITICAL,
+        actor: { id: record.userId, type: 'user', identifier: record.userId },
+        action: 'refresh token reuse',
+        result: 'failure',
+        metadata: { familyId: record.familyId },
+      });
+      throw new AuthenticationError('Refresh token has been revoked');
+    }
+
+    if (record.expiresAt.getTime() <= Date.now()) {
+      throw new AuthenticationError('Refresh token has expired');
+    }
+
+    const user = await this.userStore.findById(record.userId);
+    if (!user) {
+      throw new AuthenticationError('Invalid refresh token');
+    }
+    this.assertActive(user);
+    this.assertVerified(user);
+
+    await this.saveRefreshToken(nextHash, record);
+    return this.withAccessToken(user, nextToken, record.familyId);
   }
 
   public async login(req: Request, res: Response): Promise<void> {
@@ -19,89 +587,1125 @@ export class AuthService {
         return;
       }
 
-      // Note: In a real implementation, you would:
-      // 1. Fetch user from database
-      // 2. Verify password with bcrypt.compare
-      // This is a simplified example
+      const client = getClient(req);
+      await this.assertLoginAllowed(email, client);
+      const user = await this.authenticate(email, password).catch((error) =>
+        this.countFailedLogin(email, client, error)
+      );
 
-      const token = this.generateToken({ id: '1', email });
+      // Earlier failures stay counted until the second factor is verified too
+      const challenge = this.createMfaChallenge(user);
+      if (challenge) {
+        await this.loginProtection?.releaseAttempt(email, client);
+        res.json(challenge);
+        return;
+      }
+
+      await this.loginProtection?.recordSuccess(email, client);
+      const tokens = await this.signIn(user, req, res);
 
       res.json({
-        token,
-        user: { email },
+        ...tokens,
+        user: toPublicUser(user),
       });
     } catch (error) {
-      res.status(500).json({ error: 'Authentication failed' });
+      sendError(res, error, 'Authentication failed');
     }
   }
 
   public async register(req: Request, res: Response): Promise<void> {
     try {
-      const { email, password } = req.body;
+      const { email, password, name } = req.body;
 
       if (!email || !password) {
         res.status(400).json({ error: 'Email and password are required' });
         return;
       }
 
-      // Hash password
-      const hashedPassword = await bcrypt.hash(password, 10);
+      if (!isValidEmail(email)) {
+        res.status(400).json({ error: 'Invalid email address' });
+        return;
+      }
 
-      // Note: In a real implementation, you would:
-      // 1. Check if user exists
-      // 2. Save user to database
-      // This is a simplified example
+      if (await this.userStore.findByEmail(email)) {
+        res.status(409).json({ error: 'Email is already registered' });
+        return;
+      }
 
-      const token = this.generateToken({ id: '1', email });
+      this.assertPasswordStrength(password);
+
+      const user = await this.userStore.create({
+        email,
+        name,
+        passwordHash: await bcrypt.hash(password, this.config.bcryptRounds || 10),
+        roles: this.config.defaultRoles || ['user'],
+      });
+      if (this.mailer) {
+        await this.sendEmailVerification(user).catch((error) =>
+          logger.error('Failed to send verification email', error)
+        );
+      }
+
+      // Sessions start once the email address is verified
+      if (this.config.requireEmailVerification) {
+        res.status(201).json({
+          message: 'User registered. Verify your email address to sign in',
+          user: toPublicUser(user),
+        });
+        return;
+      }
+
+      // Default roles that require MFA: enroll before the first session
+      const challenge = this.createMfaChallenge(user);
+      const tokens = challenge || (await this.signIn(user, req, res));
 
       res.status(201).json({
         message: 'User registered successfully',
-        token,
-        user: { email },
+        ...tokens,
+        user: toPublicUser(user),
       });
     } catch (error) {
-      res.status(500).json({ error: 'Registration failed' });
+      // The store also rejects duplicates that slip past the check above
+      sendError(res, error, 'Registration failed');
     }
   }
 
-  public authenticateToken(req: Request, res: Response, next: NextFunction): void {
+  public async refresh(req: Request, res: Response): Promise<void> {
+    const { refreshToken } = req.body || {};
+
+    if (!refreshToken || typeof refreshToken !== 'string') {
+      res.status(400).json({ error: 'Refresh token is required' });
+      return;
+    }
+
+    try {
+      const tokens = await this.rotateRefreshToken(refreshToken);
+      const user = jwt.decode(tokens.token) as AuthUser;
+
+      await getAuditLogger().log({
+        type: AuditEventType.TOKEN_REFRESH,
+        actor: { id: user.id, type: 'user', identifier: user.email, roles: user.roles },
+        action: 'refresh token',
+        result: 'success',
+        ip: req.ip,
+        userAgent: req.headers['user-agent'],
+      });
+
+      res.json(tokens);
+    } catch (error) {
+      if (error instanceof StellarError) {
+        await getAuditLogger().log({
+          type: AuditEventType.TOKEN_REFRESH,
+          severity: AuditSeverity.WARNING,
+          action: 'refresh token',
+          result: 'failure',
+          metadata: { reason: error.message },
+          ip: req.ip,
+          userAgent: req.headers['user-agent'],
+        });
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: 'Token refresh failed' });
+    }
+  }
+
+  public async logout(req: Request, res: Response): Promise<void> {
+    const claims = getClaims(req);
+
+    try {
+      const session = getCookieSession(req);
+      if (session) {
+        await this.sessionStore.delete(session.tokenHash);
+        this.clearSessionCookies(res);
+      } else {
+        await this.revokeSession(claims);
+      }
+      await this.logLogout(req, claims, false);
+      res.json({ message: 'Logged out successfully' });
+    } catch (error) {
+      res.status(500).json({ error: 'Logout failed' });
+    }
+  }
+
+  /**
+   * Sign out of every session, on every device
+   */
+  public async logoutAll(req: Request, res: Response): Promise<void> {
+    const claims = getClaims(req);
+
+    try {
+      await this.revokeAllSessions(claims.id);
+      // Issued in the same second, so not covered by revokeAllSessions
+      await this.revocationStore.revoke(claims.jti, new Date(claims.exp * 1000));
+      if (getCookieSession(req)) {
+        this.clearSessionCookies(res);
+      }
+      await this.logLogout(req, claims, true);
+      res.json({ message: 'Logged out of all sessions' });
+    } catch (error) {
+      res.status(500).json({ error: 'Logout failed' });
+    }
+  }
+
+  public async listSessions(req: Request, res: Response): Promise<void> {
+    const claims = getClaims(req);
+
+    try {
+      res.json({ sessions: await this.getSessions(claims.id, claims.sid) });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to list sessions' });
+    }
+  }
+
+  public async requestPasswordReset(req: Request, res: Response): Promise<void> {
+    const { email } = req.body || {};
+
+    if (!email || typeof email !== 'string') {
+      res.status(400).json({ error: 'Email is required' });
+      return;
+    }
+
+    try {
+      await this.sendPasswordReset(email);
+      await getAuditLogger().log({
+        type: AuditEventType.PASSWORD_RESET,
+        actor: { type: 'anonymous', identifier: email },
+        action: 'request password reset',
+        result: 'success',
+        ip: req.ip,
+        userAgent: req.headers['user-agent'],
+      });
+      res.json({ message: 'If the email is registered, a reset link has been sent' });
+    } catch (error) {
+      sendError(res, error, 'Password reset failed');
+    }
+  }
+
+  public async resetPassword(req: Request, res: Response): Promise<void> {
+    const { token, password } = req.body || {};
+
+    if (!token || !password) {
+      res.status(400).json({ error: 'Token and password are required' });
+      return;
+    }
+
+    try {
+      const user = await this.resetPasswordWithToken(token, password);
+      await this.logPasswordEvent(req, AuditEventType.PASSWORD_RESET, user, 'reset password');
+      res.json({ message: 'Password has been reset' });
+    } catch (error) {
+      sendError(res, error, 'Password reset failed');
+    }
+  }
+
+  /**
+   * Change the password of the signed-in user. Every session is revoked; the
+   * response carries tokens for a new one so the caller stays signed in.
+   */
+  public async changePassword(req: Request, res: Response): Promise<void> {
+    const { currentPassword, newPassword } = req.body || {};
+
+    if (!currentPassword || !newPassword) {
+      res.status(400).json({ error: 'Current and new password are required' });
+      return;
+    }
+
+    try {
+      const claims = getClaims(req);
+      const user = await this.userStore.findById(claims.id);
+      if (!user || !(await bcrypt.compare(currentPassword, user.passwordHash))) {
+        throw new AuthenticationError('Current password is incorrect');
+      }
+      this.assertPasswordStrength(newPassword);
+
+      const updated = await this.setPassword(user, newPassword);
+      await this.revokeAllSessions(user.id);
+      await this.revocationStore.revoke(claims.jti, new Date(claims.exp * 1000));
+      const tokens = await this.issueTokens(updated, getDevice(req));
+
+      await this.logPasswordEvent(req, AuditEventType.PASSWORD_CHANGE, user, 'change password');
+      res.json({ message: 'Password has been changed', ...tokens });
+    } catch (error) {
+      sendError(res, error, 'Password change failed');
+    }
+  }
+
+  public async verifyEmail(req: Request, res: Response): Promise<void> {
+    const { token } = req.body || {};
+
+    if (!token) {
+      res.status(400).json({ error: 'Token is required' });
+      return;
+    }
+
+    try {
+      const user = await this.verifyAccountToken('email-verification', token);
+      const updated = await this.userStore.update(user.id, { emailVerified: true });
+      res.json({ message: 'Email address verified', user: updated && toPublicUser(updated) });
+    } catch (error) {
+      sendError(res, error, 'Email verification failed');
+    }
+  }
+
+  public async resendVerification(req: Request, res: Response): Promise<void> {
+    try {
+      const user = await this.userStore.findById(getClaims(req).id);
+      if (!user) {
+        throw new AuthenticationError('User no longer exists');
+      }
+      if (user.emailVerified) {
+        res.status(409).json({ error: 'Email address is already verified' });
+        return;
+      }
+
+      await this.sendEmailVerification(user);
+      res.json({ message: 'Verification email sent' });
+    } catch (error) {
+      sendError(res, error, 'Failed to send verification email');
+    }
+  }
+
+  /**
+   * Verify the bearer token and reject revoked tokens. Sets `req.user` to the
+   * token's AccessTokenClaims. Without a bearer token, the session cookie is
+   * used when `config.session` is set.
+   */
+  public async authenticateToken(req: Request, res: Response, next: NextFunction): Promise<void> {
     const authHeader = req.headers['authorization'];
     const token = authHeader && authHeader.split(' ')[1];
 
+    if (!token && this.config.session) {
+      return this.authenticateSession(req, res, next);
+    }
+
     if (!token) {
       res.status(401).json({ error: 'Authentication token required' });
       return;
     }
 
+    let claims: AccessTokenClaims;
     try {
-      const user = jwt.verify(token, this.config.jwtSecret) as AuthUser;
-      (req as any).user = user;
-      next();
+      claims = await this.verifyAccessToken(token);
     } catch (error) {
       res.status(403).json({ error: 'Invalid token' });
+      return;
     }
+
+    try {
+      const revoked = await this.revocationStore.isRevoked({
+        jti: claims.jti,
+        userId: claims.id,
+        issuedAt: new Date(claims.iat * 1000),
+      });
+      if (revoked) {
+        res.status(401).json({ error: 'Token has been revoked' });
+        return;
+      }
+    } catch (error) {
+      next(error);
+      return;
+    }
+
+    Object.assign(req, { user: claims });
+    next();
   }
 
-  private generateToken(user: Partial<AuthUser>): string {
-    return jwt.sign(user, this.config.jwtSecret, {
-      expiresIn: this.config.tokenExpiration || '24h',
-    });
+  /**
+   * Middleware that only lets the request through when `req.user` may perform
+   * `action`. With `loadResource`, the resource is loaded first (404 when it
+   * does not exist), checked against conditional permissions and set as
+   * `req.resource` for the handler. Use after authenticateToken.
+   */
+  public authorize<TResource>(
+    action: string,
+    loadResource?: (
+      req: Request
+    ) => Promise<TResource | null | undefined> | TResource | null | undefined
+  ) {
+    return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      const user = getRequestUser(req);
+      if (!user) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      try {
+        let resource: TResource | undefined;
+        if (loadResource) {
+          resource = (await loadResource(req)) ?? undefined;
+          if (resource === undefined) {
+            throw new NotFoundError();
+          }
+          Object.assign(req, { resource });
+        }
+
+        await this.assertCan(user, action, resource, req);
+        next();
+      } catch (error) {
+        if (error instanceof StellarError) {
+          sendError(res, error, 'Authorization failed');
+          return;
+        }
+        next(error);
+      }
+    };
   }
 
-  // Middleware factory for role-based authorization
-  public requireRoles(roles: string[]) {
-    return (req: Request, res: Response, next: NextFunction) => {
-      const user = (req as any).user as AuthUser;
+  /**
+   * Admin route: unlock the account `req.params.id`
+   */
+  public async unlockUser(req: Request, res: Response): Promise<void> {
+    try {
+      const admin = getClaims(req);
+      const user = await this.unlockAccount(req.params.id);
+
+      await getAuditLogger().log({
+        type: AuditEventType.USER_UPDATED,
+        actor: { id: admin.id, type: 'user', identifier: admin.email, roles: admin.roles },
+        resource: { type: 'user', id: user.id, name: user.email },
+        action: 'unlock account',
+        result: 'success',
+        ip: req.ip,
+        userAgent: req.headers['user-agent'],
+      });
+      res.json({ user: toPublicUser(user) });
+    } catch (error) {
+      sendError(res, error, 'Unlocking the account failed');
+    }
+  }
+
+  /**
+   * Answers `{ authorizationUrl }` for the provider `req.params.provider`.
+   * Sets a signed cookie that binds the login to this browser.
+   */
+  public async oidcAuthorize(req: Request, res: Response): Promise<void> {
+    try {
+      // Logins started in several tabs share the browser's binding
+      const binding = this.readOidcBinding(req) || generateSecureToken(32);
+      const url = await this.startOidcLogin(req.params.provider, binding);
+
+      const { secret, cookie } = this.sessionSettings();
+      res.cookie(OIDC_BINDING_COOKIE, signCookie(binding, secret), {
+        ...cookie,
+        httpOnly: true,
+        maxAge: OIDC_LOGIN_TTL,
+      });
+      res.json({ authorizationUrl: url });
+    } catch (error) {
+      sendError(res, error, 'Could not start the login');
+    }
+  }
+
+  /**
+   * Exchange the `code` and `state` from the provider's redirect for tokens,
+   * or an MFA challenge like login
+   */
+  public async oidcCallback(req: Request, res: Response): Promise<void> {
+    const { code, state } = req.body || {};
+
+    if (!code || !state) {
+      res.status(400).json({ error: 'Code and state are required' });
+      return;
+    }
 
-      if (!user.roles) {
-        res.status(403).json({ error: 'User has no roles assigned' });
+    try {
+      const binding = this.readOidcBinding(req);
+      if (!binding) {
+        throw new AuthenticationError('Invalid or expired login state');
+      }
+      const user = await this.completeOidcLogin(req.params.provider, code, state, binding);
+
+      const challenge = this.createMfaChallenge(user);
+      if (challenge) {
+        res.json(challenge);
+        return;
+      }
+
+      const tokens = await this.signIn(user, req, res);
+      res.json({ ...tokens, user: toPublicUser(user) });
+    } catch (error) {
+      sendError(res, error, 'Authentication failed');
+    }
+  }
+
+  /**
+   * Complete a login that returned `mfaRequired` with a TOTP code or a
+   * recovery code
+   */
+  public async verifyMfa(req: Request, res: Response): Promise<void> {
+    const { mfaToken, code, recoveryCode } = req.body || {};
+
+    if (!mfaToken || typeof mfaToken !== 'string' || !hasMfaCode(code, recoveryCode)) {
+      res.status(400).json({ error: 'MFA token and a code are required' });
+      return;
+    }
+
+    try {
+      const user = await this.readMfaChallenge(mfaToken, 'mfa');
+      const client = getClient(req);
+      await this.assertLoginAllowed(user.email, client);
+      await this.checkSecondFactor(user, { code, recoveryCode }).catch((error) =>
+        this.countFailedLogin(user.email, client, error)
+      );
+
+      await this.loginProtection?.recordSuccess(user.email, client);
+      const tokens = await this.signIn(user, req, res);
+
+      res.json({ ...tokens, user: toPublicUser(user) });
+    } catch (error) {
+      sendError(res, error, 'MFA verification failed');
+    }
+  }
+
+  /**
+   * Start TOTP enrollment: responds with the secret and an otpauth:// URI to
+   * show as a QR code. Enrollment completes with /mfa/enable.
+   */
+  public async setupMfa(req: Request, res: Response): Promise<void> {
+    try {
+      const user = await this.findCurrentUser(req);
+      if (user.mfa?.enabled) {
+        res.status(409).json({ error: 'MFA is already enabled' });
+        return;
+      }
+
+      const secret = generateTOTPSecret();
+      await this.userStore.update(user.id, { mfa: { enabled: false, secret, recoveryCodes: [] } });
+
+      res.json({
+        secret,
+        otpauthUri: buildOtpAuthUri({
+          secret,
+          accountName: user.email,
+          issuer: this.config.mfaIssuer || 'StellarJS',
+        }),
+      });
+    } catch (error) {
+      sendError(res, error, 'MFA setup failed');
+    }
+  }
+
+  /**
+   * Confirm enrollment with a first code. Responds with the recovery codes,
+   * which are shown only this once, and with tokens when enrolling from a
+   * `mfaSetupRequired` login.
+   */
+  public async enableMfa(req: Request, res: Response): Promise<void> {
+    const { code } = req.body || {};
+
+    if (!code || typeof code !== 'string') {
+      res.status(400).json({ error: 'Code is required' });
+      return;
+    }
+
+    try {
+      const user = await this.findCurrentUser(req);
+      if (!user.mfa?.secret || user.mfa.enabled) {
+        res.status(409).json({ error: 'Call /mfa/setup first' });
         return;
       }
 
-      const hasRequiredRole = roles.some((role) => user.roles?.includes(role));
+      const step = verifyTOTP(code, user.mfa.secret);
+      if (step === null) {
+        throw new AuthenticationError('Invalid verification code');
+      }
+
+      const { codes, hashes } = generateRecoveryCodes();
+      const updated = await this.userStore.update(user.id, {
+        mfa: {
+          enabled: true,
+          secret: user.mfa.secret,
+          recoveryCodes: hashes,
+          lastUsedStep: step,
+          enabledAt: new Date(),
+        },
+      });
+      await this.logMfaEvent(req, user, 'enable mfa');
+
+      const tokens = isMfaEnrollment(req)
+        ? await this.issueTokens(updated || user, getDevice(req))
+        : undefined;
+      res.json({ recoveryCodes: codes, ...tokens });
+    } catch (error) {
+      sendError(res, error, 'Enabling MFA failed');
+    }
+  }
+
+  public async disableMfa(req: Request, res: Response): Promise<void> {
+    const { code, recoveryCode } = req.body || {};
+
+    if (!hasMfaCode(code, recoveryCode)) {
+      res.status(400).json({ error: 'A code is required' });
+      return;
+    }
+
+    try {
+      const user = await this.findCurrentUser(req);
+      if (!user.mfa?.enabled) {
+        res.status(409).json({ error: 'MFA is not enabled' });
+        return;
+      }
+      if (this.requiresMfa(user)) {
+        throw new AuthorizationError('MFA is required for your role');
+      }
+
+      await this.checkSecondFactor(user, { code, recoveryCode });
+      await this.userStore.update(user.id, { mfa: { enabled: false, recoveryCodes: [] } });
+      await this.logMfaEvent(req, user, 'disable mfa');
+
+      res.json({ message: 'MFA disabled' });
+    } catch (error) {
+      sendError(res, error, 'Disabling MFA failed');
+    }
+  }
+
+  /**
+   * Replace all recovery codes; requires a current TOTP code
+   */
+  public async regenerateRecoveryCodes(req: Request, res: Response): Promise<void> {
+    const { code } = req.body || {};
+
+    if (!code || typeof code !== 'string') {
+      res.status(400).json({ error: 'Code is required' });
+      return;
+    }
 
-      if (!hasRequiredRole) {
-        res.status(403).json({ error: 'Insufficient permissions' });
+    try {
+      const user = await this.findCurrentUser(req);
+      if (!user.mfa?.enabled) {
+        res.status(409).json({ error: 'MFA is not enabled' });
+        return;
+      }
+
+      const mfa = await this.checkSecondFactor(user, { code });
+      const { codes, hashes } = generateRecoveryCodes();
+      await this.userStore.update(user.id, { mfa: { ...mfa, recoveryCodes: hashes } });
+      await this.logMfaEvent(req, user, 'regenerate recovery codes');
+
+      res.json({ recoveryCodes: codes });
+    } catch (error) {
+      sendError(res, error, 'Regenerating recovery codes failed');
+    }
+  }
+
+  /**
+   * Authenticate MFA enrollment either with an access token or, for users who
+   * must enroll before they can sign in, with the `mfaToken` from login
+   */
+  public async authenticateMfaEnrollment(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    const { mfaToken } = req.body || {};
+    if (!mfaToken) {
+      return this.authenticateToken(req, res, next);
+    }
+
+    try {
+      const user = await this.readMfaChallenge(mfaToken, 'mfa-enroll');
+      Object.assign(req, {
+        user: { id: user.id, email: user.email, roles: user.roles },
+        mfaEnrollment: true,
+      });
+      next();
+    } catch (error) {
+      sendError(res, error, 'Authentication failed');
+    }
+  }
+
+  /**
+   * Check the session cookie, and the CSRF token for state-changing requests.
+   * `req.user` gets claims shaped like an access token's, with the session
+   * id as `sid` and `jti`.
+   */
+  private async authenticateSession(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    const { cookieName, secret } = this.sessionSettings();
+    const cookie = parseCookies(req.headers.cookie)[cookieName];
+    const token = cookie && unsignCookie(cookie, secret);
+
+    if (!token) {
+      res.status(401).json({ error: 'Authentication token required' });
+      return;
+    }
+
+    try {
+      const now = Date.now();
+      const session = await this.sessionStore.find(hashSHA256(token));
+      if (!session || session.expiresAt.getTime() <= now) {
+        this.clearSessionCookies(res);
+        res.status(401).json({ error: 'Session has expired' });
+        return;
+      }
+
+      if (
+        !CSRF_SAFE_METHODS.includes(req.method) &&
+        !verifyCSRFToken(req.get(CSRF_HEADER_NAME) || '', session.csrfToken)
+      ) {
+        res.status(403).json({ error: 'Invalid CSRF token' });
+        return;
+      }
+
+      const user = await this.userStore.findById(session.userId);
+      if (!user) {
+        await this.sessionStore.delete(session.tokenHash);
+        this.clearSessionCookies(res);
+        res.status(401).json({ error: 'Session has expired' });
+        return;
+      }
+      this.assertActive(user);
+
+      if (now - session.lastUsedAt.getTime() >= SESSION_TOUCH_INTERVAL) {
+        await this.sessionStore.save({ ...session, lastUsedAt: new Date(now) });
+      }
+
+      const claims: AccessTokenClaims = {
+        id: user.id,
+        email: user.email,
+        roles: user.roles,
+        jti: session.id,
+        sid: session.id,
+        iat: Math.floor(session.createdAt.getTime() / 1000),
+        exp: Math.floor(session.expiresAt.getTime() / 1000),
+      };
+      Object.assign(req, { user: claims, cookieSession: session });
+    } catch (error) {
+      sendError(res, error, 'Authentication failed');
+      return;
+    }
+    next();
+  }
+
+  /**
+   * Start a login session: tokens, or with `config.session` a session cookie
+   * and the CSRF token
+   */
+  private async signIn(
+    user: StoredUser,
+    req: Request,
+    res: Response
+  ): Promise<AuthTokens | SessionLogin> {
+    if (!this.config.session) {
+      return this.issueTokens(user, getDevice(req));
+    }
+
+    const { cookieName, secret, ttl, cookie } = this.sessionSettings();
+    const token = generateSecureToken(48);
+    const now = Date.now();
+    const session: SessionRecord = {
+      tokenHash: hashSHA256(token),
+      id: generateUUID(),
+      userId: user.id,
+      csrfToken: generateCSRFToken(),
+      device: getDevice(req),
+      createdAt: new Date(now),
+      lastUsedAt: new Date(now),
+      expiresAt: new Date(now + ttl),
+    };
+    await this.sessionStore.save(session);
+
+    // Replaces a CSRF cookie the CSRF middleware set for this response
+    removeSetCookie(res, CSRF_COOKIE_NAME);
+    res.cookie(cookieName, signCookie(token, secret), { ...cookie, httpOnly: true, maxAge: ttl });
+    res.cookie(CSRF_COOKIE_NAME, session.csrfToken, { ...cookie, httpOnly: false, maxAge: ttl });
+
+    return { csrfToken: session.csrfToken, expiresIn: Math.floor(ttl / 1000) };
+  }
+
+  private readOidcBinding(req: Request): string | null {
+    const cookie = parseCookies(req.headers.cookie)[OIDC_BINDING_COOKIE];
+    return cookie ? unsignCookie(cookie, this.sessionSettings().secret) : null;
+  }
+
+  private clearSessionCookies(res: Response): void {
+    const { cookieName, cookie } = this.sessionSettings();
+    res.clearCookie(cookieName, cookie);
+    removeSetCookie(res, CSRF_COOKIE_NAME);
+    res.clearCookie(CSRF_COOKIE_NAME, cookie);
+  }
+
+  private sessionSettings() {
+    const session = this.config.session || {};
+    return {
+      cookieName: session.cookieName || 'stellar.sid',
+      secret: session.secret || this.config.jwtSecret,
+      ttl: session.ttl ?? this.config.refreshTokenTtl ?? DEFAULT_REFRESH_TOKEN_TTL,
+      cookie: {
+        secure: session.secure ?? process.env.NODE_ENV === 'production',
+        sameSite: session.sameSite || ('lax' as const),
+        domain: session.domain,
+        path: '/',
+      },
+    };
+  }
+
+  private async generateToken(user: StoredUser, sessionId: string): Promise<string> {
+    const payload: AuthUser & { sid: string } = {
+      id: user.id,
+      email: user.email,
+      roles: user.roles,
+      sid: sessionId,
+    };
+    const options = { expiresIn: this.config.tokenExpiration || '15m', jwtid: generateUUID() };
+
+    return this.keyManager
+      ? this.keyManager.sign(payload, options)
+      : jwt.sign(payload, this.config.jwtSecret, options);
+  }
+
+  private async verifyAccessToken(token: string): Promise<AccessTokenClaims> {
+    const claims = this.keyManager
+      ? await this.keyManager.verify(token)
+      : jwt.verify(token, this.config.jwtSecret);
+    return claims as AccessTokenClaims;
+  }
+
+  private async withAccessToken(
+    user: StoredUser,
+    refreshToken: string,
+    sessionId: string
+  ): Promise<AuthTokens> {
+    const token = await this.generateToken(user, sessionId);
+    const { exp } = jwt.decode(token) as { exp: number };
+
+    return { token, refreshToken, expiresIn: exp - Math.floor(Date.now() / 1000) };
+  }
+
+  // Lifetime of access tokens in seconds; jsonwebtoken parses tokenExpiration for us
+  private accessTokenTtl(): number {
+    const { iat, exp } = jwt.decode(
+      jwt.sign({}, this.config.jwtSecret, { expiresIn: this.config.tokenExpiration || '15m' })
+    ) as { iat: number; exp: number };
+    return exp - iat;
+  }
+
+  private async saveRefreshToken(
+    tokenHash: string,
+    session: Pick<RefreshTokenRecord, 'userId' | 'familyId' | 'sessionStartedAt' | 'device'>
+  ) {
+    const now = Date.now();
+    await this.refreshTokenStore.save({
+      tokenHash,
+      userId: session.userId,
+      familyId: session.familyId,
+      sessionStartedAt: session.sessionStartedAt,
+      device: session.device,
+      createdAt: new Date(now),
+      expiresAt: new Date(now + (this.config.refreshTokenTtl ?? DEFAULT_REFRESH_TOKEN_TTL)),
+    });
+  }
+
+  private async logLogout(req: Request, claims: AccessTokenClaims, allSessions: boolean) {
+    await getAuditLogger().log({
+      type: AuditEventType.LOGOUT,
+      actor: { id: claims.id, type: 'user', identifier: claims.email, roles: claims.roles },
+      action: allSessions ? 'logout all sessions' : 'logout',
+      result: 'success',
+      metadata: { sessionId: claims.sid, allSessions },
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+    });
+  }
+
+  // Counts the attempt before the credentials are checked, so concurrent
+  // attempts cannot get past the lockout limits
+  private async assertLoginAllowed(email: string, client: LoginClient): Promise<void> {
+    const wait = (await this.loginProtection?.beginAttempt(email, client)) ?? 0;
+    if (wait > 0) {
+      throw new RateLimitError(
+        'Too many failed login attempts. Try again later.',
+        Math.ceil(wait / 1000)
+      );
+    }
+  }
+
+  // Records wrong credentials and codes as failures and takes back other
+  // attempts (e.g. refused accounts), then rethrows
+  private async countFailedLogin(
+    email: string,
+    client: LoginClient,
+    error: unknown
+  ): Promise<never> {
+    if (error instanceof AuthenticationError) {
+      await this.loginProtection?.recordFailure(email, client);
+    } else {
+      await this.loginProtection?.releaseAttempt(email, client);
+    }
+    throw error;
+  }
+
+  private requiresMfa(user: StoredUser): boolean {
+    const required = this.config.mfaRequiredRoles || ['admin'];
+    return user.roles.some((role) => required.includes(role));
+  }
+
+  // Challenge tokens use their own key so they can never pass as access tokens
+  private mfaSecret(): string {
+    return `${this.config.jwtSecret}:mfa`;
+  }
+
+  private createMfaChallenge(user: StoredUser): MfaChallenge | null {
+    const purpose = user.mfa?.enabled ? 'mfa' : this.requiresMfa(user) ? 'mfa-enroll' : null;
+    if (!purpose) {
+      return null;
+    }
+
+    const mfaToken = jwt.sign({ sub: user.id, purpose }, this.mfaSecret(), {
+      expiresIn: this.config.mfaTokenExpiration || '5m',
+    });
+    return purpose === 'mfa'
+      ? { mfaRequired: true, mfaToken }
+      : { mfaSetupRequired: true, mfaToken };
+  }
+
+  private async readMfaChallenge(
+    mfaToken: string,
+    purpose: 'mfa' | 'mfa-enroll'
+  ): Promise<StoredUser> {
+    let payload: { sub: string; purpose: string };
+    try {
+      payload = jwt.verify(mfaToken, this.mfaSecret()) as typeof payload;
+    } catch (error) {
+      throw new AuthenticationError('Invalid or expired MFA token');
+    }
+
+    const user = payload.purpose === purpose ? await this.userStore.findById(payload.sub) : null;
+    if (!user) {
+      throw new AuthenticationError('Invalid or expired MFA token');
+    }
+    this.assertActive(user);
+    return user;
+  }
+
+  /**
+   * Verify a TOTP or recovery code and store the result, so the code cannot
+   * be used again
+   */
+  private async checkSecondFactor(
+    user: StoredUser,
+    codes: { code?: string; recoveryCode?: string }
+  ): Promise<UserMfa> {
+    const mfa = user.mfa?.enabled ? verifyMfaCode(user.mfa, codes) : null;
+    if (!mfa) {
+      throw new AuthenticationError('Invalid verification code');
+    }
+
+    await this.userStore.update(user.id, { mfa });
+    return mfa;
+  }
+
+  private async findCurrentUser(req: Request): Promise<StoredUser> {
+    const user = await this.userStore.findById(getClaims(req).id);
+    if (!user) {
+      throw new AuthenticationError('User no longer exists');
+    }
+    return user;
+  }
+
+  private async logMfaEvent(req: Request, user: StoredUser, action: string) {
+    await getAuditLogger().log({
+      type: AuditEventType.USER_UPDATED,
+      actor: { id: user.id, type: 'user', identifier: user.email, roles: user.roles },
+      resource: { type: 'user', id: user.id },
+      action,
+      result: 'success',
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+    });
+  }
+
+  private async setPassword(user: StoredUser, password: string): Promise<StoredUser> {
+    const passwordHash = await bcrypt.hash(password, this.config.bcryptRounds || 10);
+    const updated = await this.userStore.update(user.id, { passwordHash });
+    if (!updated) {
+      throw new AuthenticationError('User no longer exists');
+    }
+    return updated;
+  }
+
+  private requireMailer(): Mailer {
+    if (!this.mailer) {
+      throw new ServiceUnavailableError('Email is not configured');
+    }
+    return this.mailer;
+  }
+
+  private accountLink(purpose: AccountTokenPurpose, user: StoredUser): string {
+    const reset = purpose === 'password-reset';
+    const ttl = reset
+      ? this.config.passwordResetTtl ?? DEFAULT_PASSWORD_RESET_TTL
+      : this.config.emailVerificationTtl ?? DEFAULT_EMAIL_VERIFICATION_TTL;
+    const page = reset
+      ? this.config.passwordResetUrl || '/reset-password'
+      : this.config.emailVerificationUrl || '/verify-email';
+
+    const token = createAccountToken(purpose, user, this.config.jwtSecret, ttl);
+    return `${page}${page.includes('?') ? '&' : '?'}token=${encodeURIComponent(token)}`;
+  }
+
+  private async verifyAccountToken(
+    purpose: AccountTokenPurpose,
+    token: string
+  ): Promise<StoredUser> {
+    const user = await verifyAccountToken(purpose, token, this.config.jwtSecret, (id) =>
+      this.userStore.findById(id)
+    );
+    if (!user) {
+      throw new ValidationError('Invalid or expired token');
+    }
+    return user;
+  }
+
+  private async logPasswordEvent(
+    req: Request,
+    type: AuditEventType,
+    user: StoredUser,
+    action: string
+  ) {
+    await getAuditLogger().log({
+      type,
+      actor: { id: user.id, type: 'user', identifier: user.email, roles: user.roles },
+      action,
+      result: 'success',
+      metadata: { sessionsRevoked: true },
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+    });
+  }
+
+  private assertActive(user: StoredUser): void {
+    if (user.status === 'disabled') {
+      throw new AuthorizationError('Account is disabled');
+    }
+    if (user.status === 'locked') {
+      throw new AuthorizationError('Account is locked');
+    }
+  }
+
+  /**
+   * With `requireEmailVerification`, no session may start or continue
+   * before the user has verified their email address
+   */
+  private assertVerified(user: StoredUser): void {
+    if (this.config.requireEmailVerification && !user.emailVerified) {
+      throw new AuthorizationError('Email address is not verified');
+    }
+  }
+
+  private getOidcProvider(name: string): OidcClient {
+    const provider = this.oidcProviders.get(name);
+    if (!provider) {
+      throw new NotFoundError(`Unknown login provider: ${name}`);
+    }
+    return provider;
+  }
+
+  // Existing accounts are only linked through an email the provider verified
+  private async linkIdentity(provider: string, claims: OidcIdTokenClaims): Promise<StoredUser> {
+    const linked = await this.userStore.findByIdentity(provider, claims.sub);
+    if (linked) {
+      return linked;
+    }
+
+    if (!claims.email) {
+      throw new AuthenticationError(`${provider} did not share an email address`);
+    }
+
+    const identity: UserIdentity = {
+      provider,
+      subject: claims.sub,
+      email: claims.email,
+      linkedAt: new Date(),
+    };
+    const existing = await this.userStore.findByEmail(claims.email);
+
+    if (existing) {
+      if (claims.email_verified !== true) {
+        throw new ConflictError('An account with this email already exists');
+      }
+
+      const updated = await this.userStore.update(existing.id, {
+        identities: [...(existing.identities || []), identity],
+        emailVerified: true,
+      });
+      if (!updated) {
+        throw new NotFoundError('User not found');
+      }
+      await this.logIdentityEvent(AuditEventType.USER_UPDATED, updated, 'link identity', provider);
+      return updated;
+    }
+
+    // The account has no usable password until the user sets one
+    const user = await this.userStore.create({
+      email: claims.email,
+      name: claims.name,
+      passwordHash: await bcrypt.hash(generateSecureToken(), this.config.bcryptRounds || 10),
+      roles: this.config.defaultRoles || ['user'],
+      emailVerified: claims.email_verified === true,
+      identities: [identity],
+    });
+    await this.logIdentityEvent(AuditEventType.USER_CREATED, user, 'register', provider);
+    return user;
+  }
+
+  private async logIdentityEvent(
+    type: AuditEventType,
+    user: StoredUser,
+    action: string,
+    provider: string
+  ) {
+    await getAuditLogger().log({
+      type,
+      actor: { id: user.id, type: 'user', identifier: user.email, roles: user.roles },
+      resource: { type: 'user', id: user.id, name: user.email },
+      action,
+      result: 'success',
+      metadata: { provider },
+    });
+  }
+
+  private async logAccessDenied(
+    user: AuthUser,
+    action: string,
+    req?: Request,
+    resource?: { type: string; id?: string },
+    metadata?: Record<string, unknown>
+  ) {
+    await getAuditLogger().log({
+      type: AuditEventType.ACCESS_DENIED,
+      severity: AuditSeverity.WARNING,
+      actor: { id: user.id, type: 'user', identifier: user.email, roles: user.roles },
+      resource,
+      action,
+      result: 'failure',
+      metadata,
+      ip: req?.ip,
+      userAgent: req?.headers['user-agent'],
+    });
+  }
+
+  /**
+   * Middleware that only lets users with one of `roles` through. Use after
+   * authenticateToken; authorize() checks permissions instead of roles.
+   */
+  public requireRoles(roles: string[]) {
+    return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      const user = getRequestUser(req);
+      if (!user) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      if (!user.roles?.some((role) => roles.includes(role))) {
+        await this.logAccessDenied(user, 'require role', req, undefined, { requiredRoles: roles });
+        res
+          .status(403)
+          .json({ error: user.roles ? 'Insufficient permissions' : 'User has no roles assigned' });
         return;
       }
 
@@ -110,9 +1714,70 @@ export class AuthService {
   }
 }
 
+// Responds `{ error }`, plus `details` for validation errors
+const sendError = (res: Response, error: unknown, fallback: string): void => {
+  if (error instanceof RateLimitError && error.retryAfter) {
+    res.set('Retry-After', String(error.retryAfter));
+  }
+  if (error instanceof ValidationError && error.errors.length > 0) {
+    res.status(error.statusCode).json({ error: error.message, details: error.errors });
+    return;
+  }
+  if (error instanceof StellarError) {
+    res.status(error.statusCode).json({ error: error.message });
+    return;
+  }
+  res.status(500).json({ error: fallback });
+};
+
+// A TOTP or recovery code is given, and every code given is a string
+const hasMfaCode = (code: unknown, recoveryCode: unknown): boolean =>
+  Boolean(code || recoveryCode) &&
+  [code, recoveryCode].every((value) => value === undefined || typeof value === 'string');
+
+// Set by authenticateMfaEnrollment for users enrolling from a login challenge
+const isMfaEnrollment = (req: Request): boolean =>
+  (req as Request & { mfaEnrollment?: boolean }).mfaEnrollment === true;
+
+// Set by authenticateToken
+const getClaims = (req: Request): AccessTokenClaims =>
+  (req as Request & { user: AccessTokenClaims }).user;
+
+// Set by authenticateToken for requests authenticated by the session cookie
+const getCookieSession = (req: Request): SessionRecord | undefined =>
+  (req as Request & { cookieSession?: SessionRecord }).cookieSession;
+
+// Set by authenticateToken, if it ran
+const getRequestUser = (req: Request): AccessTokenClaims | undefined =>
+  (req as Request & { user?: AccessTokenClaims }).user;
+
+// Audit id of a resource with an `id` or `_id`
+const getResourceId = (resource: unknown): string | undefined => {
+  if (!resource || typeof resource !== 'object') {
+    return undefined;
+  }
+  const { id, _id } = resource as { id?: unknown; _id?: unknown };
+  const value = id ?? _id;
+  return value === undefined || value === null ? undefined : String(value);
+};
+
+const getClient = (req: Request): LoginClient => ({
+  ip: req.ip,
+  userAgent: req.headers['user-agent'],
+});
+
+const getDevice = (req: Request): SessionDevice => ({
+  fingerprint: createRequestFingerprint(req),
+  ip: req.ip,
+  userAgent: req.headers['user-agent'],
+});
+
 // Export factory function
-export const createAuthService = (config: AuthConfig): AuthService => {
-  return new AuthService(config);
+export const createAuthService = (
+  config: AuthConfig,
+  options?: AuthServiceOptions
+): AuthService => {
+  return new AuthService(config, options);
 };
 
 // Export middleware factory
@@ -0,0 +1,179 @@
+import { JwtPayload, SignOptions, VerifyOptions, JsonWebTokenError } from 'jsonwebtoken';
+import { SigningAlgorithm, SigningKeysOptions } from '../../types';
+import { JsonWebKeySet, decodeJwtHeader, signJwt, toPublicJwk, verifyJwt } from '../../utils/jwt';
+import { SigningKey, SigningKeyStore, generateSigningKey } from './SigningKeyStore';
+
+const DEFAULT_ROTATION_INTERVAL = 30 * 24 * 60 * 60 * 1000;
+const DEFAULT_CACHE_TTL = 60 * 1000;
+
+// Least time between reloads of the store for tokens with an unknown kid
+const UNKNOWN_KID_COOLDOWN = 5 * 1000;
+
+/**
+ * Signs tokens with the newest key of a SigningKeyStore and verifies them
+ * with any key still kept. Rotation happens on use: the first signature
+ * after `rotationInterval` creates a new key and retires the old one, which
+ * keeps verifying tokens for `retention`. The store's keys are cached for
+ * `cacheTtl`.
+ */
+export class KeyManager {
+  private algorithm: SigningAlgorithm;
+  private rotationInterval: number;
+  private retention: number;
+  private cacheTtl: number;
+  private rotation: Promise<SigningKey> | null = null;
+  private cache: { keys: SigningKey[]; loadedAt: number } | null = null;
+  private loading: Promise<SigningKey[]> | null = null;
+
+  /**
+   * @param tokenLifetime - Lifetime of the signed tokens (ms); sets the default retention
+   */
+  constructor(
+    private store: SigningKeyStore,
+    private options: SigningKeysOptions = {},
+    tokenLifetime = 15 * 60 * 1000
+  ) {
+    this.algorithm = options.algorithm || 'RS256';
+    this.rotationInterval = options.rotationInterval ?? DEFAULT_ROTATION_INTERVAL;
+    this.retention = options.retention ?? tokenLifetime + 5 * 60 * 1000;
+    this.cacheTtl = options.cacheTtl ?? DEFAULT_CACHE_TTL;
+  }
+
+  /**
+   * Key new tokens are signed with, rotated when it is due
+   */
+  async getSigningKey(): Promise<SigningKey> {
+    const [current] = (await this.listKeys())
+      .filter((key) => !key.retiredAt && key.algorithm === this.algorithm)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+    const due =
+      !current ||
+      (this.rotationInterval > 0 &&
+        Date.now() - current.createdAt.getTime() >= this.rotationInterval);
+    return due ? this.rotate() : current;
+  }
+
+  /**
+   * Start signing with a new key now. Other active keys are retired and keys
+   * retired longer than the retention are deleted.
+   */
+  rotate(): Promise<SigningKey> {
+    // Concurrent callers share one new key
+    if (!this.rotation) {
+      this.rotation = this.createKey().finally(() => {
+        this.rotation = null;
+      });
+    }
+    return this.rotation;
+  }
+
+  /**
+   * Public keys of every kept key
+   */
+  async getJwks(): Promise<JsonWebKeySet> {
+    const keys = await this.getKeys();
+    return {
+      keys: keys.map((key) =>
+        toPublicJwk({ kid: key.kid, algorithm: key.algorithm, key: key.publicKey })
+      ),
+    };
+  }
+
+  async sign(payload: object, options: SignOptions = {}): Promise<string> {
+    const key = await this.getSigningKey();
+    const { issuer, audience } = this.options;
+
+    return signJwt(
+      payload,
+      { kid: key.kid, algorithm: key.algorithm, key: key.privateKey },
+      { ...options, ...(issuer && { issuer }), ...(audience && { audience }) }
+    );
+  }
+
+  /**
+   * Verify a token signed by one of the kept keys. Throws jsonwebtoken's errors.
+   */
+  async verify(token: string, options: VerifyOptions = {}): Promise<JwtPayload> {
+    const { kid } = decodeJwtHeader(token);
+    let key = (await this.getKeys()).find((candidate) => candidate.kid === kid);
+
+    // Another process may have rotated since the keys were cached
+    if (!key && this.cache && Date.now() - this.cache.loadedAt >= UNKNOWN_KID_COOLDOWN) {
+      this.cache = null;
+      key = (await this.getKeys()).find((candidate) => candidate.kid === kid);
+    }
+    if (!key) {
+      throw new JsonWebTokenError('unknown signing key');
+    }
+
+    return verifyJwt(
+      token,
+      { algorithm: key.algorithm, key: key.publicKey },
+      {
+        ...options,
+        issuer: this.options.issuer,
+        audience: this.options.audience as VerifyOptions['audience'],
+      }
+    );
+  }
+
+  // Keys not retired for longer than the retention
+  private async getKeys(): Promise<SigningKey[]> {
+    const cutoff = Date.now() - this.retention;
+    return (await this.listKeys()).filter(
+      (key) => !key.retiredAt || key.retiredAt.getTime() > cutoff
+    );
+  }
+
+  // Keys of the store, cached for `cacheTtl`; concurrent callers share one read
+  private async listKeys(): Promise<SigningKey[]> {
+    if (this.cache && Date.now() - this.cache.loadedAt < this.cacheTtl) {
+      return this.cache.keys;
+    }
+
+    if (!this.loading) {
+      const loading = this.store.list().then(
+        (keys) => {
+          if (this.loading === loading) {
+            this.cache = { keys, loadedAt: Date.now() };
+            this.loading = null;
+          }
+          return keys;
+        },
+        (error) => {
+          if (this.loading === loading) {
+            this.loading = null;
+          }
+          throw error;
+        }
+      );
+      this.loading = loading;
+    }
+    return this.loading;
+  }
+
+  private async createKey(): Promise<SigningKey> {
+    const key = generateSigningKey(this.algorithm);
+    await this.store.save(key);
+
+    const now = Date.now();
+    const others = (await this.store.list()).filter((other) => other.kid !== key.kid);
+    await Promise.all(
+      others.map((other) => {
+        if (!other.retiredAt) {
+          return this.store.save({ ...other, retiredAt: new Date(now) });
+        }
+        if (now - other.retiredAt.getTime() > this.retention) {
+          return this.store.delete(other.kid);
+        }
+        return undefined;
+      })
+    );
+
+    // A read started before the rotation must not be cached
+    this.cache = null;
+    this.loading = null;
+    return key;
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Failed logins counted for one key. Attempts are counted when they start,
+ * so `failures` includes those still in progress.
+ */
+export interface AttemptCounter {
+  failures: number;
+  lastFailureAt: Date;
+  lockedUntil?: Date;
+}
+
+/**
+ * Failed logins for one account, in total and per client IP
+ */
+export interface LoginAttempts extends AttemptCounter {
+  ips: Record<string, AttemptCounter>;
+}
+
+/**
+ * Persistence for failed login attempts, keyed by normalized email. Unknown
+ * emails are tracked too, so lockouts do not reveal which accounts exist.
+ */
+export interface LoginAttemptStore {
+  get(email: string): Promise<LoginAttempts | null>;
+
+  /**
+   * Replace the attempts of an email with what `change` makes of the current
+   * ones, in one atomic step: concurrent updates of the same email never
+   * start from the same attempts. They are kept until `expiresAt`, when they
+   * no longer affect logins. When `change` returns null nothing is written.
+   */
+  update(email: string, change: AttemptChange): Promise<void>;
+  delete(email: string): Promise<void>;
+}
+
+/**
+ * New attempts for an email, given its current ones
+ */
+export type AttemptChange = (
+  current: LoginAttempts | null
+) => { attempts: LoginAttempts; expiresAt: Date } | null;
+
+/**
+ * In-memory attempt store (for development, tests and single-process servers)
+ */
+export class InMemoryLoginAttemptStore implements LoginAttemptStore {
+  private entries: Map<string, { attempts: LoginAttempts; expiresAt: Date }> = new Map();
+
+  async get(email: string): Promise<LoginAttempts | null> {
+    return this.read(email);
+  }
+
+  // Read and write without awaiting in between, so no other update interleaves
+  async update(email: string, change: AttemptChange): Promise<void> {
+    const next = change(this.read(email));
+    if (next) {
+      this.prune();
+      this.entries.set(email, next);
+    }
+  }
+
+  async delete(email: string): Promise<void> {
+    this.entries.delete(email);
+  }
+
+  private read(email: string): LoginAttempts | null {
+    const entry = this.entries.get(email);
+    if (!entry || entry.expiresAt.getTime() <= Date.now()) {
+      return null;
+    }
+    return { ...entry.attempts, ips: { ...entry.attempts.ips } };
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    this.entries.forEach((entry, email) => {
+      if (entry.expiresAt.getTime() <= now) {
+        this.entries.delete(email);
+      }
+    });
+  }
+}
+
+/**
+ * Create an in-memory attempt store
+ */
+export const createInMemoryLoginAttemptStore = (): InMemoryLoginAttemptStore =>
+  new InMemoryLoginAttemptStore();
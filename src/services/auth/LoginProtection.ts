@@ -0,0 +1,309 @@
+import { LockoutOptions } from '../../types';
+import { AuditEventType, AuditSeverity, getAuditLogger } from '../../server/audit';
+import { AttemptCounter, LoginAttempts, LoginAttemptStore } from './LoginAttemptStore';
+import { UserStore, normalizeEmail } from './UserStore';
+
+/**
+ * Client a login attempt came from
+ */
+export interface LoginClient {
+  ip?: string;
+  userAgent?: string;
+}
+
+/**
+ * Progressive delays and lockouts for failed logins, per account and per
+ * IP and account. Used by AuthService; see LockoutOptions.
+ */
+export class LoginProtection {
+  private options: Required<LockoutOptions>;
+
+  constructor(
+    private store: LoginAttemptStore,
+    private userStore: UserStore,
+    options: LockoutOptions = {}
+  ) {
+    this.options = {
+      maxAttempts: 10,
+      maxAttemptsPerIp: 5,
+      windowMs: 15 * 60 * 1000,
+      lockoutDuration: 15 * 60 * 1000,
+      unlockPolicy: 'timeout',
+      delayMs: 1000,
+      maxDelayMs: 30000,
+      ...options,
+    };
+  }
+
+  /**
+   * Time until the account may be tried again from this client (ms); 0 when
+   * a login may be attempted now
+   */
+  async getRetryDelay(email: string, client: LoginClient): Promise<number> {
+    const attempts = await this.store.get(normalizeEmail(email));
+    return attempts ? this.waitFor(attempts, clientKey(client), new Date()) : 0;
+  }
+
+  /**
+   * Count a login attempt before its credentials are checked. Returns the
+   * time until the account may be tried again from this client (ms); only
+   * when it is 0 is the attempt counted and may go ahead. The attempt that
+   * reaches a limit locks out the ones after it, so concurrent attempts
+   * cannot get past the limits. Follow up with recordFailure, recordSuccess
+   * or releaseAttempt.
+   */
+  async beginAttempt(email: string, client: LoginClient): Promise<number> {
+    const ip = clientKey(client);
+    const now = new Date();
+    let wait = 0;
+
+    await this.store.update(normalizeEmail(email), (current) => {
+      wait = current ? this.waitFor(current, ip, now) : 0;
+      if (wait > 0) {
+        return null;
+      }
+
+      const attempts: LoginAttempts = {
+        ...this.count(current, this.options.maxAttempts, now),
+        ips: this.pruneIps(current?.ips || {}, now),
+      };
+      attempts.ips[ip] = this.count(attempts.ips[ip], this.options.maxAttemptsPerIp, now);
+      return { attempts, expiresAt: this.expiry(attempts, now) };
+    });
+
+    return wait;
+  }
+
+  /**
+   * Record that an attempt counted by beginAttempt failed, and log the locks
+   * it set. With the 'manual' policy, the account is locked through its status.
+   */
+  async recordFailure(email: string, client: LoginClient): Promise<void> {
+    const key = normalizeEmail(email);
+    const attempts = await this.store.get(key);
+    if (!attempts) {
+      return;
+    }
+
+    await this.logFailure(key, client, attempts);
+
+    const now = new Date();
+    if (attempts.failures >= this.options.maxAttempts && isLocked(attempts, now)) {
+      const statusLock = await this.lockAccount(key);
+      if (statusLock !== 'none') {
+        // The status holds the lock from now on
+        await this.store.update(key, (current) => {
+          if (!current) {
+            return null;
+          }
+          const cleared: LoginAttempts = { ...current, failures: 0, lockedUntil: undefined };
+          return { attempts: cleared, expiresAt: this.expiry(cleared, now) };
+        });
+      }
+      if (statusLock !== 'already-locked') {
+        await this.logLock(key, client, 'account locked after repeated failed logins', attempts);
+      }
+    }
+
+    const ipCounter = attempts.ips[clientKey(client)];
+    if (
+      ipCounter &&
+      ipCounter.failures >= this.options.maxAttemptsPerIp &&
+      isLocked(ipCounter, now)
+    ) {
+      await this.logLock(key, client, 'client locked out of account', attempts);
+    }
+  }
+
+  /**
+   * Forget the failures of the account and of this client. Locks held by
+   * other clients stay in place.
+   */
+  async recordSuccess(email: string, client: LoginClient): Promise<void> {
+    const now = new Date();
+
+    await this.store.update(normalizeEmail(email), (current) => {
+      if (!current) {
+        return null;
+      }
+
+      const { [clientKey(client)]: _cleared, ...ips } = current.ips;
+      const reset: LoginAttempts = {
+        failures: 0,
+        lastFailureAt: current.lastFailureAt,
+        ips: this.pruneIps(ips, now),
+      };
+      // Without other clients' failures there is nothing left to keep
+      const expiresAt = Object.keys(reset.ips).length === 0 ? now : this.expiry(reset, now);
+      return { attempts: reset, expiresAt };
+    });
+  }
+
+  /**
+   * Take back an attempt counted by beginAttempt that neither failed nor
+   * signed in, e.g. a right password that still needs its second factor
+   */
+  async releaseAttempt(email: string, client: LoginClient): Promise<void> {
+    const ip = clientKey(client);
+    const now = new Date();
+
+    await this.store.update(normalizeEmail(email), (current) => {
+      if (!current) {
+        return null;
+      }
+
+      const attempts: LoginAttempts = {
+        ...this.uncount(current, this.options.maxAttempts),
+        ips: { ...current.ips },
+      };
+      if (attempts.ips[ip]) {
+        attempts.ips[ip] = this.uncount(attempts.ips[ip], this.options.maxAttemptsPerIp);
+      }
+      return { attempts, expiresAt: this.expiry(attempts, now) };
+    });
+  }
+
+  /**
+   * Clear every failure and lock of an account
+   */
+  async unlock(email: string): Promise<void> {
+    await this.store.delete(normalizeEmail(email));
+  }
+
+  // Count one more attempt; the one that reaches the limit sets the lock
+  private count(
+    counter: AttemptCounter | undefined | null,
+    limit: number,
+    now: Date
+  ): AttemptCounter {
+    const stale =
+      !counter ||
+      (now.getTime() - counter.lastFailureAt.getTime() > this.options.windowMs &&
+        !isLocked(counter, now));
+    const failures = stale ? 1 : counter.failures + 1;
+
+    return {
+      failures,
+      lastFailureAt: now,
+      lockedUntil:
+        failures >= limit
+          ? new Date(now.getTime() + this.options.lockoutDuration)
+          : stale
+          ? undefined
+          : counter.lockedUntil,
+    };
+  }
+
+  // Take one attempt back, with the lock it may have set
+  private uncount(counter: AttemptCounter, limit: number): AttemptCounter {
+    const failures = Math.max(0, counter.failures - 1);
+    return {
+      failures,
+      lastFailureAt: counter.lastFailureAt,
+      lockedUntil: failures < limit ? undefined : counter.lockedUntil,
+    };
+  }
+
+  // Longest wait imposed by the account's and the client's locks and delays
+  private waitFor(attempts: LoginAttempts, ip: string, now: Date): number {
+    const counters = [attempts, attempts.ips[ip]].filter(
+      (counter): counter is AttemptCounter => !!counter
+    );
+    const waits = counters.map((counter) =>
+      Math.max(
+        counter.lockedUntil ? counter.lockedUntil.getTime() - now.getTime() : 0,
+        this.delayAfter(counter) - (now.getTime() - counter.lastFailureAt.getTime())
+      )
+    );
+
+    return Math.max(0, ...waits);
+  }
+
+  // No wait after the first failure; then delayMs, doubling up to maxDelayMs
+  private delayAfter(counter: AttemptCounter): number {
+    if (counter.failures < 2) {
+      return 0;
+    }
+    return Math.min(this.options.delayMs * 2 ** (counter.failures - 2), this.options.maxDelayMs);
+  }
+
+  private pruneIps(ips: Record<string, AttemptCounter>, now: Date) {
+    return Object.fromEntries(
+      Object.entries(ips).filter(
+        ([, counter]) =>
+          isLocked(counter, now) ||
+          now.getTime() - counter.lastFailureAt.getTime() <= this.options.windowMs
+      )
+    );
+  }
+
+  private expiry(attempts: LoginAttempts, now: Date): Date {
+    const times = [attempts, ...Object.values(attempts.ips)].flatMap((counter) => [
+      counter.lastFailureAt.getTime() + Math.max(this.options.windowMs, this.options.maxDelayMs),
+      counter.lockedUntil?.getTime() ?? 0,
+    ]);
+    return new Date(Math.max(now.getTime(), ...times));
+  }
+
+  // With the 'manual' policy, known accounts are locked through their status
+  private async lockAccount(email: string): Promise<'none' | 'locked' | 'already-locked'> {
+    if (this.options.unlockPolicy !== 'manual') {
+      return 'none';
+    }
+
+    const user = await this.userStore.findByEmail(email);
+    if (!user) {
+      return 'none';
+    }
+    if (user.status !== 'active') {
+      return 'already-locked';
+    }
+
+    await this.userStore.update(user.id, { status: 'locked' });
+    return 'locked';
+  }
+
+  private async logFailure(email: string, client: LoginClient, attempts: LoginAttempts) {
+    await getAuditLogger().log({
+      type: AuditEventType.LOGIN_FAILURE,
+      severity: AuditSeverity.WARNING,
+      actor: { type: 'anonymous', identifier: email },
+      action: 'login',
+      result: 'failure',
+      metadata: {
+        failures: attempts.failures,
+        clientFailures: attempts.ips[clientKey(client)]?.failures,
+      },
+      ip: client.ip,
+      userAgent: client.userAgent,
+    });
+  }
+
+  private async logLock(
+    email: string,
+    client: LoginClient,
+    action: string,
+    attempts: LoginAttempts
+  ) {
+    await getAuditLogger().log({
+      type: AuditEventType.SUSPICIOUS_ACTIVITY,
+      severity: AuditSeverity.CRITICAL,
+      actor: { type: 'anonymous', identifier: email },
+      resource: { type: 'user', name: email },
+      action,
+      result: 'failure',
+      metadata: {
+        failures: attempts.failures,
+        clientFailures: attempts.ips[clientKey(client)]?.failures,
+        unlockPolicy: this.options.unlockPolicy,
+      },
+      ip: client.ip,
+      userAgent: client.userAgent,
+    });
+  }
+}
+
+const clientKey = (client: LoginClient): string => client.ip || 'unknown';
+
+const isLocked = (counter: AttemptCounter, now: Date): boolean =>
+  !!counter.lockedUntil && counter.lockedUntil.getTime() > now.getTime();
@@ -0,0 +1,103 @@
+import { Model, Schema } from 'mongoose';
+import type { DatabaseManager } from '../../server/database';
+import { ApiKeyRecord, ApiKeyStore } from './ApiKeyStore';
+
+/**
+ * Options for the Mongoose API key store
+ */
+export interface MongooseApiKeyStoreOptions {
+  /**
+   * Default: 'ApiKey'
+   */
+  modelName?: string;
+
+  /**
+   * Default: 'api_keys'
+   */
+  collection?: string;
+}
+
+const apiKeySchema = (collection: string) =>
+  new Schema<ApiKeyRecord>(
+    {
+      id: { type: String, required: true, unique: true },
+      name: { type: String, required: true },
+      prefix: { type: String, required: true },
+      keyHash: { type: String, required: true, unique: true },
+      scopes: { type: [String], default: [] },
+      ownerId: { type: String, index: true },
+      rateLimit: {
+        type: new Schema({ max: Number, windowMs: Number }, { _id: false }),
+        default: undefined,
+      },
+      createdAt: { type: Date, required: true },
+      expiresAt: { type: Date },
+      lastUsedAt: { type: Date },
+      lastUsedIp: { type: String },
+      revokedAt: { type: Date },
+      rotatedToId: { type: String },
+    },
+    // `id` is a stored field here, not mongoose's virtual
+    { collection, versionKey: false, id: false }
+  );
+
+/**
+ * API key store backed by a MongoDB collection on the DatabaseManager's
+ * connection. Keys are looked up by the unique index on their hash.
+ */
+export class MongooseApiKeyStore implements ApiKeyStore {
+  private modelName: string;
+  private collection: string;
+
+  constructor(private db: DatabaseManager, options: MongooseApiKeyStoreOptions = {}) {
+    this.modelName = options.modelName || 'ApiKey';
+    this.collection = options.collection || 'api_keys';
+  }
+
+  /**
+   * Model registered on the current connection
+   */
+  getModel(): Model<ApiKeyRecord> {
+    const connection = this.db.getConnection();
+    if (!connection) {
+      throw new Error('Database not connected. Call connect() before using the API key store.');
+    }
+
+    return (
+      (connection.models[this.modelName] as Model<ApiKeyRecord> | undefined) ||
+      connection.model<ApiKeyRecord>(this.modelName, apiKeySchema(this.collection))
+    );
+  }
+
+  async save(record: ApiKeyRecord): Promise<void> {
+    await this.getModel().replaceOne({ id: record.id }, record, { upsert: true });
+  }
+
+  async findById(id: string): Promise<ApiKeyRecord | null> {
+    return this.getModel().findOne({ id }, { _id: 0 }).lean<ApiKeyRecord>().exec();
+  }
+
+  async findByHash(keyHash: string): Promise<ApiKeyRecord | null> {
+    return this.getModel().findOne({ keyHash }, { _id: 0 }).lean<ApiKeyRecord>().exec();
+  }
+
+  async list(ownerId?: string): Promise<ApiKeyRecord[]> {
+    return this.getModel()
+      .find(ownerId === undefined ? {} : { ownerId }, { _id: 0 })
+      .sort({ createdAt: -1 })
+      .lean<ApiKeyRecord[]>()
+      .exec();
+  }
+
+  async touch(id: string, usedAt: Date, ip?: string): Promise<void> {
+    await this.getModel().updateOne({ id }, { lastUsedAt: usedAt, lastUsedIp: ip });
+  }
+}
+
+/**
+ * Create an API key store on a DatabaseManager's connection
+ */
+export const createMongooseApiKeyStore = (
+  db: DatabaseManager,
+  options?: MongooseApiKeyStoreOptions
+): MongooseApiKeyStore => new MongooseApiKeyStore(db, options);
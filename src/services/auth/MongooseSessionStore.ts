@@ -0,0 +1,99 @@
+import { Model, Schema } from 'mongoose';
+import type { DatabaseManager } from '../../server/database';
+import { SessionRecord, SessionStore } from './SessionStore';
+
+/**
+ * Options for the Mongoose session store
+ */
+export interface MongooseSessionStoreOptions {
+  /**
+   * Default: 'Session'
+   */
+  modelName?: string;
+
+  /**
+   * Default: 'sessions'
+   */
+  collection?: string;
+}
+
+const sessionSchema = (collection: string) =>
+  new Schema<SessionRecord>(
+    {
+      tokenHash: { type: String, required: true, unique: true },
+      id: { type: String, required: true },
+      userId: { type: String, required: true, index: true },
+      csrfToken: { type: String, required: true },
+      device: {
+        fingerprint: { type: String },
+        ip: { type: String },
+        userAgent: { type: String },
+      },
+      createdAt: { type: Date, required: true },
+      lastUsedAt: { type: Date, required: true },
+      // MongoDB drops sessions once they have expired
+      expiresAt: { type: Date, required: true, expires: 0 },
+    },
+    // `id` is a stored field here, not mongoose's virtual
+    { collection, versionKey: false, id: false }
+  );
+
+/**
+ * Session store backed by a MongoDB collection on the DatabaseManager's
+ * connection
+ */
+export class MongooseSessionStore implements SessionStore {
+  private modelName: string;
+  private collection: string;
+
+  constructor(private db: DatabaseManager, options: MongooseSessionStoreOptions = {}) {
+    this.modelName = options.modelName || 'Session';
+    this.collection = options.collection || 'sessions';
+  }
+
+  /**
+   * Model registered on the current connection
+   */
+  getModel(): Model<SessionRecord> {
+    const connection = this.db.getConnection();
+    if (!connection) {
+      throw new Error('Database not connected. Call connect() before using the session store.');
+    }
+
+    return (
+      (connection.models[this.modelName] as Model<SessionRecord> | undefined) ||
+      connection.model<SessionRecord>(this.modelName, sessionSchema(this.collection))
+    );
+  }
+
+  async save(session: SessionRecord): Promise<void> {
+    await this.getModel().replaceOne({ tokenHash: session.tokenHash }, session, { upsert: true });
+  }
+
+  async find(tokenHash: string): Promise<SessionRecord | null> {
+    return this.getModel().findOne({ tokenHash }, { _id: 0 }).lean<SessionRecord>().exec();
+  }
+
+  async findByUser(userId: string): Promise<SessionRecord[]> {
+    return this.getModel()
+      .find({ userId, expiresAt: { $gt: new Date() } }, { _id: 0 })
+      .lean<SessionRecord[]>()
+      .exec();
+  }
+
+  async delete(tokenHash: string): Promise<void> {
+    await this.getModel().deleteOne({ tokenHash });
+  }
+
+  async deleteByUser(userId: string): Promise<void> {
+    await this.getModel().deleteMany({ userId });
+  }
+}
+
+/**
+ * Create a session store on a DatabaseManager's connection
+ */
+export const createMongooseSessionStore = (
+  db: DatabaseManager,
+  options?: MongooseSessionStoreOptions
+): MongooseSessionStore => new MongooseSessionStore(db, options);
@@ -0,0 +1,82 @@
+import { Model, Schema } from 'mongoose';
+import type { DatabaseManager } from '../../server/database';
+import { SigningKey, SigningKeyStore } from './SigningKeyStore';
+
+/**
+ * Options for the Mongoose signing key store
+ */
+export interface MongooseSigningKeyStoreOptions {
+  /**
+   * Default: 'SigningKey'
+   */
+  modelName?: string;
+
+  /**
+   * Default: 'signing_keys'
+   */
+  collection?: string;
+}
+
+const signingKeySchema = (collection: string) =>
+  new Schema<SigningKey>(
+    {
+      kid: { type: String, required: true, unique: true },
+      algorithm: { type: String, required: true },
+      privateKey: { type: String, required: true },
+      publicKey: { type: String, required: true },
+      createdAt: { type: Date, required: true },
+      retiredAt: { type: Date },
+    },
+    { collection, versionKey: false }
+  );
+
+/**
+ * Signing key store backed by a MongoDB collection on the DatabaseManager's
+ * connection, so every process signs with the same keys and publishes all
+ * of them in its JWKS. The collection holds private keys: restrict access
+ * to it like any other secret.
+ */
+export class MongooseSigningKeyStore implements SigningKeyStore {
+  private modelName: string;
+  private collection: string;
+
+  constructor(private db: DatabaseManager, options: MongooseSigningKeyStoreOptions = {}) {
+    this.modelName = options.modelName || 'SigningKey';
+    this.collection = options.collection || 'signing_keys';
+  }
+
+  /**
+   * Model registered on the current connection
+   */
+  getModel(): Model<SigningKey> {
+    const connection = this.db.getConnection();
+    if (!connection) {
+      throw new Error('Database not connected. Call connect() before using the signing key store.');
+    }
+
+    return (
+      (connection.models[this.modelName] as Model<SigningKey> | undefined) ||
+      connection.model<SigningKey>(this.modelName, signingKeySchema(this.collection))
+    );
+  }
+
+  async list(): Promise<SigningKey[]> {
+    return this.getModel().find({}, { _id: 0 }).lean<SigningKey[]>().exec();
+  }
+
+  async save(key: SigningKey): Promise<void> {
+    await this.getModel().replaceOne({ kid: key.kid }, key, { upsert: true });
+  }
+
+  async delete(kid: string): Promise<void> {
+    await this.getModel().deleteOne({ kid });
+  }
+}
+
+/**
+ * Create a signing key store on a DatabaseManager's connection
+ */
+export const createMongooseSigningKeyStore = (
+  db: DatabaseManager,
+  options?: MongooseSigningKeyStoreOptions
+): MongooseSigningKeyStore => new MongooseSigningKeyStore(db, options);
@@ -0,0 +1,96 @@
+import { Model, Schema } from 'mongoose';
+import type { DatabaseManager } from '../../server/database';
+import { RevocationCheck, TokenRevocationStore } from './TokenRevocationStore';
+
+/**
+ * Options for the Mongoose revocation store
+ */
+export interface MongooseTokenRevocationStoreOptions {
+  /**
+   * Default: 'RevokedToken'
+   */
+  modelName?: string;
+
+  /**
+   * Default: 'revoked_tokens'
+   */
+  collection?: string;
+}
+
+// `_id` is `jti:<jti>` for single tokens and `user:<id>` for whole users
+interface RevocationDocument {
+  _id: string;
+  issuedBefore?: Date;
+  expiresAt: Date;
+}
+
+const revocationSchema = (collection: string) =>
+  new Schema<RevocationDocument>(
+    {
+      _id: { type: String, required: true },
+      issuedBefore: { type: Date },
+      // MongoDB drops entries once the tokens they revoke have expired
+      expiresAt: { type: Date, required: true, expires: 0 },
+    },
+    { collection, versionKey: false }
+  );
+
+/**
+ * Revocation store backed by a MongoDB collection on the DatabaseManager's
+ * connection. Lookups hit the `_id` index only.
+ */
+export class MongooseTokenRevocationStore implements TokenRevocationStore {
+  private modelName: string;
+  private collection: string;
+
+  constructor(private db: DatabaseManager, options: MongooseTokenRevocationStoreOptions = {}) {
+    this.modelName = options.modelName || 'RevokedToken';
+    this.collection = options.collection || 'revoked_tokens';
+  }
+
+  /**
+   * Model registered on the current connection
+   */
+  getModel(): Model<RevocationDocument> {
+    const connection = this.db.getConnection();
+    if (!connection) {
+      throw new Error('Database not connected. Call connect() before using the revocation store.');
+    }
+
+    return (
+      (connection.models[this.modelName] as Model<RevocationDocument> | undefined) ||
+      connection.model<RevocationDocument>(this.modelName, revocationSchema(this.collection))
+    );
+  }
+
+  async revoke(jti: string, expiresAt: Date): Promise<void> {
+    await this.getModel().updateOne({ _id: `jti:${jti}` }, { expiresAt }, { upsert: true });
+  }
+
+  async revokeUser(userId: string, issuedBefore: Date, expiresAt: Date): Promise<void> {
+    await this.getModel().updateOne(
+      { _id: `user:${userId}` },
+      { issuedBefore, expiresAt },
+      { upsert: true }
+    );
+  }
+
+  async isRevoked({ jti, userId, issuedAt }: RevocationCheck): Promise<boolean> {
+    const conditions: Record<string, unknown>[] = [
+      { _id: `user:${userId}`, issuedBefore: { $gt: issuedAt } },
+    ];
+    if (jti) {
+      conditions.push({ _id: `jti:${jti}` });
+    }
+
+    return (await this.getModel().exists({ $or: conditions })) !== null;
+  }
+}
+
+/**
+ * Create a revocation store on a DatabaseManager's connection
+ */
+export const createMongooseTokenRevocationStore = (
+  db: DatabaseManager,
+  options?: MongooseTokenRevocationStoreOptions
+): MongooseTokenRevocationStore => new MongooseTokenRevocationStore(db, options);
@@ -0,0 +1,174 @@
+import { Model, Schema } from 'mongoose';
+import type { DatabaseManager } from '../../server/database';
+import { ConflictError } from '../../utils/errors';
+import { CreateUserInput, StoredUser, UserStore, UserUpdate, normalizeEmail } from './UserStore';
+
+/**
+ * Options for the Mongoose user store
+ */
+export interface MongooseUserStoreOptions {
+  /**
+   * Default: 'User'
+   */
+  modelName?: string;
+
+  /**
+   * Default: 'users'
+   */
+  collection?: string;
+}
+
+type UserDocument = Omit<StoredUser, 'id'>;
+
+const userSchema = (collection: string) =>
+  new Schema<UserDocument>(
+    {
+      email: { type: String, required: true, unique: true, lowercase: true, trim: true },
+      passwordHash: { type: String, required: true },
+      roles: { type: [String], default: [] },
+      status: { type: String, enum: ['active', 'disabled', 'locked'], default: 'active' },
+      name: { type: String },
+      emailVerified: { type: Boolean, default: false },
+      mfa: {
+        enabled: { type: Boolean, default: false },
+        secret: { type: String },
+        recoveryCodes: { type: [String], default: [] },
+        lastUsedStep: { type: Number },
+        enabledAt: { type: Date },
+      },
+      identities: [
+        {
+          _id: false,
+          provider: { type: String, required: true },
+          subject: { type: String, required: true },
+          email: { type: String },
+          linkedAt: { type: Date, required: true },
+        },
+      ],
+    },
+    { collection, timestamps: true }
+  ).index({ 'identities.provider': 1, 'identities.subject': 1 }, { unique: true, sparse: true });
+
+// Ids that cannot be ObjectIds match no user instead of raising a CastError
+const isObjectId = (id: string): boolean => /^[a-f\d]{24}$/i.test(id);
+
+const isDuplicateKeyError = (error: unknown): boolean =>
+  (error as { code?: number } | null)?.code === 11000;
+
+/**
+ * User store backed by a MongoDB collection on the DatabaseManager's connection
+ */
+export class MongooseUserStore implements UserStore {
+  private modelName: string;
+  private collection: string;
+
+  constructor(private db: DatabaseManager, options: MongooseUserStoreOptions = {}) {
+    this.modelName = options.modelName || 'User';
+    this.collection = options.collection || 'users';
+  }
+
+  /**
+   * Model registered on the current connection
+   */
+  getModel(): Model<UserDocument> {
+    const connection = this.db.getConnection();
+    if (!connection) {
+      throw new Error('Database not connected. Call connect() before using the user store.');
+    }
+
+    return (
+      (connection.models[this.modelName] as Model<UserDocument> | undefined) ||
+      connection.model<UserDocument>(this.modelName, userSchema(this.collection))
+    );
+  }
+
+  async findById(id: string): Promise<StoredUser | null> {
+    if (!isObjectId(id)) {
+      return null;
+    }
+    return toStoredUser(await this.getModel().findById(id).lean());
+  }
+
+  async findByEmail(email: string): Promise<StoredUser | null> {
+    return toStoredUser(
+      await this.getModel()
+        .findOne({ email: normalizeEmail(email) })
+        .lean()
+    );
+  }
+
+  async findByIdentity(provider: string, subject: string): Promise<StoredUser | null> {
+    return toStoredUser(
+      await this.getModel()
+        .findOne({ identities: { $elemMatch: { provider, subject } } })
+        .lean()
+    );
+  }
+
+  async create(input: CreateUserInput): Promise<StoredUser> {
+    try {
+      const document = await this.getModel().create({
+        ...input,
+        email: normalizeEmail(input.email),
+      });
+      return toStoredUser(document.toObject()) as StoredUser;
+    } catch (error) {
+      if (isDuplicateKeyError(error)) {
+        throw new ConflictError('Email is already registered');
+      }
+      throw error;
+    }
+  }
+
+  async update(id: string, changes: UserUpdate): Promise<StoredUser | null> {
+    if (!isObjectId(id)) {
+      return null;
+    }
+
+    try {
+      const update = changes.email ? { ...changes, email: normalizeEmail(changes.email) } : changes;
+      return toStoredUser(
+        await this.getModel()
+          .findByIdAndUpdate(id, update, { new: true, runValidators: true })
+          .lean()
+      );
+    } catch (error) {
+      if (isDuplicateKeyError(error)) {
+        throw new ConflictError('Email is already registered');
+      }
+      throw error;
+    }
+  }
+
+  async delete(id: string): Promise<boolean> {
+    if (!isObjectId(id)) {
+      return false;
+    }
+    const result = await this.getModel().deleteOne({ _id: id });
+    return result.deletedCount > 0;
+  }
+}
+
+const toStoredUser = (document: unknown): StoredUser | null => {
+  if (!document) {
+    return null;
+  }
+
+  const {
+    _id,
+    __v: _version,
+    ...fields
+  } = document as UserDocument & {
+    _id: { toString(): string };
+    __v?: number;
+  };
+  return { ...fields, id: _id.toString() };
+};
+
+/**
+ * Create a user store on a DatabaseManager's connection
+ */
+export const createMongooseUserStore = (
+  db: DatabaseManager,
+  options?: MongooseUserStoreOptions
+): MongooseUserStore => new MongooseUserStore(db, options);
@@ -0,0 +1,292 @@
+import crypto from 'crypto';
+import jwt, { Algorithm } from 'jsonwebtoken';
+import { AuthenticationError, ServiceUnavailableError } from '../../utils/errors';
+import { constantTimeCompare, generateNonce, generateSecureToken } from '../../utils/security';
+
+/**
+ * Settings of one OpenID Connect provider
+ */
+export interface OidcClientConfig {
+  /**
+   * Name used in routes and linked identities, e.g. 'google'
+   */
+  name: string;
+
+  /**
+   * Issuer URL; the discovery document is read from
+   * `<issuer>/.well-known/openid-configuration`
+   */
+  issuer: string;
+  clientId: string;
+
+  /**
+   * Secret of confidential clients. Public clients rely on PKCE alone.
+   */
+  clientSecret?: string;
+
+  /**
+   * Where the provider sends the user back with `code` and `state`
+   */
+  redirectUri: string;
+
+  /**
+   * Default: ['openid', 'email', 'profile']
+   */
+  scopes?: string[];
+
+  /**
+   * Allowed clock skew when checking ID token times (seconds)
+   * Default: 60
+   */
+  clockTolerance?: number;
+
+  /**
+   * Minimum time between key fetches caused by unknown key ids (ms)
+   * Default: 30 seconds
+   */
+  cooldown?: number;
+
+  /**
+   * Fetch implementation for provider requests
+   * Default: the global fetch
+   */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Fields of the provider's discovery document used by the client
+ */
+export interface OidcDiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+  id_token_signing_alg_values_supported?: string[];
+}
+
+/**
+ * Authorization URL to send the user to, plus the values needed to complete
+ * the login. Keep `nonce` and `codeVerifier` on the server.
+ */
+export interface OidcAuthorizationRequest {
+  url: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+/**
+ * Verified claims of an ID token
+ */
+export interface OidcIdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  iat: number;
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  [claim: string]: unknown;
+}
+
+/**
+ * Tokens returned by the provider's token endpoint
+ */
+export interface OidcTokenSet {
+  idToken: string;
+  accessToken?: string;
+  refreshToken?: string;
+}
+
+type Jwk = crypto.JsonWebKey & { kid?: string };
+
+const SUPPORTED_ALGORITHMS: Algorithm[] = ['RS256', 'RS384', 'RS512', 'ES256', 'ES384', 'ES512'];
+
+/**
+ * OpenID Connect client for the authorization code flow with PKCE. The
+ * discovery document and signing keys are fetched on first use and cached;
+ * keys are fetched again when a token names an unknown key id, at most
+ * once per `cooldown`.
+ */
+export class OidcClient {
+  readonly name: string;
+  private discovery: Promise<OidcDiscoveryDocument> | null = null;
+  private keys: Jwk[] = [];
+  private keysFetchedAt = 0;
+  private pendingKeys: Promise<void> | null = null;
+
+  constructor(private config: OidcClientConfig) {
+    this.name = config.name;
+  }
+
+  async discover(): Promise<OidcDiscoveryDocument> {
+    if (!this.discovery) {
+      const url = `${this.config.issuer.replace(/\/$/, '')}/.well-known/openid-configuration`;
+      this.discovery = this.getJson<OidcDiscoveryDocument>(url).then((document) => {
+        if (document.issuer !== this.config.issuer) {
+          throw new Error(`Issuer mismatch for ${this.name}: ${document.issuer}`);
+        }
+        return document;
+      });
+      // Try again on the next call instead of caching the failure
+      this.discovery.catch(() => {
+        this.discovery = null;
+      });
+    }
+    return this.discovery;
+  }
+
+  /**
+   * Build the authorization URL with a fresh state, nonce and PKCE challenge
+   */
+  async createAuthorizationRequest(): Promise<OidcAuthorizationRequest> {
+    const { authorization_endpoint } = await this.discover();
+    const state = generateNonce();
+    const nonce = generateNonce();
+    const codeVerifier = generateSecureToken(32);
+
+    const url = new URL(authorization_endpoint);
+    url.search = new URLSearchParams({
+      response_type: 'code',
+      client_id: this.config.clientId,
+      redirect_uri: this.config.redirectUri,
+      scope: (this.config.scopes || ['openid', 'email', 'profile']).join(' '),
+      state,
+      nonce,
+      code_challenge: crypto.createHash('sha256').update(codeVerifier).digest('base64url'),
+      code_challenge_method: 'S256',
+    }).toString();
+
+    return { url: url.toString(), state, nonce, codeVerifier };
+  }
+
+  /**
+   * Exchange an authorization code for tokens
+   */
+  async exchangeCode(code: string, codeVerifier: string): Promise<OidcTokenSet> {
+    const { token_endpoint } = await this.discover();
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: this.config.redirectUri,
+      client_id: this.config.clientId,
+      code_verifier: codeVerifier,
+    });
+    if (this.config.clientSecret) {
+      body.set('client_secret', this.config.clientSecret);
+    }
+
+    const response = await this.request(token_endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: body.toString(),
+    });
+    const tokens = (await response.json()) as {
+      id_token?: string;
+      access_token?: string;
+      refresh_token?: string;
+      error?: string;
+    };
+
+    if (!response.ok || !tokens.id_token) {
+      throw new AuthenticationError(
+        `${this.name} rejected the authorization code${tokens.error ? `: ${tokens.error}` : ''}`
+      );
+    }
+    return {
+      idToken: tokens.id_token,
+      accessToken: tokens.access_token,
+      refreshToken: tokens.refresh_token,
+    };
+  }
+
+  /**
+   * Check an ID token's signature against the provider's keys, its issuer,
+   * audience, lifetime and nonce
+   */
+  async verifyIdToken(idToken: string, nonce: string): Promise<OidcIdTokenClaims> {
+    const discovery = await this.discover();
+    const decoded = jwt.decode(idToken, { complete: true });
+    if (!decoded || typeof decoded.payload === 'string') {
+      throw new AuthenticationError('Malformed ID token');
+    }
+
+    const key = await this.getSigningKey(decoded.header.kid);
+    const allowed = discovery.id_token_signing_alg_values_supported || ['RS256'];
+
+    let claims: OidcIdTokenClaims;
+    try {
+      claims = jwt.verify(idToken, crypto.createPublicKey({ key, format: 'jwk' }), {
+        algorithms: SUPPORTED_ALGORITHMS.filter((algorithm) => allowed.includes(algorithm)),
+        issuer: discovery.issuer,
+        audience: this.config.clientId,
+        clockTolerance: this.config.clockTolerance ?? 60,
+      }) as OidcIdTokenClaims;
+    } catch (error) {
+      throw new AuthenticationError(`Invalid ID token: ${(error as Error).message}`);
+    }
+
+    if (!claims.nonce || !constantTimeCompare(claims.nonce, nonce)) {
+      throw new AuthenticationError('ID token nonce does not match');
+    }
+    return claims;
+  }
+
+  private async getSigningKey(kid?: string): Promise<Jwk> {
+    const find = () =>
+      this.keys.find((key) => (kid ? key.kid === kid : key.use !== 'enc' && !!key.kty));
+
+    // Tokens with made-up key ids must not make every request fetch the keys
+    const cooldown = this.config.cooldown ?? 30 * 1000;
+    if (!find() && Date.now() - this.keysFetchedAt >= cooldown) {
+      await this.fetchKeys();
+    }
+
+    const key = find();
+    if (!key) {
+      throw new AuthenticationError(`No signing key ${kid || ''} found for ${this.name}`.trim());
+    }
+    return key;
+  }
+
+  // Concurrent verifications share one fetch
+  private fetchKeys(): Promise<void> {
+    if (!this.pendingKeys) {
+      this.pendingKeys = this.discover()
+        .then(({ jwks_uri }) => this.getJson<{ keys: Jwk[] }>(jwks_uri))
+        .then(({ keys }) => {
+          this.keys = keys || [];
+          this.keysFetchedAt = Date.now();
+        })
+        .finally(() => {
+          this.pendingKeys = null;
+        });
+    }
+    return this.pendingKeys;
+  }
+
+  private async getJson<T>(url: string): Promise<T> {
+    const response = await this.request(url);
+    if (!response.ok) {
+      throw new ServiceUnavailableError(`${this.name} answered ${response.status} for ${url}`);
+    }
+    return (await response.json()) as T;
+  }
+
+  private async request(url: string, init?: RequestInit): Promise<Response> {
+    const request = this.config.fetch || globalThis.fetch;
+    try {
+      return await request(url, init);
+    } catch (error) {
+      throw new ServiceUnavailableError(`${this.name} could not be reached`);
+    }
+  }
+}
+
+/**
+ * Create an OIDC client for one provider
+ */
+export const createOidcClient = (config: OidcClientConfig): OidcClient => new OidcClient(config);
@@ -0,0 +1,64 @@
+/**
+ * OIDC login that was started and waits for the provider's callback
+ */
+export interface OidcLoginState {
+  provider: string;
+  nonce: string;
+
+  /**
+   * PKCE code verifier, sent with the authorization code
+   */
+  codeVerifier: string;
+
+  /**
+   * SHA-256 of the secret that binds the login to the browser that started it
+   */
+  bindingHash: string;
+  expiresAt: Date;
+}
+
+/**
+ * Persistence for pending OIDC logins, keyed by their `state` parameter
+ */
+export interface OidcStateStore {
+  save(state: string, login: OidcLoginState): Promise<void>;
+
+  /**
+   * Remove and return a pending login, so each state can complete only once.
+   * Expired logins are returned as null.
+   */
+  take(state: string): Promise<OidcLoginState | null>;
+}
+
+/**
+ * In-memory state store (for development, tests and single-process servers)
+ */
+export class InMemoryOidcStateStore implements OidcStateStore {
+  private logins: Map<string, OidcLoginState> = new Map();
+
+  async save(state: string, login: OidcLoginState): Promise<void> {
+    this.prune();
+    this.logins.set(state, { ...login });
+  }
+
+  async take(state: string): Promise<OidcLoginState | null> {
+    const login = this.logins.get(state);
+    this.logins.delete(state);
+    return login && login.expiresAt.getTime() > Date.now() ? login : null;
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    this.logins.forEach((login, state) => {
+      if (login.expiresAt.getTime() <= now) {
+        this.logins.delete(state);
+      }
+    });
+  }
+}
+
+/**
+ * Create an in-memory state store
+ */
+export const createInMemoryOidcStateStore = (): InMemoryOidcStateStore =>
+  new InMemoryOidcStateStore();
@@ -0,0 +1,138 @@
+/**
+ * Device a session was started from
+ */
+export interface SessionDevice {
+  /**
+   * Hash of the client's IP and headers (see createRequestFingerprint)
+   */
+  fingerprint: string;
+  ip?: string;
+  userAgent?: string;
+}
+
+/**
+ * Stored refresh token. Only the SHA-256 hash of the token is kept; tokens
+ * rotated from the same login share a `familyId`.
+ */
+export interface RefreshTokenRecord {
+  tokenHash: string;
+  userId: string;
+  familyId: string;
+
+  /**
+   * When the family's first token was issued, i.e. the login time
+   */
+  sessionStartedAt: Date;
+  device?: SessionDevice;
+  createdAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+
+  /**
+   * Hash of the token this one was exchanged for
+   */
+  replacedByHash?: string;
+}
+
+/**
+ * Persistence for refresh tokens used by AuthService
+ */
+export interface RefreshTokenStore {
+  save(record: RefreshTokenRecord): Promise<void>;
+  find(tokenHash: string): Promise<RefreshTokenRecord | null>;
+
+  /**
+   * Unrevoked, unexpired tokens of a user: one per active session
+   */
+  findByUser(userId: string): Promise<RefreshTokenRecord[]>;
+
+  /**
+   * Revoke a token unless it already is. Returns false when the token was
+   * already revoked, so two concurrent rotations cannot both succeed.
+   */
+  revoke(tokenHash: string, replacedByHash?: string): Promise<boolean>;
+
+  /**
+   * Revoke every token of a family (one login session)
+   */
+  revokeFamily(familyId: string): Promise<void>;
+
+  /**
+   * Revoke every token of a user
+   */
+  revokeUser(userId: string): Promise<void>;
+}
+
+/**
+ * In-memory refresh token store (for development and tests)
+ */
+export class InMemoryRefreshTokenStore implements RefreshTokenStore {
+  private records: Map<string, RefreshTokenRecord> = new Map();
+
+  async save(record: RefreshTokenRecord): Promise<void> {
+    this.prune();
+    this.records.set(record.tokenHash, { ...record });
+  }
+
+  async find(tokenHash: string): Promise<RefreshTokenRecord | null> {
+    const record = this.records.get(tokenHash);
+    return record ? { ...record } : null;
+  }
+
+  async findByUser(userId: string): Promise<RefreshTokenRecord[]> {
+    const now = Date.now();
+    return Array.from(this.records.values())
+      .filter(
+        (record) =>
+          record.userId === userId && !record.revokedAt && record.expiresAt.getTime() > now
+      )
+      .map((record) => ({ ...record }));
+  }
+
+  async revoke(tokenHash: string, replacedByHash?: string): Promise<boolean> {
+    const record = this.records.get(tokenHash);
+    if (!record || record.revokedAt) {
+      return false;
+    }
+
+    record.revokedAt = new Date();
+    record.replacedByHash = replacedByHash;
+    return true;
+  }
+
+  async revokeFamily(familyId: string): Promise<void> {
+    this.revokeWhere((record) => record.familyId === familyId);
+  }
+
+  async revokeUser(userId: string): Promise<void> {
+    this.revokeWhere((record) => record.userId === userId);
+  }
+
+  private revokeWhere(predicate: (record: RefreshTokenRecord) => boolean): void {
+    const now = new Date();
+    this.records.forEach((record) => {
+      if (!record.revokedAt && predicate(record)) {
+        record.revokedAt = now;
+      }
+    });
+  }
+
+  /**
+   * Drop expired tokens. Revoked tokens are kept until they expire so reuse
+   * can still be detected.
+   */
+  private prune(): void {
+    const now = Date.now();
+    this.records.forEach((record, hash) => {
+      if (record.expiresAt.getTime() <= now) {
+        this.records.delete(hash);
+      }
+    });
+  }
+}
+
+/**
+ * Create an in-memory refresh token store
+ */
+export const createInMemoryRefreshTokenStore = (): InMemoryRefreshTokenStore =>
+  new InMemoryRefreshTokenStore();
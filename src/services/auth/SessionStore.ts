@@ -0,0 +1,85 @@
+import { SessionDevice } from './RefreshTokenStore';
+
+/**
+ * Stored cookie session. Only the SHA-256 hash of the cookie's token is
+ * kept; `id` identifies the session in listings and access claims.
+ */
+export interface SessionRecord {
+  tokenHash: string;
+  id: string;
+  userId: string;
+
+  /**
+   * Synchronizer token state-changing requests must send back
+   */
+  csrfToken: string;
+  device?: SessionDevice;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * Persistence for cookie sessions used by AuthService
+ */
+export interface SessionStore {
+  save(session: SessionRecord): Promise<void>;
+  find(tokenHash: string): Promise<SessionRecord | null>;
+
+  /**
+   * Unexpired sessions of a user
+   */
+  findByUser(userId: string): Promise<SessionRecord[]>;
+  delete(tokenHash: string): Promise<void>;
+  deleteByUser(userId: string): Promise<void>;
+}
+
+/**
+ * In-memory session store (for development and tests)
+ */
+export class InMemorySessionStore implements SessionStore {
+  private sessions: Map<string, SessionRecord> = new Map();
+
+  async save(session: SessionRecord): Promise<void> {
+    this.prune();
+    this.sessions.set(session.tokenHash, { ...session });
+  }
+
+  async find(tokenHash: string): Promise<SessionRecord | null> {
+    const session = this.sessions.get(tokenHash);
+    return session ? { ...session } : null;
+  }
+
+  async findByUser(userId: string): Promise<SessionRecord[]> {
+    const now = Date.now();
+    return Array.from(this.sessions.values())
+      .filter((session) => session.userId === userId && session.expiresAt.getTime() > now)
+      .map((session) => ({ ...session }));
+  }
+
+  async delete(tokenHash: string): Promise<void> {
+    this.sessions.delete(tokenHash);
+  }
+
+  async deleteByUser(userId: string): Promise<void> {
+    this.sessions.forEach((session, hash) => {
+      if (session.userId === userId) {
+        this.sessions.delete(hash);
+      }
+    });
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    this.sessions.forEach((session, hash) => {
+      if (session.expiresAt.getTime() <= now) {
+        this.sessions.delete(hash);
+      }
+    });
+  }
+}
+
+/**
+ * Create an in-memory session store
+ */
+export const createInMemorySessionStore = (): InMemorySessionStore => new InMemorySessionStore();
@@ -0,0 +1,82 @@
+import crypto from 'crypto';
+import { SigningAlgorithm } from '../../types';
+
+/**
+ * Key pair access tokens are signed with, as persisted by a SigningKeyStore
+ */
+export interface SigningKey {
+  kid: string;
+  algorithm: SigningAlgorithm;
+
+  /**
+   * PKCS#8 PEM
+   */
+  privateKey: string;
+
+  /**
+   * SPKI PEM
+   */
+  publicKey: string;
+  createdAt: Date;
+
+  /**
+   * Set once a newer key signs tokens; the key then only verifies them
+   */
+  retiredAt?: Date;
+}
+
+/**
+ * Persistence for signing keys. Share one store between the processes that
+ * issue tokens so they sign with the same keys.
+ */
+export interface SigningKeyStore {
+  list(): Promise<SigningKey[]>;
+  save(key: SigningKey): Promise<void>;
+  delete(kid: string): Promise<void>;
+}
+
+/**
+ * In-memory key store (for development, tests and single-process servers).
+ * Keys are lost on restart, which signs out every user.
+ */
+export class InMemorySigningKeyStore implements SigningKeyStore {
+  private keys: Map<string, SigningKey> = new Map();
+
+  async list(): Promise<SigningKey[]> {
+    return Array.from(this.keys.values(), (key) => ({ ...key }));
+  }
+
+  async save(key: SigningKey): Promise<void> {
+    this.keys.set(key.kid, { ...key });
+  }
+
+  async delete(kid: string): Promise<void> {
+    this.keys.delete(kid);
+  }
+}
+
+/**
+ * Generate a key pair for `algorithm`: RSA 2048, P-256 or Ed25519
+ */
+export const generateSigningKey = (algorithm: SigningAlgorithm): SigningKey => {
+  const pair =
+    algorithm === 'RS256'
+      ? crypto.generateKeyPairSync('rsa', { modulusLength: 2048 })
+      : algorithm === 'ES256'
+      ? crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' })
+      : crypto.generateKeyPairSync('ed25519');
+
+  return {
+    kid: crypto.randomBytes(12).toString('base64url'),
+    algorithm,
+    privateKey: pair.privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+    publicKey: pair.publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+    createdAt: new Date(),
+  };
+};
+
+/**
+ * Create an in-memory key store
+ */
+export const createInMemorySigningKeyStore = (): InMemorySigningKeyStore =>
+  new InMemorySigningKeyStore();
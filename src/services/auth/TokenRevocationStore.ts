@@ -0,0 +1,77 @@
+/**
+ * Access token checked against a TokenRevocationStore
+ */
+export interface RevocationCheck {
+  jti?: string;
+  userId: string;
+  issuedAt: Date;
+}
+
+/**
+ * Revoked access tokens, consulted by AuthService.authenticateToken on every
+ * request. Entries only need to be kept until `expiresAt`: after that the
+ * tokens they revoke fail verification anyway.
+ */
+export interface TokenRevocationStore {
+  /**
+   * Revoke one token by its `jti` claim
+   */
+  revoke(jti: string, expiresAt: Date): Promise<void>;
+
+  /**
+   * Revoke every token of a user issued before `issuedBefore`
+   */
+  revokeUser(userId: string, issuedBefore: Date, expiresAt: Date): Promise<void>;
+
+  /**
+   * Whether a token is revoked, in a single lookup
+   */
+  isRevoked(check: RevocationCheck): Promise<boolean>;
+}
+
+/**
+ * In-memory revocation store (for development and tests)
+ */
+export class InMemoryTokenRevocationStore implements TokenRevocationStore {
+  private tokens: Map<string, Date> = new Map();
+  private users: Map<string, { issuedBefore: Date; expiresAt: Date }> = new Map();
+
+  async revoke(jti: string, expiresAt: Date): Promise<void> {
+    this.prune();
+    this.tokens.set(jti, expiresAt);
+  }
+
+  async revokeUser(userId: string, issuedBefore: Date, expiresAt: Date): Promise<void> {
+    this.prune();
+    this.users.set(userId, { issuedBefore, expiresAt });
+  }
+
+  async isRevoked({ jti, userId, issuedAt }: RevocationCheck): Promise<boolean> {
+    if (jti && this.tokens.has(jti)) {
+      return true;
+    }
+
+    const user = this.users.get(userId);
+    return !!user && issuedAt.getTime() < user.issuedBefore.getTime();
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    this.tokens.forEach((expiresAt, jti) => {
+      if (expiresAt.getTime() <= now) {
+        this.tokens.delete(jti);
+      }
+    });
+    this.users.forEach(({ expiresAt }, userId) => {
+      if (expiresAt.getTime() <= now) {
+        this.users.delete(userId);
+      }
+    });
+  }
+}
+
+/**
+ * Create an in-memory revocation store
+ */
+export const createInMemoryTokenRevocationStore = (): InMemoryTokenRevocationStore =>
+  new InMemoryTokenRevocationStore();
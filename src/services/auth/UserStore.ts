@@ -0,0 +1,195 @@
+import { ConflictError } from '../../utils/errors';
+import { generateUUID } from '../../utils/security';
+
+/**
+ * Account status. Only active users can sign in.
+ */
+export type UserStatus = 'active' | 'disabled' | 'locked';
+
+/**
+ * TOTP multi-factor settings of a user
+ */
+export interface UserMfa {
+  enabled: boolean;
+
+  /**
+   * Base32 TOTP secret; set during enrollment
+   */
+  secret?: string;
+
+  /**
+   * SHA-256 hashes of the unused recovery codes
+   */
+  recoveryCodes: string[];
+
+  /**
+   * Time step of the last accepted code; older codes are refused as replays
+   */
+  lastUsedStep?: number;
+  enabledAt?: Date;
+}
+
+/**
+ * Account at an external identity provider linked to a user
+ */
+export interface UserIdentity {
+  /**
+   * Name of the OIDC provider, e.g. 'google'
+   */
+  provider: string;
+
+  /**
+   * The provider's `sub` for the user
+   */
+  subject: string;
+  email?: string;
+  linkedAt: Date;
+}
+
+/**
+ * User record as persisted by a UserStore
+ */
+export interface StoredUser {
+  id: string;
+  email: string;
+  passwordHash: string;
+  roles: string[];
+  status: UserStatus;
+  name?: string;
+  emailVerified?: boolean;
+  mfa?: UserMfa;
+  identities?: UserIdentity[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Fields needed to create a user
+ */
+export interface CreateUserInput {
+  email: string;
+  passwordHash: string;
+  roles?: string[];
+  status?: UserStatus;
+  name?: string;
+  emailVerified?: boolean;
+  identities?: UserIdentity[];
+}
+
+/**
+ * Fields that can be changed on an existing user
+ */
+export type UserUpdate = Partial<Omit<StoredUser, 'id' | 'createdAt' | 'updatedAt'>>;
+
+/**
+ * Persistence used by AuthService. Emails are matched case-insensitively and
+ * `create` rejects an email that is already registered with a ConflictError.
+ */
+export interface UserStore {
+  findById(id: string): Promise<StoredUser | null>;
+  findByEmail(email: string): Promise<StoredUser | null>;
+  findByIdentity(provider: string, subject: string): Promise<StoredUser | null>;
+  create(input: CreateUserInput): Promise<StoredUser>;
+  update(id: string, changes: UserUpdate): Promise<StoredUser | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+/**
+ * Normalize an email for storage and lookups
+ */
+export const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+/**
+ * User fields that are safe to send to clients
+ */
+export const toPublicUser = ({ passwordHash: _passwordHash, mfa, ...user }: StoredUser) => ({
+  ...user,
+  mfaEnabled: mfa?.enabled ?? false,
+});
+
+/**
+ * In-memory user store (for development and tests)
+ */
+export class InMemoryUserStore implements UserStore {
+  private users: Map<string, StoredUser> = new Map();
+
+  async findById(id: string): Promise<StoredUser | null> {
+    const user = this.users.get(id);
+    return user ? { ...user } : null;
+  }
+
+  async findByEmail(email: string): Promise<StoredUser | null> {
+    const normalized = normalizeEmail(email);
+    for (const user of this.users.values()) {
+      if (user.email === normalized) {
+        return { ...user };
+      }
+    }
+    return null;
+  }
+
+  async findByIdentity(provider: string, subject: string): Promise<StoredUser | null> {
+    for (const user of this.users.values()) {
+      if (user.identities?.some((id) => id.provider === provider && id.subject === subject)) {
+        return { ...user };
+      }
+    }
+    return null;
+  }
+
+  async create(input: CreateUserInput): Promise<StoredUser> {
+    if (await this.findByEmail(input.email)) {
+      throw new ConflictError('Email is already registered');
+    }
+
+    const now = new Date();
+    const user: StoredUser = {
+      id: generateUUID(),
+      email: normalizeEmail(input.email),
+      passwordHash: input.passwordHash,
+      roles: input.roles || [],
+      status: input.status || 'active',
+      name: input.name,
+      emailVerified: input.emailVerified || false,
+      identities: input.identities,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.users.set(user.id, user);
+    return { ...user };
+  }
+
+  async update(id: string, changes: UserUpdate): Promise<StoredUser | null> {
+    const user = this.users.get(id);
+    if (!user) {
+      return null;
+    }
+
+    if (changes.email) {
+      const existing = await this.findByEmail(changes.email);
+      if (existing && existing.id !== id) {
+        throw new ConflictError('Email is already registered');
+      }
+    }
+
+    const updated: StoredUser = {
+      ...user,
+      ...changes,
+      email: changes.email ? normalizeEmail(changes.email) : user.email,
+      updatedAt: new Date(),
+    };
+
+    this.users.set(id, updated);
+    return { ...updated };
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.users.delete(id);
+  }
+}
+
+/**
+ * Create an in-memory user store
+ */
+export const createInMemoryUserStore = (): InMemoryUserStore => new InMemoryUserStore();
@@ -0,0 +1,59 @@
+import {
+  generateSecureToken,
+  hashSHA256,
+  signWithExpiry,
+  verifyWithExpiry,
+} from '../../utils/security';
+import { StoredUser } from './UserStore';
+
+/**
+ * What an emailed account token allows
+ */
+export type AccountTokenPurpose = 'password-reset' | 'email-verification';
+
+/**
+ * Fingerprint of the user state a token acts on. Using the token changes that
+ * state (the password hash, the verified flag), so each token works only once
+ * and a reset link dies as soon as the password changes by any route.
+ */
+const userStamp = (purpose: AccountTokenPurpose, user: StoredUser): string =>
+  hashSHA256(
+    purpose === 'password-reset'
+      ? user.passwordHash
+      : `${user.email}|${user.emailVerified ? 'verified' : 'pending'}`
+  ).slice(0, 16);
+
+/**
+ * Sign a single-use token for an emailed link
+ */
+export const createAccountToken = (
+  purpose: AccountTokenPurpose,
+  user: StoredUser,
+  secret: string,
+  ttl: number
+): string =>
+  signWithExpiry(
+    [purpose, user.id, userStamp(purpose, user), generateSecureToken(16)].join('.'),
+    secret,
+    ttl
+  );
+
+/**
+ * Resolve the user of a token. Returns null when the token is forged,
+ * expired, meant for another purpose or already used.
+ */
+export const verifyAccountToken = async (
+  purpose: AccountTokenPurpose,
+  token: string,
+  secret: string,
+  findUser: (id: string) => Promise<StoredUser | null>
+): Promise<StoredUser | null> => {
+  const { valid, data } = verifyWithExpiry(token, secret);
+  const [tokenPurpose, userId, stamp] = data?.split('.') || [];
+  if (!valid || tokenPurpose !== purpose || !userId) {
+    return null;
+  }
+
+  const user = await findUser(userId);
+  return user && userStamp(purpose, user) === stamp ? user : null;
+};
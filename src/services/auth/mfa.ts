@@ -0,0 +1,49 @@
+import { generateRandomString, hashSHA256 } from '../../utils/security';
+import { verifyTOTP } from '../../utils/totp';
+import { UserMfa } from './UserStore';
+
+/**
+ * Hash a recovery code for storage. Case and dashes are ignored.
+ */
+export const hashRecoveryCode = (code: string): string =>
+  hashSHA256(code.toLowerCase().replace(/[^a-f0-9]/g, ''));
+
+/**
+ * Generate one-time recovery codes like `3f9a1-c07e2`. Show the codes to the
+ * user once and store only the hashes.
+ */
+export const generateRecoveryCodes = (count = 10): { codes: string[]; hashes: string[] } => {
+  const codes = Array.from({ length: count }, () => {
+    const code = generateRandomString(5);
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+};
+
+/**
+ * Check a TOTP code or a recovery code. Returns the MFA settings to store
+ * afterwards (with the code's step recorded or the recovery code removed), or
+ * null when the code is wrong or replayed.
+ */
+export const verifyMfaCode = (
+  mfa: UserMfa,
+  { code, recoveryCode }: { code?: string; recoveryCode?: string }
+): UserMfa | null => {
+  if (recoveryCode) {
+    const hash = hashRecoveryCode(recoveryCode);
+    return mfa.recoveryCodes.includes(hash)
+      ? { ...mfa, recoveryCodes: mfa.recoveryCodes.filter((stored) => stored !== hash) }
+      : null;
+  }
+
+  if (!code || !mfa.secret) {
+    return null;
+  }
+
+  const step = verifyTOTP(code, mfa.secret);
+  if (step === null || (mfa.lastUsedStep !== undefined && step <= mfa.lastUsedStep)) {
+    return null;
+  }
+  return { ...mfa, lastUsedStep: step };
+};
@@ -0,0 +1,57 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createLogger } from '../../utils/helpers';
+import { generateUUID } from '../../utils/security';
+
+const logger = createLogger('Mailer');
+
+/**
+ * Email sent by a Mailer
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Sends emails. Implement it with your email provider's SDK or SMTP client.
+ */
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Mailer that logs emails instead of sending them (for development)
+ */
+export class ConsoleMailer implements Mailer {
+  async send(message: MailMessage): Promise<void> {
+    logger.info(`Email to ${message.to}: ${message.subject}\n\n${message.text}`);
+  }
+}
+
+/**
+ * Mailer that writes each email to a JSON file in a directory (for
+ * development and tests)
+ */
+export class FileMailer implements Mailer {
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const file = path.join(this.directory, `${Date.now()}-${generateUUID()}.json`);
+    await fs.writeFile(file, JSON.stringify({ ...message, sentAt: new Date() }, null, 2));
+  }
+}
+
+/**
+ * Create a mailer that logs emails
+ */
+export const createConsoleMailer = (): ConsoleMailer => new ConsoleMailer();
+
+/**
+ * Create a mailer that writes emails to `directory`
+ */
+export const createFileMailer = (directory: string): FileMailer => new FileMailer(directory);
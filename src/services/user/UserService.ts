@@ -1,4 +1,6 @@
 import { Request, Response } from 'express';
+import { paginate, parsePagination, sendPaginated } from '../../server/pagination';
+import { ValidationError, formatErrorResponse } from '../../utils/errors';
 
 /**
  * Example User Service
@@ -15,13 +17,17 @@ export class UserService {
   }
 
   /**
-   * Get all users
+   * Get a page of users (`?page=&limit=`)
    */
   async getUsers(req: Request, res: Response): Promise<void> {
     try {
       const users = Array.from(this.users.values());
-      res.json({ success: true, data: users });
+      sendPaginated(req, res, paginate(users, parsePagination(req.query)));
     } catch (error) {
+      if (error instanceof ValidationError) {
+        res.status(400).json(formatErrorResponse(error));
+        return;
+      }
       res.status(500).json({
         error: { message: 'Failed to fetch users' },
       });
@@ -52,6 +52,7 @@ export function mockFetch(data: any, status = 200) {
       ok: status >= 200 && status < 300,
       status,
       json: () => Promise.resolve(data),
+      text: () => Promise.resolve(JSON.stringify(data)),
       headers: new Headers(),
     } as Response)
   );
@@ -184,6 +185,9 @@ export function createMockNext(): jest.Mock {
   return jest.fn();
 }
 
+export { MockOidcProvider, createMockOidcProvider } from './oidc';
+export type { MockOidcUser, MockOidcProviderOptions } from './oidc';
+
 // Re-export testing library utilities
 export * from '@testing-library/react';
 export { renderWithProviders as render };
@@ -0,0 +1,284 @@
+import crypto from 'crypto';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import type { OidcClientConfig, OidcDiscoveryDocument } from '../services/auth/OidcClient';
+
+/**
+ * User the mock provider signs in; becomes the ID token's claims
+ */
+export interface MockOidcUser {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  [claim: string]: unknown;
+}
+
+export interface MockOidcProviderOptions {
+  /**
+   * Default: 'http://localhost:4010'
+   */
+  issuer?: string;
+
+  /**
+   * Default: 'stellar-test'
+   */
+  clientId?: string;
+
+  /**
+   * Required from clients when set
+   */
+  clientSecret?: string;
+
+  /**
+   * Signed in by the /authorize route of app()
+   * Default: { sub: 'mock-user', email: 'user@example.com', email_verified: true }
+   */
+  user?: MockOidcUser;
+}
+
+interface PendingCode {
+  redirectUri: string;
+  codeChallenge: string;
+  nonce?: string;
+  user: MockOidcUser;
+  expiresAt: number;
+}
+
+type TokenResult = { status: number; body: Record<string, unknown> };
+
+/**
+ * Local OpenID Connect provider for tests and development. It approves
+ * every authorization request for a given user and issues RS256 ID tokens.
+ *
+ * In tests, pass `provider.fetch` to the OidcClient and complete logins with
+ * `provider.authorize()`, without a network. To click through logins in the
+ * browser, serve `provider.app()` at the issuer URL.
+ *
+ * @example
+ * ```typescript
+ * const provider = new MockOidcProvider();
+ * const client = new OidcClient(provider.clientConfig({ redirectUri: 'http://app/callback' }));
+ *
+ * const { url, state, nonce, codeVerifier } = await client.createAuthorizationRequest();
+ * const code = new URL(provider.authorize(url, { sub: '42', email: 'ada@example.com' }))
+ *   .searchParams.get('code');
+ * ```
+ */
+export class MockOidcProvider {
+  readonly issuer: string;
+  readonly clientId: string;
+  private clientSecret?: string;
+  private defaultUser: MockOidcUser;
+  private codes: Map<string, PendingCode> = new Map();
+  private keys: { kid: string; privateKey: crypto.KeyObject; publicKey: crypto.KeyObject }[] = [];
+
+  constructor(options: MockOidcProviderOptions = {}) {
+    this.issuer = options.issuer || 'http://localhost:4010';
+    this.clientId = options.clientId || 'stellar-test';
+    this.clientSecret = options.clientSecret;
+    this.defaultUser = options.user || {
+      sub: 'mock-user',
+      email: 'user@example.com',
+      email_verified: true,
+    };
+    this.rotateKeys();
+  }
+
+  /**
+   * Client settings matching this provider
+   */
+  clientConfig(
+    overrides: Partial<OidcClientConfig> & Pick<OidcClientConfig, 'redirectUri'>
+  ): OidcClientConfig {
+    return {
+      name: 'mock',
+      issuer: this.issuer,
+      clientId: this.clientId,
+      clientSecret: this.clientSecret,
+      fetch: this.fetch,
+      ...overrides,
+    };
+  }
+
+  discoveryDocument(): OidcDiscoveryDocument {
+    return {
+      issuer: this.issuer,
+      authorization_endpoint: `${this.issuer}/authorize`,
+      token_endpoint: `${this.issuer}/token`,
+      jwks_uri: `${this.issuer}/jwks`,
+      id_token_signing_alg_values_supported: ['RS256'],
+    };
+  }
+
+  /**
+   * Public keys; the newest key signs new ID tokens
+   */
+  jwks(): { keys: crypto.JsonWebKey[] } {
+    return {
+      keys: this.keys.map(({ kid, publicKey }) => ({
+        ...publicKey.export({ format: 'jwk' }),
+        kid,
+        use: 'sig',
+        alg: 'RS256',
+      })),
+    };
+  }
+
+  /**
+   * Start signing with a new key. The previous keys stay published.
+   */
+  rotateKeys(): void {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    this.keys.push({ kid: crypto.randomBytes(8).toString('hex'), privateKey, publicKey });
+  }
+
+  /**
+   * Approve an authorization request for `user`. Returns the redirect URL,
+   * carrying `code` and `state`, or `error` for invalid requests.
+   */
+  authorize(authorizationUrl: string, user: MockOidcUser = this.defaultUser): string {
+    const params = new URL(authorizationUrl).searchParams;
+    const redirectUri = params.get('redirect_uri');
+    if (!redirectUri) {
+      throw new Error('redirect_uri is required');
+    }
+
+    const redirect = new URL(redirectUri);
+    const state = params.get('state');
+    if (state) {
+      redirect.searchParams.set('state', state);
+    }
+
+    const codeChallenge = params.get('code_challenge');
+    if (
+      params.get('client_id') !== this.clientId ||
+      params.get('response_type') !== 'code' ||
+      !codeChallenge ||
+      params.get('code_challenge_method') !== 'S256'
+    ) {
+      redirect.searchParams.set('error', 'invalid_request');
+      return redirect.toString();
+    }
+
+    const code = crypto.randomBytes(16).toString('hex');
+    this.codes.set(code, {
+      redirectUri,
+      codeChallenge,
+      nonce: params.get('nonce') || undefined,
+      user,
+      expiresAt: Date.now() + 60 * 1000,
+    });
+    redirect.searchParams.set('code', code);
+    return redirect.toString();
+  }
+
+  /**
+   * Token endpoint: exchange a code for an ID token. Codes work once.
+   */
+  token(params: URLSearchParams): TokenResult {
+    const code = params.get('code') || '';
+    const pending = this.codes.get(code);
+    this.codes.delete(code);
+
+    const verifier = params.get('code_verifier') || '';
+    const challenge = crypto.createHash('sha256').update(verifier).digest('base64url');
+
+    if (
+      params.get('grant_type') !== 'authorization_code' ||
+      !pending ||
+      pending.expiresAt < Date.now() ||
+      pending.redirectUri !== params.get('redirect_uri') ||
+      pending.codeChallenge !== challenge
+    ) {
+      return { status: 400, body: { error: 'invalid_grant' } };
+    }
+    if (
+      params.get('client_id') !== this.clientId ||
+      (this.clientSecret && params.get('client_secret') !== this.clientSecret)
+    ) {
+      return { status: 401, body: { error: 'invalid_client' } };
+    }
+
+    return {
+      status: 200,
+      body: {
+        token_type: 'Bearer',
+        access_token: crypto.randomBytes(16).toString('hex'),
+        id_token: this.signIdToken(pending.user, pending.nonce),
+        expires_in: 3600,
+      },
+    };
+  }
+
+  /**
+   * Sign an ID token for `user` with the newest key
+   */
+  signIdToken(user: MockOidcUser, nonce?: string): string {
+    const { kid, privateKey } = this.keys[this.keys.length - 1];
+    return jwt.sign({ ...user, nonce }, privateKey, {
+      algorithm: 'RS256',
+      keyid: kid,
+      issuer: this.issuer,
+      audience: this.clientId,
+      expiresIn: '5m',
+    });
+  }
+
+  /**
+   * Fetch implementation that answers the provider's endpoints in process
+   */
+  fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+    const url = new URL(typeof input === 'string' || input instanceof URL ? input : input.url);
+    const endpoint = `${url.origin}${url.pathname}`;
+    const { jwks_uri, token_endpoint } = this.discoveryDocument();
+
+    let result: TokenResult;
+    if (endpoint === `${this.issuer}/.well-known/openid-configuration`) {
+      result = { status: 200, body: { ...this.discoveryDocument() } };
+    } else if (endpoint === jwks_uri) {
+      result = { status: 200, body: this.jwks() };
+    } else if (endpoint === token_endpoint && init?.method === 'POST') {
+      result = this.token(new URLSearchParams(String(init.body || '')));
+    } else {
+      result = { status: 404, body: { error: 'not_found' } };
+    }
+
+    return {
+      ok: result.status >= 200 && result.status < 300,
+      status: result.status,
+      json: async () => result.body,
+    } as Response;
+  }) as typeof fetch;
+
+  /**
+   * Express app serving the provider's endpoints. GET /authorize signs in
+   * the default user and redirects back at once.
+   */
+  app(): express.Express {
+    const app = express();
+    app.use(express.urlencoded({ extended: false }));
+
+    app.get('/.well-known/openid-configuration', (_req, res) => {
+      res.json(this.discoveryDocument());
+    });
+    app.get('/jwks', (_req, res) => {
+      res.json(this.jwks());
+    });
+    app.get('/authorize', (req, res) => {
+      res.redirect(this.authorize(`${this.issuer}${req.originalUrl}`));
+    });
+    app.post('/token', (req, res) => {
+      const { status, body } = this.token(new URLSearchParams(req.body));
+      res.status(status).json(body);
+    });
+
+    return app;
+  }
+}
+
+/**
+ * Create a mock OIDC provider
+ */
+export const createMockOidcProvider = (options?: MockOidcProviderOptions): MockOidcProvider =>
+  new MockOidcProvider(options);
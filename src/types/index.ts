@@ -1,7 +1,9 @@
 export interface AppConfig {
   apiUrl: string;
   auth: AuthConfig;
-  services: Record<string, any>;
+  services?: Record<string, any>;
+  remoteServices?: RemoteServicesOptions;
+  query?: QueryOptions;
   security?: SecurityOptions;
   cors?: CorsOptions;
 }
@@ -13,6 +15,9 @@ export interface ServerConfig {
   security?: SecurityOptions;
   cors?: CorsOptions;
   audit?: AuditOptions;
+  shutdown?: ShutdownOptions;
+  health?: HealthOptions;
+  manifest?: ManifestOptions;
   trustProxy?: boolean | number;
 }
 
@@ -23,9 +28,31 @@ export interface SecurityOptions {
   noSqlInjection?: boolean;
   hpp?: boolean;
   sanitization?: boolean;
+  csrf?: boolean | CsrfOptions;
   apiKey?: ApiKeyOptions;
 }
 
+/**
+ * Double-submit CSRF protection: state-changing requests that carry cookies
+ * must repeat the token of the 'stellar.csrf' cookie in the X-CSRF-Token header
+ */
+export interface CsrfOptions {
+  /**
+   * Paths that are never checked, e.g. webhooks
+   */
+  excludePaths?: (string | RegExp)[];
+
+  /**
+   * Default: true in production
+   */
+  secure?: boolean;
+
+  /**
+   * Default: 'lax'
+   */
+  sameSite?: 'strict' | 'lax';
+}
+
 export interface RateLimitOptions {
   windowMs?: number;
   max?: number;
@@ -56,9 +83,368 @@ export interface AuditOptions {
   sensitiveFields?: string[];
 }
 
+export interface HealthOptions {
+  /**
+   * Mount the health endpoints
+   * Default: true
+   */
+  enabled?: boolean;
+
+  /**
+   * Base path for /live, /ready and the detailed report
+   * Default: '/health'
+   */
+  path?: string;
+
+  /**
+   * Default timeout for each health check (ms)
+   * Default: 5000
+   */
+  timeout?: number;
+
+  /**
+   * Default time a check result is cached (ms)
+   * Default: 2000
+   */
+  cacheTtl?: number;
+
+  /**
+   * Serve the detailed report at the base path. It shows each check's
+   * message, details and timing, such as pool metrics and error messages.
+   * Default: false
+   */
+  detailed?: boolean;
+
+  /**
+   * Middleware run before the detailed report, e.g. an admin check. The
+   * health endpoints are mounted ahead of the security middleware.
+   */
+  middleware?: any[];
+}
+
+export interface ShutdownOptions {
+  /**
+   * Max time to wait for in-flight requests to finish (ms)
+   * Default: 30000
+   */
+  timeout?: number;
+
+  /**
+   * Max time each shutdown hook may take (ms)
+   * Default: 10000
+   */
+  hookTimeout?: number;
+
+  /**
+   * Install signal handlers that trigger a graceful shutdown
+   * Default: true
+   */
+  handleSignals?: boolean;
+
+  /**
+   * Signals that trigger a graceful shutdown
+   * Default: ['SIGINT', 'SIGTERM']
+   */
+  signals?: NodeJS.Signals[];
+
+  /**
+   * Exit the process once a signal-triggered shutdown completes
+   * Default: true
+   */
+  exitOnSignal?: boolean;
+}
+
+/**
+ * Asymmetric algorithms access tokens can be signed with
+ */
+export type SigningAlgorithm = 'RS256' | 'ES256' | 'EdDSA';
+
+/**
+ * Sign access tokens with rotating asymmetric keys. Other services verify
+ * them with the public keys served at /.well-known/jwks.json, without
+ * holding a secret.
+ */
+export interface SigningKeysOptions {
+  /**
+   * Default: 'RS256'
+   */
+  algorithm?: SigningAlgorithm;
+
+  /**
+   * Start signing with a new key once the current one is this old (ms);
+   * 0 never rotates
+   * Default: 30 days
+   */
+  rotationInterval?: number;
+
+  /**
+   * Keep publishing retired keys this long (ms), so tokens they signed stay
+   * valid until they expire
+   * Default: the access token lifetime plus 5 minutes
+   */
+  retention?: number;
+
+  /**
+   * Time the keys read from the SigningKeyStore are reused before it is read
+   * again (ms). Tokens with an unknown `kid` read it again sooner.
+   * Default: 60000
+   */
+  cacheTtl?: number;
+
+  /**
+   * `iss` claim of access tokens
+   */
+  issuer?: string;
+
+  /**
+   * `aud` claim of access tokens
+   */
+  audience?: string | string[];
+}
+
 export interface AuthConfig {
+  /**
+   * Signs access tokens unless `signingKeys` is set, and always signs
+   * password reset, email verification and MFA challenge tokens
+   */
   jwtSecret: string;
+
+  /**
+   * Sign access tokens with asymmetric keys instead of `jwtSecret`
+   */
+  signingKeys?: SigningKeysOptions;
+
+  /**
+   * Sign users in with a session cookie instead of returning tokens
+   */
+  session?: SessionCookieOptions;
+
+  /**
+   * Lifetime of access tokens, e.g. '15m'. Clients renew them with the refresh token.
+   * Default: '15m'
+   */
   tokenExpiration?: string;
+
+  /**
+   * Lifetime of refresh tokens (ms)
+   * Default: 7 days
+   */
+  refreshTokenTtl?: number;
+
+  /**
+   * Roles given to users created through register()
+   * Default: ['user']
+   */
+  defaultRoles?: string[];
+
+  /**
+   * bcrypt cost factor for password hashes
+   * Default: 10
+   */
+  bcryptRounds?: number;
+
+  /**
+   * Minimum checkPasswordStrength score (0-4) for new passwords
+   * Default: 2
+   */
+  minPasswordScore?: number;
+
+  /**
+   * Page that completes a password reset; the token is appended as `?token=`
+   * Default: '/reset-password'
+   */
+  passwordResetUrl?: string;
+
+  /**
+   * Page that confirms an email address; the token is appended as `?token=`
+   * Default: '/verify-email'
+   */
+  emailVerificationUrl?: string;
+
+  /**
+   * Lifetime of password reset links (ms)
+   * Default: 1 hour
+   */
+  passwordResetTtl?: number;
+
+  /**
+   * Lifetime of email verification links (ms)
+   * Default: 24 hours
+   */
+  emailVerificationTtl?: number;
+
+  /**
+   * Start no session (registration, login, refresh, provider logins) until
+   * the user has verified their email address
+   * Default: false
+   */
+  requireEmailVerification?: boolean;
+
+  /**
+   * Issuer shown in authenticator apps
+   * Default: 'StellarJS'
+   */
+  mfaIssuer?: string;
+
+  /**
+   * Users with any of these roles must enroll in MFA before they can sign in
+   * Default: ['admin']
+   */
+  mfaRequiredRoles?: string[];
+
+  /**
+   * Lifetime of the challenge token between the password and the MFA step
+   * Default: '5m'
+   */
+  mfaTokenExpiration?: string;
+
+  /**
+   * Per-account protection against password guessing. `false` turns it off.
+   */
+  lockout?: LockoutOptions | false;
+}
+
+/**
+ * Cookie sessions: logins set a signed, HttpOnly session cookie and answer
+ * with a CSRF token instead of access and refresh tokens. Bearer tokens are
+ * still accepted.
+ */
+export interface SessionCookieOptions {
+  /**
+   * Default: 'stellar.sid'
+   */
+  cookieName?: string;
+
+  /**
+   * Lifetime of a session (ms)
+   * Default: refreshTokenTtl (7 days)
+   */
+  ttl?: number;
+
+  /**
+   * Only send the cookies over HTTPS
+   * Default: true in production
+   */
+  secure?: boolean;
+
+  /**
+   * Default: 'lax'
+   */
+  sameSite?: 'strict' | 'lax';
+  domain?: string;
+
+  /**
+   * Signs the session cookie
+   * Default: jwtSecret
+   */
+  secret?: string;
+}
+
+/**
+ * Failed login handling. Failures are counted per account and per client IP
+ * and account. Each failure delays the next attempt; enough of them lock the
+ * account (or the IP's access to it).
+ */
+export interface LockoutOptions {
+  /**
+   * Failures of an account, from any IP, before it is locked
+   * Default: 10
+   */
+  maxAttempts?: number;
+
+  /**
+   * Failures from one IP against an account before that IP is locked out of it
+   * Default: 5
+   */
+  maxAttemptsPerIp?: number;
+
+  /**
+   * Failures older than this are forgotten (ms)
+   * Default: 15 minutes
+   */
+  windowMs?: number;
+
+  /**
+   * How long a lock lasts with the 'timeout' policy (ms)
+   * Default: 15 minutes
+   */
+  lockoutDuration?: number;
+
+  /**
+   * How locked accounts are unlocked. 'timeout': after lockoutDuration.
+   * 'manual': the account status becomes 'locked' until an admin unlocks it
+   * or the user resets their password. Per-IP locks always time out.
+   * Default: 'timeout'
+   */
+  unlockPolicy?: 'timeout' | 'manual';
+
+  /**
+   * Wait enforced after the second failure; it doubles with each further
+   * failure (ms)
+   * Default: 1000
+   */
+  delayMs?: number;
+
+  /**
+   * Default: 30000
+   */
+  maxDelayMs?: number;
+}
+
+export interface ManifestOptions {
+  /**
+   * Serve the route manifest used by remote service clients. It lists
+   * every registered route, admin routes included.
+   * Default: true, except when NODE_ENV is 'production'
+   */
+  enabled?: boolean;
+
+  /**
+   * Path the manifest is served from
+   * Default: '/api/_manifest'
+   */
+  path?: string;
+}
+
+export interface QueryOptions {
+  /**
+   * Time a result stays fresh before it is revalidated (ms)
+   * Default: 0
+   */
+  staleTime?: number;
+
+  /**
+   * Time an unused result is kept in the cache (ms)
+   * Default: 300000
+   */
+  cacheTime?: number;
+
+  /**
+   * Revalidate mounted queries when the window regains focus
+   * Default: true
+   */
+  refetchOnWindowFocus?: boolean;
+
+  /**
+   * Revalidate mounted queries when the browser comes back online
+   * Default: true
+   */
+  refetchOnReconnect?: boolean;
+}
+
+export interface RemoteServicesOptions {
+  /**
+   * Fall back to the server's route manifest for services not listed in
+   * AppConfig.services
+   * Default: true
+   */
+  enabled?: boolean;
+
+  /**
+   * Path of the manifest on AppConfig.apiUrl
+   * Default: '/api/_manifest'
+   */
+  manifestPath?: string;
 }
 
 export interface ServiceConfig {
@@ -67,16 +453,89 @@ export interface ServiceConfig {
 }
 
 export interface Route {
+  /**
+   * Method name exposed to remote clients. Derived from the path when omitted.
+   */
+  name?: string;
   path: string;
-  method: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
   handler: (req: any, res: any) => void;
   middleware?: any[];
 }
 
+export interface RouteManifestEntry {
+  name: string;
+  method: Route['method'];
+  path: string;
+}
+
+export interface ServiceManifestEntry {
+  name: string;
+  basePath: string;
+  routes: RouteManifestEntry[];
+}
+
+export interface ServiceManifest {
+  services: Record<string, ServiceManifestEntry>;
+}
+
 export interface ServiceResponse<T = any> {
   data?: T;
   error?: string;
   status: number;
+  pagination?: PageInfo;
+}
+
+/**
+ * Position of a page within a paginated list. Page-based results include
+ * `page`, `total` and `totalPages`; cursor-based results include `nextCursor`.
+ */
+export interface PageInfo {
+  limit: number;
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+  page?: number;
+  total?: number;
+  totalPages?: number;
+  nextCursor?: string | null;
+}
+
+/**
+ * A page of items with its position
+ */
+export interface PaginatedResult<T> {
+  data: T[];
+  pagination: PageInfo;
+}
+
+/**
+ * Tokens returned by login, register and refresh
+ */
+export interface AuthTokens {
+  token: string;
+  refreshToken: string;
+
+  /**
+   * Seconds until the access token expires
+   */
+  expiresIn: number;
+}
+
+/**
+ * Returned by login instead of tokens when `AuthConfig.session` is set. The
+ * session itself travels in its cookie.
+ */
+export interface SessionLogin {
+  /**
+   * Send as X-CSRF-Token with state-changing requests; also set as the
+   * 'stellar.csrf' cookie
+   */
+  csrfToken: string;
+
+  /**
+   * Seconds until the session expires
+   */
+  expiresIn: number;
 }
 
 export interface AuthUser {
@@ -84,3 +543,50 @@ export interface AuthUser {
   email: string;
   roles?: string[];
 }
+
+/**
+ * Returned by login instead of tokens when a second factor is needed.
+ * `mfaRequired`: send a code with the token to /mfa/verify.
+ * `mfaSetupRequired`: the user's role requires MFA; enroll with the token
+ * through /mfa/setup and /mfa/enable.
+ */
+export interface MfaChallenge {
+  mfaRequired?: true;
+  mfaSetupRequired?: true;
+  mfaToken: string;
+}
+
+/**
+ * Claims of a verified access token; set as `req.user` by authenticateToken
+ */
+export interface AccessTokenClaims extends AuthUser {
+  /**
+   * Token id, used to revoke this token
+   */
+  jti: string;
+
+  /**
+   * Session the token belongs to
+   */
+  sid: string;
+  iat: number;
+  exp: number;
+}
+
+/**
+ * Active login session of a user, as listed by GET /sessions
+ */
+export interface AuthSession {
+  id: string;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  fingerprint?: string;
+  ip?: string;
+  userAgent?: string;
+
+  /**
+   * Whether this is the session of the requesting token
+   */
+  current: boolean;
+}
@@ -0,0 +1,103 @@
+/**
+ * Error raised when an operation runs past its timeout
+ */
+export class TimeoutError extends Error {
+  constructor(timeout: number) {
+    super(`Request timed out after ${timeout}ms`);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Error used to reject operations cancelled through an AbortSignal
+ */
+export const createAbortError = (message = 'The operation was aborted'): Error => {
+  const error = new Error(message);
+  error.name = 'AbortError';
+  return error;
+};
+
+/**
+ * Check whether an error comes from a cancelled request (fetch, axios or
+ * AbortController). Timeouts are not cancellations and return false.
+ */
+export const isAbortError = (error: unknown): boolean => {
+  const name = (error as { name?: unknown } | null)?.name;
+  return name === 'AbortError' || name === 'CanceledError';
+};
+
+/**
+ * Reject with an AbortError as soon as `signal` aborts, even if `promise`
+ * (e.g. a function that ignores signals) is still pending
+ */
+export const raceAbort = <T>(promise: Promise<T>, signal: AbortSignal): Promise<T> => {
+  if (signal.aborted) {
+    promise.catch(() => undefined);
+    return Promise.reject(createAbortError());
+  }
+
+  return Promise.race([
+    promise,
+    new Promise<never>((_, reject) => {
+      signal.addEventListener('abort', () => reject(createAbortError()), { once: true });
+    }),
+  ]);
+};
+
+/**
+ * Reject with a TimeoutError if `promise` has not settled after `timeout` ms,
+ * then call `onTimeout` (typically to abort the underlying request)
+ */
+export const withTimeout = <T>(
+  promise: Promise<T>,
+  timeout: number | undefined,
+  onTimeout?: () => void
+): Promise<T> => {
+  if (!timeout || timeout <= 0) {
+    return promise;
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  return Promise.race([
+    promise,
+    new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        reject(new TimeoutError(timeout));
+        onTimeout?.();
+      }, timeout);
+    }),
+  ]).finally(() => clearTimeout(timer));
+};
+
+/**
+ * "Latest call wins" bookkeeping. Each call gets its own AbortController;
+ * starting a call aborts the previous one and cancel() aborts the current one.
+ */
+export class LatestCall {
+  private controller: AbortController | null = null;
+
+  /**
+   * Start a call, aborting the one in flight
+   */
+  start(): AbortController {
+    this.controller?.abort();
+    this.controller = new AbortController();
+    return this.controller;
+  }
+
+  /**
+   * Whether a call is still the latest one and has not been cancelled
+   */
+  isLatest(controller: AbortController): boolean {
+    return this.controller === controller;
+  }
+
+  /**
+   * Abort the call in flight
+   */
+  cancel(): void {
+    this.controller?.abort();
+    this.controller = null;
+  }
+}
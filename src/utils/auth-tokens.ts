@@ -0,0 +1,118 @@
+import type { AuthUser } from '../types';
+
+/**
+ * localStorage key of the access token
+ */
+export const AUTH_TOKEN_KEY = 'stellar_auth_token';
+
+/**
+ * localStorage key of the refresh token
+ */
+export const REFRESH_TOKEN_KEY = 'stellar_refresh_token';
+
+/**
+ * localStorage key of the user signed in with a cookie session. The session
+ * token itself stays in its HttpOnly cookie.
+ */
+export const SESSION_USER_KEY = 'stellar_session_user';
+
+const storage = (): Storage | null => (typeof window === 'undefined' ? null : window.localStorage);
+
+const listeners = new Set<() => void>();
+const notify = () => listeners.forEach((listener) => listener());
+
+/**
+ * Call `listener` whenever the stored tokens change in this tab. Returns a
+ * function that unsubscribes.
+ */
+export const subscribeAuthTokens = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getStoredToken = (): string | null => storage()?.getItem(AUTH_TOKEN_KEY) ?? null;
+
+export const getStoredRefreshToken = (): string | null =>
+  storage()?.getItem(REFRESH_TOKEN_KEY) ?? null;
+
+/**
+ * Persist the tokens returned by login, register or refresh
+ */
+export const storeAuthTokens = (tokens: { token: string; refreshToken?: string }): void => {
+  storage()?.setItem(AUTH_TOKEN_KEY, tokens.token);
+  if (tokens.refreshToken) {
+    storage()?.setItem(REFRESH_TOKEN_KEY, tokens.refreshToken);
+  }
+  notify();
+};
+
+/**
+ * Persist the user returned by a cookie session login
+ */
+export const storeSessionUser = (user: AuthUser): void => {
+  storage()?.setItem(SESSION_USER_KEY, JSON.stringify(user));
+  notify();
+};
+
+export const clearAuthTokens = (): void => {
+  storage()?.removeItem(AUTH_TOKEN_KEY);
+  storage()?.removeItem(REFRESH_TOKEN_KEY);
+  storage()?.removeItem(SESSION_USER_KEY);
+  notify();
+};
+
+// Payload of a JWT, or null when it is malformed
+const decodePayload = (token: string): Record<string, unknown> | null => {
+  try {
+    const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    return JSON.parse(atob(payload)) as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Expiry of a JWT in ms since the epoch, or null when it has none. The
+ * signature is not checked; only use this to schedule refreshes.
+ */
+export const getTokenExpiry = (token: string): number | null => {
+  const exp = decodePayload(token)?.exp;
+  return typeof exp === 'number' ? exp * 1000 : null;
+};
+
+/**
+ * User an access token was issued to, or null when it cannot be read. Only
+ * use this to adapt the UI; the server decides what the user may do.
+ */
+export const getTokenUser = (token: string): AuthUser | null => {
+  const payload = decodePayload(token);
+  if (!payload || typeof payload.id !== 'string' || typeof payload.email !== 'string') {
+    return null;
+  }
+
+  return {
+    id: payload.id,
+    email: payload.email,
+    roles: Array.isArray(payload.roles) ? (payload.roles as string[]) : undefined,
+  };
+};
+
+/**
+ * Signed-in user: the one the stored access token was issued to, or the
+ * user of a cookie session. Only use this to adapt the UI.
+ */
+export const getStoredUser = (): AuthUser | null => {
+  const token = getStoredToken();
+  if (token) {
+    return getTokenUser(token);
+  }
+
+  try {
+    const user = JSON.parse(storage()?.getItem(SESSION_USER_KEY) || 'null') as AuthUser | null;
+    return user && typeof user.id === 'string' ? user : null;
+  } catch {
+    return null;
+  }
+};
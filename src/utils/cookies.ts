@@ -0,0 +1,72 @@
+import crypto from 'crypto';
+import type { Response } from 'express';
+import { constantTimeCompare } from './security';
+
+/**
+ * Parse a Cookie header into name/value pairs. The first of duplicate
+ * names wins, as in browsers.
+ */
+export const parseCookies = (header?: string): Record<string, string> => {
+  const cookies: Record<string, string> = {};
+  if (!header) {
+    return cookies;
+  }
+
+  header.split(';').forEach((pair) => {
+    const index = pair.indexOf('=');
+    if (index < 0) return;
+
+    const name = pair.slice(0, index).trim();
+    if (!name || name in cookies) return;
+
+    const value = pair.slice(index + 1).trim();
+    try {
+      cookies[name] = decodeURIComponent(value);
+    } catch {
+      cookies[name] = value;
+    }
+  });
+
+  return cookies;
+};
+
+const cookieSignature = (value: string, secret: string): string =>
+  crypto.createHmac('sha256', secret).update(value).digest('base64url');
+
+/**
+ * Append an HMAC to a cookie value so it cannot be altered by the client
+ */
+export const signCookie = (value: string, secret: string): string =>
+  `${value}.${cookieSignature(value, secret)}`;
+
+/**
+ * The original value of a signed cookie, or null when the signature does
+ * not match
+ */
+export const unsignCookie = (signed: string, secret: string): string | null => {
+  const index = signed.lastIndexOf('.');
+  if (index <= 0) {
+    return null;
+  }
+
+  const value = signed.slice(0, index);
+  return constantTimeCompare(signed.slice(index + 1), cookieSignature(value, secret))
+    ? value
+    : null;
+};
+
+/**
+ * Drop Set-Cookie headers for `name` already added to a response, so a
+ * cookie set later in the request replaces them
+ */
+export const removeSetCookie = (res: Response, name: string): void => {
+  const header = res.getHeader('Set-Cookie');
+  if (!header) {
+    return;
+  }
+
+  const cookies = (Array.isArray(header) ? header : [String(header)]).filter(
+    (cookie) => !cookie.startsWith(`${name}=`)
+  );
+  res.setHeader('Set-Cookie', cookies);
+};
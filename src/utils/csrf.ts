@@ -0,0 +1,56 @@
+/**
+ * Cookie holding the CSRF token. It is readable by scripts, unlike the
+ * session cookie, so the client can copy it into CSRF_HEADER_NAME.
+ */
+export const CSRF_COOKIE_NAME = 'stellar.csrf';
+
+/**
+ * Header state-changing requests carry the CSRF token in
+ */
+export const CSRF_HEADER_NAME = 'X-CSRF-Token';
+
+/**
+ * Methods that never need a CSRF token
+ */
+export const CSRF_SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * CSRF token from the browser's cookies, or null outside the browser or
+ * before the server has set one
+ */
+export const getCsrfToken = (): string | null => {
+  if (typeof document === 'undefined') {
+    return null;
+  }
+
+  const prefix = `${CSRF_COOKIE_NAME}=`;
+  const cookie = document.cookie
+    .split(';')
+    .map((pair) => pair.trim())
+    .find((pair) => pair.startsWith(prefix));
+  return cookie ? decodeURIComponent(cookie.slice(prefix.length)) : null;
+};
+
+/**
+ * Request init with the CSRF header added for state-changing methods,
+ * when a CSRF cookie is set
+ */
+export const withCsrfHeader = (init: RequestInit = {}): RequestInit => {
+  const method = (init.method || 'GET').toUpperCase();
+  const token = CSRF_SAFE_METHODS.includes(method) ? null : getCsrfToken();
+  if (!token) {
+    return init;
+  }
+
+  const headers: Record<string, string> = {};
+  if (Array.isArray(init.headers)) {
+    init.headers.forEach(([name, value]) => (headers[name] = value));
+  } else if (typeof Headers !== 'undefined' && init.headers instanceof Headers) {
+    init.headers.forEach((value, name) => (headers[name] = value));
+  } else {
+    Object.assign(headers, init.headers);
+  }
+
+  headers[CSRF_HEADER_NAME] = token;
+  return { ...init, headers };
+};
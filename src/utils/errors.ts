@@ -50,8 +50,14 @@ export class ConflictError extends StellarError {
 }
 
 export class RateLimitError extends StellarError {
-  constructor(message = 'Too many requests') {
+  /**
+   * Seconds until the client may retry, for the Retry-After header
+   */
+  public retryAfter?: number;
+
+  constructor(message = 'Too many requests', retryAfter?: number) {
     super(message, 429);
+    this.retryAfter = retryAfter;
   }
 }
 
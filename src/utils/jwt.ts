@@ -0,0 +1,129 @@
+import crypto from 'crypto';
+import jwt, { JwtPayload, SignOptions, VerifyOptions } from 'jsonwebtoken';
+import { SigningAlgorithm } from '../types';
+
+/**
+ * Key a JWT is signed or verified with. PEM strings and KeyObjects both work.
+ */
+export interface JwtKey {
+  kid: string;
+  algorithm: SigningAlgorithm;
+  key: crypto.KeyObject | string;
+}
+
+/**
+ * A JSON Web Key as published in a JWKS
+ */
+export type JsonWebKey = crypto.JsonWebKey & { kid?: string; alg?: string; use?: string };
+
+export interface JsonWebKeySet {
+  keys: JsonWebKey[];
+}
+
+const encodeJson = (value: unknown): string =>
+  Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const decodeJson = (segment: string): Record<string, unknown> => {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString());
+  } catch {
+    throw new jwt.JsonWebTokenError('jwt malformed');
+  }
+};
+
+/**
+ * Sign a JWT with a private key, with `kid` in its header.
+ *
+ * jsonwebtoken has no EdDSA support, so EdDSA tokens take their claims from
+ * an unsigned jsonwebtoken token and are signed with node's crypto.
+ */
+export const signJwt = (
+  payload: object,
+  { kid, algorithm, key }: JwtKey,
+  options: SignOptions = {}
+) => {
+  if (algorithm !== 'EdDSA') {
+    return jwt.sign(payload, key, { ...options, algorithm, keyid: kid });
+  }
+
+  const [, body] = jwt.sign(payload, '', { ...options, algorithm: 'none' }).split('.');
+  const header = encodeJson({ alg: 'EdDSA', typ: 'JWT', kid });
+  const signature = crypto.sign(null, Buffer.from(`${header}.${body}`), key);
+
+  return `${header}.${body}.${signature.toString('base64url')}`;
+};
+
+/**
+ * Verify a JWT against a public key and check its time, issuer and audience
+ * claims. The token must use the key's algorithm. Throws jsonwebtoken's errors.
+ */
+export const verifyJwt = (
+  token: string,
+  { algorithm, key }: Omit<JwtKey, 'kid'>,
+  options: VerifyOptions = {}
+): JwtPayload => {
+  if (algorithm !== 'EdDSA') {
+    return jwt.verify(token, key, { ...options, algorithms: [algorithm] }) as JwtPayload;
+  }
+
+  const [header, body, signature] = token.split('.');
+  if (!header || !body || !signature) {
+    throw new jwt.JsonWebTokenError('jwt malformed');
+  }
+  if (decodeJson(header).alg !== 'EdDSA') {
+    throw new jwt.JsonWebTokenError('invalid algorithm');
+  }
+  if (
+    !crypto.verify(null, Buffer.from(`${header}.${body}`), key, Buffer.from(signature, 'base64url'))
+  ) {
+    throw new jwt.JsonWebTokenError('invalid signature');
+  }
+
+  // The signature is checked; let jsonwebtoken check the claims
+  const unsigned = `${encodeJson({ alg: 'none', typ: 'JWT' })}.${body}.`;
+  return jwt.verify(unsigned, '', { ...options, algorithms: ['none'] }) as JwtPayload;
+};
+
+/**
+ * `kid` and `alg` from a JWT's header, without verifying it
+ */
+export const decodeJwtHeader = (token: string): { kid?: string; alg?: string } => {
+  const header = decodeJson(token.split('.')[0] || '');
+  return {
+    kid: typeof header.kid === 'string' ? header.kid : undefined,
+    alg: typeof header.alg === 'string' ? header.alg : undefined,
+  };
+};
+
+/**
+ * Public JWK for a key, ready for a JWKS
+ */
+export const toPublicJwk = ({ kid, algorithm, key }: JwtKey): JsonWebKey => ({
+  ...crypto.createPublicKey(key).export({ format: 'jwk' }),
+  kid,
+  alg: algorithm,
+  use: 'sig',
+});
+
+/**
+ * Algorithm a JWK is used with: its `alg`, or the default for its key type
+ */
+export const getJwkAlgorithm = (jwk: JsonWebKey): SigningAlgorithm | null => {
+  if (jwk.alg === 'RS256' || jwk.alg === 'ES256' || jwk.alg === 'EdDSA') {
+    return jwk.alg;
+  }
+  if (jwk.alg) {
+    return null;
+  }
+
+  if (jwk.kty === 'RSA') {
+    return 'RS256';
+  }
+  if (jwk.kty === 'EC' && jwk.crv === 'P-256') {
+    return 'ES256';
+  }
+  if (jwk.kty === 'OKP' && jwk.crv === 'Ed25519') {
+    return 'EdDSA';
+  }
+  return null;
+};
@@ -6,6 +6,8 @@ import axios, {
   InternalAxiosRequestConfig,
 } from 'axios';
 import { useEffect } from 'react';
+import { PaginatedResult } from '../types';
+import { AUTH_TOKEN_KEY, REFRESH_TOKEN_KEY, getStoredRefreshToken } from './auth-tokens';
 
 export interface StellarPhpConfig {
   baseURL: string;
@@ -15,11 +17,26 @@ export interface StellarPhpConfig {
     token?: string;
     type?: 'Bearer' | 'Basic';
   };
+
+  /**
+   * Endpoint that exchanges a refresh token for new tokens
+   * Default: 'auth/refresh'
+   */
+  refreshPath?: string;
+
+  /**
+   * Called when a request is unauthorized and the session cannot be renewed.
+   * Redirect to a login page here.
+   */
+  onAuthFailure?: () => void;
 }
 
+type RetriableRequestConfig = InternalAxiosRequestConfig & { _retry?: boolean };
+
 export class StellarPhpClient {
   private client: AxiosInstance;
   private config: StellarPhpConfig;
+  private refreshing: Promise<string | null> | null = null;
 
   constructor(config: StellarPhpConfig) {
     this.config = config;
@@ -53,30 +70,68 @@ export class StellarPhpClient {
     // Response interceptor
     this.client.interceptors.response.use(
       (response: AxiosResponse) => response,
-      (error: unknown) => {
-        // Handle common error scenarios
-        if (error && typeof error === 'object' && 'response' in error) {
-          const axiosError = error as { response?: { status: number } };
-          if (axiosError.response?.status === 401) {
-            // Unauthorized - clear token and redirect to login
-            this.clearAuth();
-            if (typeof window !== 'undefined') {
-              window.location.href = '/login';
+      async (error: unknown) => {
+        const request = axios.isAxiosError(error)
+          ? (error.config as RetriableRequestConfig | undefined)
+          : undefined;
+
+        // Unauthorized - renew the token once and retry, otherwise sign out.
+        // A failed refresh request is handled by refreshAuth itself.
+        if (
+          axios.isAxiosError(error) &&
+          error.response?.status === 401 &&
+          request &&
+          request.url !== this.refreshPath()
+        ) {
+          if (!request._retry && getStoredRefreshToken()) {
+            request._retry = true;
+            if (await this.refreshAuth()) {
+              return this.client(request);
             }
+            return Promise.reject(error);
           }
+
+          this.clearAuth();
+          this.config.onAuthFailure?.();
         }
         return Promise.reject(error);
       }
     );
   }
 
+  private refreshPath(): string {
+    return this.config.refreshPath || 'auth/refresh';
+  }
+
+  /**
+   * Exchange the stored refresh token for new tokens. Concurrent callers share
+   * one request. Resolves with the new access token, or null after signing out.
+   */
+  refreshAuth(): Promise<string | null> {
+    if (!this.refreshing) {
+      this.refreshing = this.client
+        .post(this.refreshPath(), { refreshToken: getStoredRefreshToken() })
+        .then((response) => {
+          this.storeTokens(response.data);
+          return response.data.token as string;
+        })
+        .catch(() => {
+          this.clearAuth();
+          this.config.onAuthFailure?.();
+          return null;
+        })
+        .finally(() => {
+          this.refreshing = null;
+        });
+    }
+    return this.refreshing;
+  }
+
   // Authentication methods
   async login(credentials: { email: string; password: string }) {
     try {
       const response = await this.client.post('auth/login', credentials);
-      if (response.data.token) {
-        this.setAuthToken(response.data.token);
-      }
+      this.storeTokens(response.data);
       return response.data;
     } catch (error) {
       throw this.handleError(error);
@@ -85,16 +140,26 @@ export class StellarPhpClient {
 
   setAuthToken(token: string, type: 'Bearer' | 'Basic' = 'Bearer') {
     this.config.auth = { token, type };
-    localStorage.setItem('stellar_auth_token', token);
+    localStorage.setItem(AUTH_TOKEN_KEY, token);
     localStorage.setItem('stellar_auth_type', type);
   }
 
   clearAuth() {
     this.config.auth = undefined;
-    localStorage.removeItem('stellar_auth_token');
+    localStorage.removeItem(AUTH_TOKEN_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
     localStorage.removeItem('stellar_auth_type');
   }
 
+  private storeTokens(data: { token?: string; refreshToken?: string }) {
+    if (data.token) {
+      this.setAuthToken(data.token);
+    }
+    if (data.refreshToken) {
+      localStorage.setItem(REFRESH_TOKEN_KEY, data.refreshToken);
+    }
+  }
+
   // Generic HTTP methods
   async get<T = any>(endpoint: string, config?: AxiosRequestConfig): Promise<T> {
     try {
@@ -132,30 +197,79 @@ export class StellarPhpClient {
     }
   }
 
-  // CRUD operations helper
-  async findAll<T = any>(resource: string, params?: Record<string, any>): Promise<T[]> {
+  // CRUD operations helper. Pass `{ signal }` in config to make a call cancellable.
+  async findAll<T = any>(
+    resource: string,
+    params?: Record<string, any>,
+    config?: AxiosRequestConfig
+  ): Promise<T[]> {
     const queryString = params ? '?' + new URLSearchParams(params).toString() : '';
-    return this.get(`${resource}${queryString}`);
+    return this.get(`${resource}${queryString}`, config);
+  }
+
+  /**
+   * Fetch one page of a resource. Servers that answer with the
+   * `{ data, pagination }` envelope are read as-is; a plain array is wrapped.
+   */
+  async findPage<T = unknown>(
+    resource: string,
+    params: { page?: number; limit?: number; cursor?: string } & Record<string, unknown> = {},
+    config?: AxiosRequestConfig
+  ): Promise<PaginatedResult<T>> {
+    const body = await this.findAll<T>(resource, params, config);
+
+    if (!Array.isArray(body) && body && typeof body === 'object' && 'pagination' in body) {
+      return body as PaginatedResult<T>;
+    }
+
+    const items = Array.isArray(body) ? body : [];
+    return {
+      data: items,
+      pagination: {
+        page: params.page,
+        limit: params.limit ?? items.length,
+        hasNextPage: false,
+        hasPreviousPage: (params.page ?? 1) > 1,
+      },
+    };
   }
 
-  async findById<T = any>(resource: string, id: string | number): Promise<T> {
-    return this.get(`${resource}/${id}`);
+  async findById<T = any>(
+    resource: string,
+    id: string | number,
+    config?: AxiosRequestConfig
+  ): Promise<T> {
+    return this.get(`${resource}/${id}`, config);
   }
 
-  async create<T = any>(resource: string, data: any): Promise<T> {
-    return this.post(resource, data);
+  async create<T = any>(resource: string, data: any, config?: AxiosRequestConfig): Promise<T> {
+    return this.post(resource, data, config);
   }
 
-  async update<T = any>(resource: string, id: string | number, data: any): Promise<T> {
-    return this.put(`${resource}/${id}`, data);
+  async update<T = any>(
+    resource: string,
+    id: string | number,
+    data: any,
+    config?: AxiosRequestConfig
+  ): Promise<T> {
+    return this.put(`${resource}/${id}`, data, config);
   }
 
-  async remove<T = any>(resource: string, id: string | number): Promise<T> {
-    return this.delete(`${resource}/${id}`);
+  async remove<T = any>(
+    resource: string,
+    id: string | number,
+    config?: AxiosRequestConfig
+  ): Promise<T> {
+    return this.delete(`${resource}/${id}`, config);
   }
 
   // File upload helper
-  async uploadFile(endpoint: string, file: File, additionalData?: Record<string, any>) {
+  async uploadFile(
+    endpoint: string,
+    file: File,
+    additionalData?: Record<string, any>,
+    config?: AxiosRequestConfig
+  ) {
     const formData = new FormData();
     formData.append('file', file);
 
@@ -167,7 +281,9 @@ export class StellarPhpClient {
 
     try {
       const response = await this.client.post(endpoint, formData, {
+        ...config,
         headers: {
+          ...config?.headers,
           'Content-Type': 'multipart/form-data',
         },
       });
@@ -178,17 +294,25 @@ export class StellarPhpClient {
   }
 
   // Health check
-  async healthCheck() {
+  async healthCheck(config?: AxiosRequestConfig) {
     try {
-      const response = await this.get('health');
+      const response = await this.get('health', config);
       return response;
     } catch (error) {
+      if (axios.isCancel(error)) {
+        throw error;
+      }
       console.warn('API health check failed:', error);
       return { status: 'error', message: 'API unavailable' };
     }
   }
 
   private handleError(error: any) {
+    if (axios.isCancel(error)) {
+      // Cancelled requests keep axios' CanceledError so callers can tell them apart
+      return error;
+    }
+
     if (error.response) {
       // Server responded with error status
       return {
@@ -225,7 +349,7 @@ export function useStellarPhp(config?: Partial<StellarPhpConfig>) {
 
   // Restore auth token on initialization
   useEffect(() => {
-    const token = localStorage.getItem('stellar_auth_token');
+    const token = localStorage.getItem(AUTH_TOKEN_KEY);
     const type = localStorage.getItem('stellar_auth_type') as 'Bearer' | 'Basic';
     if (token) {
       client.setAuthToken(token, type || 'Bearer');
@@ -239,24 +363,34 @@ export function useStellarPhp(config?: Partial<StellarPhpConfig>) {
 export class UserResource {
   constructor(private client: StellarPhpClient) {}
 
-  async getAll(params?: { page?: number; limit?: number; search?: string }) {
-    return this.client.findAll('users', params);
+  async getAll(
+    params?: { page?: number; limit?: number; search?: string },
+    config?: AxiosRequestConfig
+  ) {
+    return this.client.findAll('users', params, config);
   }
 
-  async getById(id: string | number) {
-    return this.client.findById('users', id);
+  async getById(id: string | number, config?: AxiosRequestConfig) {
+    return this.client.findById('users', id, config);
   }
 
-  async create(userData: { name: string; email: string; password?: string }) {
-    return this.client.create('users', userData);
+  async create(
+    userData: { name: string; email: string; password?: string },
+    config?: AxiosRequestConfig
+  ) {
+    return this.client.create('users', userData, config);
   }
 
-  async update(id: string | number, userData: Partial<{ name: string; email: string }>) {
-    return this.client.update('users', id, userData);
+  async update(
+    id: string | number,
+    userData: Partial<{ name: string; email: string }>,
+    config?: AxiosRequestConfig
+  ) {
+    return this.client.update('users', id, userData, config);
   }
 
-  async delete(id: string | number) {
-    return this.client.remove('users', id);
+  async delete(id: string | number, config?: AxiosRequestConfig) {
+    return this.client.remove('users', id, config);
   }
 }
 
@@ -0,0 +1,422 @@
+import { isAbortError, raceAbort } from './abort';
+
+/**
+ * Key identifying a cached query, e.g. ['users', 'list', { page: 1 }]
+ */
+export type QueryKey = readonly unknown[];
+
+/**
+ * Status of a cached query
+ */
+export type QueryStatus = 'idle' | 'loading' | 'success' | 'error';
+
+/**
+ * Snapshot of a cached query
+ */
+export interface QueryState<T = unknown> {
+  data: T | undefined;
+  error: Error | null;
+  status: QueryStatus;
+  updatedAt: number;
+  isFetching: boolean;
+  isInvalidated: boolean;
+}
+
+/**
+ * Options for a query cache
+ */
+export interface QueryCacheOptions {
+  /**
+   * Time a result stays fresh before it is revalidated (ms)
+   * Default: 0
+   */
+  staleTime?: number;
+
+  /**
+   * Time an unused result is kept before it is garbage collected (ms)
+   * Default: 300000
+   */
+  cacheTime?: number;
+}
+
+/**
+ * Options for a single fetch
+ */
+export interface QueryFetchOptions {
+  /**
+   * Override the cache's stale time
+   */
+  staleTime?: number;
+
+  /**
+   * Fetch even when the cached result is fresh
+   * Default: false
+   */
+  force?: boolean;
+}
+
+/**
+ * Serializable cache contents, used to hand server-fetched data to the client
+ */
+export interface DehydratedQueryState {
+  queries: { key: QueryKey; data: unknown; updatedAt: number }[];
+}
+
+type QueryListener = () => void;
+
+interface QueryEntry {
+  key: QueryKey;
+  state: QueryState;
+  promise: Promise<unknown> | null;
+  controller: AbortController | null;
+  listeners: Set<QueryListener>;
+  gcTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const idleState: QueryState = {
+  data: undefined,
+  error: null,
+  status: 'idle',
+  updatedAt: 0,
+  isFetching: false,
+  isInvalidated: false,
+};
+
+/**
+ * Stable hash of a query key; object keys are sorted so `{ a, b }` and `{ b, a }` match
+ */
+export const hashQueryKey = (key: QueryKey): string =>
+  JSON.stringify(key, (_, value) =>
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? Object.keys(value)
+          .sort()
+          .reduce<Record<string, unknown>>((sorted, name) => {
+            sorted[name] = value[name];
+            return sorted;
+          }, {})
+      : value
+  );
+
+const matchesPrefix = (key: QueryKey, prefix: QueryKey): boolean =>
+  prefix.length <= key.length &&
+  prefix.every((part, index) => hashQueryKey([part]) === hashQueryKey([key[index]]));
+
+/**
+ * Shared cache of query results with stale-while-revalidate, in-flight
+ * deduplication and garbage collection of unused entries
+ */
+export class QueryCache {
+  private entries: Map<string, QueryEntry> = new Map();
+  private staleTime: number;
+  private cacheTime: number;
+
+  constructor(options: QueryCacheOptions = {}) {
+    this.staleTime = options.staleTime ?? 0;
+    this.cacheTime = options.cacheTime ?? 5 * 60 * 1000;
+  }
+
+  /**
+   * Current state of a query
+   */
+  getState<T = unknown>(key: QueryKey): QueryState<T> {
+    const entry = this.entries.get(hashQueryKey(key));
+    return (entry ? entry.state : idleState) as QueryState<T>;
+  }
+
+  /**
+   * Cached data of a query
+   */
+  getData<T = unknown>(key: QueryKey): T | undefined {
+    return this.getState<T>(key).data;
+  }
+
+  /**
+   * Check whether a query needs to be fetched again
+   */
+  isStale(key: QueryKey, staleTime = this.staleTime): boolean {
+    const { status, updatedAt, isInvalidated } = this.getState(key);
+    return status !== 'success' || isInvalidated || Date.now() - updatedAt >= staleTime;
+  }
+
+  /**
+   * Listen for changes to a query. Unused entries are garbage collected
+   * `cacheTime` ms after their last listener unsubscribes.
+   */
+  subscribe(key: QueryKey, listener: QueryListener): () => void {
+    const entry = this.getEntry(key);
+    entry.listeners.add(listener);
+    this.cancelGc(entry);
+
+    return () => {
+      entry.listeners.delete(listener);
+      if (entry.listeners.size === 0) {
+        this.scheduleGc(entry);
+      }
+    };
+  }
+
+  /**
+   * Fetch a query. Fresh cached data is returned without calling `fn`, and
+   * concurrent fetches of the same key share one request. A forced fetch
+   * always calls `fn`: the request in flight still settles for its callers
+   * but no longer updates the cache. `fn` receives a signal that is aborted
+   * when the fetch is cancelled.
+   */
+  fetch<T>(
+    key: QueryKey,
+    fn: (signal: AbortSignal) => Promise<T>,
+    options: QueryFetchOptions = {}
+  ): Promise<T> {
+    const entry = this.getEntry(key);
+
+    if (entry.promise && !options.force) {
+      return entry.promise as Promise<T>;
+    }
+
+    if (!options.force && !this.isStale(key, options.staleTime)) {
+      return Promise.resolve(entry.state.data as T);
+    }
+
+    const previous = entry.state;
+    const controller = new AbortController();
+
+    this.update(entry, {
+      isFetching: true,
+      status: previous.status === 'success' ? 'success' : 'loading',
+    });
+
+    // Only the latest fetch of the entry may update it
+    const settle = (): boolean => {
+      if (entry.controller !== controller) {
+        return false;
+      }
+      entry.promise = null;
+      entry.controller = null;
+      return true;
+    };
+
+    const promise = raceAbort(
+      Promise.resolve().then(() => fn(controller.signal)),
+      controller.signal
+    ).then(
+      (data) => {
+        if (settle()) {
+          this.update(entry, {
+            data,
+            error: null,
+            status: 'success',
+            updatedAt: Date.now(),
+            isFetching: false,
+            isInvalidated: false,
+          });
+          this.scheduleGcIfUnused(entry);
+        }
+        return data;
+      },
+      (error) => {
+        if (!settle()) {
+          throw error;
+        }
+
+        if (controller.signal.aborted && isAbortError(error)) {
+          // Cancelled: go back to what was cached before the fetch (a fetch
+          // that replaced another one started from 'loading')
+          this.update(entry, {
+            status: previous.status === 'loading' ? 'idle' : previous.status,
+            error: previous.error,
+            isFetching: false,
+          });
+        } else {
+          this.update(entry, {
+            error: error instanceof Error ? error : new Error(String(error)),
+            status: 'error',
+            isFetching: false,
+          });
+        }
+        this.scheduleGcIfUnused(entry);
+        throw error;
+      }
+    );
+
+    entry.promise = promise;
+    entry.controller = controller;
+    return promise;
+  }
+
+  /**
+   * Abort in-flight fetches of every query whose key starts with `prefix`.
+   * Cancelled queries keep the data they had before the fetch. With `exact`,
+   * only the query whose key equals `prefix` is cancelled. Resolves once the
+   * cancelled fetches have settled.
+   */
+  cancel(prefix: QueryKey = [], options: { exact?: boolean } = {}): Promise<void> {
+    const entries = options.exact
+      ? [this.entries.get(hashQueryKey(prefix))]
+      : Array.from(this.entries.values()).filter((entry) => matchesPrefix(entry.key, prefix));
+
+    const settled: Promise<unknown>[] = [];
+    entries.forEach((entry) => {
+      if (entry?.controller && entry.promise) {
+        entry.controller.abort();
+        settled.push(entry.promise.catch(() => undefined));
+      }
+    });
+    return Promise.all(settled).then(() => undefined);
+  }
+
+  /**
+   * Number of listeners subscribed to a query
+   */
+  getObserverCount(key: QueryKey): number {
+    return this.entries.get(hashQueryKey(key))?.listeners.size ?? 0;
+  }
+
+  /**
+   * Set (or update) the cached data of a query
+   */
+  setData<T>(key: QueryKey, data: T | ((previous: T | undefined) => T), updatedAt = Date.now()) {
+    const entry = this.getEntry(key);
+    const next =
+      typeof data === 'function'
+        ? (data as (previous: T | undefined) => T)(entry.state.data as T | undefined)
+        : data;
+
+    this.update(entry, {
+      data: next,
+      error: null,
+      status: 'success',
+      updatedAt,
+      isInvalidated: false,
+    });
+    this.scheduleGcIfUnused(entry);
+  }
+
+  /**
+   * Restore a state taken with getState(), e.g. to roll back an optimistic update
+   */
+  restore(key: QueryKey, snapshot: QueryState): void {
+    const { data, error, status, updatedAt, isInvalidated } = snapshot;
+    this.update(this.getEntry(key), { data, error, status, updatedAt, isInvalidated });
+  }
+
+  /**
+   * Mark every query whose key starts with `prefix` as stale and notify its
+   * listeners so mounted queries refetch. Returns the invalidated keys.
+   */
+  invalidate(prefix: QueryKey = []): QueryKey[] {
+    const keys: QueryKey[] = [];
+
+    this.entries.forEach((entry) => {
+      if (matchesPrefix(entry.key, prefix)) {
+        keys.push(entry.key);
+        this.update(entry, { isInvalidated: true });
+      }
+    });
+
+    return keys;
+  }
+
+  /**
+   * Remove every query whose key starts with `prefix`
+   */
+  remove(prefix: QueryKey = []): void {
+    this.entries.forEach((entry, hash) => {
+      if (matchesPrefix(entry.key, prefix)) {
+        this.cancelGc(entry);
+        entry.controller?.abort();
+        this.entries.delete(hash);
+      }
+    });
+  }
+
+  /**
+   * Remove all queries
+   */
+  clear(): void {
+    this.remove([]);
+  }
+
+  /**
+   * Serializable snapshot of successful queries (e.g. to embed in SSR output)
+   */
+  dehydrate(): DehydratedQueryState {
+    const queries: DehydratedQueryState['queries'] = [];
+
+    this.entries.forEach((entry) => {
+      if (entry.state.status === 'success') {
+        queries.push({ key: entry.key, data: entry.state.data, updatedAt: entry.state.updatedAt });
+      }
+    });
+
+    return { queries };
+  }
+
+  /**
+   * Seed the cache from a dehydrated snapshot. Newer cached data is kept.
+   */
+  hydrate(state: DehydratedQueryState): void {
+    state.queries.forEach(({ key, data, updatedAt }) => {
+      if (this.getState(key).updatedAt < updatedAt) {
+        this.setData(key, data, updatedAt);
+      }
+    });
+  }
+
+  private getEntry(key: QueryKey): QueryEntry {
+    const hash = hashQueryKey(key);
+    let entry = this.entries.get(hash);
+
+    if (!entry) {
+      entry = {
+        key,
+        state: idleState,
+        promise: null,
+        controller: null,
+        listeners: new Set(),
+        gcTimer: null,
+      };
+      this.entries.set(hash, entry);
+    }
+
+    return entry;
+  }
+
+  private update(entry: QueryEntry, changes: Partial<QueryState>): void {
+    entry.state = { ...entry.state, ...changes };
+    entry.listeners.forEach((listener) => listener());
+  }
+
+  private scheduleGcIfUnused(entry: QueryEntry): void {
+    if (entry.listeners.size === 0) {
+      this.scheduleGc(entry);
+    }
+  }
+
+  private scheduleGc(entry: QueryEntry): void {
+    this.cancelGc(entry);
+
+    entry.gcTimer = setTimeout(() => {
+      const hash = hashQueryKey(entry.key);
+      if (entry.listeners.size === 0 && !entry.promise && this.entries.get(hash) === entry) {
+        this.entries.delete(hash);
+      }
+    }, this.cacheTime);
+
+    // Never keep a Node process (SSR, tests) alive just to collect garbage
+    (entry.gcTimer as { unref?: () => void }).unref?.();
+  }
+
+  private cancelGc(entry: QueryEntry): void {
+    if (entry.gcTimer) {
+      clearTimeout(entry.gcTimer);
+      entry.gcTimer = null;
+    }
+  }
+}
+
+/**
+ * Create a query cache instance
+ */
+export const createQueryCache = (options?: QueryCacheOptions): QueryCache => {
+  return new QueryCache(options);
+};
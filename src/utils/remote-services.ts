@@ -0,0 +1,118 @@
+import { ServiceManifest, ServiceManifestEntry, ServiceResponse } from '../types';
+import {
+  sendServiceRequest,
+  ServiceClientOptions,
+  ServiceRequestInput,
+  ServiceRequestOptions,
+} from './service-client';
+
+/**
+ * Method generated from a manifest route
+ */
+export type RemoteServiceMethod<T = unknown> = (
+  input?: ServiceRequestInput,
+  options?: ServiceRequestOptions
+) => Promise<ServiceResponse<T>>;
+
+/**
+ * Service client generated from a manifest entry
+ */
+export type RemoteService = Record<string, RemoteServiceMethod>;
+
+/**
+ * Options for loading remote services
+ */
+export interface RemoteServicesClientOptions extends ServiceClientOptions {
+  /**
+   * Path of the manifest on baseUrl
+   * Default: '/api/_manifest'
+   */
+  manifestPath?: string;
+}
+
+const manifestCache: Map<string, Promise<Record<string, RemoteService>>> = new Map();
+
+/**
+ * Fetch the route manifest served by StellarServer
+ */
+export async function fetchServiceManifest(
+  options: RemoteServicesClientOptions = {}
+): Promise<ServiceManifest> {
+  const { baseUrl = '', manifestPath = '/api/_manifest' } = options;
+  const fetchFn = options.fetch || fetch;
+
+  const response = await fetchFn(`${baseUrl.replace(/\/$/, '')}${manifestPath}`, {
+    headers: { Accept: 'application/json', ...options.headers },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to load service manifest: HTTP ${response.status}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Create callable methods for a single manifest entry
+ */
+export function createRemoteService(
+  entry: ServiceManifestEntry,
+  options: ServiceClientOptions = {}
+): RemoteService {
+  const service: RemoteService = {};
+
+  entry.routes.forEach((route) => {
+    service[route.name] = (input?: ServiceRequestInput, requestOptions?: ServiceRequestOptions) =>
+      sendServiceRequest(entry.basePath, route, input, options, requestOptions);
+  });
+
+  return service;
+}
+
+/**
+ * Create remote service clients for every service in a manifest
+ */
+export function createRemoteServices(
+  manifest: ServiceManifest,
+  options: ServiceClientOptions = {}
+): Record<string, RemoteService> {
+  const services: Record<string, RemoteService> = {};
+
+  Object.values(manifest.services).forEach((entry) => {
+    services[entry.name] = createRemoteService(entry, options);
+  });
+
+  return services;
+}
+
+/**
+ * Load the manifest once per URL and build remote service clients from it.
+ * A failed load is not cached, so the next call retries.
+ */
+export function loadRemoteServices(
+  options: RemoteServicesClientOptions = {}
+): Promise<Record<string, RemoteService>> {
+  const key = `${options.baseUrl || ''}${options.manifestPath || '/api/_manifest'}`;
+  const cached = manifestCache.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const promise = fetchServiceManifest(options).then(
+    (manifest) => createRemoteServices(manifest, options),
+    (error) => {
+      manifestCache.delete(key);
+      throw error;
+    }
+  );
+
+  manifestCache.set(key, promise);
+  return promise;
+}
+
+/**
+ * Forget loaded manifests (e.g. after deploying new routes)
+ */
+export function clearRemoteServicesCache(): void {
+  manifestCache.clear();
+}
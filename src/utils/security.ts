@@ -112,7 +112,7 @@ export const generateCSRFToken = (): string => {
  */
 export const verifyCSRFToken = (token: string, expected: string): boolean => {
   if (!token || !expected) return false;
-  return crypto.timingSafeEqual(Buffer.from(token), Buffer.from(expected));
+  return constantTimeCompare(token, expected);
 };
 
 /**
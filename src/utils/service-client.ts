@@ -0,0 +1,215 @@
+import { ServiceResponse } from '../types';
+import {
+  ServiceContract,
+  ContractRoutes,
+  RouteInput,
+  RouteResponse,
+  buildRoutePath,
+} from '../contracts/defineService';
+import { isAbortError } from './abort';
+import { getStoredToken } from './auth-tokens';
+import { withCsrfHeader } from './csrf';
+
+/**
+ * Options for a contract-based HTTP client
+ */
+export interface ServiceClientOptions {
+  /**
+   * Base URL of the server (e.g. AppConfig.apiUrl)
+   * Default: ''
+   */
+  baseUrl?: string;
+
+  /**
+   * Prefix services are mounted under
+   * Default: '/api'
+   */
+  prefix?: string;
+
+  /**
+   * Returns the bearer token sent with each request.
+   * Default: reads 'stellar_auth_token' from localStorage
+   */
+  getToken?: () => string | null | undefined;
+
+  /**
+   * Extra headers sent with each request
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * fetch implementation
+   * Default: global fetch
+   */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Per-request options
+ */
+export interface ServiceRequestOptions {
+  /**
+   * Aborts the request. Aborted requests reject with an AbortError.
+   */
+  signal?: AbortSignal;
+}
+
+type RequiredKeys<T> = {
+  [K in keyof T]-?: undefined extends T[K] ? never : K;
+}[keyof T];
+
+/**
+ * Client method for a single route. The input argument can be omitted when
+ * the route declares no params, query or body.
+ */
+export type ServiceClientMethod<TRoute> = RequiredKeys<RouteInput<TRoute>> extends never
+  ? (
+      input?: RouteInput<TRoute>,
+      options?: ServiceRequestOptions
+    ) => Promise<ServiceResponse<RouteResponse<TRoute>>>
+  : (
+      input: RouteInput<TRoute>,
+      options?: ServiceRequestOptions
+    ) => Promise<ServiceResponse<RouteResponse<TRoute>>>;
+
+/**
+ * Input argument of a client method, as a tuple
+ */
+export type ServiceClientArgs<TRoute> = RequiredKeys<RouteInput<TRoute>> extends never
+  ? [input?: RouteInput<TRoute>]
+  : [input: RouteInput<TRoute>];
+
+/**
+ * Typed client exposing one method per contract route
+ */
+export type ServiceClient<TContract extends ServiceContract> = {
+  [K in keyof ContractRoutes<TContract>]: ServiceClientMethod<ContractRoutes<TContract>[K]>;
+};
+
+/**
+ * Build a query string, skipping undefined values
+ */
+const buildQueryString = (query: Record<string, unknown> = {}): string => {
+  const search = new URLSearchParams();
+
+  Object.entries(query).forEach(([key, value]) => {
+    if (value === undefined) return;
+    if (Array.isArray(value)) {
+      value.forEach((item) => search.append(key, String(item)));
+    } else {
+      search.append(key, String(value));
+    }
+  });
+
+  const result = search.toString();
+  return result ? `?${result}` : '';
+};
+
+const INVALID_JSON = Symbol('invalid JSON');
+
+const parseJson = (text: string) => {
+  try {
+    return text ? JSON.parse(text) : undefined;
+  } catch {
+    return INVALID_JSON;
+  }
+};
+
+/**
+ * Input accepted by a service request
+ */
+export interface ServiceRequestInput {
+  params?: unknown;
+  query?: unknown;
+  body?: unknown;
+}
+
+/**
+ * Send a request to a service route mounted under `basePath` and unwrap the
+ * `{ success, data }` envelope into a ServiceResponse. Aborted requests reject.
+ */
+export async function sendServiceRequest<T = unknown>(
+  basePath: string,
+  route: { method: string; path: string },
+  input: ServiceRequestInput = {},
+  options: ServiceClientOptions = {},
+  requestOptions: ServiceRequestOptions = {}
+): Promise<ServiceResponse<T>> {
+  const { baseUrl = '', getToken = getStoredToken, headers = {} } = options;
+  const fetchFn = options.fetch || fetch;
+
+  try {
+    const path = buildRoutePath(route.path, input.params as Record<string, unknown>);
+    const url = `${baseUrl.replace(/\/$/, '')}${basePath}${path}${buildQueryString(
+      input.query as Record<string, unknown>
+    )}`;
+
+    const requestHeaders: Record<string, string> = { Accept: 'application/json', ...headers };
+    const token = getToken();
+    if (token) {
+      requestHeaders.Authorization = `Bearer ${token}`;
+    }
+
+    const init: RequestInit = {
+      method: route.method,
+      headers: requestHeaders,
+      signal: requestOptions.signal,
+    };
+    if (input.body !== undefined && route.method !== 'GET') {
+      requestHeaders['Content-Type'] = 'application/json';
+      init.body = JSON.stringify(input.body);
+    }
+
+    // Cookie sessions need the CSRF token on state-changing requests
+    const response = await fetchFn(url, withCsrfHeader(init));
+    const text = await response.text();
+    const payload = parseJson(text);
+
+    if (payload === INVALID_JSON) {
+      // e.g. an HTML error page from a proxy
+      return {
+        error: response.ok ? 'Invalid JSON response' : `HTTP error! status: ${response.status}`,
+        status: response.status,
+      };
+    }
+
+    if (!response.ok) {
+      return {
+        error: payload?.error?.message || `HTTP error! status: ${response.status}`,
+        status: response.status,
+      };
+    }
+
+    const isEnvelope =
+      payload && typeof payload === 'object' && 'success' in payload && 'data' in payload;
+
+    if (isEnvelope && payload.pagination) {
+      return { data: payload.data, status: response.status, pagination: payload.pagination };
+    }
+
+    return { data: isEnvelope ? payload.data : payload, status: response.status };
+  } catch (error) {
+    if (isAbortError(error)) {
+      throw error;
+    }
+    return { error: error instanceof Error ? error.message : String(error), status: 0 };
+  }
+}
+
+/**
+ * Create a typed HTTP client from a service contract
+ */
+export function createServiceClient<TContract extends ServiceContract>(
+  contract: TContract,
+  options: ServiceClientOptions = {}
+): ServiceClient<TContract> {
+  const basePath = `${options.prefix ?? '/api'}/${contract.name}`;
+  const client: Record<string, unknown> = {};
+
+  Object.entries(contract.routes).forEach(([name, route]) => {
+    client[name] = (input?: ServiceRequestInput, requestOptions?: ServiceRequestOptions) =>
+      sendServiceRequest(basePath, route, input, options, requestOptions);
+  });
+
+  return client as ServiceClient<TContract>;
+}
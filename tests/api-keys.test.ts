@@ -0,0 +1,178 @@
+import { Request, Response } from 'express';
+import { ApiKeyService } from '../src/services/auth/ApiKeyService';
+import { InMemoryApiKeyStore } from '../src/services/auth/ApiKeyStore';
+import { AuthService } from '../src/services/auth/AuthService';
+import { AuditEvent, AuditEventType, initializeAuditLogger } from '../src/server/audit';
+import { hashSHA256 } from '../src/utils/security';
+
+const createResponse = () => {
+  const res = {
+    statusCode: 200,
+    body: {} as Record<string, unknown>,
+    headers: {} as Record<string, string>,
+  };
+  return Object.assign(res, {
+    status: jest.fn((code: number) => {
+      res.statusCode = code;
+      return res;
+    }),
+    json: jest.fn((body: Record<string, unknown>) => {
+      res.body = body;
+      return res;
+    }),
+    set: jest.fn((name: string, value: string) => {
+      res.headers[name] = value;
+      return res;
+    }),
+  });
+};
+
+// Runs a middleware and reports whether it called next()
+const authenticate = async (
+  middleware: ReturnType<ApiKeyService['authenticate']>,
+  key?: string
+) => {
+  const req = {
+    ip: '10.0.0.1',
+    headers: {},
+    get: (name: string) => (name === 'X-API-Key' ? key : undefined),
+  } as unknown as Request & { apiKey?: { id: string } };
+  const res = createResponse();
+  const next = jest.fn();
+  await middleware(req, res as unknown as Response, next);
+  return { req, res, passed: next.mock.calls.length > 0 };
+};
+
+describe('ApiKeyService', () => {
+  let events: AuditEvent[];
+  let store: InMemoryApiKeyStore;
+  let apiKeys: ApiKeyService;
+
+  beforeEach(() => {
+    events = [];
+    initializeAuditLogger({
+      save: async (event) => {
+        events.push(event);
+      },
+      query: async () => events,
+    });
+    store = new InMemoryApiKeyStore();
+    apiKeys = new ApiKeyService({ store, prefix: 'sk_test' });
+  });
+
+  it('stores keys hashed and checks their scopes', async () => {
+    const { key, apiKey } = await apiKeys.createKey({ name: 'CI', scopes: ['orders:*'] });
+
+    expect(key.startsWith(apiKey.prefix)).toBe(true);
+    expect(apiKey.prefix).toMatch(/^sk_test_.{6}$/);
+    expect((await store.findById(apiKey.id))?.keyHash).toBe(hashSHA256(key));
+    expect(events).toContainEqual(
+      expect.objectContaining({ type: AuditEventType.API_KEY_CREATED, result: 'success' })
+    );
+
+    const allowed = await authenticate(apiKeys.authenticate(['orders:read']), key);
+    expect(allowed.passed).toBe(true);
+    expect(allowed.req.apiKey?.id).toBe(apiKey.id);
+    expect((await store.findById(apiKey.id))?.lastUsedIp).toBe('10.0.0.1');
+
+    expect((await authenticate(apiKeys.authenticate(['users:read']), key)).res.statusCode).toBe(
+      403
+    );
+    expect((await authenticate(apiKeys.authenticate(), undefined)).res.statusCode).toBe(401);
+  });
+
+  it('rejects revoked keys and audits the attempt', async () => {
+    const { key, apiKey } = await apiKeys.createKey({ name: 'CI' });
+    await apiKeys.revokeKey(apiKey.id);
+
+    const { res, passed } = await authenticate(apiKeys.authenticate(), key);
+
+    expect(passed).toBe(false);
+    expect(res.statusCode).toBe(401);
+    expect(events.map((event) => event.type)).toEqual([
+      AuditEventType.API_KEY_CREATED,
+      AuditEventType.API_KEY_REVOKED,
+      AuditEventType.API_KEY_INVALID,
+    ]);
+  });
+
+  it('keeps rotated keys working until the overlap ends', async () => {
+    const { key: oldKey, apiKey } = await apiKeys.createKey({
+      name: 'CI',
+      scopes: ['orders:read'],
+    });
+    const rotated = await apiKeys.rotateKey(apiKey.id, { overlap: 60 * 1000 });
+
+    expect(rotated.apiKey.scopes).toEqual(['orders:read']);
+    expect(rotated.previous.rotatedToId).toBe(rotated.apiKey.id);
+    await expect(apiKeys.verifyKey(oldKey)).resolves.toMatchObject({ id: apiKey.id });
+
+    jest.useFakeTimers({ now: Date.now() + 2 * 60 * 1000 });
+    try {
+      await expect(apiKeys.verifyKey(oldKey)).rejects.toThrow('Invalid API key');
+      await expect(apiKeys.verifyKey(rotated.key)).resolves.toMatchObject({
+        id: rotated.apiKey.id,
+      });
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('limits requests per key', async () => {
+    const { key } = await apiKeys.createKey({
+      name: 'CI',
+      rateLimit: { max: 2, windowMs: 60 * 1000 },
+    });
+    const middleware = apiKeys.authenticate();
+
+    expect((await authenticate(middleware, key)).passed).toBe(true);
+    expect((await authenticate(middleware, key)).passed).toBe(true);
+
+    const { res } = await authenticate(middleware, key);
+    expect(res.statusCode).toBe(429);
+    expect(Number(res.headers['Retry-After'])).toBeGreaterThan(0);
+  });
+
+  it('serves admin routes to admins only', async () => {
+    const auth = new AuthService({ jwtSecret: 'test-secret' });
+    const users = auth.getUserStore();
+    const admin = await users.create({
+      email: 'admin@example.com',
+      passwordHash: 'x',
+      roles: ['admin'],
+    });
+    const user = await users.create({
+      email: 'ada@example.com',
+      passwordHash: 'x',
+      roles: ['user'],
+    });
+    const [create] = apiKeys.getServiceConfig(auth).routes;
+
+    const call = async (token: string) => {
+      const req = {
+        headers: { authorization: `Bearer ${token}` },
+        body: { name: 'Reporting', scopes: ['reports:read'] },
+        params: {},
+      } as unknown as Request;
+      const res = createResponse();
+      for (const step of [...(create.middleware || []), create.handler]) {
+        let passed = false;
+        await step(req, res as unknown as Response, () => (passed = true));
+        if (!passed) break;
+      }
+      return res;
+    };
+
+    expect((await call((await auth.issueTokens(user)).token)).statusCode).toBe(403);
+
+    const res = await call((await auth.issueTokens(admin)).token);
+    expect(res.statusCode).toBe(201);
+    expect(res.body.key).toEqual(expect.stringMatching(/^sk_test_/));
+    expect(events).toContainEqual(
+      expect.objectContaining({
+        type: AuditEventType.API_KEY_CREATED,
+        actor: expect.objectContaining({ id: admin.id }),
+      })
+    );
+  });
+});
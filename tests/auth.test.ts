@@ -0,0 +1,645 @@
+import { Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+import { AuthService } from '../src/services/auth/AuthService';
+import { InMemoryRefreshTokenStore } from '../src/services/auth/RefreshTokenStore';
+import { InMemoryUserStore } from '../src/services/auth/UserStore';
+import { MailMessage } from '../src/services/mail/Mailer';
+import { generateTOTP, verifyTOTP } from '../src/utils/totp';
+
+const PASSWORD = 'Correct-Horse-9';
+
+const createResponse = () => {
+  const res = {
+    statusCode: 200,
+    body: {} as {
+      token: string;
+      refreshToken: string;
+      user: Record<string, unknown>;
+      error?: string;
+    },
+  };
+  return Object.assign(res, {
+    status: jest.fn((code: number) => {
+      res.statusCode = code;
+      return res;
+    }),
+    json: jest.fn((body: typeof res.body) => {
+      res.body = body;
+      return res;
+    }),
+    set: jest.fn(() => res),
+  });
+};
+
+const call = async (
+  handler: (req: Request, res: Response) => Promise<void>,
+  body: Record<string, unknown>
+) => {
+  const res = createResponse();
+  await handler({ body, headers: {} } as Request, res as unknown as Response);
+  return res;
+};
+
+describe('AuthService', () => {
+  let store: InMemoryUserStore;
+  let auth: AuthService;
+  let mailer: { send: jest.Mock<Promise<void>, [MailMessage]> };
+
+  beforeEach(() => {
+    store = new InMemoryUserStore();
+    mailer = { send: jest.fn(async () => undefined) };
+    auth = new AuthService(
+      { jwtSecret: 'test-secret', bcryptRounds: 4 },
+      { userStore: store, mailer }
+    );
+  });
+
+  // Runs authenticateToken, then the handler if the token was accepted
+  const callAuthenticated = async (
+    handler: (req: Request, res: Response) => Promise<void>,
+    token: string,
+    body: Record<string, unknown> = {}
+  ) => {
+    const req = { body, headers: { authorization: `Bearer ${token}` } } as Request;
+    const res = createResponse();
+    const next = jest.fn();
+
+    await auth.authenticateToken(req, res as unknown as Response, next);
+    if (next.mock.calls.length > 0) {
+      await handler(req, res as unknown as Response);
+    }
+    return res;
+  };
+
+  it('registers a user and signs a token with its id and roles', async () => {
+    const res = await call(auth.register.bind(auth), {
+      email: 'Ada@Example.com',
+      password: 'correct horse',
+    });
+
+    expect(res.statusCode).toBe(201);
+    expect(res.body.user).toMatchObject({ email: 'ada@example.com', roles: ['user'] });
+    expect(res.body.user.passwordHash).toBeUndefined();
+
+    const stored = await store.findByEmail('ada@example.com');
+    expect(stored?.passwordHash).not.toBe('correct horse');
+
+    const payload = jwt.verify(res.body.token, 'test-secret') as { id: string; roles: string[] };
+    expect(payload.id).toBe(stored?.id);
+    expect(payload.roles).toEqual(['user']);
+  });
+
+  it('rejects duplicate registrations', async () => {
+    await call(auth.register.bind(auth), { email: 'ada@example.com', password: PASSWORD });
+    const res = await call(auth.register.bind(auth), {
+      email: 'ADA@example.com',
+      password: 'other',
+    });
+
+    expect(res.statusCode).toBe(409);
+    expect(res.body).toEqual({ error: 'Email is already registered' });
+  });
+
+  it('verifies passwords on login', async () => {
+    await call(auth.register.bind(auth), { email: 'ada@example.com', password: PASSWORD });
+
+    const wrong = await call(auth.login.bind(auth), {
+      email: 'ada@example.com',
+      password: 'nope',
+    });
+    const unknown = await call(auth.login.bind(auth), {
+      email: 'bob@example.com',
+      password: PASSWORD,
+    });
+    const ok = await call(auth.login.bind(auth), { email: 'ada@example.com', password: PASSWORD });
+
+    expect(wrong.statusCode).toBe(401);
+    expect(unknown.body).toEqual(wrong.body);
+    expect(ok.statusCode).toBe(200);
+    expect(ok.body.user.email).toBe('ada@example.com');
+  });
+
+  it('refuses disabled and locked accounts', async () => {
+    await call(auth.register.bind(auth), { email: 'ada@example.com', password: PASSWORD });
+    const id = (await store.findByEmail('ada@example.com'))?.id as string;
+
+    await store.update(id, { status: 'disabled' });
+    const disabled = await call(auth.login.bind(auth), {
+      email: 'ada@example.com',
+      password: PASSWORD,
+    });
+
+    await store.update(id, { status: 'locked' });
+    const locked = await call(auth.login.bind(auth), {
+      email: 'ada@example.com',
+      password: PASSWORD,
+    });
+
+    expect(disabled.statusCode).toBe(403);
+    expect(disabled.body).toEqual({ error: 'Account is disabled' });
+    expect(locked.body).toEqual({ error: 'Account is locked' });
+  });
+
+  describe('refresh tokens', () => {
+    const login = async () => {
+      await call(auth.register.bind(auth), { email: 'ada@example.com', password: PASSWORD });
+      return call(auth.login.bind(auth), { email: 'ada@example.com', password: PASSWORD });
+    };
+
+    it('rotates the refresh token on every use', async () => {
+      const { body } = await login();
+
+      const res = await call(auth.refresh.bind(auth), { refreshToken: body.refreshToken });
+
+      expect(res.statusCode).toBe(200);
+      expect(res.body.refreshToken).not.toBe(body.refreshToken);
+      expect(jwt.verify(res.body.token, 'test-secret')).toMatchObject({ email: 'ada@example.com' });
+    });
+
+    it('revokes the whole family when a rotated token is reused', async () => {
+      const { body } = await login();
+      const rotated = await call(auth.refresh.bind(auth), { refreshToken: body.refreshToken });
+
+      const reused = await call(auth.refresh.bind(auth), { refreshToken: body.refreshToken });
+      const next = await call(auth.refresh.bind(auth), {
+        refreshToken: rotated.body.refreshToken,
+      });
+
+      expect(reused.statusCode).toBe(401);
+      expect(reused.body).toEqual({ error: 'Refresh token has been revoked' });
+      expect(next.statusCode).toBe(401);
+    });
+
+    it('rejects unknown refresh tokens', async () => {
+      const missing = await call(auth.refresh.bind(auth), {});
+      const unknown = await call(auth.refresh.bind(auth), { refreshToken: 'nope' });
+
+      expect(missing.statusCode).toBe(400);
+      expect(unknown.body).toEqual({ error: 'Invalid refresh token' });
+    });
+  });
+
+  describe('sessions', () => {
+    const login = async (userAgent: string) => {
+      const res = createResponse();
+      await auth.login(
+        {
+          body: { email: 'ada@example.com', password: PASSWORD },
+          headers: { 'user-agent': userAgent },
+        } as Request,
+        res as unknown as Response
+      );
+      return res.body.token;
+    };
+
+    beforeEach(async () => {
+      await call(auth.register.bind(auth), { email: 'ada@example.com', password: PASSWORD });
+    });
+
+    it('revokes the access token and its session on logout', async () => {
+      const token = await login('laptop');
+      const other = await login('phone');
+
+      const res = await callAuthenticated(auth.logout.bind(auth), token);
+      const after = await callAuthenticated(auth.listSessions.bind(auth), token);
+      const sessions = await callAuthenticated(auth.listSessions.bind(auth), other);
+
+      expect(res.statusCode).toBe(200);
+      expect(after.statusCode).toBe(401);
+      expect(after.body).toEqual({ error: 'Token has been revoked' });
+      const listed = (sessions.body as unknown as { sessions: Record<string, unknown>[] }).sessions;
+      expect(listed.map((session) => session.userAgent)).not.toContain('laptop');
+      expect(listed).toContainEqual(expect.objectContaining({ userAgent: 'phone', current: true }));
+    });
+
+    it('revokes every session on logout-all', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1700000000500);
+      const token = await login('laptop');
+      const other = await login('phone');
+
+      now.mockReturnValue(1700000001500);
+      await callAuthenticated(auth.logoutAll.bind(auth), token);
+      const res = await callAuthenticated(auth.listSessions.bind(auth), other);
+
+      expect(res.statusCode).toBe(401);
+      expect(await auth.getSessions((jwt.decode(other) as { id: string }).id)).toEqual([]);
+      now.mockRestore();
+    });
+
+    it('accepts tokens issued in the same second as logout-all', async () => {
+      // Half-way through a second, so the new token's `iat` is that second
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1700000000500);
+      const token = await login('laptop');
+
+      await callAuthenticated(auth.logoutAll.bind(auth), token);
+      const fresh = await login('laptop');
+      const res = await callAuthenticated(auth.listSessions.bind(auth), fresh);
+
+      expect(res.statusCode).toBe(200);
+      expect((await callAuthenticated(auth.listSessions.bind(auth), token)).statusCode).toBe(401);
+      now.mockRestore();
+    });
+  });
+
+  describe('password change', () => {
+    let session: { token: string; refreshToken: string };
+
+    beforeEach(async () => {
+      await call(auth.register.bind(auth), { email: 'ada@example.com', password: PASSWORD });
+      ({ body: session } = await call(auth.login.bind(auth), {
+        email: 'ada@example.com',
+        password: PASSWORD,
+      }));
+    });
+
+    it('rejects a wrong current password', async () => {
+      const res = await callAuthenticated(auth.changePassword.bind(auth), session.token, {
+        currentPassword: 'nope',
+        newPassword: 'New-Secret-42',
+      });
+
+      expect(res.statusCode).toBe(401);
+      expect(res.body).toEqual({ error: 'Current password is incorrect' });
+    });
+
+    it('changes the password and starts a new session', async () => {
+      const res = await callAuthenticated(auth.changePassword.bind(auth), session.token, {
+        currentPassword: PASSWORD,
+        newPassword: 'New-Secret-42',
+      });
+
+      expect(res.statusCode).toBe(200);
+      const sessions = await callAuthenticated(auth.listSessions.bind(auth), res.body.token);
+      const refreshed = await call(auth.refresh.bind(auth), {
+        refreshToken: res.body.refreshToken,
+      });
+      const oldRefresh = await call(auth.refresh.bind(auth), {
+        refreshToken: session.refreshToken,
+      });
+      const oldAccess = await callAuthenticated(auth.listSessions.bind(auth), session.token);
+      const login = await call(auth.login.bind(auth), {
+        email: 'ada@example.com',
+        password: 'New-Secret-42',
+      });
+
+      expect(sessions.statusCode).toBe(200);
+      expect(refreshed.statusCode).toBe(200);
+      expect(oldRefresh.statusCode).toBe(401);
+      expect(oldAccess.statusCode).toBe(401);
+      expect(login.statusCode).toBe(200);
+    });
+  });
+
+  describe('password reset and email verification', () => {
+    // Token from the link in the last email sent
+    const lastToken = () => {
+      const { text } = mailer.send.mock.calls[mailer.send.mock.calls.length - 1][0];
+      return decodeURIComponent((text.match(/token=([^\s]+)/) as RegExpMatchArray)[1]);
+    };
+
+    beforeEach(async () => {
+      await call(auth.register.bind(auth), { email: 'ada@example.com', password: PASSWORD });
+    });
+
+    it('resets the password once per link and ends existing sessions', async () => {
+      const { body } = await call(auth.login.bind(auth), {
+        email: 'ada@example.com',
+        password: PASSWORD,
+      });
+
+      await call(auth.requestPasswordReset.bind(auth), { email: 'ada@example.com' });
+      const token = lastToken();
+
+      const res = await call(auth.resetPassword.bind(auth), { token, password: 'New-Secret-42' });
+      const reused = await call(auth.resetPassword.bind(auth), {
+        token,
+        password: 'Other-Secret-42',
+      });
+      const refresh = await call(auth.refresh.bind(auth), { refreshToken: body.refreshToken });
+      const login = await call(auth.login.bind(auth), {
+        email: 'ada@example.com',
+        password: 'New-Secret-42',
+      });
+
+      expect(res.statusCode).toBe(200);
+      expect(reused.body).toEqual({ error: 'Invalid or expired token' });
+      expect(refresh.statusCode).toBe(401);
+      expect(login.statusCode).toBe(200);
+    });
+
+    it('rejects weak passwords with suggestions', async () => {
+      await call(auth.requestPasswordReset.bind(auth), { email: 'ada@example.com' });
+
+      const res = await call(auth.resetPassword.bind(auth), {
+        token: lastToken(),
+        password: 'short',
+      });
+
+      expect(res.statusCode).toBe(400);
+      expect(res.body).toMatchObject({ error: 'Password is too weak' });
+      expect((res.body as unknown as { details: string[] }).details).toContain(
+        'Use at least 8 characters'
+      );
+    });
+
+    it('does not reveal whether an email is registered', async () => {
+      mailer.send.mockClear();
+
+      const res = await call(auth.requestPasswordReset.bind(auth), { email: 'bob@example.com' });
+
+      expect(res.statusCode).toBe(200);
+      expect(mailer.send).not.toHaveBeenCalled();
+    });
+
+    it('verifies the email address from the registration email', async () => {
+      const res = await call(auth.verifyEmail.bind(auth), { token: lastToken() });
+
+      expect(res.statusCode).toBe(200);
+      expect((await store.findByEmail('ada@example.com'))?.emailVerified).toBe(true);
+    });
+
+    it('starts no session before the email is verified when required', async () => {
+      const refreshTokenStore = new InMemoryRefreshTokenStore();
+      const options = { userStore: store, mailer, refreshTokenStore };
+      const config = { jwtSecret: 'test-secret', bcryptRounds: 4 };
+      // A session from before verification was required
+      const lenient = new AuthService(config, options);
+      const { body } = await call(lenient.login.bind(lenient), {
+        email: 'ada@example.com',
+        password: PASSWORD,
+      });
+      const strict = new AuthService({ ...config, requireEmailVerification: true }, options);
+
+      const registered = await call(strict.register.bind(strict), {
+        email: 'grace@example.com',
+        password: PASSWORD,
+      });
+      const login = await call(strict.login.bind(strict), {
+        email: 'grace@example.com',
+        password: PASSWORD,
+      });
+      const refresh = await call(strict.refresh.bind(strict), { refreshToken: body.refreshToken });
+
+      expect(registered.statusCode).toBe(201);
+      expect(registered.body.token).toBeUndefined();
+      expect(registered.body.refreshToken).toBeUndefined();
+      expect(login.statusCode).toBe(403);
+      expect(refresh.statusCode).toBe(403);
+      expect(refresh.body).toEqual({ error: 'Email address is not verified' });
+
+      await call(strict.verifyEmail.bind(strict), { token: lastToken() });
+      const verified = await call(strict.login.bind(strict), {
+        email: 'grace@example.com',
+        password: PASSWORD,
+      });
+      expect(verified.statusCode).toBe(200);
+    });
+  });
+
+  describe('without a mailer in production', () => {
+    const env = process.env.NODE_ENV;
+    let log: jest.SpyInstance;
+
+    beforeEach(() => {
+      process.env.NODE_ENV = 'production';
+      jest.spyOn(console, 'warn').mockImplementation();
+      log = jest.spyOn(console, 'log').mockImplementation();
+      auth = new AuthService({ jwtSecret: 'test-secret', bcryptRounds: 4 }, { userStore: store });
+    });
+
+    afterEach(() => {
+      process.env.NODE_ENV = env;
+      jest.restoreAllMocks();
+    });
+
+    it('turns off account emails instead of logging their links', async () => {
+      const registered = await call(auth.register.bind(auth), {
+        email: 'ada@example.com',
+        password: PASSWORD,
+      });
+      const reset = await call(auth.requestPasswordReset.bind(auth), { email: 'ada@example.com' });
+
+      expect(registered.statusCode).toBe(201);
+      expect(reset.statusCode).toBe(503);
+      expect(JSON.stringify(log.mock.calls)).not.toContain('token=');
+      expect(
+        () =>
+          new AuthService(
+            { jwtSecret: 'test-secret', requireEmailVerification: true },
+            { userStore: store }
+          )
+      ).toThrow('A mailer is required');
+    });
+  });
+
+  describe('multi-factor authentication', () => {
+    type Body = Record<string, unknown>;
+
+    // Runs an enrollment route, authenticated by the access token if given
+    const enrollStep = async (
+      handler: (req: Request, res: Response) => Promise<void>,
+      body: Body,
+      token?: string
+    ) => {
+      const headers = token ? { authorization: `Bearer ${token}` } : {};
+      const req = { body, headers } as Request;
+      const res = createResponse();
+      await auth.authenticateMfaEnrollment(req, res as unknown as Response, () => undefined);
+      await handler(req, res as unknown as Response);
+      return res.body as unknown as Body;
+    };
+
+    const enroll = async () => {
+      await call(auth.register.bind(auth), { email: 'ada@example.com', password: PASSWORD });
+      const { body } = await call(auth.login.bind(auth), {
+        email: 'ada@example.com',
+        password: PASSWORD,
+      });
+
+      const { secret } = await enrollStep(auth.setupMfa.bind(auth), {}, body.token);
+      // A code from the previous step, so the next login can use the current one
+      const code = generateTOTP(secret as string, Date.now() - 30000);
+      const { recoveryCodes } = await enrollStep(auth.enableMfa.bind(auth), { code }, body.token);
+      return { secret: secret as string, recoveryCodes: recoveryCodes as string[] };
+    };
+
+    it('implements RFC 6238 with a clock skew window', () => {
+      const secret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+      expect(generateTOTP(secret, 59000, { digits: 8 })).toBe('94287082');
+      expect(verifyTOTP(generateTOTP(secret, 0), secret, { time: 30000 })).toBe(0);
+      expect(verifyTOTP(generateTOTP(secret, 0), secret, { time: 60000 })).toBeNull();
+    });
+
+    it('asks for a second factor before issuing tokens', async () => {
+      const { secret } = await enroll();
+
+      const login = await call(auth.login.bind(auth), {
+        email: 'ada@example.com',
+        password: PASSWORD,
+      });
+      const challenge = login.body as unknown as Body;
+      const code = generateTOTP(secret);
+
+      const verified = await call(auth.verifyMfa.bind(auth), {
+        mfaToken: challenge.mfaToken,
+        code,
+      });
+      const replayed = await call(auth.verifyMfa.bind(auth), {
+        mfaToken: challenge.mfaToken,
+        code,
+      });
+
+      expect(challenge).toEqual({ mfaRequired: true, mfaToken: expect.any(String) });
+      expect(login.body.token).toBeUndefined();
+      expect(verified.body.token).toEqual(expect.any(String));
+      expect(replayed.body).toEqual({ error: 'Invalid verification code' });
+    });
+
+    it('accepts each recovery code once', async () => {
+      const { recoveryCodes } = await enroll();
+      const login = await call(auth.login.bind(auth), {
+        email: 'ada@example.com',
+        password: PASSWORD,
+      });
+      const { mfaToken } = login.body as unknown as Body;
+
+      const first = await call(auth.verifyMfa.bind(auth), {
+        mfaToken,
+        recoveryCode: recoveryCodes[0],
+      });
+      const again = await call(auth.verifyMfa.bind(auth), {
+        mfaToken,
+        recoveryCode: recoveryCodes[0],
+      });
+
+      expect(first.statusCode).toBe(200);
+      expect(again.statusCode).toBe(401);
+    });
+
+    it('rejects codes that are not strings', async () => {
+      await enroll();
+      const login = await call(auth.login.bind(auth), {
+        email: 'ada@example.com',
+        password: PASSWORD,
+      });
+      const { mfaToken } = login.body as unknown as Body;
+
+      const verify = await call(auth.verifyMfa.bind(auth), { mfaToken, code: 123456 });
+      const recovery = await call(auth.verifyMfa.bind(auth), { mfaToken, recoveryCode: 1234 });
+      const enable = await enrollStep(auth.enableMfa.bind(auth), { mfaToken, code: 123456 });
+      const disable = await enrollStep(auth.disableMfa.bind(auth), { mfaToken, code: 123456 });
+
+      expect(verify.statusCode).toBe(400);
+      expect(verify.body).toEqual({ error: 'MFA token and a code are required' });
+      expect(recovery.statusCode).toBe(400);
+      expect(enable).toEqual({ error: 'Code is required' });
+      expect(disable).toEqual({ error: 'A code is required' });
+    });
+
+    it('makes admins enroll before they can sign in', async () => {
+      await call(auth.register.bind(auth), { email: 'root@example.com', password: PASSWORD });
+      const id = (await store.findByEmail('root@example.com'))?.id as string;
+      await store.update(id, { roles: ['admin'] });
+
+      const login = await call(auth.login.bind(auth), {
+        email: 'root@example.com',
+        password: PASSWORD,
+      });
+      const { mfaToken, mfaSetupRequired } = login.body as unknown as Body;
+
+      const { secret } = await enrollStep(auth.setupMfa.bind(auth), { mfaToken });
+      const enabled = await enrollStep(auth.enableMfa.bind(auth), {
+        mfaToken,
+        code: generateTOTP(secret as string),
+      });
+
+      expect(mfaSetupRequired).toBe(true);
+      expect(enabled.token).toEqual(expect.any(String));
+      expect(enabled.recoveryCodes).toHaveLength(10);
+    });
+  });
+
+  describe('account lockout', () => {
+    const attempt = async (ip: string, password: string) => {
+      const res = createResponse();
+      await auth.login(
+        { body: { email: 'ada@example.com', password }, headers: {}, ip } as Request,
+        res as unknown as Response
+      );
+      return res;
+    };
+
+    const fail = async (ip: string, times: number) => {
+      for (let i = 0; i < times; i++) {
+        await attempt(ip, 'Wrong-Password-1');
+      }
+    };
+
+    const setup = async (lockout: Record<string, unknown>) => {
+      auth = new AuthService(
+        {
+          jwtSecret: 'test-secret',
+          bcryptRounds: 4,
+          lockout: { delayMs: 0, maxAttemptsPerIp: 3, maxAttempts: 5, ...lockout },
+        },
+        { userStore: store, mailer }
+      );
+      await call(auth.register.bind(auth), { email: 'ada@example.com', password: PASSWORD });
+    };
+
+    it('locks one IP out of an account before locking the account', async () => {
+      await setup({});
+      await fail('10.0.0.1', 3);
+
+      const blocked = await attempt('10.0.0.1', PASSWORD);
+      const other = await attempt('10.0.0.2', PASSWORD);
+
+      expect(blocked.statusCode).toBe(429);
+      expect(blocked.set).toHaveBeenCalledWith('Retry-After', '900');
+      expect(other.statusCode).toBe(200);
+    });
+
+    it('locks the account until an admin unlocks it with the manual policy', async () => {
+      await setup({ unlockPolicy: 'manual' });
+      await fail('10.0.0.1', 2);
+      await fail('10.0.0.2', 2);
+      await fail('10.0.0.3', 1);
+
+      const locked = await attempt('10.0.0.4', PASSWORD);
+      expect(locked.body).toEqual({ error: 'Account is locked' });
+
+      const id = (await store.findByEmail('ada@example.com'))?.id as string;
+      await auth.unlockAccount(id);
+
+      expect((await attempt('10.0.0.4', PASSWORD)).statusCode).toBe(200);
+    });
+
+    it('counts concurrent attempts against the limits', async () => {
+      await setup({});
+      const statuses = (responses: { statusCode: number }[]) =>
+        responses.map((res) => res.statusCode).sort();
+
+      const fromOneIp = await Promise.all(
+        Array.from({ length: 6 }, () => attempt('10.0.0.1', 'Wrong-Password-1'))
+      );
+      expect(statuses(fromOneIp)).toEqual([401, 401, 401, 429, 429, 429]);
+
+      // Three failures are counted; the account allows two more
+      const fromManyIps = await Promise.all(
+        Array.from({ length: 6 }, (_, i) => attempt(`10.0.1.${i}`, 'Wrong-Password-1'))
+      );
+      expect(statuses(fromManyIps)).toEqual([401, 401, 429, 429, 429, 429]);
+    });
+
+    it('delays attempts progressively', async () => {
+      await setup({ delayMs: 5000 });
+      await fail('10.0.0.1', 2);
+
+      const res = await attempt('10.0.0.1', PASSWORD);
+
+      expect(res.statusCode).toBe(429);
+      expect(res.set).toHaveBeenCalledWith('Retry-After', '5');
+    });
+  });
+});
@@ -0,0 +1,213 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import Joi from 'joi';
+
+// The mongoose driver does not load under jsdom
+jest.mock('mongoose', () => ({ __esModule: true, default: {} }));
+
+import { StellarServer } from '../src/server/StellarServer';
+import { implementService } from '../src/server/contracts';
+import { buildRoutePath, defineService, typed } from '../src/contracts/defineService';
+import { createServiceClient } from '../src/utils/service-client';
+import { NotFoundError } from '../src/utils/errors';
+
+interface Todo {
+  id: string;
+  title: string;
+}
+
+const todoContract = defineService({
+  name: 'todos',
+  routes: {
+    get: {
+      method: 'GET',
+      path: '/:id',
+      params: typed<{ id: string }>(Joi.object({ id: Joi.string().alphanum().required() })),
+      response: typed<Todo>(
+        Joi.object({ id: Joi.string().required(), title: Joi.string().required() })
+      ),
+    },
+    search: {
+      method: 'GET',
+      path: '/',
+      query: typed<{ tag?: string[]; done?: boolean }>(),
+      response: typed<Todo[]>(),
+    },
+    create: {
+      method: 'POST',
+      path: '/',
+      body: typed<{ title: string }>(Joi.object({ title: Joi.string().min(1).required() })),
+      response: typed<Todo>(Joi.object({ id: Joi.string().required() })),
+    },
+  },
+});
+
+interface TestResponse {
+  status: number;
+  body: { success?: boolean; data?: unknown; error?: { message: string } };
+}
+
+const send = (port: number, method: string, path: string, body?: unknown) =>
+  new Promise<TestResponse>((resolve, reject) => {
+    const payload = body === undefined ? undefined : JSON.stringify(body);
+    const req = http.request(
+      {
+        port,
+        method,
+        path,
+        headers: payload
+          ? { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(payload) }
+          : {},
+      },
+      (res) => {
+        let data = '';
+        res.on('data', (chunk) => (data += chunk));
+        res.on('end', () => resolve({ status: res.statusCode || 0, body: JSON.parse(data) }));
+      }
+    );
+    req.on('error', reject);
+    req.end(payload);
+  });
+
+describe('Service contracts', () => {
+  it('requires route paths to start with a slash', () => {
+    expect(() =>
+      defineService({ name: 'todos', routes: { list: { method: 'GET', path: 'todos' } } })
+    ).toThrow('Route "list" of service "todos" must start with "/"');
+  });
+
+  it('fills and encodes path parameters', () => {
+    expect(buildRoutePath('/users/:id/posts/:postId', { id: 'a b', postId: 7 })).toBe(
+      '/users/a%20b/posts/7'
+    );
+    expect(() => buildRoutePath('/users/:id')).toThrow('Missing path parameter "id"');
+  });
+
+  describe('implementService', () => {
+    let server: StellarServer;
+    let port: number;
+    let stored: Record<string, unknown>;
+
+    beforeEach(async () => {
+      jest.spyOn(console, 'log').mockImplementation();
+      jest.spyOn(console, 'warn').mockImplementation();
+      jest.spyOn(console, 'error').mockImplementation();
+      stored = { id: '1', title: 'Write tests', secret: 'internal' };
+
+      server = new StellarServer({
+        port: 0,
+        audit: { enabled: false },
+        security: { helmet: false, rateLimit: false, xss: false, sanitization: false },
+      });
+      server.registerService(
+        implementService(todoContract, {
+          get: ({ params }) => {
+            if (params.id !== '1') {
+              throw new NotFoundError('Todo not found');
+            }
+            return stored as unknown as Todo;
+          },
+          search: () => [],
+          // Returns more than the contract's response declares
+          create: ({ body }) => ({ id: '2', title: body.title }),
+        })
+      );
+      await server.start();
+      port = ((server as unknown as { server: http.Server }).server.address() as AddressInfo).port;
+    });
+
+    afterEach(async () => {
+      await server.stop();
+      jest.restoreAllMocks();
+    });
+
+    it('rejects params and bodies that do not match the contract', async () => {
+      const params = await send(port, 'GET', '/api/todos/not-alnum!');
+      const body = await send(port, 'POST', '/api/todos', { title: '' });
+
+      expect(params.status).toBe(400);
+      expect(body.status).toBe(400);
+      expect(body.body.error?.message).toBe('Validation failed');
+    });
+
+    it('sends validated responses and maps errors to their status', async () => {
+      const found = await send(port, 'GET', '/api/todos/1');
+      expect(found).toEqual({
+        status: 200,
+        body: { success: true, data: { id: '1', title: 'Write tests' } },
+      });
+
+      const missing = await send(port, 'GET', '/api/todos/2');
+      expect(missing.status).toBe(404);
+      expect(missing.body.error?.message).toBe('Todo not found');
+    });
+
+    it('answers 500 when a handler breaks the response contract', async () => {
+      const created = await send(port, 'POST', '/api/todos', { title: 'New' });
+      expect(created).toEqual({ status: 201, body: { success: true, data: { id: '2' } } });
+
+      delete stored.title;
+      const broken = await send(port, 'GET', '/api/todos/1');
+      expect(broken.status).toBe(500);
+    });
+
+    it('requires a handler for every route', () => {
+      expect(() =>
+        implementService(todoContract, {
+          get: () => ({ id: '1', title: '' }),
+          search: () => [],
+        } as unknown as Parameters<typeof implementService<typeof todoContract>>[1])
+      ).toThrow('Missing handler for route "create" of service "todos"');
+    });
+  });
+
+  describe('createServiceClient', () => {
+    const createFetch = (status: number, body: unknown) =>
+      jest.fn(async (_url: string, _init?: RequestInit) => ({
+        ok: status < 400,
+        status,
+        text: async () => JSON.stringify(body),
+      })) as unknown as jest.Mock & typeof fetch;
+
+    it('maps params, query and body onto the request', async () => {
+      const fetchMock = createFetch(201, { success: true, data: { id: '2', title: 'New' } });
+      const client = createServiceClient(todoContract, {
+        baseUrl: 'https://api.test/',
+        fetch: fetchMock,
+        getToken: () => 'token',
+        headers: { 'X-Client': 'tests' },
+      });
+
+      await client.get({ params: { id: 'a/b' } });
+      await client.search({ query: { tag: ['x', 'y'], done: undefined } });
+      const created = await client.create({ body: { title: 'New' } });
+
+      const [[getUrl, getInit], [searchUrl], [createUrl, createInit]] = fetchMock.mock.calls;
+      expect(getUrl).toBe('https://api.test/api/todos/a%2Fb');
+      expect(getInit.method).toBe('GET');
+      expect(getInit.body).toBeUndefined();
+      expect(getInit.headers).toMatchObject({ Authorization: 'Bearer token', 'X-Client': 'tests' });
+      expect(searchUrl).toBe('https://api.test/api/todos/?tag=x&tag=y');
+      expect(createUrl).toBe('https://api.test/api/todos/');
+      expect(createInit).toMatchObject({ method: 'POST', body: '{"title":"New"}' });
+      expect(createInit.headers).toMatchObject({ 'Content-Type': 'application/json' });
+      expect(created).toEqual({ data: { id: '2', title: 'New' }, status: 201 });
+    });
+
+    it('returns error responses instead of throwing', async () => {
+      const client = createServiceClient(todoContract, {
+        fetch: createFetch(400, { error: { message: 'Validation failed' } }),
+        getToken: () => null,
+      });
+
+      await expect(client.create({ body: { title: '' } })).resolves.toEqual({
+        error: 'Validation failed',
+        status: 400,
+      });
+      await expect(client.get({ params: {} as { id: string } })).resolves.toMatchObject({
+        error: 'Missing path parameter "id" for route /:id',
+        status: 0,
+      });
+    });
+  });
+});
@@ -0,0 +1,189 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import Joi from 'joi';
+
+// The mongoose driver does not load under jsdom; these tests use the
+// in-memory repository
+jest.mock('mongoose', () => ({ __esModule: true, default: {} }));
+
+import { StellarServer } from '../src/server/StellarServer';
+import { defineModel, Entity } from '../src/server/models';
+import { InMemoryRepository } from '../src/server/repository';
+import { createCrudService, CrudServiceOptions } from '../src/server/crud';
+import { AuditEvent, AuditEventType, initializeAuditLogger } from '../src/server/audit';
+import { ConflictError } from '../src/utils/errors';
+
+interface Todo extends Entity {
+  title: string;
+  completed: boolean;
+  priority: number;
+}
+
+const TodoModel = defineModel<Todo>({
+  name: 'Todo',
+  fields: {
+    title: Joi.string().trim().min(1).required(),
+    completed: Joi.boolean().default(false),
+    priority: Joi.number().integer().min(1).max(5).default(3),
+  },
+});
+
+interface TestResponse {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: {
+    data?: unknown;
+    pagination?: Record<string, unknown>;
+    error?: { message: string };
+  };
+}
+
+const send = (port: number, method: string, path: string, body?: unknown) =>
+  new Promise<TestResponse>((resolve, reject) => {
+    const payload = body === undefined ? undefined : JSON.stringify(body);
+    const req = http.request(
+      {
+        port,
+        method,
+        path,
+        // Node does not chunk DELETE bodies, so their length must be given
+        headers: payload
+          ? { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(payload) }
+          : {},
+      },
+      (res) => {
+        let data = '';
+        res.on('data', (chunk) => (data += chunk));
+        res.on('end', () =>
+          resolve({
+            status: res.statusCode || 0,
+            headers: res.headers,
+            body: data ? JSON.parse(data) : {},
+          })
+        );
+      }
+    );
+    req.on('error', reject);
+    req.end(payload);
+  });
+
+describe('createCrudService', () => {
+  let server: StellarServer;
+  let port: number;
+  let events: AuditEvent[];
+  let repository: InMemoryRepository<Todo>;
+
+  const start = async (options: CrudServiceOptions<Todo> = {}) => {
+    server = new StellarServer({
+      port: 0,
+      audit: { enabled: false },
+      security: { helmet: false, rateLimit: false, xss: false, sanitization: false },
+    });
+    server.registerService(createCrudService(TodoModel, { repository, ...options }));
+    await server.start();
+    port = ((server as unknown as { server: http.Server }).server.address() as AddressInfo).port;
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'warn').mockImplementation();
+
+    events = [];
+    initializeAuditLogger({
+      save: async (event) => {
+        events.push(event);
+      },
+      query: async () => events,
+    });
+    repository = new InMemoryRepository<Todo>();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    jest.restoreAllMocks();
+  });
+
+  it('validates, stores and updates entities', async () => {
+    await start();
+
+    expect((await send(port, 'POST', '/api/todos', { completed: true })).status).toBe(400);
+
+    const created = await send(port, 'POST', '/api/todos', { title: '  Write docs ' });
+    expect(created.status).toBe(201);
+    const todo = created.body.data as Todo;
+    expect(todo).toMatchObject({ title: 'Write docs', completed: false, priority: 3 });
+
+    // Patch leaves other fields alone, put replaces them
+    const patched = await send(port, 'PATCH', `/api/todos/${todo.id}`, { completed: true });
+    expect(patched.body.data).toMatchObject({ completed: true, priority: 3 });
+
+    const replaced = await send(port, 'PUT', `/api/todos/${todo.id}`, { title: 'Ship it' });
+    expect(replaced.body.data).toMatchObject({ title: 'Ship it', completed: false });
+    expect((replaced.body.data as Todo).createdAt).toBe(todo.createdAt);
+
+    expect((await send(port, 'DELETE', `/api/todos/${todo.id}`)).status).toBe(204);
+    const missing = await send(port, 'GET', `/api/todos/${todo.id}`);
+    expect(missing.status).toBe(404);
+    expect(missing.body.error?.message).toBe('Todo not found');
+
+    expect(events.map((event) => event.type)).toEqual([
+      AuditEventType.DATA_CREATED,
+      AuditEventType.DATA_UPDATED,
+      AuditEventType.DATA_UPDATED,
+      AuditEventType.DATA_DELETED,
+    ]);
+    expect(events[0].resource).toEqual({ type: 'Todo', id: todo.id });
+  });
+
+  it('filters, sorts and pages lists', async () => {
+    await start();
+    const created = await send(port, 'POST', '/api/todos/bulk', [
+      { title: 'a', priority: 2 },
+      { title: 'b', priority: 5, completed: true },
+      { title: 'c', priority: 4 },
+      { title: 'd', priority: 1 },
+    ]);
+    expect(created.status).toBe(201);
+    expect(created.body.data).toHaveLength(4);
+
+    const page = await send(port, 'GET', '/api/todos?completed=false&sort=-priority&limit=2');
+    expect((page.body.data as Todo[]).map((todo) => todo.title)).toEqual(['c', 'a']);
+    expect(page.body.pagination).toMatchObject({ page: 1, total: 3, totalPages: 2 });
+    expect(page.headers['x-total-count']).toBe('3');
+
+    expect((await send(port, 'GET', '/api/todos?sort=color')).status).toBe(400);
+  });
+
+  it('runs hooks and bulk deletes', async () => {
+    const afterDelete = jest.fn();
+    await start({
+      hooks: {
+        beforeCreate: (input) => ({ ...input, title: input.title.toUpperCase() }),
+        beforeUpdate: (changes, existing) => {
+          if (existing.completed && changes.completed === false) {
+            throw new ConflictError('Completed todos cannot be reopened');
+          }
+        },
+        afterDelete,
+      },
+    });
+
+    const { body } = await send(port, 'POST', '/api/todos/bulk', [
+      { title: 'one', completed: true },
+      { title: 'two' },
+    ]);
+    const [one, two] = body.data as Todo[];
+    expect(one.title).toBe('ONE');
+
+    expect((await send(port, 'PATCH', `/api/todos/${one.id}`, { completed: false })).status).toBe(
+      409
+    );
+
+    const deleted = await send(port, 'DELETE', '/api/todos/bulk', {
+      ids: [one.id, two.id, 'unknown'],
+    });
+    expect(deleted.body.data).toEqual({ deleted: 2 });
+    expect(afterDelete).toHaveBeenCalledTimes(2);
+    expect(await repository.count()).toBe(0);
+  });
+});
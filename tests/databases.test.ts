@@ -0,0 +1,210 @@
+import { Schema } from 'mongoose';
+
+interface FakeConnection {
+  uri: string;
+  readyState: number;
+  models: Record<string, unknown>;
+  model: jest.Mock;
+  handlers: Record<string, (() => void)[]>;
+  on: (event: string, handler: () => void) => void;
+  emit: (event: string) => void;
+  close: jest.Mock;
+  asPromise: () => Promise<FakeConnection>;
+}
+
+// Connect attempts that fail before one succeeds, per URI
+const failures = new Map<string, number>();
+
+const createConnection = jest.fn((uri: string) => {
+  const connection: FakeConnection = {
+    uri,
+    readyState: 1,
+    models: {},
+    model: jest.fn((name: string) => {
+      connection.models[name] = { name, uri };
+      return connection.models[name];
+    }),
+    handlers: {},
+    on: (event, handler) => {
+      connection.handlers[event] = [...(connection.handlers[event] || []), handler];
+    },
+    emit: (event) => (connection.handlers[event] || []).forEach((handler) => handler()),
+    close: jest.fn(async () => {
+      connection.readyState = 0;
+    }),
+    asPromise: async () => {
+      const remaining = failures.get(uri) || 0;
+      if (remaining > 0) {
+        failures.set(uri, remaining - 1);
+        throw new Error(`connect ECONNREFUSED ${uri}`);
+      }
+      return connection;
+    },
+  };
+  return connection;
+});
+
+// The mongoose driver does not load under jsdom; connections are faked
+jest.mock('mongoose', () => ({
+  __esModule: true,
+  default: { createConnection: (uri: string) => createConnection(uri) },
+  Schema: class {},
+}));
+
+import {
+  closeAllDatabases,
+  DatabaseManager,
+  getDatabase,
+  getDatabases,
+  initDatabase,
+} from '../src/server/database';
+import { databaseHealthCheck } from '../src/server/health';
+import { ServiceUnavailableError } from '../src/utils/errors';
+
+const schema = new Schema<{ total: number }>();
+
+describe('named databases', () => {
+  afterEach(async () => {
+    await closeAllDatabases();
+    failures.clear();
+    createConnection.mockClear();
+  });
+
+  it('keeps a connection and models per database', async () => {
+    await initDatabase({ uri: 'mongodb://primary/app' });
+    await initDatabase({ name: 'analytics', uri: 'mongodb://primary/analytics' });
+
+    const app = getDatabase();
+    const analytics = getDatabase('analytics');
+
+    expect(app.getConnection()).not.toBe(analytics.getConnection());
+    expect(app.model('Order', schema)).toEqual({ name: 'Order', uri: 'mongodb://primary/app' });
+    expect(analytics.model('Order', schema)).toEqual({
+      name: 'Order',
+      uri: 'mongodb://primary/analytics',
+    });
+    expect(getDatabases().map((db) => db.name)).toEqual(['default', 'analytics']);
+    expect(databaseHealthCheck(analytics).name).toBe('database:analytics');
+    expect(() => getDatabase('tenants')).toThrow('Database "tenants" not initialized');
+  });
+
+  it('routes reads to replicas and falls back to the primary', async () => {
+    failures.set('mongodb://replica-2/app', Infinity);
+    const db = new DatabaseManager({
+      uri: 'mongodb://primary/app',
+      readReplicas: ['mongodb://replica-1/app', { uri: 'mongodb://replica-2/app' }],
+    });
+
+    await Promise.all([db.connect(), db.connect()]);
+    expect(createConnection.mock.calls.map(([uri]) => uri)).toEqual([
+      'mongodb://primary/app',
+      'mongodb://replica-1/app',
+      'mongodb://replica-2/app',
+    ]);
+    expect(db.readModel('Order', schema)).toEqual({
+      name: 'Order',
+      uri: 'mongodb://replica-1/app',
+    });
+
+    const replica = db.getReadConnection() as unknown as FakeConnection;
+    replica.readyState = 0;
+    expect(db.readModel('Order', schema)).toEqual({
+      name: 'Order',
+      uri: 'mongodb://primary/app',
+    });
+
+    await db.disconnect();
+  });
+
+  it('handles process signals only when asked to', async () => {
+    const listeners = () => process.listenerCount('SIGTERM');
+    const before = listeners();
+
+    const server = new DatabaseManager({ uri: 'mongodb://primary/app' });
+    await server.connect();
+    expect(listeners()).toBe(before);
+    await server.disconnect();
+
+    const worker = new DatabaseManager({ uri: 'mongodb://primary/app', handleSignals: true });
+    await worker.connect();
+    expect(listeners()).toBe(before + 1);
+    await worker.disconnect();
+    expect(listeners()).toBe(before);
+  });
+
+  it('retries the initial connect with backoff', async () => {
+    failures.set('mongodb://primary/app', 2);
+    const db = new DatabaseManager({
+      uri: 'mongodb://primary/app',
+      retry: { maxRetries: 2, initialDelay: 1 },
+    });
+    const attempts: number[] = [];
+    db.on('connecting', ({ attempt }) => attempts.push(attempt));
+
+    await db.connect();
+
+    expect(attempts).toEqual([1, 2, 3]);
+    expect(db.getMetrics()).toMatchObject({ state: 'connected', connectAttempts: 3 });
+
+    failures.set('mongodb://primary/other', Infinity);
+    const unreachable = new DatabaseManager({
+      uri: 'mongodb://primary/other',
+      retry: { maxRetries: 1, initialDelay: 1 },
+    });
+    const failed = jest.fn();
+    unreachable.on('failed', failed);
+
+    await expect(unreachable.connect()).rejects.toThrow('ECONNREFUSED');
+    expect(unreachable.getState()).toBe('failed');
+    expect(failed).toHaveBeenCalledWith({ error: expect.any(Error) });
+    await db.disconnect();
+  });
+
+  it('does not register a database whose first connect fails', async () => {
+    failures.set('mongodb://primary/app', 1);
+
+    await expect(
+      initDatabase({ uri: 'mongodb://primary/app', retry: { maxRetries: 0 } })
+    ).rejects.toThrow('ECONNREFUSED');
+    expect(getDatabases()).toEqual([]);
+
+    const db = await initDatabase({ uri: 'mongodb://primary/app', retry: { maxRetries: 0 } });
+    expect(db.getState()).toBe('connected');
+    expect(getDatabase()).toBe(db);
+  });
+
+  it('reports outages until the driver reconnects', async () => {
+    const db = new DatabaseManager({ uri: 'mongodb://primary/app' });
+    const connection = (await db.connect()) as unknown as FakeConnection;
+    const events: string[] = [];
+    db.on('reconnecting', () => events.push('reconnecting'));
+    db.on('connected', () => events.push('connected'));
+    const next = jest.fn();
+
+    connection.readyState = 0;
+    connection.emit('disconnected');
+
+    expect(db.getState()).toBe('reconnecting');
+    expect(await db.healthCheck()).toMatchObject({
+      healthy: false,
+      message: expect.stringMatching(/^Database reconnecting/),
+    });
+    db.requireConnection()({} as never, {} as never, next);
+    expect(next).toHaveBeenCalledWith(expect.any(ServiceUnavailableError));
+
+    connection.readyState = 1;
+    connection.emit('connected');
+    connection.emit('reconnected');
+
+    expect(events).toEqual(['reconnecting', 'connected']);
+    expect(db.getMetrics()).toMatchObject({
+      state: 'connected',
+      reconnects: 1,
+      disconnectedSince: null,
+    });
+
+    await db.disconnect();
+    connection.emit('disconnected');
+    expect(db.getState()).toBe('disconnected');
+  });
+});
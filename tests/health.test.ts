@@ -0,0 +1,174 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { NextFunction, Request, Response } from 'express';
+import { StellarServer } from '../src/server/StellarServer';
+import { HealthRegistry } from '../src/server/health';
+import { ServerConfig } from '../src/types';
+
+const request = (
+  port: number,
+  path: string,
+  headers: Record<string, string> = {}
+): Promise<{ status: number; body: unknown }> =>
+  new Promise((resolve, reject) => {
+    http
+      .get({ port, path, headers }, (res) => {
+        let data = '';
+        res.on('data', (chunk) => (data += chunk));
+        res.on('end', () => resolve({ status: res.statusCode || 0, body: JSON.parse(data) }));
+      })
+      .on('error', reject);
+  });
+
+describe('Health checks', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'warn').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('HealthRegistry', () => {
+    it('is unhealthy when a critical check fails', async () => {
+      const registry = new HealthRegistry({ cacheTtl: 0 });
+      registry.register({ name: 'cache', check: () => true });
+      registry.register({
+        name: 'database',
+        check: () => {
+          throw new Error('connection refused');
+        },
+      });
+
+      const report = await registry.run();
+
+      expect(report.status).toBe('unhealthy');
+      expect(report.checks).toEqual([
+        expect.objectContaining({ name: 'cache', status: 'pass' }),
+        expect.objectContaining({
+          name: 'database',
+          status: 'fail',
+          critical: true,
+          message: 'connection refused',
+        }),
+      ]);
+    });
+
+    it('is degraded when only a non-critical check fails', async () => {
+      const registry = new HealthRegistry({ cacheTtl: 0 });
+      registry.register({ name: 'database', check: () => ({ healthy: true }) });
+      registry.register({ name: 'search', critical: false, check: () => false });
+
+      await expect(registry.run()).resolves.toMatchObject({ status: 'degraded' });
+    });
+
+    it('fails a check that exceeds its timeout', async () => {
+      jest.useFakeTimers();
+      const registry = new HealthRegistry({ timeout: 1000, cacheTtl: 0 });
+      registry.register({ name: 'queue', check: () => new Promise<boolean>(() => undefined) });
+
+      const report = registry.run();
+      await jest.advanceTimersByTimeAsync(1000);
+
+      await expect(report).resolves.toMatchObject({
+        status: 'unhealthy',
+        checks: [{ name: 'queue', status: 'fail', message: 'Timed out after 1000ms' }],
+      });
+    });
+
+    it('reuses cached results and shares running checks', async () => {
+      jest.useFakeTimers();
+      const check = jest.fn(async () => true);
+      const registry = new HealthRegistry();
+      registry.register({ name: 'database', check, cacheTtl: 5000 });
+
+      const [first, second] = await Promise.all([registry.run(), registry.run()]);
+      const cached = await registry.run();
+
+      expect(check).toHaveBeenCalledTimes(1);
+      expect(first.checks[0]).toBe(second.checks[0]);
+      expect(cached.checks[0]).toMatchObject({ status: 'pass', cached: true });
+
+      jest.advanceTimersByTime(5000);
+      await expect(registry.run()).resolves.toMatchObject({ checks: [{ cached: false }] });
+      expect(check).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('endpoints', () => {
+    let server: StellarServer;
+    let port: number;
+    let databaseUp: boolean;
+
+    const startServer = async (health: ServerConfig['health'] = {}) => {
+      server = new StellarServer({
+        port: 0,
+        audit: { enabled: false },
+        health: { cacheTtl: 0, ...health },
+        shutdown: { handleSignals: false },
+      });
+      server.addHealthCheck({ name: 'database', check: () => databaseUp });
+      server.addHealthCheck({ name: 'search', critical: false, check: () => true });
+      await server.start();
+      port = ((server as unknown as { server: http.Server }).server.address() as AddressInfo).port;
+    };
+
+    beforeEach(() => {
+      databaseUp = true;
+    });
+
+    afterEach(async () => {
+      await server.stop();
+    });
+
+    it('answers liveness whatever the checks report', async () => {
+      await startServer();
+      databaseUp = false;
+
+      await expect(request(port, '/health/live')).resolves.toMatchObject({
+        status: 200,
+        body: { status: 'alive' },
+      });
+    });
+
+    it('answers 503 from readiness while a critical check fails', async () => {
+      await startServer();
+      await expect(request(port, '/health/ready')).resolves.toMatchObject({
+        status: 200,
+        body: { status: 'healthy', checks: { database: 'pass', search: 'pass' } },
+      });
+
+      databaseUp = false;
+      await expect(request(port, '/health/ready')).resolves.toMatchObject({
+        status: 503,
+        body: { status: 'unhealthy', checks: { database: 'fail' } },
+      });
+    });
+
+    it('serves the detailed report only when enabled, behind its middleware', async () => {
+      await startServer();
+      // Express's own 404 needs setImmediate, which jsdom lacks
+      server.use((req, res) => res.status(404).json({ error: 'Not found' }));
+      await expect(request(port, '/health')).resolves.toMatchObject({ status: 404 });
+      await server.stop();
+
+      await startServer({
+        detailed: true,
+        middleware: [
+          (req: Request, res: Response, next: NextFunction) =>
+            req.headers.authorization === 'Bearer admin'
+              ? next()
+              : res.status(403).json({ error: 'Forbidden' }),
+        ],
+      });
+      databaseUp = false;
+
+      await expect(request(port, '/health')).resolves.toMatchObject({ status: 403 });
+      const detailed = await request(port, '/health', { authorization: 'Bearer admin' });
+      expect(detailed.status).toBe(503);
+      expect(detailed.body).toMatchObject({ status: 'unhealthy' });
+    });
+  });
+});
@@ -1,6 +1,8 @@
+import React from 'react';
 import { renderHook, act, waitFor } from '@testing-library/react';
 import {
   useAsync,
+  useFetch,
   useLocalStorage,
   useSessionStorage,
   useDebounce,
@@ -11,6 +13,9 @@ import {
   useInterval,
   useWindowSize,
 } from '../src/hooks';
+import { useAuth } from '../src/hooks/useService';
+import { StellarProvider } from '../src/core/StellarProvider';
+import { AUTH_TOKEN_KEY, REFRESH_TOKEN_KEY } from '../src/utils/auth-tokens';
 
 describe('Hooks Tests', () => {
   describe('useAsync', () => {
@@ -56,6 +61,99 @@ describe('Hooks Tests', () => {
         expect(asyncFn).toHaveBeenCalledTimes(1);
       });
     });
+
+    it('should keep the result of the latest call', async () => {
+      const resolvers: ((value: string) => void)[] = [];
+      const asyncFn = jest.fn(
+        (_term: string, signal: AbortSignal) =>
+          new Promise<string>((resolve) => {
+            resolvers.push(resolve);
+            expect(signal).toBeInstanceOf(AbortSignal);
+          })
+      );
+      const { result } = renderHook(() => useAsync(asyncFn, false, { abortable: true }));
+
+      let first!: Promise<string>;
+      let second!: Promise<string>;
+      act(() => {
+        first = result.current.execute('a');
+        second = result.current.execute('ab');
+      });
+
+      expect(asyncFn.mock.calls[0][1].aborted).toBe(true);
+
+      await act(async () => {
+        resolvers[1]('second');
+        resolvers[0]('first');
+        await expect(first).rejects.toMatchObject({ name: 'AbortError' });
+        await second;
+      });
+
+      expect(result.current.data).toBe('second');
+    });
+
+    it('should cancel the pending call', async () => {
+      const asyncFn = jest.fn(() => new Promise<string>(() => undefined));
+      const { result } = renderHook(() => useAsync(asyncFn));
+
+      let pending!: Promise<string>;
+      act(() => {
+        pending = result.current.execute();
+      });
+      expect(result.current.isPending).toBe(true);
+
+      act(() => result.current.cancel());
+
+      await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+      expect(result.current.status).toBe('idle');
+    });
+
+    it('should reject slow calls with a TimeoutError', async () => {
+      const asyncFn = jest.fn(() => new Promise<string>(() => undefined));
+      const { result } = renderHook(() => useAsync(asyncFn, false, { timeout: 10 }));
+
+      await act(async () => {
+        await expect(result.current.execute()).rejects.toMatchObject({ name: 'TimeoutError' });
+      });
+
+      expect(result.current.isError).toBe(true);
+    });
+  });
+
+  describe('useFetch', () => {
+    const originalFetch = global.fetch;
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+    });
+
+    it('should ignore responses of superseded requests', async () => {
+      const responses: Record<string, (body: unknown) => void> = {};
+      const signals: Record<string, AbortSignal> = {};
+      global.fetch = jest.fn(
+        (url: string, init: RequestInit) =>
+          new Promise((resolve) => {
+            signals[url] = init.signal as AbortSignal;
+            responses[url] = (body) => resolve({ ok: true, json: async () => body } as Response);
+          })
+      ) as unknown as typeof fetch;
+
+      const { result, rerender } = renderHook(({ url }) => useFetch<string>(url), {
+        initialProps: { url: '/search?q=a' },
+      });
+      rerender({ url: '/search?q=ab' });
+
+      expect(signals['/search?q=a'].aborted).toBe(true);
+
+      await act(async () => {
+        responses['/search?q=ab']('ab');
+        responses['/search?q=a']('a');
+      });
+
+      await waitFor(() => expect(result.current.loading).toBe(false));
+      expect(result.current.data).toBe('ab');
+      expect(result.current.error).toBeNull();
+    });
   });
 
   describe('useLocalStorage', () => {
@@ -383,4 +481,64 @@ describe('Hooks Tests', () => {
       });
     });
   });
+
+  describe('useAuth', () => {
+    const refresh = jest.fn();
+    const wrapper = ({ children }: { children: React.ReactNode }) =>
+      React.createElement(
+        StellarProvider,
+        {
+          config: {
+            apiUrl: 'http://localhost:3000',
+            auth: { jwtSecret: 'test-secret' },
+            services: { auth: { refresh } },
+          },
+        },
+        children
+      );
+
+    beforeEach(() => {
+      localStorage.setItem(AUTH_TOKEN_KEY, 'old-token');
+      localStorage.setItem(REFRESH_TOKEN_KEY, 'refresh-token');
+    });
+
+    afterEach(() => {
+      localStorage.clear();
+      refresh.mockReset();
+    });
+
+    it('stores the tokens of a refresh', async () => {
+      refresh.mockResolvedValue({
+        data: { token: 'new-token', refreshToken: 'next-refresh', expiresIn: 900 },
+        status: 200,
+      });
+      const { result } = renderHook(() => useAuth(), { wrapper });
+
+      let token: string | null = null;
+      await act(async () => {
+        token = await result.current.refresh();
+      });
+
+      expect(refresh).toHaveBeenCalledWith({ body: { refreshToken: 'refresh-token' } });
+      expect(token).toBe('new-token');
+      expect(result.current.token).toBe('new-token');
+      expect(localStorage.getItem(REFRESH_TOKEN_KEY)).toBe('next-refresh');
+    });
+
+    it('treats an error result like a failed refresh', async () => {
+      refresh.mockResolvedValue({ error: 'Invalid refresh token', status: 401 });
+      const { result } = renderHook(() => useAuth(), { wrapper });
+
+      let token: string | null = 'unset';
+      await act(async () => {
+        token = await result.current.refresh();
+      });
+
+      expect(token).toBeNull();
+      expect(result.current.token).toBeNull();
+      expect(result.current.isAuthenticated).toBe(false);
+      expect(localStorage.getItem(AUTH_TOKEN_KEY)).toBeNull();
+      expect(localStorage.getItem(REFRESH_TOKEN_KEY)).toBeNull();
+    });
+  });
 });
@@ -0,0 +1,149 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { AuthService } from '../src/services/auth/AuthService';
+import { InMemoryUserStore } from '../src/services/auth/UserStore';
+import { JwksVerifier, jwksPlugin } from '../src/server/jwks';
+import { StellarServer } from '../src/server/StellarServer';
+import { SigningAlgorithm, SigningKeysOptions } from '../src/types';
+import { decodeJwtHeader } from '../src/utils/jwt';
+import { KeyManager } from '../src/services/auth/KeyManager';
+import { InMemorySigningKeyStore } from '../src/services/auth/SigningKeyStore';
+
+const createAuth = async (signingKeys: SigningKeysOptions) => {
+  const store = new InMemoryUserStore();
+  const auth = new AuthService({ jwtSecret: 'test-secret', signingKeys }, { userStore: store });
+  const user = await store.create({ email: 'ada@example.com', passwordHash: 'x', roles: ['user'] });
+  return { auth, user };
+};
+
+const authenticate = async (auth: AuthService, token: string) => {
+  const res = { status: jest.fn(() => res), json: jest.fn() };
+  const next = jest.fn();
+  const req = { headers: { authorization: `Bearer ${token}` } };
+  await auth.authenticateToken(req as never, res as never, next);
+  return { status: res.status.mock.calls[0]?.[0] as number | undefined, next };
+};
+
+// Serves the service's JWKS without a network and counts the fetches
+const createFetch = (auth: AuthService) =>
+  jest.fn(async () => ({
+    ok: true,
+    status: 200,
+    json: () => auth.getJwks(),
+  })) as unknown as jest.Mock & typeof fetch;
+
+describe('Asymmetric access tokens', () => {
+  it.each<SigningAlgorithm>(['RS256', 'ES256', 'EdDSA'])(
+    'signs with %s and verifies locally and through the JWKS',
+    async (algorithm) => {
+      const { auth, user } = await createAuth({ algorithm, issuer: 'https://auth.test' });
+      const { token } = await auth.issueTokens(user);
+
+      const { kid, alg } = decodeJwtHeader(token);
+      expect(alg).toBe(algorithm);
+      expect((await auth.getJwks()).keys).toEqual([expect.objectContaining({ kid, alg })]);
+
+      const local = await authenticate(auth, token);
+      expect(local.next).toHaveBeenCalledWith();
+
+      const verifier = new JwksVerifier({
+        jwksUri: 'https://auth.test/.well-known/jwks.json',
+        issuer: 'https://auth.test',
+        fetch: createFetch(auth),
+      });
+      await expect(verifier.verify(token)).resolves.toMatchObject({ id: user.id });
+      await expect(verifier.verify(`${token.slice(0, -4)}AAAA`)).rejects.toThrow();
+    }
+  );
+
+  it('keeps verifying tokens of retired keys until the retention ends', async () => {
+    const { auth, user } = await createAuth({ retention: 60 * 1000 });
+    const fetchJwks = createFetch(auth);
+    const verifier = new JwksVerifier({
+      jwksUri: 'https://auth.test/jwks',
+      fetch: fetchJwks,
+      cooldown: 0,
+    });
+
+    const { token: before } = await auth.issueTokens(user);
+    await verifier.verify(before);
+
+    await auth.getKeyManager()?.rotate();
+    const { token: after } = await auth.issueTokens(user);
+    expect(decodeJwtHeader(after).kid).not.toBe(decodeJwtHeader(before).kid);
+
+    // The verifier fetches the keys again for the unknown kid
+    await expect(verifier.verify(after)).resolves.toMatchObject({ id: user.id });
+    expect(fetchJwks).toHaveBeenCalledTimes(2);
+    expect((await authenticate(auth, before)).next).toHaveBeenCalledWith();
+
+    jest.useFakeTimers({ now: Date.now() + 2 * 60 * 1000 });
+    try {
+      expect((await auth.getJwks()).keys).toHaveLength(1);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('shares keys between processes through the store and caches them', async () => {
+    const store = new InMemorySigningKeyStore();
+    const list = jest.spyOn(store, 'list');
+    const first = new KeyManager(store, { algorithm: 'ES256' });
+    const second = new KeyManager(store, { algorithm: 'ES256' });
+
+    const token = await first.sign({ id: 'ada' });
+    await expect(second.verify(token)).resolves.toMatchObject({ id: 'ada' });
+    await first.sign({ id: 'ada' });
+
+    list.mockClear();
+    for (let i = 0; i < 3; i++) {
+      await second.verify(await first.sign({ id: 'ada' }));
+    }
+    expect(list).not.toHaveBeenCalled();
+
+    // A kid the second process has not seen yet makes it read the store again
+    await first.rotate();
+    const rotated = await first.sign({ id: 'ada' });
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + 10 * 1000);
+    try {
+      await expect(second.verify(rotated)).resolves.toMatchObject({ id: 'ada' });
+    } finally {
+      jest.restoreAllMocks();
+    }
+  });
+
+  it('serves the JWKS at /.well-known/jwks.json', async () => {
+    jest.spyOn(console, 'log').mockImplementation();
+    const { auth } = await createAuth({ algorithm: 'ES256' });
+    await auth.getKeyManager()?.rotate();
+
+    const server = new StellarServer({
+      port: 0,
+      auth: { jwtSecret: 'test-secret' },
+      audit: { enabled: false },
+    });
+    server.register(jwksPlugin, { source: auth });
+    await server.start();
+
+    try {
+      const { port } = (
+        server as unknown as { server: http.Server }
+      ).server.address() as AddressInfo;
+      const body = await new Promise<string>((resolve, reject) => {
+        http
+          .get({ port, path: '/.well-known/jwks.json' }, (res) => {
+            let data = '';
+            res.on('data', (chunk) => (data += chunk));
+            res.on('end', () => resolve(data));
+          })
+          .on('error', reject);
+      });
+
+      expect(JSON.parse(body)).toEqual(await auth.getJwks());
+    } finally {
+      await server.stop();
+      jest.restoreAllMocks();
+    }
+  });
+});
@@ -0,0 +1,173 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Request, Response } from 'express';
+import { StellarServer } from '../src/server/StellarServer';
+import { buildServiceManifest, deriveRouteName, resolveRouteNames } from '../src/server/manifest';
+import {
+  clearRemoteServicesCache,
+  createRemoteServices,
+  loadRemoteServices,
+} from '../src/utils/remote-services';
+import { sendServiceRequest } from '../src/utils/service-client';
+import { Route, ServiceConfig } from '../src/types';
+
+const handler = (req: Request, res: Response) => {
+  res.json({ success: true, data: null });
+};
+
+const route = (method: Route['method'], path: string, name?: string): Route => ({
+  method,
+  path,
+  name,
+  handler,
+});
+
+// Answers every request with `body` and records the requests
+const createFetch = (body: string, status = 200) =>
+  jest.fn(async (_url: string, _init?: RequestInit) => ({
+    ok: status < 400,
+    status,
+    text: async () => body,
+    json: async () => JSON.parse(body),
+  })) as unknown as jest.Mock & typeof fetch;
+
+describe('Route manifest', () => {
+  it('derives route names from paths', () => {
+    expect(deriveRouteName({ method: 'POST', path: '/login' })).toBe('login');
+    expect(deriveRouteName({ method: 'GET', path: '/users/:id' })).toBe('usersById');
+    expect(deriveRouteName({ method: 'DELETE', path: '/:id' })).toBe('deleteById');
+    expect(deriveRouteName({ method: 'GET', path: '/' })).toBe('get');
+    expect(deriveRouteName({ method: 'GET', path: '/reset-password' })).toBe('resetPassword');
+  });
+
+  it('prefixes shared derived names with the method and rejects real collisions', () => {
+    expect(
+      resolveRouteNames([route('GET', '/users'), route('POST', '/users')]).map(({ name }) => name)
+    ).toEqual(['getUsers', 'postUsers']);
+
+    expect(() =>
+      resolveRouteNames([
+        route('GET', '/users'),
+        route('POST', '/users'),
+        route('GET', '/all', 'getUsers'),
+      ])
+    ).toThrow('Duplicate route name "getUsers"; set an explicit route name');
+  });
+
+  it('builds one entry per service', () => {
+    const service: ServiceConfig = {
+      name: 'todos',
+      routes: [route('GET', '/', 'list'), route('PATCH', '/:id')],
+    };
+
+    expect(buildServiceManifest([service])).toEqual({
+      services: {
+        todos: {
+          name: 'todos',
+          basePath: '/api/todos',
+          routes: [
+            { name: 'list', method: 'GET', path: '/' },
+            { name: 'patchById', method: 'PATCH', path: '/:id' },
+          ],
+        },
+      },
+    });
+  });
+
+  describe('StellarServer', () => {
+    const env = process.env.NODE_ENV;
+    let server: StellarServer | undefined;
+
+    beforeEach(() => {
+      jest.spyOn(console, 'log').mockImplementation();
+      jest.spyOn(console, 'warn').mockImplementation();
+    });
+
+    afterEach(async () => {
+      process.env.NODE_ENV = env;
+      await server?.stop();
+      server = undefined;
+      jest.restoreAllMocks();
+    });
+
+    const create = (manifest?: { enabled?: boolean }) =>
+      new StellarServer({ port: 0, audit: { enabled: false }, manifest });
+
+    it('serves the manifest outside production', async () => {
+      server = create();
+      server.registerService({ name: 'todos', routes: [route('GET', '/', 'list')] });
+      await server.start();
+
+      const { port } = (
+        server as unknown as { server: http.Server }
+      ).server.address() as AddressInfo;
+      const body = await new Promise<string>((resolve, reject) => {
+        http
+          .get({ port, path: '/api/_manifest' }, (res) => {
+            let data = '';
+            res.on('data', (chunk) => (data += chunk));
+            res.on('end', () => resolve(data));
+          })
+          .on('error', reject);
+      });
+
+      expect(JSON.parse(body)).toEqual(server.getManifest());
+    });
+
+    it('keeps the manifest private in production unless enabled', () => {
+      process.env.NODE_ENV = 'production';
+
+      expect(create().hasPlugin('stellar-manifest')).toBe(false);
+      expect(create({ enabled: true }).hasPlugin('stellar-manifest')).toBe(true);
+    });
+  });
+});
+
+describe('Remote services', () => {
+  afterEach(() => clearRemoteServicesCache());
+
+  it('calls the routes of a manifest', async () => {
+    const fetchMock = createFetch(JSON.stringify({ success: true, data: { id: '7' } }));
+    const { todos } = createRemoteServices(
+      buildServiceManifest([{ name: 'todos', routes: [route('PATCH', '/:id', 'update')] }]),
+      { baseUrl: 'https://api.test/', fetch: fetchMock, getToken: () => 'token' }
+    );
+
+    const result = await todos.update({ params: { id: '7' }, body: { done: true } });
+
+    expect(result).toEqual({ data: { id: '7' }, status: 200 });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://api.test/api/todos/7');
+    expect(init).toMatchObject({ method: 'PATCH', body: '{"done":true}' });
+    expect(init.headers).toMatchObject({ Authorization: 'Bearer token' });
+  });
+
+  it('loads each manifest once and retries failed loads', async () => {
+    const failing = createFetch('{}', 503);
+    await expect(
+      loadRemoteServices({ baseUrl: 'https://api.test', fetch: failing })
+    ).rejects.toThrow('HTTP 503');
+
+    const manifest = buildServiceManifest([{ name: 'todos', routes: [route('GET', '/', 'list')] }]);
+    const fetchMock = createFetch(JSON.stringify(manifest));
+    const [first, second] = await Promise.all([
+      loadRemoteServices({ baseUrl: 'https://api.test', fetch: fetchMock }),
+      loadRemoteServices({ baseUrl: 'https://api.test', fetch: fetchMock }),
+    ]);
+
+    expect(first).toBe(second);
+    expect(Object.keys(first.todos)).toEqual(['list']);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the HTTP status of error responses that are not JSON', async () => {
+    const result = await sendServiceRequest(
+      '/api/todos',
+      { method: 'GET', path: '/' },
+      {},
+      { fetch: createFetch('<html>Bad Gateway</html>', 502), getToken: () => null }
+    );
+
+    expect(result).toEqual({ error: 'HTTP error! status: 502', status: 502 });
+  });
+});
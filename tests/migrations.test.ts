@@ -0,0 +1,105 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// The mongoose driver does not load under jsdom; these tests use the
+// in-memory store
+jest.mock('mongoose', () => ({ __esModule: true, default: {} }));
+
+import type { DatabaseManager } from '../src/server/database';
+import {
+  createMigrationFile,
+  InMemoryMigrationStore,
+  Migration,
+  MigrationRunner,
+} from '../src/server/migrations';
+import { ConflictError } from '../src/utils/errors';
+
+const db = { getConnection: () => ({}) } as unknown as DatabaseManager;
+
+describe('MigrationRunner', () => {
+  let store: InMemoryMigrationStore;
+  let calls: string[];
+
+  const migration = (id: string, name: string): Migration => ({
+    id,
+    name,
+    up: async () => {
+      calls.push(`up ${id}`);
+    },
+    down: async () => {
+      calls.push(`down ${id}`);
+    },
+  });
+
+  beforeEach(() => {
+    store = new InMemoryMigrationStore();
+    calls = [];
+  });
+
+  it('applies pending migrations in order and reverts the newest', async () => {
+    const runner = new MigrationRunner({
+      db,
+      store,
+      migrations: [
+        migration('20260102000000', 'add_orders_index'),
+        migration('20260101000000', 'create_users'),
+        migration('20260103000000', 'backfill_totals'),
+      ],
+    });
+
+    expect(await runner.up({ dryRun: true })).toHaveLength(3);
+    expect(calls).toEqual([]);
+
+    expect(await runner.up({ to: '20260102000000' })).toEqual(['20260101000000', '20260102000000']);
+    expect((await runner.status()).map((status) => status.state)).toEqual([
+      'applied',
+      'applied',
+      'pending',
+    ]);
+
+    await runner.up();
+    expect(await runner.down({ steps: 2 })).toEqual(['20260103000000', '20260102000000']);
+    expect(calls).toEqual([
+      'up 20260101000000',
+      'up 20260102000000',
+      'up 20260103000000',
+      'down 20260103000000',
+      'down 20260102000000',
+    ]);
+    expect((await store.list()).map((record) => record.id)).toEqual(['20260101000000']);
+  });
+
+  it('lets one instance migrate at a time', async () => {
+    await store.acquireLock('other-instance', new Date(Date.now() + 60 * 1000));
+    const runner = new MigrationRunner({
+      db,
+      store,
+      migrations: [migration('20260101000000', 'create_users')],
+    });
+
+    await expect(runner.up()).rejects.toThrow(ConflictError);
+    expect(calls).toEqual([]);
+
+    await store.releaseLock('other-instance');
+    await expect(runner.up()).resolves.toEqual(['20260101000000']);
+  });
+
+  it('refuses to run after an applied migration file changed', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'stellar-migrations-'));
+    try {
+      const file = createMigrationFile(directory, 'Create users');
+      const runner = new MigrationRunner({ db, store, directory });
+
+      expect(path.basename(file)).toMatch(/^\d{14}_create_users\.js$/);
+      expect(await runner.up()).toHaveLength(1);
+
+      fs.appendFileSync(file, '\n// edited after it ran\n');
+
+      expect((await runner.status())[0].state).toBe('changed');
+      await expect(runner.up()).rejects.toThrow('Applied migrations have changed');
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,172 @@
+import { Request, Response } from 'express';
+import { AuthService } from '../src/services/auth/AuthService';
+import { OidcClient } from '../src/services/auth/OidcClient';
+import { InMemoryUserStore } from '../src/services/auth/UserStore';
+import { MockOidcProvider, MockOidcUser } from '../src/testing/oidc';
+
+const REDIRECT_URI = 'http://localhost:3000/auth/callback';
+
+const createResponse = () => {
+  const res = {
+    statusCode: 200,
+    body: {} as Record<string, unknown>,
+    status: jest.fn((code: number) => Object.assign(res, { statusCode: code })),
+    json: jest.fn((body: Record<string, unknown>) => Object.assign(res, { body })),
+    set: jest.fn(() => res),
+    cookie: jest.fn(() => res),
+  };
+  return res;
+};
+
+const call = async (
+  handler: (req: Request, res: Response) => Promise<void>,
+  body: Record<string, unknown> = {},
+  cookie?: string
+) => {
+  const res = createResponse();
+  await handler(
+    { params: { provider: 'mock' }, body, headers: { cookie } } as unknown as Request,
+    res as unknown as Response
+  );
+  return res;
+};
+
+describe('OIDC login', () => {
+  let provider: MockOidcProvider;
+  let store: InMemoryUserStore;
+  let auth: AuthService;
+
+  // Runs the browser part of the flow: start, then approve at the provider
+  const startLogin = async (user: MockOidcUser) => {
+    const started = await call(auth.oidcAuthorize.bind(auth));
+    const [name, value] = started.cookie.mock.calls[0] as unknown as [string, string];
+    const redirect = new URL(provider.authorize(started.body.authorizationUrl as string, user));
+    return {
+      cookie: `${name}=${encodeURIComponent(value)}`,
+      callback: {
+        code: redirect.searchParams.get('code'),
+        state: redirect.searchParams.get('state'),
+      },
+    };
+  };
+
+  const signIn = async (user: MockOidcUser) => {
+    const { cookie, callback } = await startLogin(user);
+    return { cookie, callback, res: await call(auth.oidcCallback.bind(auth), callback, cookie) };
+  };
+
+  beforeEach(() => {
+    provider = new MockOidcProvider();
+    store = new InMemoryUserStore();
+    auth = new AuthService(
+      { jwtSecret: 'test-secret', bcryptRounds: 4 },
+      {
+        userStore: store,
+        oidcProviders: [new OidcClient(provider.clientConfig({ redirectUri: REDIRECT_URI }))],
+      }
+    );
+  });
+
+  it('creates a linked user on the first login and finds it afterwards', async () => {
+    const user = { sub: 'g-1', email: 'Ada@Example.com', email_verified: true, name: 'Ada' };
+
+    const first = await signIn(user);
+    expect(first.res.statusCode).toBe(200);
+    expect(first.res.body.token).toEqual(expect.any(String));
+    expect(first.res.body.user).toMatchObject({ email: 'ada@example.com', emailVerified: true });
+
+    const stored = await store.findByIdentity('mock', 'g-1');
+    expect(stored?.identities).toEqual([
+      expect.objectContaining({ provider: 'mock', subject: 'g-1', email: 'Ada@Example.com' }),
+    ]);
+
+    const second = await signIn({ ...user, email: 'changed@example.com' });
+    expect((second.res.body.user as { id: string }).id).toBe(stored?.id);
+  });
+
+  it('links existing accounts only through verified emails', async () => {
+    const existing = await store.create({ email: 'ada@example.com', passwordHash: 'x' });
+
+    const unverified = await signIn({ sub: 'g-2', email: 'ada@example.com' });
+    expect(unverified.res.statusCode).toBe(409);
+
+    const verified = await signIn({ sub: 'g-2', email: 'ada@example.com', email_verified: true });
+    expect((verified.res.body.user as { id: string }).id).toBe(existing.id);
+  });
+
+  it('refuses unverified provider emails when verification is required', async () => {
+    auth = new AuthService(
+      { jwtSecret: 'test-secret', bcryptRounds: 4, requireEmailVerification: true },
+      {
+        userStore: store,
+        oidcProviders: [new OidcClient(provider.clientConfig({ redirectUri: REDIRECT_URI }))],
+      }
+    );
+
+    const unverified = await signIn({ sub: 'g-4', email: 'grace@example.com' });
+    const verified = await signIn({ sub: 'g-5', email: 'ada@example.com', email_verified: true });
+
+    expect(unverified.res.statusCode).toBe(403);
+    expect(unverified.res.body).toEqual({ error: 'Email address is not verified' });
+    expect(verified.res.statusCode).toBe(200);
+  });
+
+  it('accepts each state once', async () => {
+    const { cookie, callback } = await signIn({ sub: 'g-3', email: 'grace@example.com' });
+    const replay = await call(auth.oidcCallback.bind(auth), callback, cookie);
+
+    expect(replay.statusCode).toBe(401);
+    expect(replay.body.error).toBe('Invalid or expired login state');
+  });
+
+  it('completes a login only in the browser that started it', async () => {
+    // An attacker starts a login and gets a victim's browser to post its callback
+    const attacker = await startLogin({ sub: 'g-5', email: 'mallory@example.com' });
+    const victim = await startLogin({ sub: 'g-6', email: 'ada@example.com' });
+
+    const withoutCookie = await call(auth.oidcCallback.bind(auth), attacker.callback);
+    const otherBrowser = await call(auth.oidcCallback.bind(auth), attacker.callback, victim.cookie);
+
+    expect(withoutCookie.statusCode).toBe(401);
+    expect(otherBrowser.statusCode).toBe(401);
+    expect(await store.findByIdentity('mock', 'g-5')).toBeNull();
+  });
+
+  it('verifies ID tokens against rotated keys and the nonce', async () => {
+    const client = new OidcClient({
+      ...provider.clientConfig({ redirectUri: REDIRECT_URI }),
+      cooldown: 0,
+    });
+    const { nonce } = await client.createAuthorizationRequest();
+    const user = { sub: 'g-4' };
+
+    await expect(
+      client.verifyIdToken(provider.signIdToken(user, nonce), nonce)
+    ).resolves.toMatchObject(user);
+
+    provider.rotateKeys();
+    await expect(
+      client.verifyIdToken(provider.signIdToken(user, nonce), nonce)
+    ).resolves.toMatchObject(user);
+    await expect(client.verifyIdToken(provider.signIdToken(user, 'other'), nonce)).rejects.toThrow(
+      'nonce'
+    );
+  });
+
+  it('fetches keys for unknown key ids at most once per cooldown', async () => {
+    const fetchSpy = jest.fn(provider.fetch);
+    const client = new OidcClient({
+      ...provider.clientConfig({ redirectUri: REDIRECT_URI }),
+      fetch: fetchSpy as typeof fetch,
+    });
+    const { nonce } = await client.createAuthorizationRequest();
+    await client.verifyIdToken(provider.signIdToken({ sub: 'g-7' }, nonce), nonce);
+    const fetches = fetchSpy.mock.calls.length;
+
+    provider.rotateKeys();
+    const rotated = provider.signIdToken({ sub: 'g-7' }, nonce);
+    await expect(client.verifyIdToken(rotated, nonce)).rejects.toThrow('No signing key');
+    await expect(client.verifyIdToken(rotated, nonce)).rejects.toThrow('No signing key');
+    expect(fetchSpy).toHaveBeenCalledTimes(fetches);
+  });
+});
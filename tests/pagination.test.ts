@@ -0,0 +1,188 @@
+import React from 'react';
+import { Request } from 'express';
+import { Model } from 'mongoose';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import {
+  parsePagination,
+  paginate,
+  buildLinkHeader,
+  encodeCursor,
+  decodeCursor,
+} from '../src/server/pagination';
+import { DatabaseManager } from '../src/server/database';
+import { StellarProvider } from '../src/core/StellarProvider';
+import { usePaginatedService } from '../src/hooks/usePaginatedService';
+import { useInfiniteService } from '../src/hooks/useInfiniteService';
+import { QueryCache } from '../src/utils/query-cache';
+import { AppConfig } from '../src/types';
+
+// The mongoose driver does not load under jsdom; paginate() only uses the model passed in
+jest.mock('mongoose', () => ({ __esModule: true, default: {} }));
+
+describe('Pagination helpers', () => {
+  it('parses page and limit, capping the limit', () => {
+    expect(parsePagination({})).toEqual({ page: 1, limit: 20, offset: 0 });
+    expect(parsePagination({ page: '3', limit: '500' }, { maxLimit: 50 })).toEqual({
+      page: 3,
+      limit: 50,
+      offset: 100,
+    });
+    expect(() => parsePagination({ page: '0' })).toThrow('"page" must be a positive integer');
+  });
+
+  it('slices a page and links to its neighbours', () => {
+    const result = paginate([1, 2, 3, 4, 5], { page: 2, limit: 2, offset: 2 });
+
+    expect(result).toEqual({
+      data: [3, 4],
+      pagination: {
+        page: 2,
+        limit: 2,
+        total: 5,
+        totalPages: 3,
+        hasNextPage: true,
+        hasPreviousPage: true,
+      },
+    });
+
+    const req = {
+      protocol: 'https',
+      get: () => 'api.example.com',
+      baseUrl: '/api/todos',
+      path: '/',
+      query: { page: '2', completed: 'true' },
+    } as unknown as Request;
+
+    expect(buildLinkHeader(req, result.pagination)).toBe(
+      [
+        '<https://api.example.com/api/todos/?completed=true&page=1&limit=2>; rel="first"',
+        '<https://api.example.com/api/todos/?completed=true&page=1&limit=2>; rel="prev"',
+        '<https://api.example.com/api/todos/?completed=true&page=3&limit=2>; rel="next"',
+        '<https://api.example.com/api/todos/?completed=true&page=3&limit=2>; rel="last"',
+      ].join(', ')
+    );
+  });
+
+  it('round-trips cursors and rejects invalid ones', () => {
+    const cursor = encodeCursor({ value: '2024-01-01T00:00:00.000Z', id: 'abc' });
+
+    expect(decodeCursor(cursor)).toEqual({ value: '2024-01-01T00:00:00.000Z', id: 'abc' });
+    expect(() => decodeCursor('not a cursor')).toThrow('Invalid cursor');
+  });
+
+  it('pages through a collection with a cursor', async () => {
+    const find = jest.fn(() => ({
+      sort: () => ({
+        limit: () => ({ lean: async () => [{ _id: 'a' }, { _id: 'b' }, { _id: 'c' }] }),
+      }),
+    }));
+    const model = { find } as unknown as Model<{ _id: string }>;
+    const db = new DatabaseManager({ uri: 'mongodb://localhost/test' });
+
+    const first = await db.paginate(model, { limit: 2, filter: { active: true } });
+
+    expect(first.data).toEqual([{ _id: 'a' }, { _id: 'b' }]);
+    expect(first.pagination).toMatchObject({ limit: 2, hasNextPage: true });
+
+    await db.paginate(model, { limit: 2, cursor: first.pagination.nextCursor as string });
+
+    expect(find).toHaveBeenLastCalledWith({ $and: [{}, { _id: { $gt: 'b' } }] });
+  });
+
+  it('rejects cursors that would inject query operators', async () => {
+    const find = jest.fn();
+    const model = { find } as unknown as Model<{ _id: string }>;
+    const db = new DatabaseManager({ uri: 'mongodb://localhost/test' });
+
+    for (const position of [
+      { value: { $ne: null }, id: 'a' },
+      { value: 'b', id: { $gt: '' } },
+      { value: 'b' },
+      ['b', 'a'],
+    ]) {
+      await expect(
+        db.paginate(model, { sortField: 'createdAt', cursor: encodeCursor(position) })
+      ).rejects.toThrow('Invalid cursor');
+    }
+    expect(find).not.toHaveBeenCalled();
+  });
+});
+
+describe('Pagination hooks', () => {
+  const createWrapper = (services: AppConfig['services']) => {
+    const config: AppConfig = {
+      apiUrl: 'http://localhost:3000',
+      auth: { jwtSecret: 'test-secret' },
+      services,
+    };
+    const queryCache = new QueryCache();
+
+    return ({ children }: { children: React.ReactNode }) =>
+      React.createElement(StellarProvider, { config, queryCache }, children);
+  };
+
+  const pages: Record<number, string[]> = { 1: ['a', 'b'], 2: ['c'] };
+  const list = jest.fn(async ({ query }: { query: { page?: number } }) => {
+    const page = query.page ?? 1;
+    return {
+      data: pages[page],
+      status: 200,
+      pagination: { page, limit: 2, hasNextPage: page < 2, hasPreviousPage: page > 1 },
+    };
+  });
+
+  beforeEach(() => list.mockClear());
+
+  it('moves between pages', async () => {
+    const { result } = renderHook(() => usePaginatedService<string>('letters', 'list'), {
+      wrapper: createWrapper({ letters: { list } }),
+    });
+
+    await waitFor(() => expect(result.current.data).toEqual(['a', 'b']));
+    expect(result.current.hasNextPage).toBe(true);
+
+    act(() => result.current.nextPage());
+
+    await waitFor(() => expect(result.current.data).toEqual(['c']));
+    expect(result.current.page).toBe(2);
+    expect(result.current.hasNextPage).toBe(false);
+  });
+
+  it('appends pages for infinite lists', async () => {
+    const { result } = renderHook(() => useInfiniteService<string>('letters', 'list'), {
+      wrapper: createWrapper({ letters: { list } }),
+    });
+
+    await waitFor(() => expect(result.current.data).toEqual(['a', 'b']));
+
+    await act(async () => {
+      await result.current.fetchNextPage();
+    });
+
+    expect(result.current.data).toEqual(['a', 'b', 'c']);
+    expect(result.current.pages).toHaveLength(2);
+    expect(result.current.hasNextPage).toBe(false);
+    expect(list).toHaveBeenLastCalledWith({ query: { page: 2 } });
+  });
+
+  it('keeps loaded pages when revalidating on focus', async () => {
+    const { result } = renderHook(() => useInfiniteService<string>('letters', 'list'), {
+      wrapper: createWrapper({ letters: { list } }),
+    });
+
+    await waitFor(() => expect(result.current.data).toEqual(['a', 'b']));
+    await act(async () => {
+      await result.current.fetchNextPage();
+    });
+    list.mockClear();
+
+    act(() => {
+      window.dispatchEvent(new Event('focus'));
+    });
+
+    await waitFor(() => expect(list).toHaveBeenCalledTimes(2));
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    expect(list.mock.calls).toEqual([[{ query: {} }], [{ query: { page: 2 } }]]);
+    expect(result.current.pages).toEqual([['a', 'b'], ['c']]);
+  });
+});
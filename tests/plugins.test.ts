@@ -0,0 +1,134 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { StellarServer } from '../src/server/StellarServer';
+import { createPlugin } from '../src/server/plugins';
+
+const request = (port: number, path: string): Promise<{ status: number; body: unknown }> =>
+  new Promise((resolve, reject) => {
+    http
+      .get({ port, path }, (res) => {
+        let data = '';
+        res.on('data', (chunk) => (data += chunk));
+        res.on('end', () => resolve({ status: res.statusCode || 0, body: JSON.parse(data) }));
+      })
+      .on('error', reject);
+  });
+
+describe('Plugin system', () => {
+  let server: StellarServer;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'warn').mockImplementation();
+    jest.spyOn(console, 'error').mockImplementation();
+    server = new StellarServer({
+      port: 0,
+      auth: { jwtSecret: 'test-secret' },
+      audit: { enabled: false },
+    });
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    jest.restoreAllMocks();
+  });
+
+  it('registers built-in plugins in order', () => {
+    expect(server.getPlugins().map((plugin) => plugin.name)).toEqual([
+      'stellar-request-id',
+      'stellar-health',
+      'stellar-cors',
+      'stellar-security',
+      'stellar-body-parser',
+      'stellar-request-logger',
+      'stellar-manifest',
+    ]);
+  });
+
+  it('rejects duplicate plugins and missing dependencies', () => {
+    const plugin = createPlugin({ name: 'dup', register: () => undefined });
+    server.register(plugin);
+
+    expect(() => server.register(plugin)).toThrow('Plugin "dup" is already registered');
+    expect(() =>
+      server.register(
+        createPlugin({ name: 'child', dependencies: ['missing'], register: () => undefined })
+      )
+    ).toThrow('depends on unregistered plugin(s): missing');
+  });
+
+  it('runs lifecycle hooks and request decorators', async () => {
+    const calls: string[] = [];
+
+    await server.register(
+      createPlugin<{ greeting: string }>({
+        name: 'greeter',
+        register: async (context, options) => {
+          context.decorateRequest('greeting', () => options.greeting);
+          context.addHook('onInit', () => {
+            calls.push('init');
+          });
+          context.addHook('onReady', () => {
+            calls.push('ready');
+          });
+          context.addHook('onRequest', () => {
+            calls.push('request');
+          });
+          context.addHook('onClose', () => {
+            calls.push('close:greeter');
+          });
+          context.registerService({
+            name: 'greet',
+            routes: [
+              {
+                path: '/',
+                method: 'GET',
+                handler: (req, res) => res.json({ greeting: req.greeting }),
+              },
+            ],
+          });
+        },
+      }),
+      { greeting: 'hello' }
+    );
+
+    server.register(
+      createPlugin({
+        name: 'closer',
+        dependencies: ['greeter'],
+        register: (context) => {
+          context.addHook('onClose', () => {
+            calls.push('close:closer');
+          });
+        },
+      })
+    );
+
+    await server.start();
+    const { port } = (server as unknown as { server: http.Server }).server.address() as AddressInfo;
+
+    const response = await request(port, '/api/greet/');
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ greeting: 'hello' });
+
+    await server.stop();
+
+    expect(calls).toEqual(['init', 'ready', 'request', 'close:closer', 'close:greeter']);
+  });
+
+  it('adds the error handlers once across restarts', async () => {
+    // Express error middleware takes four arguments
+    const errorHandlers = () =>
+      (
+        server.getApp() as unknown as { _router: { stack: { handle: { length: number } }[] } }
+      )._router.stack.filter((layer) => layer.handle.length === 4).length;
+
+    await server.start();
+    const added = errorHandlers();
+    await server.stop();
+    await server.start();
+
+    expect(added).toBe(2);
+    expect(errorHandlers()).toBe(added);
+  });
+});
@@ -0,0 +1,183 @@
+import React from 'react';
+import { act, render, screen } from '@testing-library/react';
+import { Request, Response } from 'express';
+import { definePolicies } from '../src/contracts/definePolicies';
+import { AuthService } from '../src/services/auth/AuthService';
+import { AuditEvent, AuditEventType, initializeAuditLogger } from '../src/server/audit';
+import { StellarProvider } from '../src/core/StellarProvider';
+import { Can } from '../src/core/Can';
+import { useAuth } from '../src/hooks/useService';
+
+interface Todo {
+  id: string;
+  ownerId: string;
+}
+
+const policies = definePolicies({
+  roles: {
+    user: {
+      permissions: [
+        'todo:read',
+        { action: 'todo:update', when: (user, todo: Todo) => todo.ownerId === user.id },
+      ],
+    },
+    editor: { inherits: ['user'], permissions: ['todo:update'] },
+    admin: { inherits: ['editor'], permissions: ['*'] },
+  },
+});
+
+const ada = { id: 'ada', email: 'ada@example.com', roles: ['user'] };
+const adasTodo: Todo = { id: 't1', ownerId: 'ada' };
+const otherTodo: Todo = { id: 't2', ownerId: 'bob' };
+
+describe('definePolicies', () => {
+  it('grants role permissions, inherited ones and wildcards', () => {
+    expect(policies.can(ada, 'todo:read')).toBe(true);
+    expect(policies.can(ada, 'todo:delete')).toBe(false);
+    expect(policies.can({ id: 'e', roles: ['editor'] }, 'todo:read')).toBe(true);
+    expect(policies.can({ id: 'a', roles: ['admin'] }, 'user:delete')).toBe(true);
+    expect(policies.can(null, 'todo:read')).toBe(false);
+  });
+
+  it('applies conditional permissions to the resource only', () => {
+    expect(policies.can(ada, 'todo:update', adasTodo)).toBe(true);
+    expect(policies.can(ada, 'todo:update', otherTodo)).toBe(false);
+    expect(policies.can(ada, 'todo:update')).toBe(false);
+    expect(policies.can({ id: 'e', roles: ['editor'] }, 'todo:update', otherTodo)).toBe(true);
+  });
+
+  it('rejects unknown and circular inheritance', () => {
+    expect(() => definePolicies({ roles: { user: { inherits: ['guest'] } } })).toThrow(
+      'unknown role "guest"'
+    );
+    expect(() =>
+      definePolicies({ roles: { a: { inherits: ['b'] }, b: { inherits: ['a'] } } })
+    ).toThrow('inherits from itself');
+  });
+});
+
+describe('AuthService.authorize', () => {
+  const todos: Record<string, Todo> = { t1: adasTodo, t2: otherTodo };
+  let events: AuditEvent[];
+  let auth: AuthService;
+
+  const run = async (user: typeof ada | undefined, id: string) => {
+    const res = {
+      statusCode: 200,
+      body: {} as { error?: string },
+      status: jest.fn((code: number) => Object.assign(res, { statusCode: code })),
+      json: jest.fn((body: { error?: string }) => Object.assign(res, { body })),
+      set: jest.fn(() => res),
+    };
+    const req = { user, params: { id }, headers: {} } as unknown as Request;
+    const next = jest.fn();
+
+    await auth.authorize('todo:update', (r) => todos[r.params.id])(
+      req,
+      res as unknown as Response,
+      next
+    );
+    return { res, req: req as Request & { resource?: Todo }, next };
+  };
+
+  beforeEach(() => {
+    events = [];
+    initializeAuditLogger({
+      save: async (event) => {
+        events.push(event);
+      },
+      query: async () => events,
+    });
+    auth = new AuthService({ jwtSecret: 'test-secret' }, { policies });
+  });
+
+  it('passes the loaded resource on when the user may act on it', async () => {
+    const { req, next } = await run(ada, 't1');
+
+    expect(next).toHaveBeenCalledWith();
+    expect(req.resource).toBe(adasTodo);
+  });
+
+  it('denies with 403 and logs the denial', async () => {
+    const { res, next } = await run(ada, 't2');
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(403);
+    expect(events).toContainEqual(
+      expect.objectContaining({
+        type: AuditEventType.ACCESS_DENIED,
+        action: 'todo:update',
+        resource: { type: 'todo', id: 't2' },
+      })
+    );
+  });
+
+  it('answers 404 for missing resources and 401 without a user', async () => {
+    expect((await run(ada, 'nope')).res.statusCode).toBe(404);
+    expect((await run(undefined, 't1')).res.statusCode).toBe(401);
+  });
+});
+
+describe('<Can>', () => {
+  it('renders children or the fallback for the given user', () => {
+    render(
+      <StellarProvider
+        config={{ apiUrl: 'http://localhost:3000', auth: { jwtSecret: 'test-secret' } }}
+        policies={policies}
+      >
+        <Can action="todo:update" resource={adasTodo} user={ada}>
+          <span>edit own</span>
+        </Can>
+        <Can action="todo:update" resource={otherTodo} user={ada} fallback={<span>read only</span>}>
+          <span>edit other</span>
+        </Can>
+      </StellarProvider>
+    );
+
+    expect(screen.getByText('edit own')).toBeTruthy();
+    expect(screen.getByText('read only')).toBeTruthy();
+    expect(screen.queryByText('edit other')).toBeNull();
+  });
+
+  it('follows a cookie session login through useAuth', async () => {
+    let auth = {} as ReturnType<typeof useAuth>;
+    const Page = () => {
+      auth = useAuth();
+      return (
+        <Can action="todo:read" fallback={<span>signed out</span>}>
+          <span>todos</span>
+        </Can>
+      );
+    };
+    const services = {
+      auth: {
+        login: async () => ({
+          data: { csrfToken: 'csrf', expiresIn: 3600, user: ada },
+          status: 200,
+        }),
+        logout: async () => ({ data: { message: 'Logged out' }, status: 200 }),
+      },
+    };
+
+    render(
+      <StellarProvider
+        config={{ apiUrl: 'http://localhost:3000', auth: { jwtSecret: 'test-secret' }, services }}
+        policies={policies}
+      >
+        <Page />
+      </StellarProvider>
+    );
+    expect(screen.getByText('signed out')).toBeTruthy();
+
+    await act(async () => {
+      await auth.login({ body: { email: ada.email, password: 'secret' } });
+    });
+    expect(screen.getByText('todos')).toBeTruthy();
+    expect(auth.user).toEqual(ada);
+    expect(auth.isAuthenticated).toBe(true);
+
+    await act(() => auth.logout());
+    expect(screen.getByText('signed out')).toBeTruthy();
+    expect(localStorage.length).toBe(0);
+  });
+});
@@ -0,0 +1,392 @@
+import React from 'react';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { QueryCache } from '../src/utils/query-cache';
+import { StellarProvider } from '../src/core/StellarProvider';
+import { useService } from '../src/hooks/useService';
+import { useServiceMutation } from '../src/hooks/useServiceMutation';
+import { AppConfig } from '../src/types';
+
+describe('QueryCache', () => {
+  it('deduplicates concurrent fetches of the same key', async () => {
+    const cache = new QueryCache();
+    const fn = jest.fn().mockResolvedValue('data');
+
+    const results = await Promise.all([
+      cache.fetch(['users', 'list'], fn),
+      cache.fetch(['users', 'list'], fn),
+      cache.fetch(['users', 'list'], fn),
+    ]);
+
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(results).toEqual(['data', 'data', 'data']);
+  });
+
+  it('calls fn for a forced fetch while another is in flight', async () => {
+    const cache = new QueryCache();
+    let resolveFirst: (value: string) => void = () => undefined;
+    const first = cache.fetch(
+      ['users', 'list'],
+      () => new Promise<string>((resolve) => (resolveFirst = resolve))
+    );
+
+    const forced = cache.fetch(['users', 'list'], async () => 'forced', { force: true });
+    expect(await forced).toBe('forced');
+
+    // The replaced request settles for its caller but leaves the cache alone
+    resolveFirst('stale');
+    expect(await first).toBe('stale');
+    expect(cache.getData(['users', 'list'])).toBe('forced');
+  });
+
+  it('serves fresh data and refetches stale data', async () => {
+    const cache = new QueryCache({ staleTime: 1000 });
+    const fn = jest.fn().mockResolvedValueOnce(1).mockResolvedValueOnce(2);
+
+    await cache.fetch(['count'], fn);
+    expect(await cache.fetch(['count'], fn)).toBe(1);
+    expect(fn).toHaveBeenCalledTimes(1);
+
+    expect(await cache.fetch(['count'], fn, { staleTime: 0 })).toBe(2);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('treats object keys in any order as the same query', async () => {
+    const cache = new QueryCache({ staleTime: 1000 });
+    await cache.fetch(['users', { page: 1, size: 10 }], async () => 'page');
+
+    expect(cache.getData(['users', { size: 10, page: 1 }])).toBe('page');
+  });
+
+  it('invalidates queries by key prefix and notifies listeners', async () => {
+    const cache = new QueryCache({ staleTime: 1000 });
+    await cache.fetch(['users', 'list'], async () => []);
+    await cache.fetch(['users', 'get', 1], async () => ({}));
+    await cache.fetch(['posts', 'list'], async () => []);
+
+    const listener = jest.fn();
+    cache.subscribe(['users', 'list'], listener);
+
+    const keys = cache.invalidate(['users']);
+
+    expect(keys).toEqual([
+      ['users', 'list'],
+      ['users', 'get', 1],
+    ]);
+    expect(listener).toHaveBeenCalled();
+    expect(cache.isStale(['users', 'list'])).toBe(true);
+    expect(cache.isStale(['posts', 'list'])).toBe(false);
+  });
+
+  it('garbage collects unused entries after cacheTime', async () => {
+    jest.useFakeTimers();
+    try {
+      const cache = new QueryCache({ cacheTime: 100 });
+      const unsubscribe = cache.subscribe(['key'], () => undefined);
+      cache.setData(['key'], 'value');
+
+      jest.advanceTimersByTime(200);
+      expect(cache.getData(['key'])).toBe('value');
+
+      unsubscribe();
+      jest.advanceTimersByTime(200);
+      expect(cache.getData(['key'])).toBeUndefined();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('cancels in-flight fetches and keeps the previous data', async () => {
+    const cache = new QueryCache();
+    cache.setData(['users', 'list'], ['cached']);
+
+    let signal!: AbortSignal;
+    const request = cache.fetch(
+      ['users', 'list'],
+      (fetchSignal) => {
+        signal = fetchSignal;
+        return new Promise(() => undefined);
+      },
+      { force: true }
+    );
+    await Promise.resolve();
+
+    cache.cancel(['users']);
+
+    await expect(request).rejects.toMatchObject({ name: 'AbortError' });
+    expect(signal.aborted).toBe(true);
+    expect(cache.getState(['users', 'list'])).toMatchObject({
+      data: ['cached'],
+      error: null,
+      status: 'success',
+      isFetching: false,
+    });
+  });
+
+  it('round-trips state through dehydrate and hydrate', () => {
+    const server = new QueryCache();
+    server.setData(['users', 'list'], [{ id: 1 }]);
+
+    const client = new QueryCache();
+    client.hydrate(JSON.parse(JSON.stringify(server.dehydrate())));
+
+    expect(client.getData(['users', 'list'])).toEqual([{ id: 1 }]);
+  });
+});
+
+describe('useService caching', () => {
+  const createWrapper = (services: AppConfig['services'], cache = new QueryCache()) => {
+    const config: AppConfig = {
+      apiUrl: 'http://localhost:3000',
+      auth: { jwtSecret: 'test-secret' },
+      services,
+    };
+
+    return ({ children }: { children: React.ReactNode }) =>
+      React.createElement(StellarProvider, { config, queryCache: cache }, children);
+  };
+
+  it('shares one request between hooks using the same query', async () => {
+    const list = jest.fn().mockResolvedValue({ data: ['a', 'b'], status: 200 });
+    const wrapper = createWrapper({ users: { list } });
+
+    const { result } = renderHook(
+      () => [
+        useService<string[]>('users', 'list', { immediate: true }),
+        useService<string[]>('users', 'list', { immediate: true }),
+        useService<string[]>('users', 'list', { immediate: true }),
+      ],
+      { wrapper }
+    );
+
+    await waitFor(() => expect(result.current[0].data).toEqual(['a', 'b']));
+    expect(result.current[2].data).toEqual(['a', 'b']);
+    expect(list).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends every execute() call, cached or not', async () => {
+    const create = jest.fn(async (title: string) => ({ data: title, status: 201 }));
+    const list = jest.fn().mockResolvedValue({ data: [], status: 200 });
+    const cache = new QueryCache();
+    const wrapper = createWrapper({ todos: { create, list } }, cache);
+
+    const { result } = renderHook(
+      () => ({
+        create: useService<string>('todos', 'create'),
+        list: useService<string[]>('todos', 'list', { immediate: true }),
+      }),
+      { wrapper }
+    );
+    await waitFor(() => expect(list).toHaveBeenCalledTimes(1));
+
+    await act(async () => {
+      await Promise.all([
+        result.current.list.execute(),
+        result.current.list.execute(),
+        result.current.create.execute('a').catch(() => undefined),
+        result.current.create.execute('a'),
+      ]);
+    });
+
+    expect(list).toHaveBeenCalledTimes(3);
+    expect(create).toHaveBeenCalledTimes(2);
+    // Writes are not cached unless asked to
+    expect(cache.getState(['todos', 'create', 'a']).status).toBe('idle');
+  });
+
+  it('refetches mounted queries when invalidated', async () => {
+    const list = jest
+      .fn()
+      .mockResolvedValueOnce({ data: 1, status: 200 })
+      .mockResolvedValueOnce({ data: 2, status: 200 });
+    const cache = new QueryCache();
+    const wrapper = createWrapper({ users: { list } }, cache);
+
+    const { result } = renderHook(
+      () => useService<number>('users', 'list', { immediate: true, staleTime: 60000 }),
+      { wrapper }
+    );
+
+    await waitFor(() => expect(result.current.data).toBe(1));
+
+    act(() => {
+      cache.invalidate(['users']);
+    });
+
+    await waitFor(() => expect(result.current.data).toBe(2));
+    expect(list).toHaveBeenCalledTimes(2);
+  });
+
+  it('only shows the result for the latest arguments', async () => {
+    const resolvers: Record<string, (value: unknown) => void> = {};
+    const search = jest.fn(
+      (term: string) =>
+        new Promise((resolve) => {
+          resolvers[term] = resolve;
+        })
+    );
+    const wrapper = createWrapper({ users: { search } });
+
+    const { result, rerender } = renderHook(
+      ({ term }) => useService<string>('users', 'search', { immediate: true, args: [term] }),
+      { wrapper, initialProps: { term: 'a' } }
+    );
+    await waitFor(() => expect(search).toHaveBeenCalledWith('a'));
+
+    rerender({ term: 'ab' });
+    await waitFor(() => expect(search).toHaveBeenCalledWith('ab'));
+
+    await act(async () => {
+      resolvers.a({ data: 'a', status: 200 });
+      resolvers.ab({ data: 'ab', status: 200 });
+    });
+
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    expect(result.current.data).toBe('ab');
+  });
+
+  it('treats an error response from a local service as a failure', async () => {
+    const get = jest.fn().mockResolvedValue({ error: 'User not found', status: 404 });
+    const wrapper = createWrapper({ users: { get } });
+
+    const { result } = renderHook(
+      () => useService<string>('users', 'get', { immediate: true, args: ['1'] }),
+      { wrapper }
+    );
+
+    await waitFor(() => expect(result.current.error?.message).toBe('User not found'));
+    expect(result.current.data).toBeNull();
+  });
+
+  it('applies optimistic updates and rolls them back on error', async () => {
+    const cache = new QueryCache();
+    cache.setData(['todos', 'list'], { data: [{ id: '1', completed: false }], status: 200 });
+
+    const toggle = jest.fn().mockRejectedValue(new Error('Server down'));
+    const onError = jest.fn();
+    const wrapper = createWrapper({ todos: { toggle } }, cache);
+    let optimisticValue: unknown;
+
+    const { result } = renderHook(
+      () =>
+        useServiceMutation<unknown, string>('todos', 'toggle', {
+          optimistic: [
+            {
+              queryKey: ['todos', 'list'],
+              update: (todos: { id: string; completed: boolean }[] = [], id) =>
+                todos.map((todo) => (todo.id === id ? { ...todo, completed: true } : todo)),
+            },
+          ],
+          onMutate: () => {
+            optimisticValue = cache.getData(['todos', 'list']);
+            return 'context';
+          },
+          onError,
+        }),
+      { wrapper }
+    );
+
+    await act(async () => {
+      await expect(result.current.mutateAsync('1')).rejects.toThrow('Server down');
+    });
+
+    expect(optimisticValue).toEqual({ data: [{ id: '1', completed: true }], status: 200 });
+    expect(cache.getData(['todos', 'list'])).toEqual({
+      data: [{ id: '1', completed: false }],
+      status: 200,
+    });
+    expect(onError).toHaveBeenCalledWith(expect.any(Error), '1', 'context');
+    expect(result.current.error?.message).toBe('Server down');
+  });
+
+  it('rolls back when the service returns an error instead of throwing', async () => {
+    const cache = new QueryCache();
+    cache.setData(['todos', 'list'], { data: ['a'], status: 200 });
+
+    const remove = jest.fn().mockResolvedValue({ error: 'Todo is locked', status: 409 });
+    const onError = jest.fn();
+    const wrapper = createWrapper({ todos: { remove } }, cache);
+
+    const { result } = renderHook(
+      () =>
+        useServiceMutation<void, string>('todos', 'remove', {
+          optimistic: [
+            {
+              queryKey: ['todos', 'list'],
+              update: (todos: string[] = [], id) => todos.filter((todo) => todo !== id),
+            },
+          ],
+          onError,
+        }),
+      { wrapper }
+    );
+
+    await act(async () => {
+      await expect(result.current.mutateAsync('a')).rejects.toThrow('Todo is locked');
+    });
+
+    expect(cache.getData(['todos', 'list'])).toEqual({ data: ['a'], status: 200 });
+    expect(onError).toHaveBeenCalledWith(expect.any(Error), 'a', undefined);
+  });
+
+  it('cancels refetches of optimistic queries before updating them', async () => {
+    const cache = new QueryCache();
+    cache.setData(['todos', 'list'], { data: [{ id: '1', completed: false }], status: 200 });
+
+    let respond: (value: unknown) => void = () => undefined;
+    const refetch = cache
+      .fetch(['todos', 'list'], () => new Promise((resolve) => (respond = resolve)), {
+        force: true,
+      })
+      .catch((error: Error) => error);
+
+    const toggle = jest.fn().mockResolvedValue({ data: { id: '1', completed: true }, status: 200 });
+    const wrapper = createWrapper({ todos: { toggle } }, cache);
+
+    const { result } = renderHook(
+      () =>
+        useServiceMutation<unknown, string>('todos', 'toggle', {
+          optimistic: [
+            {
+              queryKey: ['todos', 'list'],
+              update: (todos: { id: string; completed: boolean }[] = [], id) =>
+                todos.map((todo) => (todo.id === id ? { ...todo, completed: true } : todo)),
+            },
+          ],
+        }),
+      { wrapper }
+    );
+
+    await act(async () => {
+      await result.current.mutateAsync('1');
+    });
+
+    // The refetch sent before the toggle answers with the old list
+    respond({ data: [{ id: '1', completed: false }], status: 200 });
+    await expect(refetch).resolves.toMatchObject({ name: 'AbortError' });
+    expect(cache.getData(['todos', 'list'])).toEqual({
+      data: [{ id: '1', completed: true }],
+      status: 200,
+    });
+  });
+
+  it('invalidates related queries after a successful mutation', async () => {
+    const cache = new QueryCache({ staleTime: 60000 });
+    cache.setData(['todos', 'list'], { data: [], status: 200 });
+
+    const create = jest.fn().mockResolvedValue({ data: { id: '2' }, status: 201 });
+    const wrapper = createWrapper({ todos: { create } }, cache);
+
+    const { result } = renderHook(
+      () => useServiceMutation('todos', 'create', { invalidates: [['todos']] }),
+      { wrapper }
+    );
+
+    await act(async () => {
+      await result.current.mutateAsync({ title: 'New' });
+    });
+
+    expect(create).toHaveBeenCalledWith({ title: 'New' });
+    expect(result.current.data).toEqual({ id: '2' });
+    expect(cache.isStale(['todos', 'list'])).toBe(true);
+  });
+});
@@ -0,0 +1,163 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import bcrypt from 'bcryptjs';
+import { AuthService } from '../src/services/auth/AuthService';
+import { StellarServer } from '../src/server/StellarServer';
+import { sendServiceRequest } from '../src/utils/service-client';
+import { CSRF_COOKIE_NAME, withCsrfHeader } from '../src/utils/csrf';
+
+const PASSWORD = 'Correct-Horse-9';
+
+interface TestResponse {
+  status: number;
+  cookies: string[];
+  body: Record<string, unknown>;
+}
+
+const send = (
+  port: number,
+  method: string,
+  path: string,
+  headers: Record<string, string> = {},
+  body?: unknown
+) =>
+  new Promise<TestResponse>((resolve, reject) => {
+    const payload = body === undefined ? undefined : JSON.stringify(body);
+    const req = http.request(
+      {
+        port,
+        method,
+        path,
+        headers: payload ? { ...headers, 'Content-Type': 'application/json' } : headers,
+      },
+      (res) => {
+        let data = '';
+        res.on('data', (chunk) => (data += chunk));
+        res.on('end', () =>
+          resolve({
+            status: res.statusCode || 0,
+            cookies: res.headers['set-cookie'] || [],
+            body: data ? JSON.parse(data) : {},
+          })
+        );
+      }
+    );
+    req.on('error', reject);
+    req.end(payload);
+  });
+
+// name=value pairs of Set-Cookie headers, as a Cookie header
+const toCookieHeader = (cookies: string[]) =>
+  cookies.map((cookie) => cookie.split(';')[0]).join('; ');
+
+describe('Cookie sessions', () => {
+  let server: StellarServer;
+  let port: number;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'warn').mockImplementation();
+
+    const auth = new AuthService({ jwtSecret: 'test-secret', bcryptRounds: 4, session: {} });
+    await auth.getUserStore().create({
+      email: 'ada@example.com',
+      passwordHash: await bcrypt.hash(PASSWORD, 4),
+      roles: ['user'],
+    });
+
+    server = new StellarServer({
+      port: 0,
+      auth: { jwtSecret: 'test-secret' },
+      audit: { enabled: false },
+      security: { helmet: false, rateLimit: false, xss: false, sanitization: false, csrf: true },
+    });
+    server.registerService(auth.getServiceConfig());
+    await server.start();
+    port = ((server as unknown as { server: http.Server }).server.address() as AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    jest.restoreAllMocks();
+  });
+
+  const login = () =>
+    send(port, 'POST', '/api/auth/login', {}, { email: 'ada@example.com', password: PASSWORD });
+
+  it('signs in with an HttpOnly session cookie and requires the CSRF token', async () => {
+    const res = await login();
+
+    expect(res.status).toBe(200);
+    expect(res.body.token).toBeUndefined();
+    expect(res.body.csrfToken).toEqual(expect.any(String));
+
+    const sessionCookie = res.cookies.find((cookie) => cookie.startsWith('stellar.sid='));
+    expect(sessionCookie).toMatch(/HttpOnly/);
+    expect(sessionCookie).toMatch(/SameSite=Lax/);
+    expect(res.cookies).toContainEqual(
+      expect.stringContaining(`${CSRF_COOKIE_NAME}=${res.body.csrfToken}`)
+    );
+
+    const cookie = toCookieHeader(res.cookies);
+    const sessions = await send(port, 'GET', '/api/auth/sessions', { cookie });
+    expect(sessions.status).toBe(200);
+    expect(sessions.body.sessions).toEqual([expect.objectContaining({ current: true })]);
+
+    const forged = await send(port, 'POST', '/api/auth/logout', { cookie });
+    expect(forged.status).toBe(403);
+
+    const logout = await send(port, 'POST', '/api/auth/logout', {
+      cookie,
+      'X-CSRF-Token': res.body.csrfToken as string,
+    });
+    expect(logout.status).toBe(200);
+    expect(logout.cookies).toContainEqual(expect.stringMatching(/^stellar\.sid=;/));
+
+    expect((await send(port, 'GET', '/api/auth/sessions', { cookie })).status).toBe(401);
+  });
+
+  it('rejects session cookies with an altered signature', async () => {
+    const res = await login();
+    const cookie = toCookieHeader(res.cookies).replace(
+      /stellar\.sid=([^.]+)\.\w/,
+      'stellar.sid=$1.x'
+    );
+
+    expect((await send(port, 'GET', '/api/auth/sessions', { cookie })).status).toBe(401);
+  });
+
+  it('sets a CSRF cookie and lets requests without cookies through', async () => {
+    const res = await send(port, 'GET', '/api/auth/sessions');
+
+    expect(res.status).toBe(401);
+    expect(res.cookies).toContainEqual(expect.stringMatching(/^stellar\.csrf=[\w-]+;/));
+  });
+});
+
+describe('Client CSRF header', () => {
+  afterEach(() => {
+    document.cookie = `${CSRF_COOKIE_NAME}=; expires=Thu, 01 Jan 1970 00:00:00 GMT`;
+  });
+
+  it('adds the CSRF cookie to state-changing requests only', async () => {
+    document.cookie = `${CSRF_COOKIE_NAME}=abc123`;
+
+    expect(withCsrfHeader({ method: 'GET' })).toEqual({ method: 'GET' });
+    expect(withCsrfHeader({ method: 'DELETE', headers: [['Accept', 'text/plain']] })).toEqual({
+      method: 'DELETE',
+      headers: { Accept: 'text/plain', 'X-CSRF-Token': 'abc123' },
+    });
+
+    const fetchMock = jest.fn(async () => ({ ok: true, status: 200, text: async () => '' }));
+    await sendServiceRequest(
+      '/api/auth',
+      { method: 'POST', path: '/logout' },
+      {},
+      { fetch: fetchMock as unknown as typeof fetch, getToken: () => null }
+    );
+    expect(fetchMock).toHaveBeenCalledWith(
+      '/api/auth/logout',
+      expect.objectContaining({ headers: expect.objectContaining({ 'X-CSRF-Token': 'abc123' }) })
+    );
+  });
+});
@@ -0,0 +1,181 @@
+import http from 'http';
+import { EventEmitter } from 'events';
+import { AddressInfo } from 'net';
+import { Request, Response } from 'express';
+import { StellarServer } from '../src/server/StellarServer';
+import { ShutdownManager } from '../src/server/shutdown';
+
+// A request that stays in flight until `finish` is emitted
+const startRequest = (manager: ShutdownManager) => {
+  const res = Object.assign(new EventEmitter(), { setHeader: jest.fn() });
+  manager.middleware()({} as Request, res as unknown as Response, jest.fn());
+  return res;
+};
+
+describe('Graceful shutdown', () => {
+  let error: jest.SpyInstance;
+  let warn: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation();
+    warn = jest.spyOn(console, 'warn').mockImplementation();
+    error = jest.spyOn(console, 'error').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('lets in-flight requests finish before stopping the server', async () => {
+    let release = () => undefined;
+    let started = () => undefined;
+    const handlerStarted = new Promise<void>((resolve) => (started = resolve));
+    const closed: string[] = [];
+
+    const server = new StellarServer({
+      port: 0,
+      audit: { enabled: false },
+      shutdown: { handleSignals: false },
+    });
+    server.registerService({
+      name: 'reports',
+      routes: [
+        {
+          method: 'GET',
+          path: '/slow',
+          handler: async (req, res) => {
+            started();
+            await new Promise<void>((resolve) => (release = resolve));
+            closed.push('request');
+            res.json({ success: true, data: 'done' });
+          },
+        },
+      ],
+    });
+    server.onShutdown('database', () => {
+      closed.push('database');
+    });
+    await server.start();
+
+    const { port } = (server as unknown as { server: http.Server }).server.address() as AddressInfo;
+    const response = new Promise<{ status: number; body: string }>((resolve, reject) => {
+      http
+        .get({ port, path: '/api/reports/slow' }, (res) => {
+          let data = '';
+          res.on('data', (chunk) => (data += chunk));
+          res.on('end', () => resolve({ status: res.statusCode || 0, body: data }));
+        })
+        .on('error', reject);
+    });
+    await handlerStarted;
+
+    const stopped = server.stop();
+    expect(server.getHealth().status).toBe('draining');
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(closed).toEqual([]);
+
+    release();
+    await expect(response).resolves.toEqual({
+      status: 200,
+      body: JSON.stringify({ success: true, data: 'done' }),
+    });
+    await stopped;
+    expect(closed).toEqual(['request', 'database']);
+  });
+
+  it('runs hooks in reverse registration order', async () => {
+    const manager = new ShutdownManager({ handleSignals: false });
+    const order: string[] = [];
+    manager.addHook('database', () => {
+      order.push('database');
+    });
+    manager.addHook('queue', async () => {
+      order.push('queue');
+    });
+    manager.addHook('failing', () => {
+      throw new Error('flush failed');
+    });
+    manager.addHook('audit', () => {
+      order.push('audit');
+    });
+
+    await manager.shutdown();
+
+    expect(order).toEqual(['audit', 'queue', 'database']);
+    expect(error).toHaveBeenCalledWith(
+      '[Shutdown] ERROR:',
+      'Shutdown hook "failing" failed:',
+      expect.any(Error)
+    );
+    expect(manager.getState()).toBe('stopped');
+  });
+
+  it('moves on to the next hook when one times out', async () => {
+    jest.useFakeTimers();
+    const manager = new ShutdownManager({ handleSignals: false, hookTimeout: 1000 });
+    const database = jest.fn();
+    manager.addHook('database', database);
+    manager.addHook('stuck', () => new Promise<void>(() => undefined));
+
+    let done = false;
+    manager.shutdown().then(() => (done = true));
+
+    await jest.advanceTimersByTimeAsync(999);
+    expect(database).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(database).toHaveBeenCalled();
+    expect(done).toBe(true);
+    expect(error).toHaveBeenCalledWith(
+      '[Shutdown] ERROR:',
+      'Shutdown hook "stuck" failed:',
+      new Error('timed out after 1000ms')
+    );
+  });
+
+  it('stops waiting for requests at the deadline', async () => {
+    jest.useFakeTimers();
+    const manager = new ShutdownManager({ handleSignals: false, timeout: 5000 });
+    const hook = jest.fn();
+    manager.addHook('database', hook);
+    startRequest(manager);
+
+    let done = false;
+    manager.shutdown().then(() => (done = true));
+
+    await jest.advanceTimersByTimeAsync(4999);
+    expect(manager.isDraining()).toBe(true);
+    expect(hook).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(done).toBe(true);
+    expect(hook).toHaveBeenCalled();
+    expect(manager.getActiveRequests()).toBe(1);
+    expect(warn).toHaveBeenCalledWith(
+      '[Shutdown] WARN:',
+      'Shutdown deadline of 5000ms reached with 1 request(s) in flight'
+    );
+  });
+
+  it('drains on the first signal and exits at once on the second', async () => {
+    const exit = jest.spyOn(process, 'exit').mockImplementation((() => undefined) as never);
+    const listeners = process.listenerCount('SIGTERM');
+    const manager = new ShutdownManager({ signals: ['SIGTERM'] });
+    manager.listenForSignals();
+
+    const res = startRequest(manager);
+    process.emit('SIGTERM', 'SIGTERM');
+    expect(manager.isDraining()).toBe(true);
+    expect(exit).not.toHaveBeenCalled();
+
+    process.emit('SIGTERM', 'SIGTERM');
+    expect(exit).toHaveBeenCalledWith(1);
+
+    res.emit('finish');
+    await manager.shutdown();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(exit).toHaveBeenLastCalledWith(0);
+    expect(process.listenerCount('SIGTERM')).toBe(listeners);
+  });
+});
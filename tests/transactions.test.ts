@@ -0,0 +1,144 @@
+interface FakeSession {
+  log: string[];
+  active: boolean;
+  startTransaction: () => void;
+  commitTransaction: () => Promise<void>;
+  abortTransaction: () => Promise<void>;
+  endSession: () => Promise<void>;
+  inTransaction: () => boolean;
+}
+
+const session: FakeSession = {
+  log: [],
+  active: false,
+  startTransaction: () => {
+    session.active = true;
+    session.log.push('start');
+  },
+  commitTransaction: async () => {
+    session.active = false;
+    session.log.push('commit');
+  },
+  abortTransaction: async () => {
+    session.active = false;
+    session.log.push('abort');
+  },
+  endSession: async () => {
+    session.log.push('end');
+  },
+  inTransaction: () => session.active,
+};
+
+// The mongoose driver does not load under jsdom; the connection is faked
+jest.mock('mongoose', () => ({
+  __esModule: true,
+  default: {
+    createConnection: () => {
+      const connection = {
+        readyState: 1,
+        on: () => undefined,
+        close: async () => undefined,
+        startSession: async () => session,
+        asPromise: async () => connection,
+      };
+      return connection;
+    },
+  },
+}));
+
+import { DatabaseManager } from '../src/server/database';
+import { afterCommit, getTransactionSession } from '../src/server/transactions';
+import {
+  AuditEvent,
+  AuditEventType,
+  getAuditLogger,
+  initializeAuditLogger,
+} from '../src/server/audit';
+
+// Error the driver labels as safe to retry, e.g. a write conflict
+const transientError = () =>
+  Object.assign(new Error('WriteConflict'), {
+    hasErrorLabel: (label: string) => label === 'TransientTransactionError',
+  });
+
+describe('DatabaseManager.withTransaction', () => {
+  let db: DatabaseManager;
+  let events: AuditEvent[];
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'warn').mockImplementation();
+    session.log = [];
+    events = [];
+    initializeAuditLogger({
+      save: async (event) => {
+        events.push(event);
+      },
+      query: async () => events,
+    });
+
+    db = new DatabaseManager({ uri: 'mongodb://primary/app' });
+    await db.connect();
+  });
+
+  afterEach(async () => {
+    await db.disconnect();
+    jest.restoreAllMocks();
+  });
+
+  it('shares the session and defers audit events and effects until commit', async () => {
+    const sent: string[] = [];
+
+    const result = await db.withTransaction(async (tx) => {
+      expect(getTransactionSession(db)).toBe(session);
+      await getAuditLogger().log({ type: AuditEventType.DATA_CREATED, action: 'create order' });
+      await afterCommit(() => sent.push('confirmation'));
+
+      // Nested calls join the outer transaction
+      await db.withTransaction(async (inner) => expect(inner).toBe(tx));
+
+      expect(events).toEqual([]);
+      expect(sent).toEqual([]);
+      return 'order-1';
+    });
+
+    expect(result).toBe('order-1');
+    expect(session.log).toEqual(['start', 'commit', 'end']);
+    expect(events.map((event) => event.type)).toEqual([AuditEventType.DATA_CREATED]);
+    expect(sent).toEqual(['confirmation']);
+    expect(getTransactionSession(db)).toBeUndefined();
+  });
+
+  it('retries transient errors and drops what the failed attempt deferred', async () => {
+    const sent: string[] = [];
+
+    await db.withTransaction(async (tx) => {
+      tx.afterCommit(() => sent.push(`attempt ${tx.attempt}`));
+      await getAuditLogger().log({ type: AuditEventType.DATA_UPDATED, action: 'update stock' });
+      if (tx.attempt === 1) {
+        throw transientError();
+      }
+    });
+
+    expect(session.log).toEqual(['start', 'abort', 'start', 'commit', 'end']);
+    expect(sent).toEqual(['attempt 2']);
+    expect(events).toHaveLength(1);
+  });
+
+  it('aborts on other errors but keeps failure audit events', async () => {
+    await expect(
+      db.withTransaction(async () => {
+        await getAuditLogger().log({ type: AuditEventType.DATA_CREATED, action: 'create order' });
+        await getAuditLogger().log({
+          type: AuditEventType.ACCESS_DENIED,
+          action: 'reserve stock',
+          result: 'failure',
+        });
+        throw new Error('Out of stock');
+      })
+    ).rejects.toThrow('Out of stock');
+
+    expect(session.log).toEqual(['start', 'abort', 'end']);
+    expect(events.map((event) => event.type)).toEqual([AuditEventType.ACCESS_DENIED]);
+  });
+});